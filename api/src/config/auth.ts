@@ -0,0 +1,13 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const authConfig = {
+    // Shared with the chat server ([auth] secret in its credentials.toml),
+    // which verifies the access tokens presented in the WebSocket handshake
+    secret: process.env.AUTH_SECRET || '',
+    accessTokenTtl: process.env.ACCESS_TOKEN_TTL || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+};
+
+export default authConfig;
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyToken } from '../utils/auth';
+
+declare global {
+    namespace Express {
+        interface Request {
+            userId?: string;
+        }
+    }
+}
+
+// Requires a valid access token in the Authorization header and exposes its user as req.userId
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+    }
+
+    const claims = verifyToken(header.slice('Bearer '.length), 'access');
+    if (!claims) {
+        res.status(401).json({ error: 'Invalid or expired token' });
+        return;
+    }
+
+    req.userId = claims.sub;
+    next();
+};
+
+// Requires a service token (signed with the shared secret) from another backend
+export const requireService = (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+    }
+
+    if (!verifyToken(header.slice('Bearer '.length), 'service')) {
+        res.status(401).json({ error: 'Invalid or expired token' });
+        return;
+    }
+
+    next();
+};
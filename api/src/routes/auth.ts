@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { query } from '../utils/db';
+import { hashPassword, verifyPassword, signAccessToken, signRefreshToken, verifyToken } from '../utils/auth';
+import { requireAuth } from '../middleware/auth';
+import { User, AuthResponse, USER_COLUMNS } from '../types';
+
+const router = Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Issue an access token and a fresh, revocable refresh token for the user
+const issueTokens = async (user: User): Promise<AuthResponse> => {
+    const refresh = signRefreshToken(user.id);
+    await query(
+        'INSERT INTO refresh_tokens (id, user_id, expires_at) VALUES ($1, $2, $3)',
+        [refresh.tokenId, user.id, refresh.expiresAt]
+    );
+    return {
+        user,
+        accessToken: signAccessToken(user.id),
+        refreshToken: refresh.token
+    };
+};
+
+// Register a new user
+router.post('/signup', async (req, res) => {
+    const { username, password, display_name, avatar_url } = req.body;
+
+    if (typeof username !== 'string' || username.trim().length === 0) {
+        res.status(400).json({ error: 'Username is required' });
+        return;
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        return;
+    }
+
+    try {
+        const existingUser = await query<User>('SELECT id FROM users WHERE username = $1', [username]);
+        if (existingUser.rows.length > 0) {
+            res.status(409).json({ error: 'Username already exists' });
+            return;
+        }
+
+        const passwordHash = await hashPassword(password);
+        const result = await query<User>(
+            `INSERT INTO users (username, display_name, avatar_url, password_hash) VALUES ($1, $2, $3, $4) RETURNING ${USER_COLUMNS}`,
+            [username, display_name, avatar_url, passwordHash]
+        );
+        res.status(201).json(await issueTokens(result.rows[0]));
+    } catch (error) {
+        console.error('Error signing up user:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Log in with username and password
+router.post('/login', async (req, res) => {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+        res.status(400).json({ error: 'Username and password are required' });
+        return;
+    }
+
+    try {
+        const result = await query<User & { password_hash: string | null }>(
+            `SELECT ${USER_COLUMNS}, password_hash FROM users WHERE username = $1`,
+            [username]
+        );
+        const row = result.rows[0];
+        if (!row || !row.password_hash || !(await verifyPassword(password, row.password_hash))) {
+            res.status(401).json({ error: 'Invalid username or password' });
+            return;
+        }
+
+        const { password_hash: _passwordHash, ...user } = row;
+        res.json(await issueTokens(user));
+    } catch (error) {
+        console.error('Error logging in user:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Exchange a refresh token for new tokens; the old refresh token is revoked
+router.post('/refresh', async (req, res) => {
+    const { refreshToken } = req.body;
+    const claims = typeof refreshToken === 'string' ? verifyToken(refreshToken, 'refresh') : null;
+    if (!claims || !claims.jti) {
+        res.status(401).json({ error: 'Invalid refresh token' });
+        return;
+    }
+
+    try {
+        const revoked = await query(
+            'UPDATE refresh_tokens SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW() RETURNING id',
+            [claims.jti, claims.sub]
+        );
+        if (revoked.rows.length === 0) {
+            res.status(401).json({ error: 'Invalid refresh token' });
+            return;
+        }
+
+        const result = await query<User>(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [claims.sub]);
+        if (result.rows.length === 0) {
+            res.status(401).json({ error: 'Invalid refresh token' });
+            return;
+        }
+        res.json(await issueTokens(result.rows[0]));
+    } catch (error) {
+        console.error('Error refreshing tokens:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Revoke a refresh token; access tokens expire on their own
+router.post('/logout', async (req, res) => {
+    const { refreshToken } = req.body;
+    const claims = typeof refreshToken === 'string' ? verifyToken(refreshToken, 'refresh') : null;
+
+    try {
+        if (claims?.jti) {
+            await query(
+                'UPDATE refresh_tokens SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+                [claims.jti]
+            );
+        }
+        res.status(204).send();
+    } catch (error) {
+        console.error('Error logging out user:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Get the logged-in user
+router.get('/me', requireAuth, async (req, res) => {
+    try {
+        const result = await query<User>(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [req.userId]);
+        if (result.rows.length === 0) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+        res.json(result.rows[0]);
+    } catch (error) {
+        console.error('Error fetching current user:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { query } from '../utils/db';
+import { getServerAccess } from '../utils/permissions';
 import { Channel } from '../types';
 
 const router = Router();
@@ -45,12 +46,16 @@ router.get('/:id', async (req, res) => {
 router.post('/', async (req, res) => {
     const { name, server_id } = req.body;
     try {
-        // First check if server exists
-        const serverResult = await query('SELECT id FROM servers WHERE id = $1', [server_id]);
-        if (serverResult.rows.length === 0) {
+        // First check if server exists and belongs to the user
+        const access = await getServerAccess(server_id, req.userId);
+        if (access === 'missing') {
             res.status(500).json({ error: 'Server not found' });
             return;
         }
+        if (access === 'forbidden') {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
 
         const result = await query<Channel>(
             'INSERT INTO channels (name, server_id) VALUES ($1, $2) RETURNING *',
@@ -74,6 +79,16 @@ router.post('/', async (req, res) => {
 router.put('/:id', async (req, res) => {
     const { name } = req.body;
     try {
+        const channelResult = await query<Channel>('SELECT server_id FROM channels WHERE id = $1', [req.params.id]);
+        if (channelResult.rows.length === 0) {
+            res.status(404).json({ error: 'Channel not found' });
+            return;
+        }
+        if (await getServerAccess(channelResult.rows[0].server_id, req.userId) !== 'owner') {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
         const result = await query<Channel>(
             'UPDATE channels SET name = $1 WHERE id = $2 RETURNING *',
             [name, req.params.id]
@@ -100,6 +115,10 @@ router.delete('/:id', async (req, res) => {
         }
 
         const server_id = channelResult.rows[0].server_id;
+        if (await getServerAccess(server_id, req.userId) !== 'owner') {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
 
         // Delete the channel
         await query('DELETE FROM channels WHERE id = $1', [req.params.id]);
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { query } from '../utils/db';
+import { DirectChannel, MAX_DIRECT_PARTICIPANTS } from '../types';
+
+const router = Router();
+
+// List the caller's direct conversations, newest first
+router.get('/', async (req, res) => {
+    try {
+        const result = await query<DirectChannel>(
+            'SELECT * FROM direct_channels WHERE $1 = ANY(participants) ORDER BY created_at DESC',
+            [req.userId]
+        );
+        res.json(result.rows);
+    } catch (error) {
+        console.error('Error fetching direct channels:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Get a direct conversation the caller takes part in
+router.get('/:id', async (req, res) => {
+    try {
+        const result = await query<DirectChannel>(
+            'SELECT * FROM direct_channels WHERE id::text = $1 AND $2 = ANY(participants)',
+            [req.params.id, req.userId]
+        );
+        // Other people's conversations are indistinguishable from missing ones
+        if (result.rows.length === 0) {
+            res.status(404).json({ error: 'Direct channel not found' });
+            return;
+        }
+        res.json(result.rows[0]);
+    } catch (error) {
+        console.error('Error fetching direct channel:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Open a DM with `userIds`; one user makes a DM, several a group DM. Opening
+// an existing conversation returns it instead of creating another.
+router.post('/', async (req, res) => {
+    const { userIds } = req.body;
+    if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(id => typeof id === 'string')) {
+        res.status(400).json({ error: 'userIds must be a non-empty array of user IDs' });
+        return;
+    }
+
+    // The caller is always a participant
+    const participants = Array.from(new Set([req.userId as string, ...userIds])).sort();
+    if (participants.length < 2) {
+        res.status(400).json({ error: 'A direct message needs another participant' });
+        return;
+    }
+    if (participants.length > MAX_DIRECT_PARTICIPANTS) {
+        res.status(400).json({ error: `A direct message can have at most ${MAX_DIRECT_PARTICIPANTS} participants` });
+        return;
+    }
+
+    try {
+        const found = await query<{ count: string }>(
+            'SELECT COUNT(*) AS count FROM users WHERE id::text = ANY($1::text[])',
+            [participants]
+        );
+        if (Number(found.rows[0].count) !== participants.length) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        const participantKey = participants.join(',');
+        const created = await query<DirectChannel>(
+            `INSERT INTO direct_channels (participants, participant_key) VALUES ($1, $2)
+             ON CONFLICT (participant_key) DO NOTHING RETURNING *`,
+            [participants, participantKey]
+        );
+        if (created.rows.length > 0) {
+            res.status(201).json(created.rows[0]);
+            return;
+        }
+
+        const existing = await query<DirectChannel>(
+            'SELECT * FROM direct_channels WHERE participant_key = $1',
+            [participantKey]
+        );
+        res.json(existing.rows[0]);
+    } catch (error) {
+        console.error('Error opening direct channel:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export default router;
@@ -1,12 +1,21 @@
 import { Router } from 'express';
+import { requireAuth, requireService } from '../middleware/auth';
+import authRoutes from './auth';
 import userRoutes from './users';
 import serverRoutes from './servers';
 import channelRoutes from './channels';
+import messageRoutes from './messages';
+import directMessageRoutes from './directMessages';
+import internalRoutes from './internal';
 
 const router = Router();
 
-router.use('/users', userRoutes);
-router.use('/servers', serverRoutes);
-router.use('/channels', channelRoutes);
+router.use('/auth', authRoutes);
+router.use('/users', requireAuth, userRoutes);
+router.use('/servers', requireAuth, serverRoutes);
+router.use('/channels', requireAuth, channelRoutes);
+router.use('/messages', requireAuth, messageRoutes);
+router.use('/dms', requireAuth, directMessageRoutes);
+router.use('/internal', requireService, internalRoutes);
 
 export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { canAccessChannel, canModerateChannel, getDirectChannelIds } from '../utils/permissions';
+
+// Routes for other backends, authenticated with service tokens
+const router = Router();
+
+// Whether a user may read and post in a channel; the chat server asks this
+// before subscribing a socket and periodically afterwards
+router.get('/channels/:channelId/members/:userId', async (req, res) => {
+    try {
+        const allowed = await canAccessChannel(req.params.channelId, req.params.userId);
+        res.json({ channelId: req.params.channelId, userId: req.params.userId, allowed });
+    } catch (error) {
+        console.error('Error checking channel access:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// Whether a user may delete anyone's messages in a channel; the chat server
+// asks this when someone deletes a message they did not write
+router.get('/channels/:channelId/moderators/:userId', async (req, res) => {
+    try {
+        const moderator = await canModerateChannel(req.params.channelId, req.params.userId);
+        res.json({ channelId: req.params.channelId, userId: req.params.userId, moderator });
+    } catch (error) {
+        console.error('Error checking channel moderation:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+// The user's direct conversations; the chat server subscribes every
+// connection to these without the client asking
+router.get('/users/:userId/direct-channels', async (req, res) => {
+    try {
+        const channels = await getDirectChannelIds(req.params.userId);
+        res.json({ userId: req.params.userId, channels });
+    } catch (error) {
+        console.error('Error fetching direct channels:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { types } from 'cassandra-driver';
+import { MessageIdSchema, readMessagePage } from '@chime/protocol';
+import { getCassandraClient } from '../config/cassandra';
+import { Message, MessagesResponse } from '../types';
+import { canAccessChannel } from '../utils/permissions';
+
+const router = Router();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+// Cursors are message IDs, which Cassandra would reject unless they fit its BIGINT
+const isCursor = (value: unknown): boolean =>
+    value === undefined || MessageIdSchema.safeParse(value).success;
+
+// Deleted messages stay in the page as tombstones so cursors remain stable
+const toMessage = (row: types.Row): Message => ({
+    channelId: row.channel_id.toString(),
+    messageId: row.message_id.toString(),
+    userId: row.user_id.toString(),
+    content: row.deleted_at ? '' : row.content,
+    createdAt: row.created_at.toISOString(),
+    editedAt: row.edited_at ? row.edited_at.toISOString() : null,
+    deletedAt: row.deleted_at ? row.deleted_at.toISOString() : null,
+    metadata: row.deleted_at ? {} : row.metadata || {}
+});
+
+// Get a page of messages for a channel the user may read, oldest first
+router.get('/:channelId', async (req, res) => {
+    const { before, after, limit } = req.query;
+
+    if (before !== undefined && after !== undefined) {
+        res.status(400).json({ error: 'Cannot page before and after at once' });
+        return;
+    }
+
+    if (!isCursor(before) || !isCursor(after)) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+    }
+
+    const pageSize = limit === undefined ? DEFAULT_LIMIT : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+        res.status(400).json({ error: 'Invalid limit' });
+        return;
+    }
+
+    const pageLimit = Math.min(pageSize, MAX_LIMIT);
+    const { channelId } = req.params;
+
+    try {
+        if (!(await canAccessChannel(channelId, req.userId!))) {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
+        // Fetch one extra row to learn whether another page exists
+        const client = getCassandraClient();
+        const rows = await readMessagePage(
+            async (query, params) => (await client.execute(query, params, { prepare: true })).rows,
+            { channelId, before: before as string | undefined, after: after as string | undefined, limit: pageLimit + 1 }
+        );
+
+        const messages = rows.slice(0, pageLimit).map(toMessage);
+
+        // Descending reads come back newest first
+        if (after === undefined) {
+            messages.reverse();
+        }
+
+        const response: MessagesResponse = {
+            messages,
+            count: messages.length,
+            hasMore: rows.length > pageLimit
+        };
+        res.json(response);
+    } catch (error) {
+        console.error('Error fetching messages:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { query } from '../utils/db';
+import { getServerAccess } from '../utils/permissions';
 import { Server } from '../types';
 
 const router = Router();
@@ -32,7 +33,12 @@ router.get('/:id', async (req, res) => {
 
 // Create new server
 router.post('/', async (req, res) => {
-    const { name, ip, port, users = [], channels = [] } = req.body;
+    const { name, ip, port, channels = [] } = req.body;
+    // The creator owns the server and is always a member of it
+    const users: string[] = Array.isArray(req.body.users) ? req.body.users : [];
+    if (req.userId && !users.includes(req.userId)) {
+        users.push(req.userId);
+    }
 
     // Validate port
     if (!port || port <= 0 || port >= 65536) {
@@ -42,8 +48,8 @@ router.post('/', async (req, res) => {
 
     try {
         const result = await query<Server>(
-            'INSERT INTO servers (name, ip, port, users, channels) VALUES ($1, $2, $3, $4, $5) RETURNING *',
-            [name, ip, port, users, channels]
+            'INSERT INTO servers (name, ip, port, owner_id, users, channels) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
+            [name, ip, port, req.userId, users, channels]
         );
         res.status(201).json(result.rows[0]);
     } catch (error) {
@@ -63,6 +69,16 @@ router.put('/:id', async (req, res) => {
     }
 
     try {
+        const ownership = await getServerAccess(req.params.id, req.userId);
+        if (ownership === 'missing') {
+            res.status(404).json({ error: 'Server not found' });
+            return;
+        }
+        if (ownership === 'forbidden') {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
         const result = await query<Server>(
             'UPDATE servers SET name = $1, ip = $2, port = $3, users = $4, channels = $5 WHERE id = $6 RETURNING *',
             [name, ip, port, users || [], channels || [], req.params.id]
@@ -81,6 +97,16 @@ router.put('/:id', async (req, res) => {
 // Delete server
 router.delete('/:id', async (req, res) => {
     try {
+        const ownership = await getServerAccess(req.params.id, req.userId);
+        if (ownership === 'missing') {
+            res.status(404).json({ error: 'Server not found' });
+            return;
+        }
+        if (ownership === 'forbidden') {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
         const result = await query('DELETE FROM servers WHERE id = $1 RETURNING *', [req.params.id]);
         if (result.rows.length === 0) {
             res.status(404).json({ error: 'Server not found' });
@@ -1,13 +1,13 @@
 import { Router } from 'express';
 import { query } from '../utils/db';
-import { User } from '../types';
+import { User, USER_COLUMNS } from '../types';
 
 const router = Router();
 
 // Get all users
 router.get('/', async (req, res) => {
     try {
-        const result = await query<User>('SELECT * FROM users');
+        const result = await query<User>(`SELECT ${USER_COLUMNS} FROM users`);
         res.json(result.rows);
     } catch (error) {
         console.error('Error fetching users:', error);
@@ -18,7 +18,7 @@ router.get('/', async (req, res) => {
 // Get user by ID
 router.get('/:id', async (req, res) => {
     try {
-        const result = await query<User>('SELECT * FROM users WHERE id = $1', [req.params.id]);
+        const result = await query<User>(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [req.params.id]);
         if (result.rows.length === 0) {
             res.status(404).json({ error: 'User not found' });
             return;
@@ -30,31 +30,16 @@ router.get('/:id', async (req, res) => {
     }
 });
 
-// Create new user
-router.post('/', async (req, res) => {
+// Update user
+router.put('/:id', async (req, res) => {
     const { username, display_name, avatar_url } = req.body;
-    try {
-        // Check if username already exists
-        const existingUser = await query<User>('SELECT id FROM users WHERE username = $1', [username]);
-        if (existingUser.rows.length > 0) {
-            res.status(500).json({ error: 'Username already exists' });
-            return;
-        }
 
-        const result = await query<User>(
-            'INSERT INTO users (username, display_name, avatar_url) VALUES ($1, $2, $3) RETURNING *',
-            [username, display_name, avatar_url]
-        );
-        res.status(201).json(result.rows[0]);
-    } catch (error) {
-        console.error('Error creating user:', error);
-        res.status(500).json({ error: 'Internal server error' });
+    // Users can only modify their own account
+    if (req.params.id !== req.userId) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
     }
-});
 
-// Update user
-router.put('/:id', async (req, res) => {
-    const { username, display_name, avatar_url } = req.body;
     try {
         // Check if user exists
         const userExists = await query<User>('SELECT id FROM users WHERE id = $1', [req.params.id]);
@@ -76,7 +61,7 @@ router.put('/:id', async (req, res) => {
         }
 
         const result = await query<User>(
-            'UPDATE users SET username = $1, display_name = $2, avatar_url = $3 WHERE id = $4 RETURNING *',
+            `UPDATE users SET username = $1, display_name = $2, avatar_url = $3 WHERE id = $4 RETURNING ${USER_COLUMNS}`,
             [username, display_name, avatar_url, req.params.id]
         );
         res.json(result.rows[0]);
@@ -88,6 +73,11 @@ router.put('/:id', async (req, res) => {
 
 // Delete user
 router.delete('/:id', async (req, res) => {
+    if (req.params.id !== req.userId) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+    }
+
     try {
         const result = await query('DELETE FROM users WHERE id = $1 RETURNING *', [req.params.id]);
         if (result.rows.length === 0) {
@@ -0,0 +1,151 @@
+import request from 'supertest';
+import app from '../app';
+import { clearDatabase, createTestUser } from './helpers';
+import { verifyToken } from '../utils/auth';
+
+describe('Auth Routes', () => {
+    const credentials = {
+        username: 'test',
+        password: 'correct horse battery',
+        display_name: 'test123',
+        avatar_url: 'https://example.com/avatar.jpg'
+    };
+
+    beforeEach(async () => {
+        await clearDatabase();
+    });
+
+    describe('POST /api/auth/signup', () => {
+        it('should create a user and issue tokens', async () => {
+            const response = await request(app)
+                .post('/api/auth/signup')
+                .send(credentials);
+
+            expect(response).toHaveStatusCode(201);
+            expect(response.body.user).toHaveValidId();
+            expect(response.body.user).toMatchUser(credentials);
+            expect(response.body.user).not.toHaveProperty('password_hash');
+            expect(verifyToken(response.body.accessToken, 'access')?.sub).toBe(response.body.user.id);
+            expect(verifyToken(response.body.refreshToken, 'refresh')?.sub).toBe(response.body.user.id);
+        });
+
+        it('should fail when username is already taken', async () => {
+            await createTestUser({ username: 'test' });
+
+            const response = await request(app)
+                .post('/api/auth/signup')
+                .send(credentials);
+
+            expect(response).toHaveStatusCode(409);
+            expect(response.body.error).toContain('Username already exists');
+        });
+
+        it('should reject short passwords', async () => {
+            const response = await request(app)
+                .post('/api/auth/signup')
+                .send({ ...credentials, password: 'short' });
+
+            expect(response).toHaveStatusCode(400);
+        });
+    });
+
+    describe('POST /api/auth/login', () => {
+        beforeEach(async () => {
+            await request(app).post('/api/auth/signup').send(credentials);
+        });
+
+        it('should issue tokens for valid credentials', async () => {
+            const response = await request(app)
+                .post('/api/auth/login')
+                .send({ username: credentials.username, password: credentials.password });
+
+            expect(response).toHaveStatusCode(200);
+            expect(response.body.user.username).toBe(credentials.username);
+            expect(response.body.accessToken).toBeTruthy();
+            expect(response.body.refreshToken).toBeTruthy();
+        });
+
+        it('should reject a wrong password', async () => {
+            const response = await request(app)
+                .post('/api/auth/login')
+                .send({ username: credentials.username, password: 'wrong password' });
+
+            expect(response).toHaveStatusCode(401);
+            expect(response.body.error).toBe('Invalid username or password');
+        });
+
+        it('should reject users without a password', async () => {
+            await createTestUser({ username: 'legacy' });
+
+            const response = await request(app)
+                .post('/api/auth/login')
+                .send({ username: 'legacy', password: credentials.password });
+
+            expect(response).toHaveStatusCode(401);
+        });
+    });
+
+    describe('POST /api/auth/refresh', () => {
+        it('should rotate the refresh token', async () => {
+            const signup = await request(app).post('/api/auth/signup').send(credentials);
+
+            const response = await request(app)
+                .post('/api/auth/refresh')
+                .send({ refreshToken: signup.body.refreshToken });
+
+            expect(response).toHaveStatusCode(200);
+            expect(response.body.refreshToken).not.toBe(signup.body.refreshToken);
+
+            // The old refresh token is single-use
+            const replay = await request(app)
+                .post('/api/auth/refresh')
+                .send({ refreshToken: signup.body.refreshToken });
+            expect(replay).toHaveStatusCode(401);
+        });
+
+        it('should reject access tokens', async () => {
+            const signup = await request(app).post('/api/auth/signup').send(credentials);
+
+            const response = await request(app)
+                .post('/api/auth/refresh')
+                .send({ refreshToken: signup.body.accessToken });
+
+            expect(response).toHaveStatusCode(401);
+        });
+    });
+
+    describe('POST /api/auth/logout', () => {
+        it('should revoke the refresh token', async () => {
+            const signup = await request(app).post('/api/auth/signup').send(credentials);
+
+            const response = await request(app)
+                .post('/api/auth/logout')
+                .send({ refreshToken: signup.body.refreshToken });
+            expect(response).toHaveStatusCode(204);
+
+            const refresh = await request(app)
+                .post('/api/auth/refresh')
+                .send({ refreshToken: signup.body.refreshToken });
+            expect(refresh).toHaveStatusCode(401);
+        });
+    });
+
+    describe('GET /api/auth/me', () => {
+        it('should return the logged-in user', async () => {
+            const signup = await request(app).post('/api/auth/signup').send(credentials);
+
+            const response = await request(app)
+                .get('/api/auth/me')
+                .set('Authorization', `Bearer ${signup.body.accessToken}`);
+
+            expect(response).toHaveStatusCode(200);
+            expect(response.body.id).toBe(signup.body.user.id);
+        });
+
+        it('should require authentication', async () => {
+            const response = await request(app).get('/api/auth/me');
+
+            expect(response).toHaveStatusCode(401);
+        });
+    });
+});
@@ -1,24 +1,34 @@
 import request from 'supertest';
 import app from '../app';
-import { clearDatabase, createTestServer, createTestChannel } from './helpers';
-import { Channel } from '../types';
+import { clearDatabase, createTestServer, createTestChannel, createTestUser, authHeader } from './helpers';
+import { Channel, User } from '../types';
 
 describe('Channel Routes', () => {
+    let owner: User;
+    let auth: string;
+
     beforeEach(async () => {
         await clearDatabase();
+        owner = await createTestUser();
+        auth = authHeader(owner);
+    });
+
+    it('should require authentication', async () => {
+        const response = await request(app).get('/api/channels');
+        expect(response.status).toBe(401);
     });
 
     describe('GET /api/channels', () => {
         it('return an empty array when no channels exist', async () => {
-            const response = await request(app).get('/api/channels');
+            const response = await request(app).get('/api/channels').set('Authorization', auth);
             expect(response.status).toBe(200);
             expect(response.body).toEqual([]);
         });
 
         it('return all channels (nonempty)', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const channel = await createTestChannel({ server_id: server.id });
-            const response = await request(app).get('/api/channels');
+            const response = await request(app).get('/api/channels').set('Authorization', auth);
             expect(response.status).toBe(200);
             expect(response.body).toHaveLength(1);
             expect(response.body[0].name).toBe(channel.name);
@@ -27,17 +37,17 @@ describe('Channel Routes', () => {
 
     describe('GET /api/channels/server/:serverId', () => {
         it('return channels for a specific server', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const channel = await createTestChannel({ server_id: server.id });
-            const response = await request(app).get(`/api/channels/server/${server.id}`);
+            const response = await request(app).get(`/api/channels/server/${server.id}`).set('Authorization', auth);
             expect(response.status).toBe(200);
             expect(response.body).toHaveLength(1);
             expect(response.body[0].name).toBe(channel.name);
         });
 
         it('return an empty array for a server without channels', async () => {
-            const server = await createTestServer();
-            const response = await request(app).get(`/api/channels/server/${server.id}`);
+            const server = await createTestServer({ owner_id: owner.id });
+            const response = await request(app).get(`/api/channels/server/${server.id}`).set('Authorization', auth);
             expect(response.status).toBe(200);
             expect(response.body).toEqual([]);
         });
@@ -45,14 +55,14 @@ describe('Channel Routes', () => {
 
     describe('POST /api/channels', () => {
         it('create a new channel', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const channelData = {
                 name: 'test-channel',
                 server_id: server.id
             };
 
             const response = await request(app)
-                .post('/api/channels')
+                .post('/api/channels').set('Authorization', auth)
                 .send(channelData);
 
             expect(response.status).toBe(201);
@@ -62,7 +72,7 @@ describe('Channel Routes', () => {
 
         it('fail with non existant server', async () => {
             const response = await request(app)
-                .post('/api/channels')
+                .post('/api/channels').set('Authorization', auth)
                 .send({
                     name: 'test-channel',
                     server_id: '00000000-0000-0000-0000-000000000000'
@@ -70,18 +80,28 @@ describe('Channel Routes', () => {
 
             expect(response.status).toBe(500);
         });
+
+        it('fail when the user does not own the server', async () => {
+            const other = await createTestUser({ username: 'other' });
+            const server = await createTestServer({ owner_id: other.id });
+            const response = await request(app)
+                .post('/api/channels').set('Authorization', auth)
+                .send({ name: 'test-channel', server_id: server.id });
+
+            expect(response.status).toBe(403);
+        });
     });
 
     describe('PUT /api/channels/:id', () => {
         it('update channel name', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const channel = await createTestChannel({ server_id: server.id });
             const updateData = {
                 name: 'updated-channel'
             };
 
             const response = await request(app)
-                .put(`/api/channels/${channel.id}`)
+                .put(`/api/channels/${channel.id}`).set('Authorization', auth)
                 .send(updateData);
 
             expect(response.status).toBe(200);
@@ -90,7 +110,7 @@ describe('Channel Routes', () => {
 
         it('should return 404 for non-existent channel', async () => {
             const response = await request(app)
-                .put('/api/channels/00000000-0000-0000-0000-000000000000')
+                .put('/api/channels/00000000-0000-0000-0000-000000000000').set('Authorization', auth)
                 .send({ name: 'test' });
             expect(response.status).toBe(404);
         });
@@ -98,18 +118,18 @@ describe('Channel Routes', () => {
 
     describe('DELETE /api/channels/:id', () => {
         it('delete channel', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const channel = await createTestChannel({ server_id: server.id });
-            const response = await request(app).delete(`/api/channels/${channel.id}`);
+            const response = await request(app).delete(`/api/channels/${channel.id}`).set('Authorization', auth);
             expect(response.status).toBe(200);
 
-            const getResponse = await request(app).get(`/api/channels/${channel.id}`);
+            const getResponse = await request(app).get(`/api/channels/${channel.id}`).set('Authorization', auth);
             expect(getResponse.status).toBe(404);
         });
 
         it('return 404 for non existant channel', async () => {
             const response = await request(app)
-                .delete('/api/channels/00000000-0000-0000-0000-000000000000');
+                .delete('/api/channels/00000000-0000-0000-0000-000000000000').set('Authorization', auth);
             expect(response.status).toBe(404);
         });
     });
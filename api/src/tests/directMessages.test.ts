@@ -0,0 +1,146 @@
+import request from 'supertest';
+
+const mockExecute = jest.fn();
+
+jest.mock('../config/cassandra', () => ({
+    getCassandraClient: () => ({ execute: mockExecute })
+}));
+
+import app from '../app';
+import { clearDatabase, createTestUser, createTestServer, createTestDirectChannel, authHeader } from './helpers';
+import { User, MAX_DIRECT_PARTICIPANTS } from '../types';
+
+describe('Direct Message Routes', () => {
+    let alice: User;
+    let bob: User;
+    let carol: User;
+
+    beforeEach(async () => {
+        await clearDatabase();
+        alice = await createTestUser({ username: 'alice' });
+        bob = await createTestUser({ username: 'bob' });
+        carol = await createTestUser({ username: 'carol' });
+    });
+
+    it('should require authentication', async () => {
+        const response = await request(app).get('/api/dms');
+        expect(response.status).toBe(401);
+    });
+
+    describe('POST /api/dms', () => {
+        it('should open a DM including the caller', async () => {
+            const response = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: [bob.id] });
+
+            expect(response.status).toBe(201);
+            expect(response.body.participants).toEqual([alice.id, bob.id].sort());
+        });
+
+        it('should return the existing conversation when opened again', async () => {
+            const first = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: [bob.id] });
+            // Either side, and in any order
+            const second = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(bob))
+                .send({ userIds: [alice.id, bob.id] });
+
+            expect(second.status).toBe(200);
+            expect(second.body.id).toBe(first.body.id);
+        });
+
+        it('should open group DMs', async () => {
+            const response = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: [bob.id, carol.id] });
+
+            expect(response.status).toBe(201);
+            expect(response.body.participants).toHaveLength(3);
+        });
+
+        it('should reject a DM with only the caller', async () => {
+            const response = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: [alice.id] });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should reject missing or oversized participant lists', async () => {
+            const missing = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({});
+            const oversized = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: Array.from({ length: MAX_DIRECT_PARTICIPANTS }, (_, i) => `user-${i}`) });
+
+            expect(missing.status).toBe(400);
+            expect(oversized.status).toBe(400);
+        });
+
+        it('should 404 for unknown users', async () => {
+            const response = await request(app)
+                .post('/api/dms').set('Authorization', authHeader(alice))
+                .send({ userIds: ['00000000-0000-0000-0000-000000000000'] });
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe('GET /api/dms', () => {
+        it('should list only the caller\'s conversations', async () => {
+            const mine = await createTestDirectChannel([alice.id, bob.id]);
+            await createTestDirectChannel([bob.id, carol.id]);
+
+            const response = await request(app).get('/api/dms').set('Authorization', authHeader(alice));
+
+            expect(response.status).toBe(200);
+            expect(response.body.map((channel: { id: string }) => channel.id)).toEqual([mine.id]);
+        });
+    });
+
+    describe('GET /api/dms/:id', () => {
+        it('should hide other people\'s conversations', async () => {
+            const channel = await createTestDirectChannel([bob.id, carol.id]);
+
+            const asParticipant = await request(app).get(`/api/dms/${channel.id}`).set('Authorization', authHeader(bob));
+            const asOutsider = await request(app).get(`/api/dms/${channel.id}`).set('Authorization', authHeader(alice));
+
+            expect(asParticipant.status).toBe(200);
+            expect(asOutsider.status).toBe(404);
+        });
+    });
+
+    describe('GET /api/messages/:channelId for a direct conversation', () => {
+        it('should require authentication', async () => {
+            const channel = await createTestDirectChannel([bob.id, carol.id]);
+
+            const response = await request(app).get(`/api/messages/${channel.id}`);
+
+            expect(response.status).toBe(401);
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('should not show the history to non-participants', async () => {
+            const channel = await createTestDirectChannel([bob.id, carol.id]);
+            // Listing the DM in a server of one's own grants nothing
+            await createTestServer({ owner_id: alice.id, users: [alice.id], channels: [channel.id] });
+
+            const response = await request(app).get(`/api/messages/${channel.id}`).set('Authorization', authHeader(alice));
+
+            expect(response.status).toBe(403);
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('should show the history to participants', async () => {
+            const channel = await createTestDirectChannel([bob.id, carol.id]);
+            mockExecute.mockResolvedValueOnce({ rows: [] });
+
+            const response = await request(app).get(`/api/messages/${channel.id}`).set('Authorization', authHeader(bob));
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ messages: [], count: 0, hasMore: false });
+        });
+    });
+});
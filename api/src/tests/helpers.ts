@@ -1,5 +1,6 @@
-import { User, Server, Channel } from '../types';
+import { User, Server, Channel, DirectChannel } from '../types';
 import pool from '../config/database';
+import { signAccessToken, signServiceToken } from '../utils/auth';
 
 // Close pool after tests
 afterAll(async () => {
@@ -8,6 +9,8 @@ afterAll(async () => {
 
 export const clearDatabase = async () => {
     // Clear in correct order due to foreign key constraints
+    await pool.query('DELETE FROM refresh_tokens');
+    await pool.query('DELETE FROM direct_channels');
     await pool.query('DELETE FROM channels');
     await pool.query('DELETE FROM servers');
     await pool.query('DELETE FROM users');
@@ -27,11 +30,12 @@ export const createTestUser = async (data: Partial<User> = {}): Promise<User> =>
 
 export const createTestServer = async (data: Partial<Server> = {}): Promise<Server> => {
     const result = await pool.query<Server>(
-        'INSERT INTO servers (name, ip, port, users, channels) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+        'INSERT INTO servers (name, ip, port, owner_id, users, channels) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
         [
             data.name || 'Test Server',
             data.ip || '127.0.0.1',
             data.port || 8080,
+            data.owner_id || null,
             data.users || [],
             data.channels || []
         ]
@@ -46,3 +50,18 @@ export const createTestChannel = async (data: Partial<Channel> & { server_id: st
     );
     return result.rows[0];
 };
+
+export const createTestDirectChannel = async (participants: string[]): Promise<DirectChannel> => {
+    const sorted = [...participants].sort();
+    const result = await pool.query<DirectChannel>(
+        'INSERT INTO direct_channels (participants, participant_key) VALUES ($1, $2) RETURNING *',
+        [sorted, sorted.join(',')]
+    );
+    return result.rows[0];
+};
+
+// Authorization header for requests made as the given user
+export const authHeader = (user: Pick<User, 'id'>): string => `Bearer ${signAccessToken(user.id)}`;
+
+// Authorization header for internal routes, as the chat server sends it
+export const serviceAuthHeader = (): string => `Bearer ${signServiceToken('chat-server')}`;
@@ -0,0 +1,144 @@
+import request from 'supertest';
+import app from '../app';
+import { clearDatabase, createTestServer, createTestChannel, createTestUser, createTestDirectChannel, authHeader, serviceAuthHeader } from './helpers';
+import { Channel, Server, User } from '../types';
+
+describe('Internal Routes', () => {
+    let owner: User;
+    let member: User;
+    let stranger: User;
+    let server: Server;
+    let general: Channel;
+
+    const accessUrl = (channelId: string, userId: string) =>
+        `/api/internal/channels/${encodeURIComponent(channelId)}/members/${userId}`;
+
+    beforeEach(async () => {
+        await clearDatabase();
+        owner = await createTestUser({ username: 'owner' });
+        member = await createTestUser({ username: 'member' });
+        stranger = await createTestUser({ username: 'stranger' });
+        server = await createTestServer({ owner_id: owner.id, users: [owner.id, member.id] });
+        general = await createTestChannel({ name: 'general', server_id: server.id });
+    });
+
+    it('should require a service token', async () => {
+        const anonymous = await request(app).get(accessUrl(general.id, member.id));
+        expect(anonymous.status).toBe(401);
+
+        // A user's access token is not enough
+        const asUser = await request(app).get(accessUrl(general.id, member.id)).set('Authorization', authHeader(member));
+        expect(asUser.status).toBe(401);
+    });
+
+    describe('GET /api/internal/channels/:channelId/members/:userId', () => {
+        it('should allow server members', async () => {
+            const response = await request(app).get(accessUrl(general.id, member.id)).set('Authorization', serviceAuthHeader());
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ channelId: general.id, userId: member.id, allowed: true });
+        });
+
+        it('should allow the owner even if not listed as a user', async () => {
+            const ownedOnly = await createTestServer({ owner_id: stranger.id });
+            const lobby = await createTestChannel({ name: 'lobby', server_id: ownedOnly.id });
+            expect(ownedOnly.users).toEqual([]);
+
+            const response = await request(app).get(accessUrl(lobby.id, stranger.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.allowed).toBe(true);
+        });
+
+        it('should not accept channels by name', async () => {
+            const response = await request(app).get(accessUrl('general', member.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.allowed).toBe(false);
+        });
+
+        it('should deny strangers whose own server lists the channel', async () => {
+            // Anyone may create a server and fill in its channels array
+            const ownServer = await createTestServer({ owner_id: stranger.id, users: [stranger.id], channels: [general.id, 'general'] });
+            await createTestChannel({ name: 'general', server_id: ownServer.id });
+
+            const byId = await request(app).get(accessUrl(general.id, stranger.id)).set('Authorization', serviceAuthHeader());
+            const byName = await request(app).get(accessUrl('general', stranger.id)).set('Authorization', serviceAuthHeader());
+
+            expect(byId.body.allowed).toBe(false);
+            expect(byName.body.allowed).toBe(false);
+        });
+
+        it('should deny users outside the server', async () => {
+            const response = await request(app).get(accessUrl(general.id, stranger.id)).set('Authorization', serviceAuthHeader());
+
+            expect(response.status).toBe(200);
+            expect(response.body.allowed).toBe(false);
+        });
+
+        it('should deny unknown channels', async () => {
+            const response = await request(app).get(accessUrl('nowhere', member.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.allowed).toBe(false);
+        });
+
+        it('should allow only participants into direct channels', async () => {
+            const dm = await createTestDirectChannel([member.id, stranger.id]);
+
+            const participant = await request(app).get(accessUrl(dm.id, stranger.id)).set('Authorization', serviceAuthHeader());
+            const outsider = await request(app).get(accessUrl(dm.id, owner.id)).set('Authorization', serviceAuthHeader());
+
+            expect(participant.body.allowed).toBe(true);
+            expect(outsider.body.allowed).toBe(false);
+        });
+
+        it('should deny non-participants who list a direct channel in their own server', async () => {
+            const dm = await createTestDirectChannel([member.id, stranger.id]);
+            await createTestServer({ owner_id: owner.id, users: [owner.id], channels: [dm.id] });
+
+            const response = await request(app).get(accessUrl(dm.id, owner.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.allowed).toBe(false);
+        });
+    });
+
+    describe('GET /api/internal/channels/:channelId/moderators/:userId', () => {
+        const moderatorUrl = (channelId: string, userId: string) =>
+            `/api/internal/channels/${encodeURIComponent(channelId)}/moderators/${userId}`;
+
+        it('should make the server owner a moderator of its channels', async () => {
+            const response = await request(app).get(moderatorUrl(general.id, owner.id)).set('Authorization', serviceAuthHeader());
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ channelId: general.id, userId: owner.id, moderator: true });
+        });
+
+        it('should not make members moderators', async () => {
+            const response = await request(app).get(moderatorUrl(general.id, member.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.moderator).toBe(false);
+        });
+
+        it('should not carry moderation over to other servers\' channels', async () => {
+            const otherServer = await createTestServer({ owner_id: stranger.id, users: [stranger.id, owner.id] });
+            const lobby = await createTestChannel({ name: 'lobby', server_id: otherServer.id });
+
+            const response = await request(app).get(moderatorUrl(lobby.id, owner.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.moderator).toBe(false);
+        });
+
+        it('should give direct channels no moderators', async () => {
+            const dm = await createTestDirectChannel([member.id, stranger.id]);
+
+            const response = await request(app).get(moderatorUrl(dm.id, member.id)).set('Authorization', serviceAuthHeader());
+            expect(response.body.moderator).toBe(false);
+        });
+    });
+
+    describe('GET /api/internal/users/:userId/direct-channels', () => {
+        it('should list the user\'s direct channels', async () => {
+            const dm = await createTestDirectChannel([member.id, stranger.id]);
+            await createTestDirectChannel([owner.id, stranger.id]);
+
+            const response = await request(app)
+                .get(`/api/internal/users/${member.id}/direct-channels`)
+                .set('Authorization', serviceAuthHeader());
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({ userId: member.id, channels: [dm.id] });
+        });
+    });
+});
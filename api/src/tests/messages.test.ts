@@ -0,0 +1,219 @@
+import request from 'supertest';
+
+const mockExecute = jest.fn();
+
+jest.mock('../config/cassandra', () => ({
+    getCassandraClient: () => ({ execute: mockExecute })
+}));
+
+const mockCanAccessChannel = jest.fn();
+
+jest.mock('../utils/permissions', () => ({
+    canAccessChannel: (...args: unknown[]) => mockCanAccessChannel(...args)
+}));
+
+import app from '../app';
+import { signAccessToken } from '../utils/auth';
+
+const get = (url: string) => request(app).get(url).set('Authorization', `Bearer ${signAccessToken('user-1')}`);
+
+const row = (messageId: string) => ({
+    channel_id: 'general',
+    message_id: messageId,
+    user_id: 'user-1',
+    content: `Message ${messageId}`,
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    edited_at: null,
+    metadata: null
+});
+
+// Day bucket of the small IDs below: 2025-01-01, the ID epoch
+const BUCKET = 20089;
+const buckets = (...values: number[]) => ({ rows: values.map(bucket => ({ bucket })) });
+
+describe('Message Routes', () => {
+    beforeEach(() => {
+        mockCanAccessChannel.mockResolvedValue(true);
+    });
+
+    describe('GET /api/messages/:channelId', () => {
+        it('require authentication', async () => {
+            const response = await request(app).get('/api/messages/general');
+
+            expect(response).toHaveStatusCode(401);
+            expect(mockCanAccessChannel).not.toHaveBeenCalled();
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('forbid channels the user cannot access', async () => {
+            mockCanAccessChannel.mockResolvedValueOnce(false);
+
+            const response = await get('/api/messages/general');
+
+            expect(response).toHaveStatusCode(403);
+            expect(mockCanAccessChannel).toHaveBeenCalledWith('general', 'user-1');
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('return the latest page oldest first', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('3'), row('2'), row('1')] });
+
+            const response = await get('/api/messages/general');
+
+            expect(response).toHaveStatusCode(200);
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ?',
+                ['general'],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? ORDER BY message_id DESC LIMIT ?',
+                ['general', BUCKET, 51],
+                { prepare: true }
+            );
+            expect(response.body).toEqual({
+                messages: [
+                    expect.objectContaining({ messageId: '1', content: 'Message 1', editedAt: null, metadata: {} }),
+                    expect.objectContaining({ messageId: '2' }),
+                    expect.objectContaining({ messageId: '3' })
+                ],
+                count: 3,
+                hasMore: false
+            });
+            expect(response.body.messages[0].createdAt).toBe('2024-01-01T00:00:00.000Z');
+        });
+
+        it('page backwards with before and report hasMore', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('4'), row('3'), row('2')] });
+
+            const response = await get('/api/messages/general?before=5&limit=2');
+
+            expect(response).toHaveStatusCode(200);
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ? AND bucket <= ?',
+                ['general', BUCKET],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id < ? ORDER BY message_id DESC LIMIT ?',
+                ['general', BUCKET, '5', 3],
+                { prepare: true }
+            );
+            expect(response.body.messages.map((m: { messageId: string }) => m.messageId)).toEqual(['3', '4']);
+            expect(response.body.count).toBe(2);
+            expect(response.body.hasMore).toBe(true);
+        });
+
+        it('page forwards with after', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('6')] });
+
+            const response = await get('/api/messages/general?after=5');
+
+            expect(response).toHaveStatusCode(200);
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ? AND bucket >= ? ORDER BY bucket ASC',
+                ['general', BUCKET],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id > ? ORDER BY message_id ASC LIMIT ?',
+                ['general', BUCKET, '5', 51],
+                { prepare: true }
+            );
+            expect(response.body.messages.map((m: { messageId: string }) => m.messageId)).toEqual(['6']);
+        });
+
+        it('walk back through day buckets until the page is full', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET + 2, BUCKET + 1, BUCKET))
+                .mockResolvedValueOnce({ rows: [row('9')] })
+                .mockResolvedValueOnce({ rows: [row('8'), row('7')] });
+
+            const response = await get('/api/messages/general?limit=2');
+
+            expect(response).toHaveStatusCode(200);
+            expect(mockExecute).toHaveBeenCalledTimes(3);
+            expect(mockExecute).toHaveBeenNthCalledWith(2, expect.any(String), ['general', BUCKET + 2, 3], { prepare: true });
+            expect(mockExecute).toHaveBeenNthCalledWith(3, expect.any(String), ['general', BUCKET + 1, 2], { prepare: true });
+            expect(response.body.messages.map((m: { messageId: string }) => m.messageId)).toEqual(['8', '9']);
+            expect(response.body.hasMore).toBe(true);
+        });
+
+        it('hide the content of deleted messages', async () => {
+            mockExecute.mockResolvedValueOnce(buckets(BUCKET)).mockResolvedValueOnce({
+                rows: [{ ...row('2'), deleted_at: new Date('2024-01-02T00:00:00Z'), metadata: { replyTo: '1' } }, row('1')]
+            });
+
+            const response = await get('/api/messages/general');
+
+            expect(response).toHaveStatusCode(200);
+            expect(response.body.messages[0]).toMatchObject({ messageId: '1', content: 'Message 1', deletedAt: null });
+            expect(response.body.messages[1]).toMatchObject({
+                messageId: '2',
+                content: '',
+                deletedAt: '2024-01-02T00:00:00.000Z',
+                metadata: {}
+            });
+        });
+
+        it('cap the page size', async () => {
+            mockExecute.mockResolvedValueOnce(buckets(BUCKET)).mockResolvedValueOnce({ rows: [] });
+
+            const response = await get('/api/messages/general?limit=1000');
+
+            expect(response).toHaveStatusCode(200);
+            expect(mockExecute).toHaveBeenCalledWith(expect.any(String), ['general', BUCKET, 101], { prepare: true });
+        });
+
+        it('fail with an invalid limit', async () => {
+            const response = await get('/api/messages/general?limit=abc');
+
+            expect(response).toHaveStatusCode(400);
+            expect(response.body.error).toContain('Invalid limit');
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('fail with a cursor that is not a message ID', async () => {
+            const response = await get('/api/messages/general?before=abc');
+
+            expect(response).toHaveStatusCode(400);
+            expect(response.body.error).toContain('Invalid cursor');
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('fail with a cursor beyond the largest BIGINT', async () => {
+            mockExecute.mockResolvedValueOnce(buckets());
+            const largest = await get('/api/messages/general?before=9223372036854775807');
+            expect(largest).toHaveStatusCode(200);
+
+            mockExecute.mockClear();
+            const response = await get('/api/messages/general?after=9223372036854775808');
+
+            expect(response).toHaveStatusCode(400);
+            expect(response.body.error).toContain('Invalid cursor');
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('fail when both before and after are given', async () => {
+            const response = await get('/api/messages/general?before=1&after=2');
+
+            expect(response).toHaveStatusCode(400);
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        it('return 500 when Cassandra fails', async () => {
+            mockExecute.mockRejectedValueOnce(new Error('Cassandra unavailable'));
+
+            const response = await get('/api/messages/general');
+
+            expect(response).toHaveStatusCode(500);
+            expect(response.body).toHaveProperty('error');
+        });
+    });
+});
@@ -1,26 +1,30 @@
 import request from 'supertest';
 import app from '../app';
-import { clearDatabase, createTestServer, createTestUser } from './helpers';
-import { Server } from '../types';
+import { clearDatabase, createTestServer, createTestUser, authHeader } from './helpers';
+import { Server, User } from '../types';
 
 describe('Server Routes', () => {
+    let owner: User;
+    let auth: string;
+
     beforeEach(async () => {
         await clearDatabase();
+        owner = await createTestUser();
+        auth = authHeader(owner);
     });
 
     describe('POST /api/servers', () => {
-        it('should create a new server', async () => {
-            const user = await createTestUser();
+        it('should create a new server owned by the caller', async () => {
             const serverData = {
                 name: 'Test Server',
                 ip: '192.168.1.100',
                 port: 8080,
-                users: [user.id],
+                users: [owner.id],
                 channels: []
             };
 
             const response = await request(app)
-                .post('/api/servers')
+                .post('/api/servers').set('Authorization', auth)
                 .send(serverData);
 
             expect(response.status).toBe(201);
@@ -28,11 +32,20 @@ describe('Server Routes', () => {
             expect(response.body.ip).toBe(serverData.ip);
             expect(response.body.port).toBe(serverData.port);
             expect(response.body.users).toEqual(serverData.users);
+            expect(response.body.owner_id).toBe(owner.id);
         });
 
-        it('should fail with invalid port', async () => {
+        it('should require authentication', async () => {
             const response = await request(app)
                 .post('/api/servers')
+                .send({ name: 'Test Server', ip: '192.168.1.100', port: 8080 });
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should fail with invalid port', async () => {
+            const response = await request(app)
+                .post('/api/servers').set('Authorization', auth)
                 .send({
                     name: 'Test Server',
                     ip: '192.168.1.100',
@@ -47,24 +60,24 @@ describe('Server Routes', () => {
 
     describe('GET /api/servers/:id', () => {
         it('should return server by id', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             console.log("Test server is: ", server);
             console.log(`Server id is ${server.id}`);
-            const response = await request(app).get(`/api/servers/${server.id}`);
+            const response = await request(app).get(`/api/servers/${server.id}`).set('Authorization', auth);
             expect(response.status).toBe(200);
             expect(response.body.id).toBe(server.id);
         });
 
         it('should return 404 for non-existent server', async () => {
             const response = await request(app)
-                .get('/api/servers/00000000-0000-0000-0000-000000000000');
+                .get('/api/servers/00000000-0000-0000-0000-000000000000').set('Authorization', auth);
             expect(response.status).toBe(404);
         });
     });
 
     describe('PUT /api/servers/:id', () => {
         it('should update server', async () => {
-            const server = await createTestServer();
+            const server = await createTestServer({ owner_id: owner.id });
             const updateData = {
                 name: 'Updated Server',
                 ip: '192.168.1.200',
@@ -74,7 +87,7 @@ describe('Server Routes', () => {
             };
 
             const response = await request(app)
-                .put(`/api/servers/${server.id}`)
+                .put(`/api/servers/${server.id}`).set('Authorization', auth)
                 .send(updateData);
 
             expect(response.status).toBe(200);
@@ -85,25 +98,34 @@ describe('Server Routes', () => {
 
         it('should return 404 for non-existent server', async () => {
             const response = await request(app)
-                .put('/api/servers/00000000-0000-0000-0000-000000000000')
+                .put('/api/servers/00000000-0000-0000-0000-000000000000').set('Authorization', auth)
                 .send({ name: 'test' });
             expect(response.status).toBe(404);
         });
+
+        it('should forbid updates by users who do not own the server', async () => {
+            const other = await createTestUser({ username: 'other' });
+            const server = await createTestServer({ owner_id: other.id });
+            const response = await request(app)
+                .put(`/api/servers/${server.id}`).set('Authorization', auth)
+                .send({ name: 'hijacked', ip: '127.0.0.1', port: 8080 });
+            expect(response.status).toBe(403);
+        });
     });
 
     describe('DELETE /api/servers/:id', () => {
         it('should delete server', async () => {
-            const server = await createTestServer();
-            const response = await request(app).delete(`/api/servers/${server.id}`);
+            const server = await createTestServer({ owner_id: owner.id });
+            const response = await request(app).delete(`/api/servers/${server.id}`).set('Authorization', auth);
             expect(response.status).toBe(200);
 
-            const getResponse = await request(app).get(`/api/servers/${server.id}`);
+            const getResponse = await request(app).get(`/api/servers/${server.id}`).set('Authorization', auth);
             expect(getResponse.status).toBe(404);
         });
 
         it('should return 404 for non-existent server', async () => {
             const response = await request(app)
-                .delete('/api/servers/00000000-0000-0000-0000-000000000000');
+                .delete('/api/servers/00000000-0000-0000-0000-000000000000').set('Authorization', auth);
             expect(response.status).toBe(404);
         });
     });
@@ -7,3 +7,4 @@ process.env.DB_USER = 'postgres';
 process.env.DB_HOST = 'localhost';
 process.env.DB_PASSWORD = 'postgres';
 process.env.DB_PORT = '5432';
+process.env.AUTH_SECRET = 'test-auth-secret-test-auth-secret-0123';
@@ -1,16 +1,32 @@
 import request from 'supertest';
 import app from '../app';
-import { clearDatabase, createTestUser } from './helpers';
+import { clearDatabase, createTestUser, authHeader } from './helpers';
 import { User } from '../types';
 
 describe('User Routes', () => {
+    // Reads only need a valid token, not an existing account
+    const auth = authHeader({ id: '00000000-0000-0000-0000-0000000000aa' });
+
     beforeEach(async () => {
         await clearDatabase();
     });
 
+    it('should require authentication', async () => {
+        const response = await request(app).get('/api/users');
+
+        expect(response).toHaveStatusCode(401);
+        expect(response.body.error).toBe('Authentication required');
+    });
+
+    it('should reject invalid tokens', async () => {
+        const response = await request(app).get('/api/users').set('Authorization', 'Bearer not-a-token');
+
+        expect(response).toHaveStatusCode(401);
+    });
+
     describe('GET /api/users', () => {
         it('should return empty array when no users exist', async () => {
-            const response = await request(app).get('/api/users');
+            const response = await request(app).get('/api/users').set('Authorization', auth);
 
             expect(response).toHaveStatusCode(200);
             expect(response.body).toEqual([]);
@@ -19,7 +35,7 @@ describe('User Routes', () => {
 
         it('should return all users', async () => {
             const user = await createTestUser();
-            const response = await request(app).get('/api/users');
+            const response = await request(app).get('/api/users').set('Authorization', auth);
 
             expect(response).toHaveStatusCode(200);
             expect(response.body).toHaveLength(1);
@@ -33,48 +49,10 @@ describe('User Routes', () => {
         });
     });
 
-    describe('POST /api/users', () => {
-        it('should create a new user', async () => {
-            const userData = {
-                username: 'test',
-                display_name: 'test123',
-                avatar_url: 'https://example.com/avatar.jpg'
-            };
-
-            const response = await request(app)
-                .post('/api/users')
-                .send(userData);
-
-            expect(response).toHaveStatusCode(201);
-            expect(response.body).toHaveValidId();
-            expect(response.body).toMatchUser(userData);
-        });
-
-        it('should fail when username is already taken', async () => {
-            // First create a user
-            await createTestUser({ username: 'test' });
-
-            // Try to create another user with the same username
-            const userData = {
-                username: 'test',
-                display_name: 'test456',
-                avatar_url: 'https://example.com/avatar.jpg'
-            };
-
-            const response = await request(app)
-                .post('/api/users')
-                .send(userData);
-
-            expect(response).toHaveStatusCode(500);
-            expect(response.body).toHaveProperty('error');
-            expect(response.body.error).toContain('Username already exists');
-        });
-    });
-
     describe('GET /api/users/:id', () => {
         it('should return user by id', async () => {
             const user = await createTestUser();
-            const response = await request(app).get(`/api/users/${user.id}`);
+            const response = await request(app).get(`/api/users/${user.id}`).set('Authorization', auth);
 
             expect(response).toHaveStatusCode(200);
             expect(response.body).toHaveValidId();
@@ -83,7 +61,7 @@ describe('User Routes', () => {
 
         it('should return 404 for non-existent user', async () => {
             const nonExistentId = '00000000-0000-0000-0000-000000000000';
-            const response = await request(app).get(`/api/users/${nonExistentId}`);
+            const response = await request(app).get(`/api/users/${nonExistentId}`).set('Authorization', auth);
 
             expect(response).toHaveStatusCode(404);
             expect(response.body).toHaveProperty('error');
@@ -101,7 +79,7 @@ describe('User Routes', () => {
             };
 
             const response = await request(app)
-                .put(`/api/users/${user.id}`)
+                .put(`/api/users/${user.id}`).set('Authorization', authHeader(user))
                 .send(updateData);
 
             expect(response).toHaveStatusCode(200);
@@ -109,10 +87,19 @@ describe('User Routes', () => {
             expect(response.body).toMatchUser(updateData);
         });
 
+        it('should forbid updating another user', async () => {
+            const user = await createTestUser();
+            const response = await request(app)
+                .put(`/api/users/${user.id}`).set('Authorization', auth)
+                .send({ username: 'hijacked' });
+
+            expect(response).toHaveStatusCode(403);
+        });
+
         it('should return 404 for non-existent user', async () => {
             const nonExistentId = '00000000-0000-0000-0000-000000000000';
             const response = await request(app)
-                .put(`/api/users/${nonExistentId}`)
+                .put(`/api/users/${nonExistentId}`).set('Authorization', authHeader({ id: nonExistentId }))
                 .send({ username: 'test' });
 
             expect(response).toHaveStatusCode(404);
@@ -124,20 +111,27 @@ describe('User Routes', () => {
     describe('DELETE /api/users/:id', () => {
         it('should delete user', async () => {
             const user = await createTestUser();
-            const response = await request(app).delete(`/api/users/${user.id}`);
+            const response = await request(app).delete(`/api/users/${user.id}`).set('Authorization', authHeader(user));
 
             expect(response).toHaveStatusCode(200);
             expect(response.body).toHaveProperty('message');
             expect(response.body.message).toBe('User deleted successfully');
 
             // Verify user is actually deleted
-            const getResponse = await request(app).get(`/api/users/${user.id}`);
+            const getResponse = await request(app).get(`/api/users/${user.id}`).set('Authorization', auth);
             expect(getResponse).toHaveStatusCode(404);
         });
 
+        it('should forbid deleting another user', async () => {
+            const user = await createTestUser();
+            const response = await request(app).delete(`/api/users/${user.id}`).set('Authorization', auth);
+
+            expect(response).toHaveStatusCode(403);
+        });
+
         it('should return 404 for non-existent user', async () => {
             const nonExistentId = '00000000-0000-0000-0000-000000000000';
-            const response = await request(app).delete(`/api/users/${nonExistentId}`);
+            const response = await request(app).delete(`/api/users/${nonExistentId}`).set('Authorization', authHeader({ id: nonExistentId }));
 
             expect(response).toHaveStatusCode(404);
             expect(response.body).toHaveProperty('error');
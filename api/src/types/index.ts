@@ -5,11 +5,21 @@ export interface User {
     avatar_url?: string;
 }
 
+// Columns safe to return to clients; password_hash never leaves the database
+export const USER_COLUMNS = 'id, username, display_name, avatar_url';
+
+export interface AuthResponse {
+    user: User;
+    accessToken: string;
+    refreshToken: string;
+}
+
 export interface Server {
     id: string;
     name: string;
     ip: string;
     port: number;
+    owner_id: string;
     users: string[];
     channels: string[];
 }
@@ -20,8 +30,16 @@ export interface Channel {
     server_id: string;
 }
 
-// TODO how should DMs be handled. special case server between two
-// users with only one channel?
+// A direct conversation between two or more users, outside any server. Its
+// ID doubles as the chat channel ID.
+export interface DirectChannel {
+    id: string;
+    participants: string[];
+    created_at: string;
+}
+
+// Group DMs are for small groups; anything bigger should be a server
+export const MAX_DIRECT_PARTICIPANTS = 10;
 
 export interface Message {
     channelId: string;
@@ -31,5 +49,13 @@ export interface Message {
     content: string;
     createdAt: string;
     editedAt: string | null;
+    deletedAt: string | null; // Tombstones keep their ID but lose their content
     metadata: Record<string, string>;
 }
+
+export interface MessagesResponse {
+    messages: Message[];
+    count: number;
+    hasMore: boolean;
+    channelName?: string;
+}
@@ -0,0 +1,82 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import authConfig from '../config/auth';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const TOKEN_ALGORITHM = 'HS256';
+
+// Service tokens let other backends (e.g. the chat server) call internal routes
+export type TokenType = 'access' | 'refresh' | 'service';
+
+export interface TokenClaims {
+    sub: string;
+    type: TokenType;
+    jti?: string;
+}
+
+const getSecret = (): string => {
+    if (authConfig.secret.length < 32) {
+        throw new Error('AUTH_SECRET must be set to at least 32 characters');
+    }
+    return authConfig.secret;
+};
+
+// Stored as scrypt$<salt>$<hash> so the parameters travel with the hash
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const signAccessToken = (userId: string): string => {
+    const claims: TokenClaims = { sub: userId, type: 'access' };
+    return jwt.sign(claims, getSecret(), {
+        algorithm: TOKEN_ALGORITHM,
+        expiresIn: authConfig.accessTokenTtl as SignOptions['expiresIn']
+    });
+};
+
+// Refresh tokens carry a jti matching a refresh_tokens row so they can be revoked
+export const signRefreshToken = (userId: string): { token: string; tokenId: string; expiresAt: Date } => {
+    const tokenId = randomUUID();
+    const expiresAt = new Date(Date.now() + authConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+    const claims: TokenClaims = { sub: userId, type: 'refresh', jti: tokenId };
+    const token = jwt.sign(claims, getSecret(), {
+        algorithm: TOKEN_ALGORITHM,
+        expiresIn: authConfig.refreshTokenTtlDays * 24 * 60 * 60
+    });
+    return { token, tokenId, expiresAt };
+};
+
+// Other backends sign these themselves with the shared secret; the API only
+// verifies them, except in tests
+export const signServiceToken = (service: string): string => {
+    const claims: TokenClaims = { sub: service, type: 'service' };
+    return jwt.sign(claims, getSecret(), { algorithm: TOKEN_ALGORITHM, expiresIn: '5m' });
+};
+
+// Returns null for anything that is not a valid, unexpired token of the given type
+export const verifyToken = (token: string, type: TokenType): TokenClaims | null => {
+    try {
+        const payload = jwt.verify(token, getSecret(), { algorithms: [TOKEN_ALGORITHM] });
+        if (typeof payload === 'string' || payload.type !== type || typeof payload.sub !== 'string') {
+            return null;
+        }
+        return { sub: payload.sub, type, jti: payload.jti };
+    } catch {
+        return null;
+    }
+};
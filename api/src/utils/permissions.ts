@@ -0,0 +1,54 @@
+import { query } from './db';
+import { Server } from '../types';
+
+export type ServerAccess = 'missing' | 'forbidden' | 'owner';
+
+// Whether the user owns the server; only owners may modify a server or its channels
+export const getServerAccess = async (serverId: string, userId?: string): Promise<ServerAccess> => {
+    const result = await query<Pick<Server, 'owner_id'>>('SELECT owner_id FROM servers WHERE id = $1', [serverId]);
+    if (result.rows.length === 0) {
+        return 'missing';
+    }
+    return result.rows[0].owner_id === userId ? 'owner' : 'forbidden';
+};
+
+// Whether the user owns or belongs to the server the channel with this ID
+// belongs to, or takes part in the direct conversation with that ID. Only
+// rows of the channels table count: a server's channels array and channel
+// names are set by whoever creates the server, so neither proves membership.
+export const canAccessChannel = async (channelId: string, userId: string): Promise<boolean> => {
+    const result = await query(
+        `SELECT 1 FROM channels c
+         JOIN servers s ON s.id = c.server_id
+         WHERE c.id::text = $1
+           AND (s.owner_id::text = $2 OR $2 = ANY(s.users::text[]))
+         UNION ALL
+         SELECT 1 FROM direct_channels d
+         WHERE d.id::text = $1 AND $2 = ANY(d.participants::text[])
+         LIMIT 1`,
+        [channelId, userId]
+    );
+    return result.rows.length > 0;
+};
+
+// Whether the user moderates the channel with this ID: the owner of the server
+// it was created in may delete anyone's messages there. Direct conversations
+// have no moderators.
+export const canModerateChannel = async (channelId: string, userId: string): Promise<boolean> => {
+    const result = await query(
+        `SELECT 1 FROM channels c
+         JOIN servers s ON s.id = c.server_id
+         WHERE c.id::text = $1 AND s.owner_id::text = $2`,
+        [channelId, userId]
+    );
+    return result.rows.length > 0;
+};
+
+// IDs of the direct conversations the user takes part in
+export const getDirectChannelIds = async (userId: string): Promise<string[]> => {
+    const result = await query<{ id: string }>(
+        'SELECT id FROM direct_channels WHERE $1 = ANY(participants::text[]) ORDER BY created_at',
+        [userId]
+    );
+    return result.rows.map(row => row.id);
+};
@@ -0,0 +1,119 @@
+import { getCassandraClient } from '@/database/cassandra';
+import { MessagePageQuery, MessageStore } from '@/adapters/messageStore';
+import { bucketOf, readMessagePage } from '@chime/protocol';
+import { ChimeMessage } from '@/types/message';
+import { MessageRow, toMessageRow, toChimeMessage } from '@/types/database';
+
+/**
+ * Messages in Cassandra, partitioned by channel and day
+ * (`messages_by_bucket`). `channel_buckets` lists the days that hold a
+ * channel's messages so history reads skip empty ones, and `thread_replies`
+ * indexes replies under their parent.
+ */
+export class CassandraMessageStore implements MessageStore {
+    private dbClient = getCassandraClient();
+
+    async insert(message: ChimeMessage): Promise<void> {
+        const { channelId, messageId } = message;
+        const bucket = bucketOf(messageId);
+
+        // Listed before the message is written so readers never miss it
+        await this.dbClient.execute(
+            'INSERT INTO channel_buckets (channel_id, bucket) VALUES (?, ?)',
+            [channelId, bucket],
+            { prepare: true }
+        );
+        await this.dbClient.execute(`
+            INSERT INTO messages_by_bucket (channel_id, bucket, message_id, user_id, content, created_at, edited_at, metadata)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+            channelId,
+            bucket,
+            messageId,
+            message.userId,
+            message.content,
+            new Date(message.createdAt),
+            null, // edited_at starts as null
+            message.metadata
+        ], { prepare: true });
+    }
+
+    async addReply(channelId: string, parentId: string, replyId: string): Promise<void> {
+        await this.dbClient.execute(
+            'INSERT INTO thread_replies (channel_id, parent_id, reply_id) VALUES (?, ?, ?)',
+            [channelId, parentId, replyId],
+            { prepare: true }
+        );
+    }
+
+    async get(channelId: string, messageId: string): Promise<ChimeMessage | null> {
+        const result = await this.dbClient.execute(
+            'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+            [channelId, bucketOf(messageId), messageId],
+            { prepare: true }
+        );
+        const first = result.first();
+        const row = first ? toMessageRow(first) : null;
+        return row ? toChimeMessage(row) : null;
+    }
+
+    async edit(channelId: string, messageId: string, content: string, editedAt: Date): Promise<void> {
+        await this.dbClient.execute(
+            'UPDATE messages_by_bucket SET content = ?, edited_at = ? WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+            [content, editedAt, channelId, bucketOf(messageId), messageId],
+            { prepare: true }
+        );
+    }
+
+    async tombstone(channelId: string, messageId: string, deletedAt: Date, deletedBy: string): Promise<void> {
+        await this.dbClient.execute(
+            'UPDATE messages_by_bucket SET content = ?, deleted_at = ?, deleted_by = ? WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+            ['', deletedAt, deletedBy, channelId, bucketOf(messageId), messageId],
+            { prepare: true }
+        );
+    }
+
+    async getReplies(channelId: string, parentId: string, limit: number): Promise<ChimeMessage[]> {
+        const index = await this.dbClient.execute(
+            'SELECT reply_id FROM thread_replies WHERE channel_id = ? AND parent_id = ? LIMIT ?',
+            [channelId, parentId, limit],
+            { prepare: true }
+        );
+        const replyIds = index.rows.map(row => String(row.reply_id));
+
+        if (replyIds.length === 0) {
+            return [];
+        }
+
+        // Replies may span several days, so read each day's partition
+        const byBucket = new Map<number, string[]>();
+        for (const replyId of replyIds) {
+            const bucket = bucketOf(replyId);
+            byBucket.set(bucket, [...(byBucket.get(bucket) ?? []), replyId]);
+        }
+
+        const rows = await Promise.all(Array.from(byBucket, ([bucket, ids]) => this.selectMessages(
+            'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id IN ?',
+            [channelId, bucket, ids]
+        )));
+        return rows.flat().map(toChimeMessage);
+    }
+
+    async getPage(request: MessagePageQuery): Promise<ChimeMessage[]> {
+        const rows = await readMessagePage(
+            async (query, params) => (await this.dbClient.execute(query, params, { prepare: true })).rows,
+            request
+        );
+        return rows
+            .map(toMessageRow)
+            .filter((row): row is MessageRow => row !== null)
+            .map(toChimeMessage);
+    }
+
+    private async selectMessages(query: string, params: unknown[]): Promise<MessageRow[]> {
+        const result = await this.dbClient.execute(query, params, { prepare: true });
+        return result.rows
+            .map(toMessageRow)
+            .filter((row): row is MessageRow => row !== null);
+    }
+}
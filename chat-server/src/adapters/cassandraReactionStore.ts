@@ -0,0 +1,41 @@
+import { getCassandraClient } from '@/database/cassandra';
+import { ReactionStore } from '@/adapters/reactionStore';
+import { Reactions } from '@/types/message';
+
+/**
+ * Reactions in Cassandra's `message_reactions`, one row per reaction
+ */
+export class CassandraReactionStore implements ReactionStore {
+    private dbClient = getCassandraClient();
+
+    async add(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        await this.dbClient.execute(
+            'INSERT INTO message_reactions (channel_id, message_id, emoji, user_id, reacted_at) VALUES (?, ?, ?, ?, ?)',
+            [channelId, messageId, emoji, userId, new Date()],
+            { prepare: true }
+        );
+    }
+
+    async remove(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        await this.dbClient.execute(
+            'DELETE FROM message_reactions WHERE channel_id = ? AND message_id = ? AND emoji = ? AND user_id = ?',
+            [channelId, messageId, emoji, userId],
+            { prepare: true }
+        );
+    }
+
+    async getFor(channelId: string, messageIds: string[]): Promise<Record<string, Reactions>> {
+        const result = await this.dbClient.execute(
+            'SELECT message_id, emoji, user_id FROM message_reactions WHERE channel_id = ? AND message_id IN ?',
+            [channelId, messageIds],
+            { prepare: true }
+        );
+
+        const byMessage: Record<string, Reactions> = {};
+        for (const row of result.rows) {
+            const reactions = byMessage[row.message_id] ??= {};
+            (reactions[row.emoji] ??= []).push(row.user_id);
+        }
+        return byMessage;
+    }
+}
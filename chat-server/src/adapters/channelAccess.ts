@@ -0,0 +1,18 @@
+/**
+ * Result of checking a user against a list of channels
+ */
+export interface ChannelAccessResult {
+    allowed: string[];
+    denied: string[];
+}
+
+/**
+ * Who may join and moderate which channels: the API's servers and direct
+ * conversations in a deployment, a fixed list (or nobody checking at all) in
+ * memory
+ */
+export interface ChannelAccess {
+    filterAllowed(userId: string, channels: string[]): Promise<ChannelAccessResult>;
+    getDirectChannels(userId: string): Promise<string[]>; // Joined by every connection of the user without asking
+    canModerate(channelId: string, userId: string): Promise<boolean>; // May delete anyone's messages in the channel
+}
@@ -0,0 +1,82 @@
+import { connectToCassandra, disconnectFromCassandra } from '@/database/cassandra';
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { PubSub } from '@/adapters/pubSub';
+import { MessageStore } from '@/adapters/messageStore';
+import { ReactionStore } from '@/adapters/reactionStore';
+import { ChannelAccess } from '@/adapters/channelAccess';
+import { RedisKeyValueStore } from '@/adapters/redisKeyValueStore';
+import { RedisPubSub } from '@/adapters/redisPubSub';
+import { CassandraMessageStore } from '@/adapters/cassandraMessageStore';
+import { CassandraReactionStore } from '@/adapters/cassandraReactionStore';
+import { MemoryKeyValueStore } from '@/adapters/memoryKeyValueStore';
+import { MemoryPubSub } from '@/adapters/memoryPubSub';
+import { MemoryMessageStore } from '@/adapters/memoryMessageStore';
+import { MemoryReactionStore } from '@/adapters/memoryReactionStore';
+import { MemoryChannelAccess } from '@/adapters/memoryChannelAccess';
+import { ChannelAccessService } from '@/services/channelAccessService';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'adapters' });
+
+/**
+ * Where the chat server keeps its state and how its instances talk to each
+ * other. Services are handed these instead of opening their own connections.
+ */
+export interface Adapters {
+    keyValueStore: KeyValueStore;
+    pubSub: PubSub;
+    messageStore: MessageStore;
+    reactionStore: ReactionStore;
+    channelAccess: ChannelAccess;
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+}
+
+/**
+ * Cassandra for messages and reactions, Redis for everything else, and the
+ * API for who may join which channels. Every instance of a deployment shares
+ * them.
+ */
+export function createExternalAdapters(test: boolean = false): Adapters {
+    const keyValueStore = new RedisKeyValueStore(test);
+    const pubSub = new RedisPubSub(test);
+
+    return {
+        keyValueStore,
+        pubSub,
+        messageStore: new CassandraMessageStore(),
+        reactionStore: new CassandraReactionStore(),
+        channelAccess: new ChannelAccessService(),
+        async connect() {
+            await connectToCassandra();
+            await keyValueStore.connect();
+            await pubSub.connect();
+            log.info({ function: 'connect' }, 'External adapters connected');
+        },
+        async disconnect() {
+            await pubSub.disconnect();
+            await keyValueStore.disconnect();
+            await disconnectFromCassandra();
+            log.info({ function: 'disconnect' }, 'External adapters disconnected');
+        },
+    };
+}
+
+/**
+ * Everything in this process, for development and tests. State is lost on
+ * exit and is not shared with other instances. Channels are open to everyone
+ * unless a configured `channelAccess` is passed in.
+ */
+export function createMemoryAdapters(channelAccess: ChannelAccess = new MemoryChannelAccess()): Adapters {
+    return {
+        keyValueStore: new MemoryKeyValueStore(),
+        pubSub: new MemoryPubSub(),
+        messageStore: new MemoryMessageStore(),
+        reactionStore: new MemoryReactionStore(),
+        channelAccess,
+        async connect() {
+            log.info({ function: 'connect' }, 'Using in-memory adapters');
+        },
+        async disconnect() {},
+    };
+}
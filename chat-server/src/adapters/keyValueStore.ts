@@ -0,0 +1,59 @@
+/**
+ * How `set` treats an existing key and its expiry, as in Redis: `NX` only
+ * sets a missing key, `XX` only an existing one, and `KEEPTTL` leaves the
+ * expiry as it was
+ */
+export interface SetOptions {
+    expiration?: { type: 'EX' | 'PX'; value: number } | 'KEEPTTL';
+    condition?: 'NX' | 'XX';
+}
+
+export interface SortedSetMember {
+    score: number;
+    value: string;
+}
+
+export interface StreamEntry {
+    id: string;
+    message: Record<string, string>;
+}
+
+/**
+ * Caps a stream at about `threshold` entries, dropping the oldest
+ */
+export interface StreamAddOptions {
+    TRIM: { strategy: 'MAXLEN'; strategyModifier?: '~' | '='; threshold: number };
+}
+
+/**
+ * The shared state services keep between chat-server instances: the Redis
+ * commands they use, with Redis semantics. Keys expire, and commands that
+ * report a count or success return what Redis would.
+ */
+export interface KeyValueStore {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, options?: SetOptions): Promise<string | null>;
+    del(key: string): Promise<number>;
+    expire(key: string, seconds: number): Promise<number>;
+    pExpire(key: string, milliseconds: number): Promise<number>;
+
+    hGet(key: string, field: string): Promise<string | null>;
+    hmGet(key: string, fields: string[]): Promise<(string | null)[]>;
+    hGetAll(key: string): Promise<Record<string, string>>;
+    hSet(key: string, field: string, value: string): Promise<number>;
+    hDel(key: string, field: string): Promise<number>;
+    hIncrBy(key: string, field: string, increment: number): Promise<number>;
+
+    sAdd(key: string, member: string): Promise<number>;
+    sRem(key: string, member: string): Promise<number>;
+    sMembers(key: string): Promise<string[]>;
+
+    zAdd(key: string, member: SortedSetMember): Promise<number>;
+    zRange(key: string, start: number, stop: number): Promise<string[]>;
+    zRemRangeByRank(key: string, start: number, stop: number): Promise<number>;
+    zLexCount(key: string, min: string, max: string): Promise<number>;
+
+    xAdd(key: string, id: '*', message: Record<string, string>, options?: StreamAddOptions): Promise<string>;
+    xRange(key: string, start: string, end: string): Promise<StreamEntry[]>;
+    xDel(key: string, ids: string[]): Promise<number>;
+}
@@ -0,0 +1,49 @@
+import { ChannelAccess, ChannelAccessResult } from '@/adapters/channelAccess';
+
+/**
+ * Channel access held in this process, for running without the API. Until a
+ * channel is given members with `allow` anyone may join it; after that only
+ * those members may. Channels have no moderators until given some with
+ * `addModerators`.
+ */
+export class MemoryChannelAccess implements ChannelAccess {
+    private members = new Map<string, Set<string>>(); // channelId => users allowed in
+    private directChannels = new Map<string, Set<string>>(); // userId => direct conversations
+    private moderators = new Map<string, Set<string>>(); // channelId => users who moderate it
+
+    allow(channelId: string, userIds: string[]): void {
+        const members = this.members.get(channelId) ?? new Set<string>();
+        userIds.forEach(userId => members.add(userId));
+        this.members.set(channelId, members);
+    }
+
+    addDirectChannel(channelId: string, participants: string[]): void {
+        this.allow(channelId, participants);
+        for (const userId of participants) {
+            this.directChannels.set(userId, (this.directChannels.get(userId) ?? new Set()).add(channelId));
+        }
+    }
+
+    addModerators(channelId: string, userIds: string[]): void {
+        const moderators = this.moderators.get(channelId) ?? new Set<string>();
+        userIds.forEach(userId => moderators.add(userId));
+        this.moderators.set(channelId, moderators);
+    }
+
+    async filterAllowed(userId: string, channels: string[]): Promise<ChannelAccessResult> {
+        const canAccess = (channelId: string) => this.members.get(channelId)?.has(userId) ?? true;
+
+        return {
+            allowed: channels.filter(channelId => canAccess(channelId)),
+            denied: channels.filter(channelId => !canAccess(channelId)),
+        };
+    }
+
+    async getDirectChannels(userId: string): Promise<string[]> {
+        return Array.from(this.directChannels.get(userId) ?? []);
+    }
+
+    async canModerate(channelId: string, userId: string): Promise<boolean> {
+        return this.moderators.get(channelId)?.has(userId) ?? false;
+    }
+}
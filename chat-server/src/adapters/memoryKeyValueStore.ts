@@ -0,0 +1,272 @@
+import { KeyValueStore, SetOptions, SortedSetMember, StreamAddOptions, StreamEntry } from '@/adapters/keyValueStore';
+
+type Value =
+    | { type: 'string'; value: string }
+    | { type: 'hash'; value: Map<string, string> }
+    | { type: 'set'; value: Set<string> }
+    | { type: 'zset'; value: SortedSetMember[] } // Ordered by score, then value
+    | { type: 'stream'; value: StreamEntry[] }; // Oldest first
+
+type ValueOf<T extends Value['type']> = Extract<Value, { type: T }>['value'];
+
+/**
+ * KeyValueStore held in this process, for running the chat server and its
+ * tests without Redis. Only one instance can share it, so state that Redis
+ * would spread across instances stays local.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+    private values = new Map<string, Value>();
+    private expiries = new Map<string, number>(); // key => expires at, ms
+    private lastStreamId = { ms: 0, seq: 0 };
+
+    constructor(private now: () => number = Date.now) {}
+
+    async get(key: string): Promise<string | null> {
+        return this.read(key, 'string') ?? null;
+    }
+
+    async set(key: string, value: string, options: SetOptions = {}): Promise<string | null> {
+        const exists = this.live(key) !== undefined;
+        if ((options.condition === 'NX' && exists) || (options.condition === 'XX' && !exists)) {
+            return null;
+        }
+
+        this.values.set(key, { type: 'string', value });
+        const { expiration } = options;
+        if (expiration === undefined) {
+            this.expiries.delete(key);
+        } else if (expiration !== 'KEEPTTL') {
+            this.expiries.set(key, this.now() + (expiration.type === 'EX' ? expiration.value * 1000 : expiration.value));
+        }
+        return 'OK';
+    }
+
+    async del(key: string): Promise<number> {
+        const existed = this.live(key) !== undefined;
+        this.values.delete(key);
+        this.expiries.delete(key);
+        return existed ? 1 : 0;
+    }
+
+    async expire(key: string, seconds: number): Promise<number> {
+        return this.pExpire(key, seconds * 1000);
+    }
+
+    async pExpire(key: string, milliseconds: number): Promise<number> {
+        if (this.live(key) === undefined) {
+            return 0;
+        }
+        this.expiries.set(key, this.now() + milliseconds);
+        return 1;
+    }
+
+    async hGet(key: string, field: string): Promise<string | null> {
+        return this.read(key, 'hash')?.get(field) ?? null;
+    }
+
+    async hmGet(key: string, fields: string[]): Promise<(string | null)[]> {
+        const hash = this.read(key, 'hash');
+        return fields.map(field => hash?.get(field) ?? null);
+    }
+
+    async hGetAll(key: string): Promise<Record<string, string>> {
+        return Object.fromEntries(this.read(key, 'hash') ?? []);
+    }
+
+    async hSet(key: string, field: string, value: string): Promise<number> {
+        const hash = this.write(key, 'hash', () => new Map());
+        const added = hash.has(field) ? 0 : 1;
+        hash.set(field, value);
+        return added;
+    }
+
+    async hDel(key: string, field: string): Promise<number> {
+        const hash = this.read(key, 'hash');
+        const removed = hash?.delete(field) ? 1 : 0;
+        this.dropIfEmpty(key, hash?.size);
+        return removed;
+    }
+
+    async hIncrBy(key: string, field: string, increment: number): Promise<number> {
+        const hash = this.write(key, 'hash', () => new Map());
+        const value = Number(hash.get(field) ?? 0) + increment;
+        hash.set(field, String(value));
+        return value;
+    }
+
+    async sAdd(key: string, member: string): Promise<number> {
+        const set = this.write(key, 'set', () => new Set());
+        const added = set.has(member) ? 0 : 1;
+        set.add(member);
+        return added;
+    }
+
+    async sRem(key: string, member: string): Promise<number> {
+        const set = this.read(key, 'set');
+        const removed = set?.delete(member) ? 1 : 0;
+        this.dropIfEmpty(key, set?.size);
+        return removed;
+    }
+
+    async sMembers(key: string): Promise<string[]> {
+        return Array.from(this.read(key, 'set') ?? []);
+    }
+
+    async zAdd(key: string, member: SortedSetMember): Promise<number> {
+        const members = this.write(key, 'zset', () => []);
+        const index = members.findIndex(existing => existing.value === member.value);
+        if (index >= 0) {
+            members.splice(index, 1);
+        }
+        members.push({ ...member });
+        members.sort((a, b) => a.score - b.score || compareStrings(a.value, b.value));
+        return index >= 0 ? 0 : 1;
+    }
+
+    async zRange(key: string, start: number, stop: number): Promise<string[]> {
+        const members = this.read(key, 'zset') ?? [];
+        const [from, to] = rankRange(members.length, start, stop);
+        return members.slice(from, to + 1).map(member => member.value);
+    }
+
+    async zRemRangeByRank(key: string, start: number, stop: number): Promise<number> {
+        const members = this.read(key, 'zset');
+        if (!members) {
+            return 0;
+        }
+        const [from, to] = rankRange(members.length, start, stop);
+        const removed = members.splice(from, Math.max(0, to - from + 1)).length;
+        this.dropIfEmpty(key, members.length);
+        return removed;
+    }
+
+    /**
+     * Count members between two lexical bounds: `-` and `+` for either end,
+     * otherwise `[value` (inclusive) or `(value` (exclusive). Like Redis this
+     * assumes every member has the same score.
+     */
+    async zLexCount(key: string, min: string, max: string): Promise<number> {
+        const members = this.read(key, 'zset') ?? [];
+        return members.filter(({ value }) => aboveLexBound(value, min) && belowLexBound(value, max)).length;
+    }
+
+    async xAdd(key: string, _id: '*', message: Record<string, string>, options?: StreamAddOptions): Promise<string> {
+        const entries = this.write(key, 'stream', () => []);
+        const id = this.nextStreamId();
+        entries.push({ id, message: { ...message } });
+
+        const threshold = options?.TRIM.threshold;
+        if (threshold !== undefined && entries.length > threshold) {
+            entries.splice(0, entries.length - threshold);
+        }
+        return id;
+    }
+
+    async xRange(key: string, start: string, end: string): Promise<StreamEntry[]> {
+        const entries = this.read(key, 'stream') ?? [];
+        return entries
+            .filter(({ id }) => (start === '-' || compareStreamIds(id, start) >= 0) && (end === '+' || compareStreamIds(id, end) <= 0))
+            .map(({ id, message }) => ({ id, message: { ...message } }));
+    }
+
+    async xDel(key: string, ids: string[]): Promise<number> {
+        const entries = this.read(key, 'stream');
+        if (!entries) {
+            return 0;
+        }
+        const doomed = new Set(ids);
+        const kept = entries.filter(entry => !doomed.has(entry.id));
+        this.values.set(key, { type: 'stream', value: kept });
+        return entries.length - kept.length;
+    }
+
+    /**
+     * The key's value, unless it is missing or has expired
+     */
+    private live(key: string): Value | undefined {
+        const expiresAt = this.expiries.get(key);
+        if (expiresAt !== undefined && expiresAt <= this.now()) {
+            this.values.delete(key);
+            this.expiries.delete(key);
+        }
+        return this.values.get(key);
+    }
+
+    private read<T extends Value['type']>(key: string, type: T): ValueOf<T> | undefined {
+        const entry = this.live(key);
+        if (entry === undefined) {
+            return undefined;
+        }
+        if (entry.type !== type) {
+            throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+        }
+        return entry.value as ValueOf<T> | undefined;
+    }
+
+    private write<T extends Value['type']>(key: string, type: T, create: () => ValueOf<T>): ValueOf<T> {
+        const existing = this.read(key, type);
+        if (existing !== undefined) {
+            return existing;
+        }
+        const value = create();
+        this.values.set(key, { type, value } as Value);
+        return value;
+    }
+
+    // Redis deletes collections once their last member goes
+    private dropIfEmpty(key: string, size: number | undefined): void {
+        if (size === 0) {
+            this.values.delete(key);
+            this.expiries.delete(key);
+        }
+    }
+
+    private nextStreamId(): string {
+        const ms = Math.max(this.now(), this.lastStreamId.ms);
+        const seq = ms === this.lastStreamId.ms ? this.lastStreamId.seq + 1 : 0;
+        this.lastStreamId = { ms, seq };
+        return `${ms}-${seq}`;
+    }
+}
+
+// Redis compares members byte by byte, not by locale
+function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Turn a Redis rank range, which may count from the end, into indexes
+ */
+function rankRange(length: number, start: number, stop: number): [number, number] {
+    const from = Math.max(0, start < 0 ? length + start : start);
+    const to = Math.min(length - 1, stop < 0 ? length + stop : stop);
+    return [from, to];
+}
+
+function aboveLexBound(value: string, min: string): boolean {
+    if (min === '-') {
+        return true;
+    }
+    if (min === '+') {
+        return false;
+    }
+    const comparison = compareStrings(value, min.slice(1));
+    return min.startsWith('(') ? comparison > 0 : comparison >= 0;
+}
+
+function belowLexBound(value: string, max: string): boolean {
+    if (max === '+') {
+        return true;
+    }
+    if (max === '-') {
+        return false;
+    }
+    const comparison = compareStrings(value, max.slice(1));
+    return max.startsWith('(') ? comparison < 0 : comparison <= 0;
+}
+
+function compareStreamIds(a: string, b: string): number {
+    const [aMs, aSeq = 0] = a.split('-').map(Number);
+    const [bMs, bSeq = 0] = b.split('-').map(Number);
+    return aMs - bMs || aSeq - bSeq;
+}
@@ -0,0 +1,74 @@
+import { MessagePageQuery, MessageStore } from '@/adapters/messageStore';
+import { compareMessageIds } from '@/services/messageIDService';
+import { ChimeMessage } from '@/types/message';
+
+/**
+ * Messages held in this process, for running the chat server and its tests
+ * without Cassandra. Each channel's messages are kept oldest first.
+ */
+export class MemoryMessageStore implements MessageStore {
+    private channels = new Map<string, ChimeMessage[]>(); // channelId => messages
+    private replies = new Map<string, string[]>(); // `channelId:parentId` => reply IDs
+
+    async insert(message: ChimeMessage): Promise<void> {
+        const messages = this.channels.get(message.channelId) ?? [];
+        messages.push({ ...message, metadata: { ...message.metadata } });
+        messages.sort((a, b) => compareMessageIds(a.messageId, b.messageId));
+        this.channels.set(message.channelId, messages);
+    }
+
+    async addReply(channelId: string, parentId: string, replyId: string): Promise<void> {
+        const key = `${channelId}:${parentId}`;
+        this.replies.set(key, [...(this.replies.get(key) ?? []), replyId]);
+    }
+
+    async get(channelId: string, messageId: string): Promise<ChimeMessage | null> {
+        const message = this.find(channelId, messageId);
+        return message ? { ...message } : null;
+    }
+
+    async edit(channelId: string, messageId: string, content: string, editedAt: Date): Promise<void> {
+        const message = this.find(channelId, messageId);
+        if (message) {
+            message.content = content;
+            message.editedAt = editedAt.toISOString();
+        }
+    }
+
+    async tombstone(channelId: string, messageId: string, deletedAt: Date, _deletedBy: string): Promise<void> {
+        const message = this.find(channelId, messageId);
+        if (message) {
+            message.content = '';
+            message.deletedAt = deletedAt.toISOString();
+        }
+    }
+
+    async getReplies(channelId: string, parentId: string, limit: number): Promise<ChimeMessage[]> {
+        const replyIds = (this.replies.get(`${channelId}:${parentId}`) ?? []).slice(0, limit);
+        return replyIds
+            .map(replyId => this.find(channelId, replyId))
+            .filter((message): message is ChimeMessage => message !== undefined)
+            .map(message => ({ ...message }));
+    }
+
+    async getPage({ channelId, before, after, limit }: MessagePageQuery): Promise<ChimeMessage[]> {
+        const messages = this.channels.get(channelId) ?? [];
+
+        if (after !== undefined) {
+            return messages
+                .filter(message => compareMessageIds(message.messageId, after) > 0)
+                .slice(0, limit)
+                .map(message => ({ ...message }));
+        }
+
+        const older = messages.filter(message => before === undefined || compareMessageIds(message.messageId, before) < 0);
+        return older
+            .slice(Math.max(0, older.length - limit))
+            .reverse()
+            .map(message => ({ ...message }));
+    }
+
+    private find(channelId: string, messageId: string): ChimeMessage | undefined {
+        return this.channels.get(channelId)?.find(message => message.messageId === messageId);
+    }
+}
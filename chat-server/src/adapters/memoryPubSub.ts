@@ -0,0 +1,23 @@
+import { PubSub, PubSubListener } from '@/adapters/pubSub';
+
+/**
+ * PubSub within this process, for a single chat-server instance. Listeners
+ * run on a later tick, as they would when a payload comes back from Redis.
+ */
+export class MemoryPubSub implements PubSub {
+    private listeners = new Map<string, PubSubListener[]>(); // channel => listeners
+
+    async publish(channel: string, payload: string): Promise<void> {
+        for (const listener of this.listeners.get(channel) ?? []) {
+            setImmediate(() => listener(payload, channel));
+        }
+    }
+
+    async subscribe(channel: string, listener: PubSubListener): Promise<void> {
+        this.listeners.set(channel, [...(this.listeners.get(channel) ?? []), listener]);
+    }
+
+    async unsubscribe(channel: string): Promise<void> {
+        this.listeners.delete(channel);
+    }
+}
@@ -0,0 +1,36 @@
+import { ReactionStore } from '@/adapters/reactionStore';
+import { Reactions } from '@/types/message';
+
+/**
+ * Reactions held in this process, for running without Cassandra
+ */
+export class MemoryReactionStore implements ReactionStore {
+    private reactions = new Map<string, Map<string, Set<string>>>(); // `channelId:messageId` => emoji => users
+
+    async add(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        const key = `${channelId}:${messageId}`;
+        const byEmoji = this.reactions.get(key) ?? new Map<string, Set<string>>();
+        byEmoji.set(emoji, (byEmoji.get(emoji) ?? new Set()).add(userId));
+        this.reactions.set(key, byEmoji);
+    }
+
+    async remove(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        const byEmoji = this.reactions.get(`${channelId}:${messageId}`);
+        const users = byEmoji?.get(emoji);
+        users?.delete(userId);
+        if (users?.size === 0) {
+            byEmoji!.delete(emoji);
+        }
+    }
+
+    async getFor(channelId: string, messageIds: string[]): Promise<Record<string, Reactions>> {
+        const byMessage: Record<string, Reactions> = {};
+        for (const messageId of messageIds) {
+            const byEmoji = this.reactions.get(`${channelId}:${messageId}`);
+            if (byEmoji && byEmoji.size > 0) {
+                byMessage[messageId] = Object.fromEntries(Array.from(byEmoji, ([emoji, users]) => [emoji, Array.from(users)]));
+            }
+        }
+        return byMessage;
+    }
+}
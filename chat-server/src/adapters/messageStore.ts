@@ -0,0 +1,18 @@
+import { MessagePageQuery } from '@chime/protocol';
+import { ChimeMessage } from '@/types/message';
+
+export type { MessagePageQuery };
+
+/**
+ * Where messages and the thread index live. Messages are addressed by
+ * channel and ID; tombstoned messages are returned with empty content.
+ */
+export interface MessageStore {
+    insert(message: ChimeMessage): Promise<void>;
+    addReply(channelId: string, parentId: string, replyId: string): Promise<void>;
+    get(channelId: string, messageId: string): Promise<ChimeMessage | null>;
+    edit(channelId: string, messageId: string, content: string, editedAt: Date): Promise<void>;
+    tombstone(channelId: string, messageId: string, deletedAt: Date, deletedBy: string): Promise<void>;
+    getReplies(channelId: string, parentId: string, limit: number): Promise<ChimeMessage[]>; // In any order
+    getPage(query: MessagePageQuery): Promise<ChimeMessage[]>;
+}
@@ -0,0 +1,12 @@
+export type PubSubListener = (payload: string, channel: string) => void;
+
+/**
+ * Carries channel traffic between chat-server instances. Every instance
+ * subscribed to a channel receives what any instance publishes to it,
+ * including the one that published.
+ */
+export interface PubSub {
+    publish(channel: string, payload: string): Promise<void>;
+    subscribe(channel: string, listener: PubSubListener): Promise<void>;
+    unsubscribe(channel: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { Reactions } from '@/types/message';
+
+/**
+ * Where reactions live: one entry per (message, emoji, user), so reacting
+ * twice is a no-op
+ */
+export interface ReactionStore {
+    add(channelId: string, messageId: string, emoji: string, userId: string): Promise<void>;
+    remove(channelId: string, messageId: string, emoji: string, userId: string): Promise<void>;
+    getFor(channelId: string, messageIds: string[]): Promise<Record<string, Reactions>>; // Messages without reactions are left out
+}
@@ -0,0 +1,114 @@
+import { ChimeRedisClient } from '@/services/redisClient';
+import { KeyValueStore, SetOptions, SortedSetMember, StreamAddOptions, StreamEntry } from '@/adapters/keyValueStore';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'redisKeyValueStore' });
+
+/**
+ * KeyValueStore on one Redis connection, shared by every service
+ */
+export class RedisKeyValueStore implements KeyValueStore {
+    private redisClient: ChimeRedisClient;
+
+    constructor(test: boolean = false) {
+        this.redisClient = new ChimeRedisClient(test);
+    }
+
+    async connect(): Promise<void> {
+        await this.redisClient.connect();
+        log.info({ function: 'connect' }, 'RedisKeyValueStore connected to Redis');
+    }
+
+    async disconnect(): Promise<void> {
+        await this.redisClient.disconnect();
+        log.info({ function: 'disconnect' }, 'RedisKeyValueStore disconnected from Redis');
+    }
+
+    async get(key: string): Promise<string | null> {
+        return await this.client().get(key);
+    }
+
+    async set(key: string, value: string, options?: SetOptions): Promise<string | null> {
+        return await this.client().set(key, value, options);
+    }
+
+    async del(key: string): Promise<number> {
+        return await this.client().del(key);
+    }
+
+    async expire(key: string, seconds: number): Promise<number> {
+        return await this.client().expire(key, seconds);
+    }
+
+    async pExpire(key: string, milliseconds: number): Promise<number> {
+        return await this.client().pExpire(key, milliseconds);
+    }
+
+    async hGet(key: string, field: string): Promise<string | null> {
+        return await this.client().hGet(key, field) ?? null;
+    }
+
+    async hmGet(key: string, fields: string[]): Promise<(string | null)[]> {
+        return await this.client().hmGet(key, fields);
+    }
+
+    async hGetAll(key: string): Promise<Record<string, string>> {
+        return await this.client().hGetAll(key);
+    }
+
+    async hSet(key: string, field: string, value: string): Promise<number> {
+        return await this.client().hSet(key, field, value);
+    }
+
+    async hDel(key: string, field: string): Promise<number> {
+        return await this.client().hDel(key, field);
+    }
+
+    async hIncrBy(key: string, field: string, increment: number): Promise<number> {
+        return await this.client().hIncrBy(key, field, increment);
+    }
+
+    async sAdd(key: string, member: string): Promise<number> {
+        return await this.client().sAdd(key, member);
+    }
+
+    async sRem(key: string, member: string): Promise<number> {
+        return await this.client().sRem(key, member);
+    }
+
+    async sMembers(key: string): Promise<string[]> {
+        return await this.client().sMembers(key);
+    }
+
+    async zAdd(key: string, member: SortedSetMember): Promise<number> {
+        return await this.client().zAdd(key, member);
+    }
+
+    async zRange(key: string, start: number, stop: number): Promise<string[]> {
+        return await this.client().zRange(key, start, stop);
+    }
+
+    async zRemRangeByRank(key: string, start: number, stop: number): Promise<number> {
+        return await this.client().zRemRangeByRank(key, start, stop);
+    }
+
+    async zLexCount(key: string, min: string, max: string): Promise<number> {
+        return await this.client().zLexCount(key, min, max);
+    }
+
+    async xAdd(key: string, id: '*', message: Record<string, string>, options?: StreamAddOptions): Promise<string> {
+        return await this.client().xAdd(key, id, message, options);
+    }
+
+    async xRange(key: string, start: string, end: string): Promise<StreamEntry[]> {
+        return await this.client().xRange(key, start, end);
+    }
+
+    async xDel(key: string, ids: string[]): Promise<number> {
+        return await this.client().xDel(key, ids);
+    }
+
+    private client() {
+        return this.redisClient.getClient();
+    }
+}
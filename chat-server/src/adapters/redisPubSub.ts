@@ -0,0 +1,50 @@
+import { ChimeRedisClient } from '@/services/redisClient';
+import { PubSub, PubSubListener } from '@/adapters/pubSub';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'redisPubSub' });
+
+/**
+ * PubSub over Redis. A subscribed Redis connection can't run other
+ * commands, so publishing and subscribing use a connection each.
+ */
+export class RedisPubSub implements PubSub {
+    private publisher: ChimeRedisClient;
+    private subscriber: ChimeRedisClient;
+
+    constructor(test: boolean = false) {
+        this.publisher = new ChimeRedisClient(test);
+        this.subscriber = new ChimeRedisClient(test);
+    }
+
+    async connect(): Promise<void> {
+        await this.publisher.connect();
+        await this.subscriber.connect();
+        log.info({ function: 'connect' }, 'RedisPubSub connected to Redis');
+    }
+
+    async disconnect(): Promise<void> {
+        await this.subscriber.disconnect();
+        await this.publisher.disconnect();
+        log.info({ function: 'disconnect' }, 'RedisPubSub disconnected from Redis');
+    }
+
+    async publish(channel: string, payload: string): Promise<void> {
+        const client = this.publisher.getClient();
+
+        if (!client.isReady) {
+            log.error({ function: 'publish', channel }, 'connect() needs to be called before publishing');
+            throw new Error('PubSub not connected before publish');
+        }
+
+        await client.publish(channel, payload);
+    }
+
+    async subscribe(channel: string, listener: PubSubListener): Promise<void> {
+        await this.subscriber.getClient().subscribe(channel, listener);
+    }
+
+    async unsubscribe(channel: string): Promise<void> {
+        await this.subscriber.getClient().unsubscribe(channel);
+    }
+}
@@ -1,5 +1,6 @@
 import { Client } from 'cassandra-driver';
 import { loadCredentials } from '@/util/Credentials';
+import { runMigrations } from '@/database/migrations';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'cassandra' });
@@ -62,30 +63,8 @@ async function initializeSchema(): Promise<void> {
     // Use the keyspace
     await cassandraClient.execute('USE chime');
 
-    // Drop the table to ensure schema changes are applied
-    await cassandraClient.execute('DROP TABLE IF EXISTS messages');
-
-    // Create messages table
-    await cassandraClient.execute(`
-        CREATE TABLE IF NOT EXISTS messages (
-            channel_id TEXT,
-            message_id TEXT,
-            user_id TEXT,
-            content TEXT,
-            created_at TIMESTAMP,
-            edited_at TIMESTAMP,
-            metadata MAP<TEXT, TEXT>,
-            PRIMARY KEY (channel_id, message_id)
-        ) WITH CLUSTERING ORDER BY (message_id ASC)
-    `);
-
-    // Create counter table for message IDs per channel
-    await cassandraClient.execute(`
-        CREATE TABLE IF NOT EXISTS message_counters (
-            channel_id TEXT PRIMARY KEY,
-            counter_value COUNTER
-        )
-    `);
+    // Tables come from the migrations shared with the API
+    await runMigrations(cassandraClient);
 
     log.info({ function: 'initializeSchema' }, 'Cassandra schema initialized successfully');
 }
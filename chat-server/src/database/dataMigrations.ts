@@ -0,0 +1,106 @@
+import { Client, types } from 'cassandra-driver';
+import type { DataMigration } from '@/database/migrations';
+import { bucketOf } from '@chime/protocol';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'dataMigrations' });
+
+const COPY_PAGE_SIZE = 500;
+
+/**
+ * Page through every row a query returns, handing each to `copy`
+ */
+async function copyRows(client: Client, query: string, copy: (row: types.Row) => Promise<boolean>): Promise<number> {
+    let copied = 0;
+    let pageState: string | undefined;
+    do {
+        const result = await client.execute(query, [], { prepare: true, fetchSize: COPY_PAGE_SIZE, pageState });
+        for (const row of result.rows) {
+            if (await copy(row)) {
+                copied++;
+            }
+        }
+        pageState = result.pageState || undefined;
+    } while (pageState);
+    return copied;
+}
+
+function isNumericId(id: unknown): id is string {
+    return typeof id === 'string' && /^\d{1,18}$/.test(id);
+}
+
+/**
+ * Copy messages and thread index rows from the TEXT-keyed tables into the
+ * BIGINT ones. Legacy IDs were small sequence numbers, so they keep their
+ * value, stay valid wherever clients or Redis hold them, and sort before
+ * every generated ID.
+ */
+async function copyLegacyMessages(client: Client): Promise<void> {
+    const messages = await copyRows(client, 'SELECT * FROM messages', async row => {
+        if (!isNumericId(row.message_id)) {
+            log.warn({ function: 'copyLegacyMessages', channelId: row.channel_id, messageId: row.message_id }, 'Skipping message with a non-numeric ID');
+            return false;
+        }
+        await client.execute(
+            `INSERT INTO channel_messages (channel_id, message_id, user_id, content, created_at, edited_at, deleted_at, deleted_by, metadata)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [row.channel_id, row.message_id, row.user_id, row.content, row.created_at, row.edited_at, row.deleted_at, row.deleted_by, row.metadata],
+            { prepare: true }
+        );
+        return true;
+    });
+
+    const replies = await copyRows(client, 'SELECT * FROM message_replies', async row => {
+        if (!isNumericId(row.parent_id) || !isNumericId(row.reply_id)) {
+            return false;
+        }
+        await client.execute(
+            'INSERT INTO thread_replies (channel_id, parent_id, reply_id) VALUES (?, ?, ?)',
+            [row.channel_id, row.parent_id, row.reply_id],
+            { prepare: true }
+        );
+        return true;
+    });
+
+    log.info({ function: 'copyLegacyMessages', messages, replies }, 'Copied legacy messages');
+}
+
+/**
+ * Copy messages from the single channel partition into day buckets, listing
+ * each bucket that receives one
+ */
+async function bucketMessages(client: Client): Promise<void> {
+    const buckets = new Set<string>();
+    const messages = await copyRows(client, 'SELECT * FROM channel_messages', async row => {
+        const messageId = row.message_id.toString();
+        const bucket = bucketOf(messageId);
+
+        if (!buckets.has(`${row.channel_id}:${bucket}`)) {
+            await client.execute(
+                'INSERT INTO channel_buckets (channel_id, bucket) VALUES (?, ?)',
+                [row.channel_id, bucket],
+                { prepare: true }
+            );
+            buckets.add(`${row.channel_id}:${bucket}`);
+        }
+        await client.execute(
+            `INSERT INTO messages_by_bucket (channel_id, bucket, message_id, user_id, content, created_at, edited_at, deleted_at, deleted_by, metadata)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [row.channel_id, bucket, messageId, row.user_id, row.content, row.created_at, row.edited_at, row.deleted_at, row.deleted_by, row.metadata],
+            { prepare: true }
+        );
+        return true;
+    });
+
+    log.info({ function: 'bucketMessages', messages, buckets: buckets.size }, 'Copied messages into day buckets');
+}
+
+/**
+ * Steps that move data and cannot be written in CQL, keyed by the version
+ * of the migration they belong to. They run after its statements and are
+ * recorded with it, so they must be safe to repeat too.
+ */
+export const DATA_MIGRATIONS: Record<number, DataMigration> = {
+    2: copyLegacyMessages,
+    3: bucketMessages
+};
@@ -0,0 +1,20 @@
+import { connectToCassandra, disconnectFromCassandra } from '@/database/cassandra';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'migrate' });
+
+/**
+ * Bring the Cassandra schema up to date without starting the server, e.g.
+ * before rolling out a release. Connecting applies pending migrations.
+ */
+async function migrate(): Promise<void> {
+    try {
+        await connectToCassandra();
+        await disconnectFromCassandra();
+    } catch (error) {
+        log.error({ function: 'migrate', error }, 'Failed to migrate Cassandra schema');
+        process.exit(1);
+    }
+}
+
+migrate();
@@ -0,0 +1,113 @@
+import { Client } from 'cassandra-driver';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { DATA_MIGRATIONS } from '@/database/dataMigrations';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'migrations' });
+
+/**
+ * Numbered CQL files shared with the API, e.g. `001_initial_schema.cql`.
+ * Resolved from the compiled file too, which sits at the same depth.
+ */
+export const MIGRATIONS_DIR = path.resolve(__dirname, '../../../api/messages/cassandra/migrations');
+
+const MIGRATION_FILE = /^(\d+)_(\w+)\.cql$/;
+
+export interface Migration {
+    version: number;
+    name: string;
+    statements: string[];
+}
+
+export type DataMigration = (client: Client) => Promise<void>;
+
+/**
+ * Split a CQL file into statements. Statements end with a semicolon at the
+ * end of a line; lines starting with `--` or `//` are comments.
+ */
+export function parseStatements(cql: string): string[] {
+    const code = cql
+        .split('\n')
+        .filter(line => !/^\s*(--|\/\/)/.test(line))
+        .join('\n');
+
+    return code
+        .split(/;\s*$/m)
+        .map(statement => statement.trim())
+        .filter(statement => statement.length > 0);
+}
+
+/**
+ * Read every migration in the directory, oldest first
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+    const migrations = readdirSync(dir)
+        .filter(file => file.endsWith('.cql'))
+        .map(file => {
+            const match = MIGRATION_FILE.exec(file);
+            if (!match) {
+                throw new Error(`Migration file name must look like 001_description.cql: ${file}`);
+            }
+            return {
+                version: Number(match[1]),
+                name: match[2],
+                statements: parseStatements(readFileSync(path.join(dir, file), 'utf8'))
+            };
+        })
+        .sort((a, b) => a.version - b.version);
+
+    migrations.forEach((migration, index) => {
+        if (index > 0 && migrations[index - 1].version === migration.version) {
+            throw new Error(`Duplicate migration version ${migration.version}`);
+        }
+    });
+
+    return migrations;
+}
+
+/**
+ * Apply the migrations not yet recorded in `schema_migrations`, in order, and
+ * return the versions applied. Migrations only go up; a failed one is not
+ * recorded and stops the run, so its statements must be safe to repeat.
+ */
+export async function runMigrations(
+    client: Client,
+    migrations: Migration[] = loadMigrations(),
+    dataMigrations: Record<number, DataMigration> = DATA_MIGRATIONS
+): Promise<number[]> {
+    await client.execute(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INT PRIMARY KEY,
+            name TEXT,
+            applied_at TIMESTAMP
+        )
+    `);
+
+    const result = await client.execute('SELECT version FROM schema_migrations');
+    const appliedVersions = new Set(result.rows.map(row => row.version as number));
+    const pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+    if (pending.length === 0) {
+        log.info({ function: 'runMigrations', applied: appliedVersions.size }, 'Cassandra schema is up to date');
+        return [];
+    }
+
+    for (const migration of pending) {
+        log.info({ function: 'runMigrations', version: migration.version, name: migration.name }, 'Applying migration');
+
+        for (const statement of migration.statements) {
+            await client.execute(statement);
+        }
+        await dataMigrations[migration.version]?.(client);
+
+        // Another instance starting at the same time may have applied it too
+        await client.execute(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?) IF NOT EXISTS',
+            [migration.version, migration.name, new Date()]
+        );
+    }
+
+    log.info({ function: 'runMigrations', versions: pending.map(migration => migration.version) }, 'Migrations applied');
+    return pending.map(migration => migration.version);
+}
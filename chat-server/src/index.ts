@@ -2,28 +2,151 @@ import { WebSocketServer, WebSocket } from 'ws';
 import dotenv from 'dotenv';
 import path from 'path';
 import { loadCredentials } from '@/util/Credentials';
-import { connectToCassandra, disconnectFromCassandra } from '@/database/cassandra';
+import { createExternalAdapters, createMemoryAdapters } from '@/adapters';
 import { ServiceContainer } from '@/util/ServiceContainer';
-import { isValidMessage, isConnectMessage, isChatMessage } from '@/types/message';
+import { HeartbeatMonitor } from '@/util/HeartbeatMonitor';
+import { isConnectMessage, isChatMessage, isHistoryMessage, isThreadMessage, isEditMessage, isDeleteMessage, isReactionMessage, isTypingMessage, isSetPresenceMessage, isPresenceQueryMessage, isSubscriptionMessage, isMarkReadMessage, isAckDeliveryMessage, isPingMessage, ChimeMessage, InboxEntry, TYPING_TTL_MS } from '@/types/message';
+import { Feature, LEGACY_PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, negotiateFeatures, parseClientMessage } from '@chime/protocol';
+import { PresenceChange, PRESENCE_HEARTBEAT_MS } from '@/services/presenceService';
+import { ACCESS_RECHECK_MS } from '@/services/channelAccessService';
 import logger from '@/logger';
 
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 const log = logger.child({ module: 'index' });
-const credentials = loadCredentials();
-const services = new ServiceContainer();
 
-let wss: WebSocketServer;
+/**
+ * Where the server listens and how often it checks its connections are alive
+ */
+export interface ChimeServerOptions {
+    port: number;
+    heartbeatIntervalMs: number;
+    heartbeatTimeoutMs: number;
+}
+
+export class ChimeServer {
+    private wss: WebSocketServer | null = null;
+    private readonly heartbeat: HeartbeatMonitor;
+    private presenceSweep: NodeJS.Timeout | null = null;
+
+    constructor(private readonly services: ServiceContainer, private readonly options: ChimeServerOptions) {
+        this.heartbeat = new HeartbeatMonitor(options.heartbeatIntervalMs, options.heartbeatTimeoutMs);
+    }
+
+    /**
+     * Channels this instance has the user subscribed to
+     */
+    private channelsOf(userId: string): string[] {
+        return this.services.channelManager.getChannelsOfUser(userId);
+    }
+
+    /**
+     * Stop listening to a channel for one connection, dropping the Redis
+     * subscription once nobody on this instance listens to it anymore
+     */
+    private async leaveChannel(channelId: string, userId: string): Promise<void> {
+        this.services.channelManager.removeUserFromChannel(channelId, userId);
+
+        if (this.services.channelManager.getUsersInChannel(channelId).length === 0) {
+            await this.services.subscriberService.unsubscribeFrom(channelId);
+        }
+    }
+
+    /**
+     * The user's read state for the channels, or none if Redis fails; unread
+     * counts must never block joining a channel
+     */
+    private async inboxOf(userId: string, channels: string[]): Promise<Record<string, InboxEntry>> {
+        try {
+            return await this.services.inboxService.getInbox(userId, channels);
+        } catch (error) {
+            log.error({ function: 'inboxOf', userId, error }, 'Failed to load inbox');
+            return {};
+        }
+    }
+
+    /**
+     * Messages queued for the user in these channels that none of their
+     * connections acknowledged, as they are stored now. Like unread counts this
+     * is best-effort; a client that misses the replay can still fetch history.
+     */
+    private async missedMessagesOf(userId: string, channels: string[]): Promise<ChimeMessage[]> {
+        try {
+            const pending = await this.services.deliveryQueueService.getPending(userId, channels);
+            const missed: ChimeMessage[] = [];
+            for (const channelId of new Set(pending.map(delivery => delivery.channelId))) {
+                const messages = await Promise.all(pending
+                    .filter(delivery => delivery.channelId === channelId)
+                    .map(delivery => this.services.messageService.getMessage(channelId, delivery.messageId)));
+                const found = messages.filter((message): message is ChimeMessage => message !== null);
+                missed.push(...await this.services.reactionService.attachReactions(channelId, found));
+            }
+            return missed;
+        } catch (error) {
+            log.error({ function: 'missedMessagesOf', userId, error }, 'Failed to load missed messages');
+            return [];
+        }
+    }
 
-class ChimeServer {
-    constructor() {}
+    /**
+     * Tell the channels of users whose instance went away without clearing
+     * them that they are offline
+     */
+    private async sweepPresence(): Promise<void> {
+        const lapses = await this.services.presenceService.sweep();
+        for (const { channels, ...change } of lapses) {
+            await this.publishPresence(async () => change, channels);
+        }
+    }
 
+    /**
+     * Send the connection whatever it missed in the channels, if anything and
+     * if it handles offline delivery
+     */
+    private async replayMissed(ws: WebSocket, features: ReadonlySet<Feature>, userId: string, channels: string[]): Promise<void> {
+        if (!features.has('offlineDelivery')) {
+            return;
+        }
+        const messages = await this.missedMessagesOf(userId, channels);
+        if (messages.length > 0 && ws.readyState === WebSocket.OPEN) {
+            log.info({ function: 'replayMissed', userId, count: messages.length }, 'Replaying missed messages');
+            ws.send(JSON.stringify({ type: 'missedMessages', messages }));
+        }
+    }
+
+    /**
+     * Tell everyone sharing a channel with the user that their status changed.
+     * Presence is best-effort, so failures are logged rather than surfaced.
+     */
+    private async publishPresence(update: () => Promise<PresenceChange | null>, channels: string[]): Promise<void> {
+        try {
+            const change = await update();
+            if (!change) {
+                return;
+            }
+
+            for (const channelId of channels) {
+                await this.services.broadcastService.publishEvent(channelId, {
+                    type: 'presence',
+                    channelId,
+                    userId: change.userId,
+                    status: change.status
+                });
+            }
+        } catch (error) {
+            log.error({ function: 'publishPresence', error }, 'Failed to update presence');
+        }
+    }
+
+    /**
+     * Connects the services and resolves once the server is listening
+     */
     async start(): Promise<void> {
         log.debug({ function: 'startServer' }, 'Starting server');
+        const { services, heartbeat, options } = this;
 
         try {
-            await connectToCassandra();
-            await services.connect(); // Connect all services
+            await services.connect(); // Connect the adapters and all services
 
             // Set up message routing from Redis to WebSocket clients
             // The subscriber service will automatically broadcast to users in channels
@@ -31,17 +154,23 @@ class ChimeServer {
 
         } catch (err) {
             log.error({ function: 'startServer', error: err }, 'Failed to connect to services');
-            process.exit(1);
+            throw err;
         }
 
-        wss = new WebSocketServer({
-            port: credentials.chat.port,
+        const wss = new WebSocketServer({
+            port: options.port,
             // Disable compression to avoid potential issues
             perMessageDeflate: false
         });
+        this.wss = wss;
 
         wss.on('listening', () => {
-            log.info({ function: 'startServer', port: credentials.chat.port }, `WebSocketServer started on port ${credentials.chat.port}`);
+            log.info({ function: 'startServer', port: options.port }, `WebSocketServer started on port ${options.port}`);
+            heartbeat.start();
+            this.presenceSweep = setInterval(() => {
+                this.sweepPresence().catch(error =>
+                    log.error({ function: 'startServer.sweepPresence', error }, 'Failed to sweep presence'));
+            }, PRESENCE_HEARTBEAT_MS);
         });
 
         wss.on('connection', (ws: WebSocket, request) => {
@@ -55,8 +184,86 @@ class ChimeServer {
                 connectedAt: new Date().toISOString()
             }, 'New WebSocket client connected');
 
+            // Reaps the socket if it stops answering pings
+            heartbeat.track(ws);
+
             let currentUserId: string | null = null;
             let isHandshakeComplete = false;
+            let isHandshaking = false; // Set from the first connect until the socket closes
+            let features: ReadonlySet<Feature> = new Set(); // Negotiated in the handshake
+            const connectionChannels = new Set<string>(); // Channels this socket listens to
+            const knownDirectChannels = new Set<string>(); // DMs already joined once, even if left since
+            let accessRecheck: NodeJS.Timeout | null = null;
+
+            const sendForbidden = (channels: string[], message: string) => {
+                if (channels.length > 0 && ws.readyState === WebSocket.OPEN) {
+                    ws.send(JSON.stringify({
+                        type: 'error',
+                        message,
+                        code: 'channel_forbidden',
+                        details: channels.join(',')
+                    }));
+                }
+            };
+
+            // Drop channels the user has since been removed from, and join DMs
+            // opened since we connected
+            const recheckAccess = async () => {
+                if (!currentUserId) {
+                    return;
+                }
+                const userId = currentUserId;
+
+                const directChannels = await services.channelAccessService.getDirectChannels(userId);
+                if (ws.readyState !== WebSocket.OPEN) {
+                    return; // Closed while the API answered; close already cleaned up
+                }
+                const opened = directChannels.filter(channelId => !knownDirectChannels.has(channelId));
+                for (const channelId of opened) {
+                    knownDirectChannels.add(channelId);
+                    connectionChannels.add(channelId);
+                    services.channelManager.addUserToChannel(channelId, userId);
+                    await services.subscriberService.subscribeTo(channelId);
+                }
+                if (opened.length > 0) {
+                    await services.deliveryQueueService.follow(userId, opened);
+                    log.info({ function: 'startServer.recheckAccess', userId, channels: opened }, 'Joined new direct channels');
+                    ws.send(JSON.stringify({ type: 'subscribed', channels: opened, inbox: await this.inboxOf(userId, opened) }));
+                }
+
+                if (connectionChannels.size === 0) {
+                    return;
+                }
+                const { denied } = await services.channelAccessService.filterAllowed(userId, Array.from(connectionChannels));
+                if (denied.length === 0) {
+                    return;
+                }
+
+                for (const channelId of denied) {
+                    connectionChannels.delete(channelId);
+                    await this.leaveChannel(channelId, userId);
+                }
+                await services.deliveryQueueService.unfollow(userId, denied);
+                log.info({ function: 'startServer.recheckAccess', userId, channels: denied }, 'Channel access revoked');
+
+                sendForbidden(denied, 'Channel access revoked');
+                if (ws.readyState === WebSocket.OPEN) {
+                    ws.send(JSON.stringify({ type: 'unsubscribed', channels: denied }));
+                }
+            };
+
+            // The socket can close while the handshake waits on the API or
+            // pub/sub. Its close handler only undoes what was in place by then,
+            // so the handshake undoes the rest before giving up.
+            const abandonHandshake = (userId: string) => {
+                log.info({ function: 'startServer.onConnect', connectionId, userId }, 'Connection closed during handshake');
+                services.userManager.removeUserConnection(userId, ws);
+                for (const channelId of connectionChannels) {
+                    this.leaveChannel(channelId, userId).catch(error =>
+                        log.error({ function: 'startServer.onConnect', channelId, error }, 'Failed to leave channel'));
+                }
+                connectionChannels.clear();
+            };
 
             // Set up handshake timeout
             const handshakeTimeout = setTimeout(() => {
@@ -79,8 +286,7 @@ class ChimeServer {
                         function: 'server.onMessage', 
                         userId: currentUserId || 'unauth',
                         messageLength: received.length,
-                        timestamp,
-                        rawMessage: received 
+                        timestamp
                     }, 'Received WebSocket message');
 
                     let parsedData: unknown;
@@ -104,18 +310,19 @@ class ChimeServer {
                     }
 
                     // Validate message structure
-                    if (!isValidMessage(parsedData)) {
+                    const parsed = parseClientMessage(parsedData);
+                    if (!parsed.success) {
                         log.error({ 
                             function: 'startServer.onMessage', 
                             userId: currentUserId || 'unauth',
                             received, 
-                            parsedData 
+                            errors: parsed.errors
                         }, 'Invalid message structure - message failed validation');
-                        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message structure' }));
+                        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message structure', details: parsed.errors.join('; ') }));
                         return;
                     }
 
-                    const parsedMessage = parsedData;
+                    const parsedMessage = parsed.message;
                     log.debug({ 
                         function: 'server.onMessage', 
                         userId: currentUserId || 'unauth',
@@ -138,35 +345,116 @@ class ChimeServer {
                             ws.send(JSON.stringify({ type: 'error', message: 'Already connected' }));
                             return;
                         }
+                        if (isHandshaking) {
+                            log.warn({ function: 'startServer.onMessage', userId: currentUserId }, 'Handshake already in progress');
+                            ws.send(JSON.stringify({ type: 'error', message: 'Handshake already in progress' }));
+                            return;
+                        }
+                        isHandshaking = true; // Before the first await, so a second connect meanwhile is refused
 
                         const { config } = parsedMessage;
 
-                        // For now, use a simple user ID (in production, this would come from authentication)
-                        currentUserId = `user_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+                        // Clients that predate versioning do not send one
+                        const protocolVersion = config.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+                        if (protocolVersion < MIN_PROTOCOL_VERSION) {
+                            log.warn({ function: 'startServer.onConnect', connectionId, protocolVersion }, 'Handshake rejected - protocol too old');
+                            ws.send(JSON.stringify({
+                                type: 'error',
+                                message: 'Unsupported protocol version',
+                                code: 'unsupported_protocol',
+                                details: `Minimum is ${MIN_PROTOCOL_VERSION}`
+                            }));
+                            ws.close(1008, 'Unsupported protocol version');
+                            return;
+                        }
+                        features = new Set(negotiateFeatures(config.features));
+
+                        // Identify the user from the access token issued by the API
+                        try {
+                            currentUserId = services.authService.verifyToken(config.token);
+                        } catch (authError) {
+                            log.warn({
+                                function: 'startServer.onConnect',
+                                connectionId,
+                                error: (authError as Error).message
+                            }, 'Handshake rejected - authentication failed');
+                            ws.send(JSON.stringify({
+                                type: 'error',
+                                message: 'Authentication failed',
+                                details: (authError as Error).message
+                            }));
+                            ws.close(1008, 'Authentication failed');
+                            return;
+                        }
+
+                        const userId = currentUserId;
 
                         // Add user to connection manager
-                        services.userManager.addUserConnection(currentUserId, ws);
+                        services.userManager.addUserConnection(userId, ws, features);
 
-                        // Subscribe user to requested channels
-                        for (const channelId of config.channels) {
-                            services.channelManager.addUserToChannel(channelId, currentUserId);
+                        // Subscribe user to the requested channels they belong to, plus their DMs
+                        const directChannels = await services.channelAccessService.getDirectChannels(userId);
+                        if (ws.readyState !== WebSocket.OPEN) {
+                            abandonHandshake(userId);
+                            return;
+                        }
+                        directChannels.forEach(channelId => knownDirectChannels.add(channelId));
+                        const access = await services.channelAccessService.filterAllowed(
+                            userId, Array.from(new Set([...config.channels, ...directChannels])));
+                        if (ws.readyState !== WebSocket.OPEN) {
+                            abandonHandshake(userId);
+                            return;
+                        }
+                        for (const channelId of access.allowed) {
+                            connectionChannels.add(channelId);
+                            services.channelManager.addUserToChannel(channelId, userId);
                             await services.subscriberService.subscribeTo(channelId);
+                            if (ws.readyState !== WebSocket.OPEN) {
+                                // The close handler may have left this channel before its subscription landed
+                                connectionChannels.add(channelId);
+                                abandonHandshake(userId);
+                                return;
+                            }
+                        }
+                        await services.deliveryQueueService.follow(userId, access.allowed);
+                        if (ws.readyState !== WebSocket.OPEN) {
+                            abandonHandshake(userId);
+                            return;
                         }
 
                         isHandshakeComplete = true;
                         clearTimeout(handshakeTimeout); // Clear the handshake timeout
+                        accessRecheck = setInterval(() => {
+                            recheckAccess().catch(error =>
+                                log.error({ function: 'startServer.recheckAccess', error }, 'Failed to recheck channel access'));
+                        }, ACCESS_RECHECK_MS);
+
+                        await this.publishPresence(() => services.presenceService.setStatus(userId, connectionId, 'online'), access.allowed);
+                        if (ws.readyState !== WebSocket.OPEN) {
+                            // The close handler may have cleared the status before it was set
+                            await this.publishPresence(() => services.presenceService.clearStatus(userId, connectionId), access.allowed);
+                            return;
+                        }
 
                         log.info({
                             function: 'startServer.onConnect',
                             userId: currentUserId,
-                            channels: config.channels
+                            channels: access.allowed,
+                            denied: access.denied,
+                            protocolVersion,
+                            features: Array.from(features)
                         }, 'User connected and subscribed to channels');
 
                         ws.send(JSON.stringify({
                             type: 'connected',
                             userId: currentUserId,
-                            channels: config.channels
+                            channels: access.allowed,
+                            inbox: await this.inboxOf(currentUserId, access.allowed),
+                            protocolVersion: PROTOCOL_VERSION,
+                            features: Array.from(features)
                         }));
+                        sendForbidden(access.denied, 'Not authorized for channel');
+                        await this.replayMissed(ws, features, currentUserId, access.allowed);
 
                         return;
                     }
@@ -178,10 +466,349 @@ class ChimeServer {
                         return;
                     }
 
+                    // Answer heartbeats so the client can tell the link is still up
+                    if (isPingMessage(parsedMessage)) {
+                        ws.send(JSON.stringify({ type: 'pong' }));
+                        return;
+                    }
+
+                    // Handle joining and leaving channels mid-session
+                    if (isSubscriptionMessage(parsedMessage)) {
+                        const requested = Array.from(new Set(parsedMessage.channels));
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: parsedMessage.type,
+                            userId: currentUserId,
+                            channels: requested
+                        }, 'Processing subscription change');
+
+                        if (parsedMessage.type === 'subscribe') {
+                            const access = await services.channelAccessService.filterAllowed(currentUserId, requested);
+                            for (const channelId of access.allowed) {
+                                if (connectionChannels.has(channelId)) {
+                                    continue;
+                                }
+                                connectionChannels.add(channelId);
+                                services.channelManager.addUserToChannel(channelId, currentUserId);
+                                await services.subscriberService.subscribeTo(channelId);
+                            }
+                            await services.deliveryQueueService.follow(currentUserId, access.allowed);
+                            ws.send(JSON.stringify({
+                                type: 'subscribed',
+                                channels: access.allowed,
+                                inbox: await this.inboxOf(currentUserId, access.allowed)
+                            }));
+                            sendForbidden(access.denied, 'Not authorized for channel');
+                            await this.replayMissed(ws, features, currentUserId, access.allowed);
+                        } else {
+                            const left: string[] = [];
+                            for (const channelId of requested) {
+                                if (!connectionChannels.delete(channelId)) {
+                                    continue;
+                                }
+                                await this.leaveChannel(channelId, currentUserId);
+                                left.push(channelId);
+                            }
+                            // Stop queueing once none of the user's connections here listens anymore
+                            const stillListening = new Set(this.channelsOf(currentUserId));
+                            await services.deliveryQueueService.unfollow(currentUserId, left.filter(channelId => !stillListening.has(channelId)));
+                            ws.send(JSON.stringify({ type: 'unsubscribed', channels: requested }));
+                        }
+
+                        return;
+                    }
+
+                    // Handle history requests
+                    if (isHistoryMessage(parsedMessage)) {
+                        const { request } = parsedMessage;
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: 'history',
+                            userId: currentUserId,
+                            channelId: request.channelId,
+                            before: request.before,
+                            after: request.after,
+                            limit: request.limit
+                        }, 'Processing history request');
+
+                        if (!services.channelManager.getUsersInChannel(request.channelId).includes(currentUserId)) {
+                            log.warn({
+                                function: 'startServer.onMessage',
+                                userId: currentUserId,
+                                channelId: request.channelId
+                            }, 'History requested for unsubscribed channel');
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const page = await services.messageService.getMessages(request);
+                        const messages = await services.reactionService.attachReactions(request.channelId, page.messages);
+
+                        ws.send(JSON.stringify({
+                            type: 'historyResponse',
+                            channelId: request.channelId,
+                            messages,
+                            hasMore: page.hasMore
+                        }));
+
+                        return;
+                    }
+
+                    // Handle thread requests
+                    if (isThreadMessage(parsedMessage)) {
+                        const { request } = parsedMessage;
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: 'thread',
+                            userId: currentUserId,
+                            channelId: request.channelId,
+                            messageId: request.messageId
+                        }, 'Processing thread request');
+
+                        if (!services.channelManager.getUsersInChannel(request.channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const parent = await services.messageService.getMessage(request.channelId, request.messageId);
+                        if (!parent) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Message not found', details: request.messageId }));
+                            return;
+                        }
+
+                        const replies = await services.messageService.getReplies(request.channelId, request.messageId);
+                        const [parentWithReactions, ...repliesWithReactions] =
+                            await services.reactionService.attachReactions(request.channelId, [parent, ...replies]);
+
+                        ws.send(JSON.stringify({
+                            type: 'threadResponse',
+                            channelId: request.channelId,
+                            parent: parentWithReactions,
+                            replies: repliesWithReactions
+                        }));
+
+                        return;
+                    }
+
+                    // Handle edits
+                    if (isEditMessage(parsedMessage)) {
+                        const { edit } = parsedMessage;
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: 'edit',
+                            userId: currentUserId,
+                            channelId: edit.channelId,
+                            messageId: edit.messageId,
+                            contentLength: edit.content.length
+                        }, 'Processing edit request');
+
+                        if (!services.channelManager.getUsersInChannel(edit.channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const original = await services.messageService.getMessage(edit.channelId, edit.messageId);
+                        if (!original || original.deletedAt) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Message not found', details: edit.messageId }));
+                            return;
+                        }
+
+                        if (original.userId !== currentUserId) {
+                            log.warn({
+                                function: 'startServer.onMessage',
+                                userId: currentUserId,
+                                authorId: original.userId,
+                                messageId: edit.messageId
+                            }, 'Edit rejected - not the author');
+                            ws.send(JSON.stringify({ type: 'error', message: 'Only the author can edit a message', details: edit.messageId }));
+                            return;
+                        }
+
+                        const edited = await services.messageService.editMessage(original, edit.content);
+                        await services.broadcastService.publishEvent(edit.channelId, { type: 'messageUpdated', message: edited });
+
+                        log.info({
+                            function: 'startServer.onMessage',
+                            messageId: edited.messageId,
+                            channelId: edited.channelId,
+                            editedAt: edited.editedAt
+                        }, 'Edited message published to Redis successfully');
+
+                        return;
+                    }
+
+                    // Handle deletions
+                    if (isDeleteMessage(parsedMessage)) {
+                        const { deletion } = parsedMessage;
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: 'delete',
+                            userId: currentUserId,
+                            channelId: deletion.channelId,
+                            messageId: deletion.messageId
+                        }, 'Processing delete request');
+
+                        if (!services.channelManager.getUsersInChannel(deletion.channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const original = await services.messageService.getMessage(deletion.channelId, deletion.messageId);
+                        if (!original || original.deletedAt) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Message not found', details: deletion.messageId }));
+                            return;
+                        }
+
+                        if (!await services.moderationService.canDelete(deletion.channelId, currentUserId, original.userId)) {
+                            log.warn({
+                                function: 'startServer.onMessage',
+                                userId: currentUserId,
+                                authorId: original.userId,
+                                messageId: deletion.messageId
+                            }, 'Delete rejected - neither author nor moderator');
+                            ws.send(JSON.stringify({
+                                type: 'error',
+                                message: 'Only the author or a moderator can delete a message',
+                                details: deletion.messageId
+                            }));
+                            return;
+                        }
+
+                        const tombstone = await services.messageService.deleteMessage(original, currentUserId);
+                        await services.broadcastService.publishEvent(deletion.channelId, { type: 'messageDeleted', message: tombstone });
+
+                        log.info({
+                            function: 'startServer.onMessage',
+                            messageId: tombstone.messageId,
+                            channelId: tombstone.channelId,
+                            deletedBy: currentUserId
+                        }, 'Deletion published to Redis successfully');
+
+                        return;
+                    }
+
+                    // Relay typing notices; they are never persisted
+                    if (isTypingMessage(parsedMessage)) {
+                        const { channelId } = parsedMessage;
+
+                        if (!services.channelManager.getUsersInChannel(channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        log.debug({ function: 'server.onMessage', messageType: 'typing', userId: currentUserId, channelId }, 'Relaying typing notice');
+
+                        await services.broadcastService.publishEvent(channelId, {
+                            type: 'userTyping',
+                            channelId,
+                            userId: currentUserId,
+                            expiresInMs: TYPING_TTL_MS
+                        });
+
+                        return;
+                    }
+
+                    // Handle presence updates (e.g. the tab went to the background)
+                    if (isSetPresenceMessage(parsedMessage)) {
+                        const userId = currentUserId;
+                        log.debug({ function: 'server.onMessage', messageType: 'setPresence', userId, status: parsedMessage.status }, 'Updating presence');
+
+                        await this.publishPresence(() => services.presenceService.setStatus(userId, connectionId, parsedMessage.status), this.channelsOf(userId));
+                        return;
+                    }
+
+                    // Handle presence lookups, e.g. for a server's member list
+                    if (isPresenceQueryMessage(parsedMessage)) {
+                        const statuses = await services.presenceService.getStatuses(parsedMessage.userIds);
+                        ws.send(JSON.stringify({ type: 'presenceState', statuses }));
+                        return;
+                    }
+
+                    // Handle read markers; every tab of the user gets the new counts
+                    if (isMarkReadMessage(parsedMessage)) {
+                        const { channelId, messageId } = parsedMessage;
+
+                        if (!services.channelManager.getUsersInChannel(channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const entry = await services.inboxService.markRead(currentUserId, channelId, messageId);
+                        log.debug({ function: 'server.onMessage', messageType: 'markRead', userId: currentUserId, channelId, entry }, 'Channel marked read');
+                        services.userManager.sendToUser(currentUserId, JSON.stringify({ type: 'readState', channelId, ...entry }), 'readState');
+                        return;
+                    }
+
+                    // Handle delivery acks; anything unacknowledged is replayed on reconnect
+                    if (isAckDeliveryMessage(parsedMessage)) {
+                        const { channelId, messageId } = parsedMessage;
+
+                        if (!connectionChannels.has(channelId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        await services.deliveryQueueService.acknowledge(currentUserId, channelId, messageId);
+                        return;
+                    }
+
+                    // Handle reactions
+                    if (isReactionMessage(parsedMessage)) {
+                        const { reaction } = parsedMessage;
+
+                        log.info({
+                            function: 'server.onMessage',
+                            messageType: parsedMessage.type,
+                            userId: currentUserId,
+                            channelId: reaction.channelId,
+                            messageId: reaction.messageId,
+                            emoji: reaction.emoji
+                        }, 'Processing reaction');
+
+                        if (!services.channelManager.getUsersInChannel(reaction.channelId).includes(currentUserId)) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            return;
+                        }
+
+                        const target = await services.messageService.getMessage(reaction.channelId, reaction.messageId);
+                        if (!target || target.deletedAt) {
+                            ws.send(JSON.stringify({ type: 'error', message: 'Message not found', details: reaction.messageId }));
+                            return;
+                        }
+
+                        if (parsedMessage.type === 'react') {
+                            await services.reactionService.addReaction(reaction.channelId, reaction.messageId, reaction.emoji, currentUserId);
+                        } else {
+                            await services.reactionService.removeReaction(reaction.channelId, reaction.messageId, reaction.emoji, currentUserId);
+                        }
+
+                        // Send the whole set so clients never have to merge deltas
+                        const reactions = await services.reactionService.getReactions(reaction.channelId, reaction.messageId);
+                        await services.broadcastService.publishEvent(reaction.channelId, {
+                            type: 'reactionsUpdated',
+                            channelId: reaction.channelId,
+                            messageId: reaction.messageId,
+                            reactions
+                        });
+
+                        log.info({
+                            function: 'startServer.onMessage',
+                            messageId: reaction.messageId,
+                            channelId: reaction.channelId
+                        }, 'Reactions published to Redis successfully');
+
+                        return;
+                    }
+
                     // Handle chat messages
                     if (isChatMessage(parsedMessage)) {
                         const { message } = parsedMessage;
-                        const { channelId, content } = message;
+                        const { channelId, content, replyTo, nonce } = message;
                         
                         log.info({ 
                             function: 'server.onMessage', 
@@ -190,6 +817,7 @@ class ChimeServer {
                             channelId,
                             contentLength: content.length,
                             contentPreview: content.substring(0, 100) + (content.length > 100 ? '...' : ''),
+                            replyTo,
                             fullMessage: message
                         }, 'Processing chat message');
 
@@ -210,10 +838,25 @@ class ChimeServer {
                                 channelId,
                                 availableChannels: services.channelManager.getChannels()
                             }, 'User not subscribed to channel');
-                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel' }));
+                            ws.send(JSON.stringify({ type: 'error', message: 'Not subscribed to channel', nonce }));
                             return;
                         }
 
+                        // Replies must point at a live message in the same channel
+                        if (replyTo) {
+                            const parent = await services.messageService.getMessage(channelId, replyTo);
+                            if (!parent || parent.deletedAt) {
+                                log.warn({
+                                    function: 'startServer.onMessage',
+                                    userId: currentUserId,
+                                    channelId,
+                                    replyTo
+                                }, 'Reply rejected - parent not found in channel');
+                                ws.send(JSON.stringify({ type: 'error', message: 'Reply target not found', details: replyTo, nonce }));
+                                return;
+                            }
+                        }
+
                         // Save message to Cassandra
                         log.debug({ 
                             function: 'server.onMessage', 
@@ -221,7 +864,35 @@ class ChimeServer {
                             channelId 
                         }, 'Saving message to Cassandra...');
                         
-                        const savedMessage = await services.messageService.saveMessage(channelId, currentUserId, content);
+                        // The nonce doubles as the idempotency key, so retried sends are stored once
+                        let savedMessage: ChimeMessage;
+                        let duplicate = false;
+                        try {
+                            if (nonce) {
+                                ({ message: savedMessage, duplicate } = await services.messageService.saveMessageOnce(channelId, currentUserId, content, nonce, replyTo));
+                            } else {
+                                savedMessage = await services.messageService.saveMessage(channelId, currentUserId, content, replyTo);
+                            }
+                        } catch (error) {
+                            // The sender may retry with the same nonce without risking a duplicate
+                            log.error({ function: 'startServer.onMessage', userId: currentUserId, channelId, error }, 'Failed to save message');
+                            ws.send(JSON.stringify({ type: 'error', message: 'Failed to save message', nonce }));
+                            return;
+                        }
+
+                        // Everyone already has the original; only the sender needs to hear back again
+                        if (duplicate) {
+                            log.info({
+                                function: 'startServer.onMessage',
+                                messageId: savedMessage.messageId,
+                                channelId,
+                                userId: currentUserId
+                            }, 'Duplicate message acknowledged without broadcasting');
+                            if (features.has('acks')) {
+                                ws.send(JSON.stringify({ type: 'ack', nonce, channelId, messageId: savedMessage.messageId }));
+                            }
+                            return;
+                        }
 
                         log.info({
                             function: 'startServer.onMessage',
@@ -242,6 +913,25 @@ class ChimeServer {
                         
                         await services.broadcastService.publish(savedMessage);
 
+                        // Let the sender settle its pending copy without waiting for the echo
+                        if (nonce && features.has('acks')) {
+                            ws.send(JSON.stringify({ type: 'ack', nonce, channelId, messageId: savedMessage.messageId }));
+                        }
+
+                        // Unread and mention counts are best-effort; the message is already out
+                        try {
+                            await services.inboxService.recordMessage(savedMessage);
+                        } catch (error) {
+                            log.error({ function: 'startServer.onMessage', messageId: savedMessage.messageId, error }, 'Failed to update inboxes');
+                        }
+
+                        // Followers who miss the live broadcast get it when they reconnect
+                        try {
+                            await services.deliveryQueueService.enqueue(savedMessage);
+                        } catch (error) {
+                            log.error({ function: 'startServer.onMessage', messageId: savedMessage.messageId, error }, 'Failed to queue message for delivery');
+                        }
+
                         log.info({
                             function: 'startServer.onMessage',
                             messageId: savedMessage.messageId,
@@ -250,7 +940,7 @@ class ChimeServer {
                         }, 'Message published to Redis successfully');
 
                     } else {
-                        // This should never happen due to isValidMessage check, but we need exhaustive checking
+                        // This should never happen due to the schema check, but we need exhaustive checking
                         log.warn({ function: 'startServer.onMessage', receivedMessage: received }, 'Unknown message type received');
                         ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
                     }
@@ -263,6 +953,9 @@ class ChimeServer {
 
             ws.on('close', (code: number, reason: Buffer) => {
                 clearTimeout(handshakeTimeout); // Clean up timeout on close
+                if (accessRecheck) {
+                    clearInterval(accessRecheck);
+                }
 
                 const reasonString = reason.toString();
                 log.info({
@@ -273,14 +966,19 @@ class ChimeServer {
                 }, 'WebSocket connection closed');
 
                 if (currentUserId) {
+                    const userId = currentUserId;
+                    // Other instances and tabs may still keep the user online
+                    void this.publishPresence(() => services.presenceService.clearStatus(userId, connectionId), this.channelsOf(userId));
+
                     // Remove user from connection manager
                     services.userManager.removeUserConnection(currentUserId, ws);
 
-                    // Remove user from all channels
-                    const channels = services.channelManager.getChannels();
-                    for (const channelId of channels) {
-                        services.channelManager.removeUserFromChannel(channelId, currentUserId);
+                    // Leave this socket's channels; other tabs or devices keep their own
+                    for (const channelId of connectionChannels) {
+                        this.leaveChannel(channelId, userId).catch(error =>
+                            log.error({ function: 'startServer.onClose', channelId, error }, 'Failed to leave channel'));
                     }
+                    connectionChannels.clear();
 
                     log.info({ function: 'startServer.onClose', userId: currentUserId }, 'User disconnected and cleaned up');
                 }
@@ -317,12 +1015,24 @@ class ChimeServer {
 
             this.stop();
         });
+
+        await new Promise<void>((resolve, reject) => {
+            wss.once('listening', resolve);
+            wss.once('error', reject);
+        });
     }
 
     async stop(): Promise<void> {
         log.info({ function: 'stopServer' }, 'Shutting down gracefully...');
 
+        this.heartbeat.stop();
+        if (this.presenceSweep) {
+            clearInterval(this.presenceSweep);
+            this.presenceSweep = null;
+        }
+
         // Close WebSocket server first
+        const wss = this.wss;
         if (wss) {
             for (const ws of wss.clients) {
                 ws.terminate();
@@ -343,41 +1053,29 @@ class ChimeServer {
         }
 
         // Disconnect services with timeout protection
+        let disconnectTimeout: NodeJS.Timeout | undefined;
         try {
             await Promise.race([
-                services.disconnect(),
-                new Promise((_, reject) =>
-                    setTimeout(() => reject(new Error('Services disconnect timeout')), 5000)
-                )
+                this.services.disconnect(),
+                new Promise((_, reject) => {
+                    disconnectTimeout = setTimeout(() => reject(new Error('Services disconnect timeout')), 5000);
+                })
             ]);
             log.info({ function: 'stopServer' }, 'Services disconnected');
         } catch (error) {
             log.error({ function: 'stopServer', error }, 'Services disconnect failed or timed out');
-        }
-
-        // Disconnect Cassandra with timeout protection
-        try {
-            await Promise.race([
-                disconnectFromCassandra(),
-                new Promise((_, reject) =>
-                    setTimeout(() => reject(new Error('Cassandra disconnect timeout')), 3000)
-                )
-            ]);
-            log.info({ function: 'stopServer' }, 'Cassandra disconnected');
-        } catch (error) {
-            log.error({ function: 'stopServer', error }, 'Cassandra disconnect failed or timed out');
+        } finally {
+            clearTimeout(disconnectTimeout);
         }
 
         log.info({ function: 'stopServer' }, 'Graceful shutdown complete');
     }
 }
 
-const server = new ChimeServer();
-
 // Shutdown handling with force kill protection
 let sigintCount = 0;
 
-async function handleShutdown(signal: string) {
+async function handleShutdown(server: ChimeServer, signal: string) {
     sigintCount++;
 
     if (sigintCount === 1) {
@@ -408,20 +1106,31 @@ async function handleShutdown(signal: string) {
     }
 }
 
+// Only when run as the entry point; tests import ChimeServer and configure it themselves
 if (require.main === module) {
-    server.start();
-}
+    const credentials = loadCredentials();
+    const server = new ChimeServer(
+        new ServiceContainer(credentials.chat.backend === 'memory' ? createMemoryAdapters() : createExternalAdapters()),
+        {
+            port: credentials.chat.port,
+            heartbeatIntervalMs: credentials.chat.heartbeatIntervalMs,
+            heartbeatTimeoutMs: credentials.chat.heartbeatTimeoutMs
+        }
+    );
 
-process.on('SIGINT', () => handleShutdown('SIGINT'));
-process.on('SIGTERM', () => handleShutdown('SIGTERM'));
+    process.on('SIGINT', () => handleShutdown(server, 'SIGINT'));
+    process.on('SIGTERM', () => handleShutdown(server, 'SIGTERM'));
 
-// Handle uncaught exceptions and unhandled rejections
-process.on('uncaughtException', (error) => {
-    log.error({ function: 'uncaughtException', error }, 'Uncaught exception, forcing exit');
-    process.exit(1);
-});
+    // Handle uncaught exceptions and unhandled rejections
+    process.on('uncaughtException', (error) => {
+        log.error({ function: 'uncaughtException', error }, 'Uncaught exception, forcing exit');
+        process.exit(1);
+    });
+
+    process.on('unhandledRejection', (reason, promise) => {
+        log.error({ function: 'unhandledRejection', reason, promise }, 'Unhandled rejection, forcing exit');
+        process.exit(1);
+    });
 
-process.on('unhandledRejection', (reason, promise) => {
-    log.error({ function: 'unhandledRejection', reason, promise }, 'Unhandled rejection, forcing exit');
-    process.exit(1);
-});
+    server.start().catch(() => process.exit(1));
+}
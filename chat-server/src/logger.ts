@@ -2,6 +2,8 @@ import pino from 'pino';
 
 const logger = pino({
     level: process.env.LOG_LEVEL || 'info',
+    // Handshake tokens must never reach the logs
+    redact: ['config.token', '*.config.token'],
     transport: {
         target: 'pino-pretty',
         options: {
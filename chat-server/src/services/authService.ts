@@ -0,0 +1,76 @@
+import jwt from 'jsonwebtoken';
+import { loadCredentials } from '@/util/Credentials';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'authService' });
+
+export const TOKEN_ALGORITHM = 'HS256';
+
+/**
+ * Claims carried by the access tokens the API issues. Only access tokens
+ * may open a chat connection; refresh tokens are rejected.
+ */
+export interface AuthClaims {
+    sub: string; // User ID
+    type: 'access';
+}
+
+/**
+ * Signs a service token identifying this backend to the API's internal routes
+ */
+export function signServiceToken(service: string, secret: string, expiresIn: jwt.SignOptions['expiresIn'] = '5m'): string {
+    return jwt.sign({ sub: service, type: 'service' }, secret, { algorithm: TOKEN_ALGORITHM, expiresIn });
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Signs an access token. The API owns token issuance in production; this
+ * exists so tests and local tooling can mint tokens against the shared secret.
+ */
+export function signToken(userId: string, secret: string, expiresIn: jwt.SignOptions['expiresIn'] = '15m'): string {
+    const claims: AuthClaims = { sub: userId, type: 'access' };
+    return jwt.sign(claims, secret, { algorithm: TOKEN_ALGORITHM, expiresIn });
+}
+
+export class AuthService {
+    private secret: string | null;
+
+    constructor(secret?: string) {
+        this.secret = secret ?? null;
+    }
+
+    /**
+     * Verifies a handshake token and returns the user ID it was issued for
+     */
+    verifyToken(token: string): string {
+        let payload: string | jwt.JwtPayload;
+
+        try {
+            payload = jwt.verify(token, this.getSecret(), { algorithms: [TOKEN_ALGORITHM] });
+        } catch (error) {
+            log.warn({ function: 'verifyToken', error: (error as Error).message }, 'Token verification failed');
+            throw new AuthError(error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token');
+        }
+
+        if (typeof payload === 'string' || payload.type !== 'access' || typeof payload.sub !== 'string' || !payload.sub) {
+            log.warn({ function: 'verifyToken' }, 'Token is not an access token');
+            throw new AuthError('Invalid token');
+        }
+
+        log.debug({ function: 'verifyToken', userId: payload.sub }, 'Token verified');
+        return payload.sub;
+    }
+
+    private getSecret(): string {
+        if (!this.secret) {
+            this.secret = loadCredentials().auth.secret;
+        }
+        return this.secret;
+    }
+}
@@ -0,0 +1,160 @@
+import { ChannelAccess, ChannelAccessResult } from '@/adapters/channelAccess';
+import { signServiceToken } from '@/services/authService';
+import { loadCredentials } from '@/util/Credentials';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'channelAccessService' });
+
+// How long an answer from the API is trusted before asking again
+export const ACCESS_CACHE_TTL_MS = 60000;
+// How often open connections have their channels checked again
+export const ACCESS_RECHECK_MS = 60000;
+// Most answers kept at once; the oldest go first beyond that
+export const ACCESS_CACHE_MAX_ENTRIES = 10000;
+// How long to wait for the API before counting the check as failed
+export const ACCESS_FETCH_TIMEOUT_MS = 5000;
+
+const SERVICE_NAME = 'chat-server';
+
+interface ApiConfig {
+    baseUrl: string;
+    secret: string;
+}
+
+/**
+ * Asks the API whether a user belongs to a channel's server or direct
+ * conversation, and whether they moderate the channel. Answers are cached
+ * briefly so reconnect storms don't hammer the API; anything that goes wrong,
+ * including an API that does not answer in time, counts as denied.
+ */
+export class ChannelAccessService implements ChannelAccess {
+    private config: ApiConfig | null;
+    private cache = new Map<string, { allowed: boolean; expiresAt: number }>(); // `check:channelId:userId` => answer
+
+    constructor(config?: ApiConfig, private readonly maxCacheEntries: number = ACCESS_CACHE_MAX_ENTRIES) {
+        this.config = config ?? null;
+    }
+
+    async canAccess(channelId: string, userId: string): Promise<boolean> {
+        return this.check('canAccess', channelId, userId, async () => {
+            const body = await this.get<{ allowed?: unknown }>(
+                `/internal/channels/${encodeURIComponent(channelId)}/members/${encodeURIComponent(userId)}`);
+            return body.allowed === true;
+        });
+    }
+
+    async canModerate(channelId: string, userId: string): Promise<boolean> {
+        return this.check('canModerate', channelId, userId, async () => {
+            const body = await this.get<{ moderator?: unknown }>(
+                `/internal/channels/${encodeURIComponent(channelId)}/moderators/${encodeURIComponent(userId)}`);
+            return body.moderator === true;
+        });
+    }
+
+    async filterAllowed(userId: string, channels: string[]): Promise<ChannelAccessResult> {
+        const results = await Promise.all(channels.map(channelId => this.canAccess(channelId, userId)));
+
+        return {
+            allowed: channels.filter((_, index) => results[index]),
+            denied: channels.filter((_, index) => !results[index]),
+        };
+    }
+
+    /**
+     * IDs of the user's direct conversations, which every connection joins
+     * without asking. Empty if the API can't be reached.
+     */
+    async getDirectChannels(userId: string): Promise<string[]> {
+        try {
+            const body = await this.get<{ channels?: unknown }>(`/internal/users/${encodeURIComponent(userId)}/direct-channels`);
+            const channels = Array.isArray(body.channels) ? body.channels.filter(id => typeof id === 'string') : [];
+            log.debug({ function: 'getDirectChannels', userId, count: channels.length }, 'Fetched direct channels');
+            return channels;
+        } catch (error) {
+            log.error({ function: 'getDirectChannels', userId, error }, 'Failed to fetch direct channels');
+            return [];
+        }
+    }
+
+    /**
+     * A cached answer if there is a fresh one, otherwise the API's. Failures
+     * count as denied and are not cached, so the next check asks again.
+     */
+    private async check(fn: string, channelId: string, userId: string, fetchAnswer: () => Promise<boolean>): Promise<boolean> {
+        const key = `${fn}:${channelId}:${userId}`;
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.allowed;
+        }
+        this.cache.delete(key);
+
+        let allowed: boolean;
+        try {
+            allowed = await fetchAnswer();
+        } catch (error) {
+            log.error({ function: fn, channelId, userId, error }, 'Failed to check channel access');
+            return false;
+        }
+
+        this.remember(key, allowed);
+        log.debug({ function: fn, channelId, userId, allowed }, 'Checked channel access');
+        return allowed;
+    }
+
+    /**
+     * Caches an answer, dropping expired ones and then the oldest once the
+     * cache is full. Maps iterate in insertion order, so the first keys are
+     * the oldest.
+     */
+    private remember(key: string, allowed: boolean): void {
+        const now = Date.now();
+        this.cache.set(key, { allowed, expiresAt: now + ACCESS_CACHE_TTL_MS });
+        if (this.cache.size <= this.maxCacheEntries) {
+            return;
+        }
+
+        for (const [cachedKey, { expiresAt }] of this.cache) {
+            if (expiresAt <= now) {
+                this.cache.delete(cachedKey);
+            }
+        }
+        for (const cachedKey of this.cache.keys()) {
+            if (this.cache.size <= this.maxCacheEntries) {
+                break;
+            }
+            this.cache.delete(cachedKey);
+        }
+    }
+
+    private async get<T>(path: string): Promise<T> {
+        const { baseUrl, secret } = this.getConfig();
+
+        // A hung API must not hold handshakes up
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), ACCESS_FETCH_TIMEOUT_MS);
+        try {
+            const response = await fetch(`${baseUrl}${path}`, {
+                headers: { Authorization: `Bearer ${signServiceToken(SERVICE_NAME, secret)}` },
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                throw new Error(`API responded ${response.status}`);
+            }
+
+            return await response.json() as T;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    private getConfig(): ApiConfig {
+        if (!this.config) {
+            const credentials = loadCredentials();
+            this.config = {
+                baseUrl: `http://${credentials.api.host}:${credentials.api.port}/api`,
+                secret: credentials.auth.secret,
+            };
+        }
+        return this.config;
+    }
+}
@@ -0,0 +1,135 @@
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { compareMessageIds } from '@/services/messageIDService';
+import { ChimeMessage } from '@/types/message';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'deliveryQueueService' });
+
+// Oldest deliveries are trimmed once a user's queue grows past this
+export const DELIVERY_QUEUE_MAX_LENGTH = 1000;
+// Queues and acks of users who never come back expire after a week
+export const DELIVERY_QUEUE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * A message waiting in a user's queue until they acknowledge it
+ */
+export interface QueuedDelivery {
+    channelId: string;
+    messageId: string;
+}
+
+/**
+ * Durable per-user delivery queues in Redis. Users follow the channels they
+ * join (`delivery:channel:<channelId>:followers`), and every new message is
+ * appended to each follower's stream `delivery:<userId>:queue` whether or
+ * not they are connected. Clients acknowledge what they received per channel
+ * in `delivery:<userId>:acked`; whatever is still unacknowledged when they
+ * reconnect is sent again. Writes for several keys are issued together so
+ * the Redis client pipelines them into one round trip.
+ */
+export class DeliveryQueueService {
+    private store: KeyValueStore;
+
+    constructor(store: KeyValueStore) {
+        this.store = store;
+    }
+
+    /**
+     * Queue the channels' messages for the user from now on, connected or not
+     */
+    async follow(userId: string, channels: string[]): Promise<void> {
+        await Promise.all(channels.map(channelId => this.store.sAdd(this.followersKey(channelId), userId)));
+        log.debug({ function: 'follow', userId, channels }, 'Following channels');
+    }
+
+    /**
+     * Stop queueing the channels' messages for the user
+     */
+    async unfollow(userId: string, channels: string[]): Promise<void> {
+        await Promise.all(channels.map(channelId => this.store.sRem(this.followersKey(channelId), userId)));
+        log.debug({ function: 'unfollow', userId, channels }, 'Unfollowed channels');
+    }
+
+    /**
+     * Append a newly saved message to every follower's queue but its author's
+     */
+    async enqueue(message: ChimeMessage): Promise<number> {
+        const { channelId, messageId, userId } = message;
+
+        const followers = (await this.store.sMembers(this.followersKey(channelId))).filter(id => id !== userId);
+        await Promise.all(followers.flatMap(followerId => {
+            const key = this.queueKey(followerId);
+            return [
+                this.store.xAdd(key, '*', { channelId, messageId }, {
+                    TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: DELIVERY_QUEUE_MAX_LENGTH }
+                }),
+                this.store.expire(key, DELIVERY_QUEUE_TTL_SECONDS),
+            ];
+        }));
+
+        log.debug({ function: 'enqueue', channelId, messageId, followers: followers.length }, 'Queued message for followers');
+        return followers.length;
+    }
+
+    /**
+     * Record that the user received the channel up to `messageId`; older
+     * acknowledgements never move it back
+     */
+    async acknowledge(userId: string, channelId: string, messageId: string): Promise<void> {
+        const key = this.ackedKey(userId);
+
+        const current = await this.store.hGet(key, channelId);
+        if (current && compareMessageIds(messageId, current) <= 0) {
+            return;
+        }
+
+        await this.store.hSet(key, channelId, messageId);
+        await this.store.expire(key, DELIVERY_QUEUE_TTL_SECONDS);
+        log.debug({ function: 'acknowledge', userId, channelId, messageId }, 'Acknowledged delivery');
+    }
+
+    /**
+     * Unacknowledged deliveries in the given channels, oldest first.
+     * Acknowledged entries are removed from the queue along the way; those
+     * for other channels wait until the user joins them again.
+     */
+    async getPending(userId: string, channels: string[]): Promise<QueuedDelivery[]> {
+        const key = this.queueKey(userId);
+        const [entries, acked] = await Promise.all([
+            this.store.xRange(key, '-', '+'),
+            this.store.hGetAll(this.ackedKey(userId)),
+        ]);
+
+        const wanted = new Set(channels);
+        const pending: QueuedDelivery[] = [];
+        const delivered: string[] = [];
+        for (const { id, message } of entries) {
+            const { channelId, messageId } = message;
+            const ackedId = acked[channelId];
+            if (ackedId && compareMessageIds(messageId, ackedId) <= 0) {
+                delivered.push(id);
+            } else if (wanted.has(channelId)) {
+                pending.push({ channelId, messageId });
+            }
+        }
+
+        if (delivered.length > 0) {
+            await this.store.xDel(key, delivered);
+        }
+
+        log.debug({ function: 'getPending', userId, pending: pending.length, removed: delivered.length }, 'Read delivery queue');
+        return pending;
+    }
+
+    private followersKey(channelId: string): string {
+        return `delivery:channel:${channelId}:followers`;
+    }
+
+    private queueKey(userId: string): string {
+        return `delivery:${userId}:queue`;
+    }
+
+    private ackedKey(userId: string): string {
+        return `delivery:${userId}:acked`;
+    }
+}
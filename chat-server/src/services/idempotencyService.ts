@@ -0,0 +1,71 @@
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'idempotencyService' });
+
+// How long a client may keep retrying a send under the same key
+export const IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+
+/**
+ * What a key is bound to: nothing yet, a save still in progress, or the ID
+ * of the message the first attempt saved
+ */
+export type IdempotencyClaim =
+    | { status: 'claimed' }
+    | { status: 'inFlight' }
+    | { status: 'saved', messageId: string };
+
+/**
+ * Remembers the idempotency keys clients send with their messages, per
+ * channel and user, in `idempotency:<channelId>:<userId>:<key>`. The first
+ * attempt claims the key with an empty value and fills in the saved
+ * message's ID; later attempts within the window find it and are answered
+ * with the original message instead of being saved again.
+ */
+export class IdempotencyService {
+    private store: KeyValueStore;
+
+    constructor(store: KeyValueStore) {
+        this.store = store;
+    }
+
+    /**
+     * Claim the key for a new save, or report what an earlier attempt got
+     */
+    async claim(channelId: string, userId: string, key: string): Promise<IdempotencyClaim> {
+        const redisKey = this.idempotencyKey(channelId, userId, key);
+
+        const claimed = await this.store.set(redisKey, '', {
+            expiration: { type: 'EX', value: IDEMPOTENCY_WINDOW_SECONDS },
+            condition: 'NX'
+        });
+        if (claimed) {
+            return { status: 'claimed' };
+        }
+
+        const messageId = await this.store.get(redisKey);
+        log.debug({ function: 'claim', channelId, userId, key, messageId }, 'Idempotency key already used');
+        return messageId ? { status: 'saved', messageId } : { status: 'inFlight' };
+    }
+
+    /**
+     * Bind a claimed key to the message its save produced
+     */
+    async complete(channelId: string, userId: string, key: string, messageId: string): Promise<void> {
+        await this.store.set(this.idempotencyKey(channelId, userId, key), messageId, {
+            expiration: 'KEEPTTL',
+            condition: 'XX'
+        });
+    }
+
+    /**
+     * Free a claimed key after a failed save so the client can retry
+     */
+    async release(channelId: string, userId: string, key: string): Promise<void> {
+        await this.store.del(this.idempotencyKey(channelId, userId, key));
+    }
+
+    private idempotencyKey(channelId: string, userId: string, key: string): string {
+        return `idempotency:${channelId}:${userId}:${key}`;
+    }
+}
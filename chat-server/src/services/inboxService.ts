@@ -0,0 +1,134 @@
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { compareMessageIds } from '@/services/messageIDService';
+import { ChimeMessage, InboxEntry } from '@/types/message';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'inboxService' });
+
+// Mentions are written `<@userId>` in message content
+const MENTION_PATTERN = /<@([^\s<>]+)>/g;
+
+// Unread counts stop at this many messages per channel
+export const MAX_TRACKED_UNREAD = 1000;
+
+// Message IDs are padded to one length so members sort in ID order
+const ID_WIDTH = 20;
+
+/**
+ * Users mentioned in a message's content, each listed once
+ */
+export function mentionedUsers(content: string): string[] {
+    return Array.from(new Set(Array.from(content.matchAll(MENTION_PATTERN), match => match[1])));
+}
+
+/**
+ * Per-user read positions and mention counts in Redis. Each user has a hash
+ * `inbox:<userId>:read` mapping channels to the last message they read, and
+ * `inbox:<userId>:mentions` counting unread mentions. Each channel keeps its
+ * newest message IDs in the sorted set `channel:<channelId>:recent`, and
+ * unread counts are the members after the read position, so they top out at
+ * MAX_TRACKED_UNREAD.
+ */
+export class InboxService {
+    private store: KeyValueStore;
+
+    constructor(store: KeyValueStore) {
+        this.store = store;
+    }
+
+    /**
+     * Move the user's read position forward to `messageId`; markers behind
+     * the current position or past the newest message are clamped. Mentions
+     * clear once the channel is read to its newest message.
+     */
+    async markRead(userId: string, channelId: string, messageId: string): Promise<InboxEntry> {
+        const [current, newest] = await Promise.all([
+            this.store.hGet(this.readKey(userId), channelId),
+            this.store.zRange(this.recentKey(channelId), -1, -1),
+        ]);
+
+        const latest = newest.length > 0 ? unpad(newest[0]) : null;
+        let lastReadId = current ?? null;
+        if (latest) {
+            const target = compareMessageIds(messageId, latest) > 0 ? latest : messageId;
+            if (!lastReadId || compareMessageIds(target, lastReadId) > 0) {
+                lastReadId = target;
+                await this.store.hSet(this.readKey(userId), channelId, lastReadId);
+            }
+            if (lastReadId === latest) {
+                await this.store.hDel(this.mentionsKey(userId), channelId);
+            }
+        }
+
+        log.debug({ function: 'markRead', userId, channelId, messageId, lastReadId }, 'Marked channel read');
+        return (await this.getInbox(userId, [channelId]))[channelId];
+    }
+
+    /**
+     * Account for a newly saved message: its author has read up to it, and
+     * everyone it mentions has another unread mention
+     */
+    async recordMessage(message: ChimeMessage): Promise<void> {
+        const { channelId, messageId, userId } = message;
+
+        // All scores are 0, so members sort by their padded IDs
+        await this.store.zAdd(this.recentKey(channelId), { score: 0, value: pad(messageId) });
+        await this.store.zRemRangeByRank(this.recentKey(channelId), 0, -MAX_TRACKED_UNREAD - 1);
+        await this.store.hSet(this.readKey(userId), channelId, messageId);
+
+        const mentioned = mentionedUsers(message.content).filter(id => id !== userId);
+        for (const mentionedId of mentioned) {
+            await this.store.hIncrBy(this.mentionsKey(mentionedId), channelId, 1);
+        }
+
+        log.debug({ function: 'recordMessage', channelId, messageId, mentioned }, 'Recorded message in inboxes');
+    }
+
+    /**
+     * Read state for each of the given channels
+     */
+    async getInbox(userId: string, channels: string[]): Promise<Record<string, InboxEntry>> {
+        if (channels.length === 0) {
+            return {};
+        }
+
+        const [reads, mentions] = await Promise.all([
+            this.store.hmGet(this.readKey(userId), channels),
+            this.store.hmGet(this.mentionsKey(userId), channels),
+        ]);
+        const unread = await Promise.all(channels.map((channelId, index) => {
+            const lastReadId = reads[index];
+            return this.store.zLexCount(this.recentKey(channelId), lastReadId ? `(${pad(lastReadId)}` : '-', '+');
+        }));
+
+        const inbox: Record<string, InboxEntry> = {};
+        channels.forEach((channelId, index) => {
+            inbox[channelId] = {
+                lastReadId: reads[index] ?? null,
+                unread: unread[index],
+                mentions: Number(mentions[index] ?? 0),
+            };
+        });
+        return inbox;
+    }
+
+    private readKey(userId: string): string {
+        return `inbox:${userId}:read`;
+    }
+
+    private mentionsKey(userId: string): string {
+        return `inbox:${userId}:mentions`;
+    }
+
+    private recentKey(channelId: string): string {
+        return `channel:${channelId}:recent`;
+    }
+}
+
+function pad(messageId: string): string {
+    return messageId.padStart(ID_WIDTH, '0');
+}
+
+function unpad(member: string): string {
+    return member.replace(/^0+(?=\d)/, '');
+}
@@ -1,45 +1,40 @@
-import { ChimeRedisClient } from '@/services/redisClient';
-import { ChimeMessage } from '@/types/message';
+import { PubSub } from '@/adapters/pubSub';
+import { ChannelEvent, ChimeMessage } from '@/types/message';
 import logger from '@/logger';
 
 export class MessageBroadcastService {
-    private redisClient: ChimeRedisClient;
+    private pubSub: PubSub;
     
-    constructor(test: boolean = false) {
-        this.redisClient = new ChimeRedisClient(test);
+    constructor(pubSub: PubSub) {
+        this.pubSub = pubSub;
     }
 
-    async init() {
-        await this.redisClient.connect();
+    /*
+     *
+     * Publish a Chime message through pub/sub
+     *
+     */
+    async publish(message: ChimeMessage) {
+        await this.publishPayload(message.channelId, JSON.stringify(message));
     }
 
     /*
      *
-     * Publish a Chime message through redis pub/sub
+     * Publish a channel event (e.g. an edited message) through pub/sub
      *
      */
-    async publish(message: ChimeMessage) {
-        const client = this.redisClient.getClient();
-        
-        if (!client || !client.isReady) {
-            logger.error('init() needs to be called before broadcasting messages');
-            throw new Error('Broadcast not initialized before call');
-        }
+    async publishEvent(channelId: string, event: ChannelEvent) {
+        await this.publishPayload(channelId, JSON.stringify(event));
+    }
 
-        const targetChannel = message.channelId;
+    private async publishPayload(targetChannel: string, payload: string) {
         logger.debug(`target channel: ${targetChannel}`);
 
-        const payload = JSON.stringify(message);
-
         try {
-            await client.publish(targetChannel, payload);
+            await this.pubSub.publish(targetChannel, payload);
         } catch (error) {
             logger.error(`Error broadcasting message to channel ${targetChannel}: ${error}`);
             throw new Error(`Failed to broadcast message: ${(error as Error).message}`);
         }
     }
-
-    async disconnect() {
-        await this.redisClient.disconnect();
-    }
 };
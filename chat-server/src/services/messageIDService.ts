@@ -1,36 +1,73 @@
-import { ChimeRedisClient } from '@/services/redisClient';
+import { ID_EPOCH_MS, SEQUENCE_BITS, WORKER_ID_BITS } from '@chime/protocol';
+import { loadCredentials } from '@/util/Credentials';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'messageIDService' });
 
-export class MessageIDService {
-    private redisClient: ChimeRedisClient;
+export const MAX_WORKER_ID = Number((1n << WORKER_ID_BITS) - 1n);
+const MAX_SEQUENCE = Number((1n << SEQUENCE_BITS) - 1n);
 
-    constructor(test: boolean = false) {
-        this.redisClient = new ChimeRedisClient(test);
+/**
+ * Orders message IDs. They are decimal numbers without leading zeros, so a
+ * longer ID is always newer and equal lengths compare as strings.
+ */
+export function compareMessageIds(a: string, b: string): number {
+    if (a.length !== b.length) {
+        return a.length - b.length;
     }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
 
-    async connect(): Promise<void> {
-        await this.redisClient.connect();
-        log.info({ function: 'connect' }, 'MessageIDService connected to Redis');
+/**
+ * Generates message IDs without a network round trip. IDs are 64-bit
+ * numbers, sent and stored as decimal strings: milliseconds since
+ * ID_EPOCH_MS, then the worker ID of this chat-server instance, then a
+ * sequence number for IDs made in the same millisecond. Later IDs are
+ * larger, and instances with different worker IDs never collide.
+ */
+export class MessageIDService {
+    private workerId: number | null;
+    private lastTimestamp = -1;
+    private sequence = 0;
+
+    constructor(workerId?: number, private now: () => number = Date.now) {
+        if (workerId !== undefined && !(Number.isInteger(workerId) && workerId >= 0 && workerId <= MAX_WORKER_ID)) {
+            throw new Error(`Worker ID must be an integer from 0 to ${MAX_WORKER_ID}`);
+        }
+        this.workerId = workerId ?? null;
     }
 
-    async disconnect(): Promise<void> {
-        await this.redisClient.disconnect();
-        log.info({ function: 'disconnect' }, 'MessageIDService disconnected from Redis');
+    nextId(): string {
+        let timestamp = this.now();
+
+        // If the clock moves back, or a millisecond runs out of sequence
+        // numbers, keep counting from the last millisecond used so IDs stay
+        // unique and increasing
+        if (timestamp <= this.lastTimestamp) {
+            timestamp = this.lastTimestamp;
+            this.sequence = (this.sequence + 1) & MAX_SEQUENCE;
+            if (this.sequence === 0) {
+                timestamp += 1;
+            }
+        } else {
+            this.sequence = 0;
+        }
+        this.lastTimestamp = timestamp;
+
+        const messageId = (
+            (BigInt(timestamp - ID_EPOCH_MS) << (WORKER_ID_BITS + SEQUENCE_BITS)) |
+            (BigInt(this.getWorkerId()) << SEQUENCE_BITS) |
+            BigInt(this.sequence)
+        ).toString();
+
+        log.debug({ function: 'nextId', messageId }, 'Generated new message ID');
+        return messageId;
     }
 
-    async getNextMessageId(channelId: string): Promise<number> {
-        const client = this.redisClient.getClient();
-        const key = `channel:${channelId}:message_counter`;
-        
-        try {
-            const messageId = await client.incr(key);
-            log.debug({ function: 'getNextMessageId', channelId, messageId }, 'Generated new message ID');
-            return messageId;
-        } catch (error) {
-            log.error({ function: 'getNextMessageId', channelId, error }, 'Failed to generate message ID');
-            throw error;
+    private getWorkerId(): number {
+        if (this.workerId === null) {
+            this.workerId = loadCredentials().chat.workerId;
         }
+        return this.workerId;
     }
 }
@@ -1,77 +1,213 @@
-import { getCassandraClient } from '@/database/cassandra';
-import { ChimeMessage } from '@/types/message';
-import { MessageIDService } from '@/services/messageIDService';
+import { ChimeMessage, HistoryRequest } from '@/types/message';
+import { MessageStore } from '@/adapters/messageStore';
+import { MessageIDService, compareMessageIds } from '@/services/messageIDService';
+import { IdempotencyService } from '@/services/idempotencyService';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'messageService' });
 
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 100;
+
+export interface MessagePage {
+    messages: ChimeMessage[]; // Oldest first
+    hasMore: boolean;
+}
+
+export interface SavedMessage {
+    message: ChimeMessage;
+    duplicate: boolean; // The message was saved by an earlier attempt
+}
+
 export class MessageService {
-    private dbClient = getCassandraClient();
+    private messageStore: MessageStore;
     private messageIDService: MessageIDService;
+    private idempotencyService: IdempotencyService;
 
-    constructor(test: boolean = false) {
-        this.messageIDService = new MessageIDService(test);
+    constructor(messageStore: MessageStore, idempotencyService: IdempotencyService, workerId?: number) {
+        this.messageStore = messageStore;
+        this.messageIDService = new MessageIDService(workerId);
+        this.idempotencyService = idempotencyService;
     }
 
-    async connect(): Promise<void> {
-        await this.messageIDService.connect();
-        log.info({ function: 'connect' }, 'MessageService connected');
+    async saveMessage(channelId: string, userId: string, content: string, replyTo?: string): Promise<ChimeMessage> {
+        log.debug({ function: 'saveMessage', channelId, userId, replyTo }, 'Saving message');
+
+        // Time-sortable and unique across instances, no round trip needed
+        const messageId = this.messageIDService.nextId();
+
+        /*
+         * Metadata records whether a message is a reply (replyTo holds the
+         * parent's ID). TODO it could also describe attached media
+         * (photo, video, audio, etc.)
+         */
+        const metadata: Record<string, string> = replyTo ? { replyTo } : {};
+
+        const message: ChimeMessage = {
+            channelId,
+            messageId: messageId,
+            userId,
+            content,
+            createdAt: new Date().toISOString(),
+            editedAt: null,
+            metadata
+        };
+
+        try {
+            await this.messageStore.insert(message);
+
+            // Index the reply under its parent so threads can be listed
+            if (replyTo) {
+                await this.messageStore.addReply(channelId, replyTo, messageId);
+            }
+
+            log.info({ function: 'saveMessage', messageId: messageId, channelId, userId }, 'Message saved successfully');
+        } catch (error) {
+            log.error({ function: 'saveMessage', error, channelId, userId }, 'Failed to save message');
+            throw error;
+        }
+
+        return message;
     }
 
-    async disconnect(): Promise<void> {
-        await this.messageIDService.disconnect();
-        log.info({ function: 'disconnect' }, 'MessageService disconnected');
+    /*
+     * Saves a message at most once per idempotency key, so a client retrying
+     * a send it never heard back about does not store it twice. Repeats get
+     * the original message back, as it is now, marked as a duplicate.
+     */
+    async saveMessageOnce(channelId: string, userId: string, content: string, idempotencyKey: string, replyTo?: string): Promise<SavedMessage> {
+        const claim = await this.idempotencyService.claim(channelId, userId, idempotencyKey);
+
+        if (claim.status === 'saved') {
+            const original = await this.getMessage(channelId, claim.messageId);
+            if (original) {
+                log.info({ function: 'saveMessageOnce', channelId, userId, messageId: original.messageId }, 'Duplicate send, returning original message');
+                return { message: original, duplicate: true };
+            }
+            throw new Error(`Message ${claim.messageId} saved under this key no longer exists`);
+        }
+        if (claim.status === 'inFlight') {
+            throw new Error('Message is already being saved');
+        }
+
+        let message: ChimeMessage;
+        try {
+            message = await this.saveMessage(channelId, userId, content, replyTo);
+        } catch (error) {
+            await this.idempotencyService.release(channelId, userId, idempotencyKey);
+            throw error;
+        }
+
+        // The message is stored either way; a key left unbound only makes retries fail
+        try {
+            await this.idempotencyService.complete(channelId, userId, idempotencyKey, message.messageId);
+        } catch (error) {
+            log.error({ function: 'saveMessageOnce', error, channelId, userId, messageId: message.messageId }, 'Failed to record idempotency key');
+        }
+        return { message, duplicate: false };
     }
 
-    async getNextMessageId(channelId: string): Promise<number> {
-        log.debug({ function: 'getNextMessageId', channelId }, 'Getting next message ID');
-        return await this.messageIDService.getNextMessageId(channelId);
+    async getMessage(channelId: string, messageId: string): Promise<ChimeMessage | null> {
+        log.debug({ function: 'getMessage', channelId, messageId }, 'Fetching message');
+
+        try {
+            return await this.messageStore.get(channelId, messageId);
+        } catch (error) {
+            log.error({ function: 'getMessage', error, channelId, messageId }, 'Failed to fetch message');
+            throw error;
+        }
     }
 
-    async saveMessage(channelId: string, userId: string, content: string): Promise<ChimeMessage> {
-        log.debug({ function: 'saveMessage', channelId, userId }, 'Saving message');
+    /*
+     * Replaces a message's content and stamps edited_at. Callers check
+     * authorship; the returned message is what clients should display.
+     */
+    async editMessage(message: ChimeMessage, content: string): Promise<ChimeMessage> {
+        const { channelId, messageId } = message;
+        const editedAt = new Date();
 
-        // Generate new message id (channel specific) using Redis atomic increment
-        const messageId: number = await this.messageIDService.getNextMessageId(channelId);
-        const createdAt = new Date();
+        log.debug({ function: 'editMessage', channelId, messageId }, 'Editing message');
 
-        const query = `
-            INSERT INTO messages (channel_id, message_id, user_id, content, created_at, edited_at, metadata)
-            VALUES (?, ?, ?, ?, ?, ?, ?)
-        `;
+        try {
+            await this.messageStore.edit(channelId, messageId, content, editedAt);
 
-        /*
-         * TODO metadata could contain information such as
-         * if a message is a reply to another, the type of media
-         * if it has one (photo, video, audio, etc.)
-         */
+            log.info({ function: 'editMessage', channelId, messageId }, 'Message edited successfully');
+        } catch (error) {
+            log.error({ function: 'editMessage', error, channelId, messageId }, 'Failed to edit message');
+            throw error;
+        }
+
+        return { ...message, content, editedAt: editedAt.toISOString() };
+    }
+
+    /*
+     * Tombstones a message: the row and its ID stay so history pages keep
+     * their shape, but the content is wiped. Callers check permissions.
+     */
+    async deleteMessage(message: ChimeMessage, deletedBy: string): Promise<ChimeMessage> {
+        const { channelId, messageId } = message;
+        const deletedAt = new Date();
+
+        log.debug({ function: 'deleteMessage', channelId, messageId, deletedBy }, 'Deleting message');
 
         try {
-            await this.dbClient.execute(query, [
-                channelId,
-                messageId.toString(),
-                userId,
-                content,
-                createdAt,
-                null, // edited_at starts as null
-                {} // empty metadata map
-            ], { prepare: true });
-
-            log.info({ function: 'saveMessage', messageId: messageId.toString(), channelId, userId }, 'Message saved successfully');
+            await this.messageStore.tombstone(channelId, messageId, deletedAt, deletedBy);
+
+            log.info({ function: 'deleteMessage', channelId, messageId, deletedBy }, 'Message deleted successfully');
         } catch (error) {
-            log.error({ function: 'saveMessage', error, channelId, userId }, 'Failed to save message');
+            log.error({ function: 'deleteMessage', error, channelId, messageId }, 'Failed to delete message');
             throw error;
         }
 
-        return {
-            channelId,
-            messageId: messageId.toString(),
-            userId,
-            content,
-            createdAt: createdAt.toISOString(),
-            editedAt: null,
-            metadata: {}
-        };
+        return { ...message, content: '', deletedAt: deletedAt.toISOString() };
+    }
+
+    /*
+     * Lists the replies to a message, oldest first. Threads are capped at
+     * MAX_HISTORY_LIMIT replies.
+     */
+    async getReplies(channelId: string, parentId: string): Promise<ChimeMessage[]> {
+        log.debug({ function: 'getReplies', channelId, parentId }, 'Fetching thread replies');
+
+        try {
+            const replies = (await this.messageStore.getReplies(channelId, parentId, MAX_HISTORY_LIMIT))
+                .sort((a, b) => compareMessageIds(a.messageId, b.messageId));
+
+            log.info({ function: 'getReplies', channelId, parentId, count: replies.length }, 'Thread replies fetched');
+            return replies;
+        } catch (error) {
+            log.error({ function: 'getReplies', error, channelId, parentId }, 'Failed to fetch thread replies');
+            throw error;
+        }
+    }
+
+    /*
+     * Reads one page of a channel's history. One extra message is fetched
+     * to find out whether another page exists beyond this one.
+     */
+    async getMessages(request: HistoryRequest): Promise<MessagePage> {
+        const { channelId, before, after } = request;
+        const limit = Math.min(request.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+
+        log.debug({ function: 'getMessages', channelId, before, after, limit }, 'Fetching message history');
+
+        try {
+            const messages = await this.messageStore.getPage({ channelId, before, after, limit: limit + 1 });
+
+            const hasMore = messages.length > limit;
+            const page = messages.slice(0, limit);
+
+            // Pages before a cursor come back newest first
+            if (after === undefined) {
+                page.reverse();
+            }
+
+            log.info({ function: 'getMessages', channelId, count: page.length, hasMore }, 'Message history fetched');
+            return { messages: page, hasMore };
+        } catch (error) {
+            log.error({ function: 'getMessages', error, channelId }, 'Failed to fetch message history');
+            throw error;
+        }
     }
 
     async broadcast(_message: ChimeMessage) {
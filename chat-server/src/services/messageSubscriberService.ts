@@ -1,5 +1,5 @@
-import { ChimeRedisClient } from '@/services/redisClient';
-import { ChimeMessage } from '@/types/message';
+import { PubSub } from '@/adapters/pubSub';
+import { ChannelEvent, ChimeMessage } from '@/types/message';
 import ChannelManager from '@/util/ChannelManager';
 import { UserConnectionManager } from '@/util/UserConnectionManager';
 import logger from '@/logger';
@@ -7,32 +7,33 @@ import logger from '@/logger';
 const log = logger.child({ module: 'messageSubscriberService' });
 
 export class MessageSubscriberService {
-    private redisClient: ChimeRedisClient;
+    private pubSub: PubSub;
     private channelManager: ChannelManager;
     private userConnectionManager: UserConnectionManager;
     private messageHandlers = new Map<string, (message: ChimeMessage) => void>();
     private subscribedChannels = new Set<string>();
     private isConnected = false;
 
-    constructor(channelManager: ChannelManager, userConnectionManager: UserConnectionManager, test: boolean = false) {
-        this.redisClient = new ChimeRedisClient(test);
+    constructor(channelManager: ChannelManager, userConnectionManager: UserConnectionManager, pubSub: PubSub) {
+        this.pubSub = pubSub;
         this.channelManager = channelManager;
         this.userConnectionManager = userConnectionManager;
     }
 
     async connect(): Promise<void> {
-        await this.redisClient.connect();
         this.isConnected = true;
-        log.info({ function: 'connect' }, 'MessageSubscriberService connected to Redis');
+        log.info({ function: 'connect' }, 'MessageSubscriberService connected');
     }
 
     async disconnect(): Promise<void> {
         if (this.isConnected) {
-            await this.redisClient.disconnect();
+            // The pub/sub connection is shared, so leave our channels before going
+            for (const channelId of this.subscribedChannels) {
+                await this.pubSub.unsubscribe(channelId);
+            }
             this.isConnected = false;
-            // Clear subscription tracking since we're disconnected
             this.subscribedChannels.clear();
-            log.info({ function: 'disconnect' }, 'MessageSubscriberService disconnected from Redis');
+            log.info({ function: 'disconnect' }, 'MessageSubscriberService disconnected');
         }
     }
 
@@ -47,12 +48,17 @@ export class MessageSubscriberService {
             return;
         }
 
-        const client = this.redisClient.getClient();
-        await client.subscribe(channelId, (data: string, channel: string) => {
+        await this.pubSub.subscribe(channelId, (data: string, channel: string) => {
             try {
-                const message: ChimeMessage = JSON.parse(data);
-                log.debug({ function: 'onRedisMessage', channelId: channel, messageId: message.messageId }, 'Received message from Redis');
-                this.handleMessage(message);
+                const parsed: ChimeMessage | ChannelEvent = JSON.parse(data);
+                // New messages arrive bare; every other event carries a type
+                if ('type' in parsed) {
+                    log.debug({ function: 'onRedisMessage', channelId: channel, eventType: parsed.type }, 'Received event from Redis');
+                    this.handleEvent(channel, parsed);
+                } else {
+                    log.debug({ function: 'onRedisMessage', channelId: channel, messageId: parsed.messageId }, 'Received message from Redis');
+                    this.handleMessage(parsed);
+                }
             } catch (error) {
                 log.error({ function: 'onRedisMessage', channelId: channel, error }, 'Failed to parse message from Redis');
             }
@@ -74,8 +80,7 @@ export class MessageSubscriberService {
             return;
         }
 
-        const client = this.redisClient.getClient();
-        await client.unsubscribe(channelId);
+        await this.pubSub.unsubscribe(channelId);
         
         // Remove from our tracking
         this.subscribedChannels.delete(channelId);
@@ -106,6 +111,20 @@ export class MessageSubscriberService {
         }
     }
 
+    private handleEvent(channelId: string, event: ChannelEvent): void {
+        const users = this.channelManager.getUsersInChannel(channelId);
+        const eventString = JSON.stringify(event);
+        log.debug({ function: 'handleEvent', channelId, eventType: event.type, userCount: users.length }, 'Broadcasting event to channel users');
+
+        users.forEach(userId => {
+            // Typists don't need to hear about themselves
+            if (event.type === 'userTyping' && event.userId === userId) {
+                return;
+            }
+            this.userConnectionManager.sendToUser(userId, eventString, event.type);
+        });
+    }
+
     private broadcastToChannel(message: ChimeMessage): void {
         const users = this.channelManager.getUsersInChannel(message.channelId);
         log.debug({ function: 'broadcastToChannel', channelId: message.channelId, userCount: users.length }, 'Broadcasting message to channel users');
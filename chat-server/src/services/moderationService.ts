@@ -0,0 +1,26 @@
+import { ChannelAccess } from '@/adapters/channelAccess';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'moderationService' });
+
+/**
+ * Decides who may moderate a channel. Moderators are worked out per channel by
+ * the channel access adapter: in a deployment, the owner of the server the
+ * channel belongs to, as answered by the API.
+ */
+export class ModerationService {
+    constructor(private readonly channelAccess: ChannelAccess) {}
+
+    async isModerator(channelId: string, userId: string): Promise<boolean> {
+        const moderator = await this.channelAccess.canModerate(channelId, userId);
+        log.debug({ function: 'isModerator', channelId, userId, moderator }, 'Checked moderator status');
+        return moderator;
+    }
+
+    /**
+     * Authors may always delete their own messages; anyone else must moderate the channel
+     */
+    async canDelete(channelId: string, userId: string, authorId: string): Promise<boolean> {
+        return userId === authorId || this.isModerator(channelId, userId);
+    }
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { PresenceStatus } from '@/types/message';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'presenceService' });
+
+// An instance's entry for a user lapses unless a heartbeat refreshes it first
+export const PRESENCE_TTL_MS = 60000;
+export const PRESENCE_HEARTBEAT_MS = 20000;
+
+// Hash of userId => TrackedPresence for every user some instance reported present
+const TRACKED_KEY = 'presence:tracked';
+
+/**
+ * A user's status changed as seen across all chat-server instances
+ */
+export interface PresenceChange {
+    userId: string;
+    previous: PresenceStatus;
+    status: PresenceStatus;
+}
+
+/**
+ * A user who went offline without any instance clearing them, and the
+ * channels to tell
+ */
+export interface PresenceLapse extends PresenceChange {
+    channels: string[];
+}
+
+/**
+ * What the last instance to write a user's presence knew about them
+ */
+interface TrackedPresence {
+    status: 'online' | 'idle';
+    expiresAt: number;
+    channels: string[];
+}
+
+/**
+ * Shared presence in Redis. Each user has a hash `presence:<userId>` with one
+ * field per chat-server instance holding `<status>:<expiresAt>`. An instance
+ * that dies stops refreshing its fields, so they lapse after PRESENCE_TTL_MS
+ * and every instance then agrees the user is offline. Users are also tracked
+ * in `presence:tracked` with their channels, so a sweep on any instance can
+ * find those lapses and say so.
+ */
+export class PresenceService {
+    private store: KeyValueStore;
+    private instanceId = randomUUID();
+    private localStatus = new Map<string, Map<string, 'online' | 'idle'>>(); // userId => connectionId => status
+    private heartbeat: NodeJS.Timeout | null = null;
+
+    /**
+     * @param channelsOf channels the user listens to on this instance, told
+     *                   of their lapse if it goes without them
+     */
+    constructor(store: KeyValueStore, private readonly channelsOf: (userId: string) => string[] = () => []) {
+        this.store = store;
+    }
+
+    async connect(): Promise<void> {
+        this.heartbeat = setInterval(() => {
+            this.refresh().catch(error =>
+                log.error({ function: 'heartbeat', error }, 'Failed to refresh presence'));
+        }, PRESENCE_HEARTBEAT_MS);
+        this.heartbeat.unref();
+
+        log.info({ function: 'connect', instanceId: this.instanceId }, 'PresenceService heartbeat started');
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+
+        // Drop our entries so other instances don't wait for them to lapse
+        for (const userId of this.localStatus.keys()) {
+            await this.store.hDel(this.key(userId), this.instanceId);
+        }
+        this.localStatus.clear();
+
+        log.info({ function: 'disconnect' }, 'PresenceService heartbeat stopped');
+    }
+
+    /**
+     * Record one connection's status; a user with several tabs is online if
+     * any of them is. Returns the change in their overall status, or null if
+     * it is unchanged.
+     */
+    async setStatus(userId: string, connectionId: string, status: 'online' | 'idle'): Promise<PresenceChange | null> {
+        const previous = await this.getStatus(userId);
+
+        if (!this.localStatus.has(userId)) {
+            this.localStatus.set(userId, new Map());
+        }
+        this.localStatus.get(userId)!.set(connectionId, status);
+        await this.write(userId, this.localStatusOf(userId)!);
+
+        const current = await this.getStatus(userId);
+        log.debug({ function: 'setStatus', userId, status, previous, current }, 'Presence updated');
+        return current === previous ? null : { userId, previous, status: current };
+    }
+
+    /**
+     * Forget a closed connection, removing this instance's entry once the
+     * user has no connections left here
+     */
+    async clearStatus(userId: string, connectionId: string): Promise<PresenceChange | null> {
+        const previous = await this.getStatus(userId);
+
+        this.localStatus.get(userId)?.delete(connectionId);
+        const remaining = this.localStatusOf(userId);
+        if (remaining) {
+            await this.write(userId, remaining);
+        } else {
+            this.localStatus.delete(userId);
+            await this.store.hDel(this.key(userId), this.instanceId);
+        }
+
+        const current = await this.getStatus(userId);
+        if (current === 'offline') {
+            // The caller reports this one, so the sweep need not
+            await this.store.hDel(TRACKED_KEY, userId);
+        }
+        log.debug({ function: 'clearStatus', userId, previous, current }, 'Presence cleared');
+        return current === previous ? null : { userId, previous, status: current };
+    }
+
+    async getStatus(userId: string): Promise<PresenceStatus> {
+        const entries = await this.store.hGetAll(this.key(userId));
+        return combineEntries(Object.values(entries), Date.now());
+    }
+
+    async getStatuses(userIds: string[]): Promise<Record<string, PresenceStatus>> {
+        const unique = Array.from(new Set(userIds));
+        const statuses = await Promise.all(unique.map(userId => this.getStatus(userId)));
+
+        const result: Record<string, PresenceStatus> = {};
+        unique.forEach((userId, index) => {
+            result[userId] = statuses[index];
+        });
+        return result;
+    }
+
+    /**
+     * Heartbeat: extend the entries of every user connected to this instance
+     */
+    async refresh(): Promise<void> {
+        for (const userId of this.localStatus.keys()) {
+            const status = this.localStatusOf(userId);
+            if (status) {
+                await this.write(userId, status);
+            }
+        }
+        log.debug({ function: 'refresh', users: this.localStatus.size }, 'Presence refreshed');
+    }
+
+    /**
+     * Users whose entries all lapsed without an instance clearing them, e.g.
+     * because the instance they were connected to died. Each lapse is claimed
+     * by removing the user from `presence:tracked`, so only one instance
+     * reports it.
+     */
+    async sweep(): Promise<PresenceLapse[]> {
+        const tracked = await this.store.hGetAll(TRACKED_KEY);
+        const now = Date.now();
+        const lapses: PresenceLapse[] = [];
+
+        for (const [userId, value] of Object.entries(tracked)) {
+            const { status, expiresAt, channels } = JSON.parse(value) as TrackedPresence;
+            // Live instances rewrite the entry before it expires
+            if (expiresAt > now || await this.getStatus(userId) !== 'offline') {
+                continue;
+            }
+            if (await this.store.hDel(TRACKED_KEY, userId) === 0) {
+                continue; // Another instance claimed it first
+            }
+            lapses.push({ userId, previous: status, status: 'offline', channels });
+        }
+
+        log.debug({ function: 'sweep', tracked: Object.keys(tracked).length, lapsed: lapses.length }, 'Presence swept');
+        return lapses;
+    }
+
+    private async write(userId: string, status: 'online' | 'idle'): Promise<void> {
+        const key = this.key(userId);
+        const expiresAt = Date.now() + PRESENCE_TTL_MS;
+
+        await this.store.hSet(key, this.instanceId, `${status}:${expiresAt}`);
+        // The whole hash goes away once no instance refreshes it
+        await this.store.pExpire(key, PRESENCE_TTL_MS);
+
+        const tracked: TrackedPresence = { status, expiresAt, channels: this.channelsOf(userId) };
+        await this.store.hSet(TRACKED_KEY, userId, JSON.stringify(tracked));
+    }
+
+    /**
+     * Best status across the user's connections to this instance
+     */
+    private localStatusOf(userId: string): 'online' | 'idle' | null {
+        const statuses = Array.from(this.localStatus.get(userId)?.values() ?? []);
+        if (statuses.length === 0) {
+            return null;
+        }
+        return statuses.includes('online') ? 'online' : 'idle';
+    }
+
+    private key(userId: string): string {
+        return `presence:${userId}`;
+    }
+}
+
+/**
+ * Online on any instance wins over idle; expired entries count as absent
+ */
+function combineEntries(entries: string[], now: number): PresenceStatus {
+    let status: PresenceStatus = 'offline';
+
+    for (const entry of entries) {
+        const [entryStatus, expiresAt] = entry.split(':');
+        if (Number(expiresAt) <= now) {
+            continue;
+        }
+        if (entryStatus === 'online') {
+            return 'online';
+        }
+        if (entryStatus === 'idle') {
+            status = 'idle';
+        }
+    }
+
+    return status;
+}
@@ -0,0 +1,69 @@
+import { ReactionStore } from '@/adapters/reactionStore';
+import { ChimeMessage, Reactions } from '@/types/message';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'reactionService' });
+
+/**
+ * Stores reactions as one row per (message, emoji, user), so reacting twice
+ * is a no-op and counts come from the set of users.
+ */
+export class ReactionService {
+    private reactionStore: ReactionStore;
+
+    constructor(reactionStore: ReactionStore) {
+        this.reactionStore = reactionStore;
+    }
+
+    async addReaction(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        log.debug({ function: 'addReaction', channelId, messageId, emoji, userId }, 'Adding reaction');
+
+        try {
+            await this.reactionStore.add(channelId, messageId, emoji, userId);
+        } catch (error) {
+            log.error({ function: 'addReaction', error, channelId, messageId }, 'Failed to add reaction');
+            throw error;
+        }
+    }
+
+    async removeReaction(channelId: string, messageId: string, emoji: string, userId: string): Promise<void> {
+        log.debug({ function: 'removeReaction', channelId, messageId, emoji, userId }, 'Removing reaction');
+
+        try {
+            await this.reactionStore.remove(channelId, messageId, emoji, userId);
+        } catch (error) {
+            log.error({ function: 'removeReaction', error, channelId, messageId }, 'Failed to remove reaction');
+            throw error;
+        }
+    }
+
+    async getReactions(channelId: string, messageId: string): Promise<Reactions> {
+        const reactions = await this.getReactionsFor(channelId, [messageId]);
+        return reactions[messageId] ?? {};
+    }
+
+    /**
+     * Reactions for several messages of one channel, keyed by message ID.
+     * Messages without reactions are left out.
+     */
+    async getReactionsFor(channelId: string, messageIds: string[]): Promise<Record<string, Reactions>> {
+        if (messageIds.length === 0) {
+            return {};
+        }
+
+        try {
+            return await this.reactionStore.getFor(channelId, messageIds);
+        } catch (error) {
+            log.error({ function: 'getReactionsFor', error, channelId }, 'Failed to fetch reactions');
+            throw error;
+        }
+    }
+
+    /**
+     * Returns the messages with their reactions filled in
+     */
+    async attachReactions(channelId: string, messages: ChimeMessage[]): Promise<ChimeMessage[]> {
+        const reactions = await this.getReactionsFor(channelId, messages.map(message => message.messageId));
+        return messages.map(message => ({ ...message, reactions: reactions[message.messageId] ?? {} }));
+    }
+}
@@ -1,3 +0,0 @@
-export interface ConnectConfig {
-    channels: Array<string>; // Channels user wants to subscribe to
-};
@@ -1,4 +1,5 @@
 import { types } from 'cassandra-driver';
+import { ChimeMessage } from '@/types/message';
 
 /**
  * Interface representing a message row from Cassandra
@@ -10,6 +11,7 @@ export interface MessageRow {
     content: string;
     created_at: Date;
     edited_at: Date | null;
+    deleted_at: Date | null;
     metadata: Map<string, string>;
 }
 
@@ -19,7 +21,7 @@ export interface MessageRow {
 export function isMessageRow(row: types.Row): row is types.Row & MessageRow {
     return (
         typeof row.channel_id === 'string' &&
-        typeof row.message_id === 'string' &&
+        row.message_id != null &&
         typeof row.user_id === 'string' &&
         typeof row.content === 'string' &&
         row.created_at instanceof Date
@@ -36,15 +38,34 @@ export function toMessageRow(row: types.Row): MessageRow | null {
 
     return {
         channel_id: row.channel_id,
-        message_id: row.message_id,
+        // BIGINT columns come back as Long
+        message_id: row.message_id.toString(),
         user_id: row.user_id,
         content: row.content,
         created_at: row.created_at,
         edited_at: row.edited_at || null,
+        deleted_at: row.deleted_at || null,
         metadata: row.metadata || new Map()
     };
 }
 
+/**
+ * Converts a MessageRow into the ChimeMessage shape sent over the wire.
+ * Tombstones never carry their original content.
+ */
+export function toChimeMessage(row: MessageRow): ChimeMessage {
+    return {
+        channelId: row.channel_id,
+        messageId: row.message_id,
+        userId: row.user_id,
+        content: row.deleted_at ? '' : row.content,
+        createdAt: row.created_at.toISOString(),
+        editedAt: row.edited_at ? row.edited_at.toISOString() : null,
+        deletedAt: row.deleted_at ? row.deleted_at.toISOString() : null,
+        metadata: Object.fromEntries(row.metadata instanceof Map ? row.metadata : Object.entries(row.metadata || {}))
+    };
+}
+
 /**
  * Type for Cassandra query results containing message rows
  */
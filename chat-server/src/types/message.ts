@@ -1,176 +1,145 @@
-import { ConnectConfig } from './ConnectConfig';
-
-export interface ChimeMessage {
-    channelId: string;
-    channelName?: string; // Add optional channel name
-    messageId: string;
-    userId: string;
-    content: string;
-    createdAt: string;
-    editedAt: string | null;
-    metadata: Record<string, unknown>;
-}
-
-export type Message =
-    { type: 'message', message: ChimeMessage | ClientMessageInput } |
-    { type: 'connect', config: ConnectConfig } |
-    { type: 'connected', userId: string, channels: string[] } |
-    { type: 'error', message: string, details?: string };
-
-export function isValidChimeMessage(message: unknown): message is ChimeMessage {
-    if (!message || typeof message !== 'object') {
-        return false;
-    }
-
-    const msg = message as Record<string, unknown>;
-    return !!(
-        msg.channelId &&
-        msg.messageId &&
-        msg.userId &&
-        msg.content &&
-        msg.createdAt
-    );
-}
+import type { ClientMessage, ServerMessage } from '@chime/protocol';
+
+export type {
+    ChimeMessage,
+    ClientMessage,
+    ClientMessageInput,
+    ConnectConfig,
+    ErrorCode,
+    HistoryRequest,
+    InboxEntry,
+    MessageDeletion,
+    MessageEdit,
+    PresenceStatus,
+    ReactionRequest,
+    Reactions,
+    ServerMessage,
+    ThreadRequest
+} from '@chime/protocol';
+
+export {
+    MAX_CONTENT_LENGTH,
+    MAX_EMOJI_LENGTH,
+    MAX_NONCE_LENGTH,
+    MAX_PRESENCE_QUERY,
+    MAX_SUBSCRIBE_CHANNELS,
+    PRESENCE_STATUSES
+} from '@chime/protocol';
 
 /**
- * Client message input - minimal required fields from client
+ * How long a typing notice lasts; clients refresh it while the user keeps typing
  */
-export interface ClientMessageInput {
-    channelId: string;
-    content: string;
-}
+export const TYPING_TTL_MS = 5000;
 
 /**
- * Validates client message input (minimal message from client)
+ * Channel events other than new messages, published through Redis in this
+ * envelope and forwarded to clients as-is. New messages are published as
+ * bare ChimeMessage payloads.
  */
-export function isValidClientMessageInput(message: unknown): message is ClientMessageInput {
-    if (!message || typeof message !== 'object') {
-        return false;
-    }
+export type ChannelEvent = Extract<ServerMessage, { type: 'messageUpdated' | 'messageDeleted' | 'reactionsUpdated' | 'userTyping' | 'presence' }>;
 
-    const msg = message as Record<string, unknown>;
-    return !!(
-        msg.channelId &&
-        typeof msg.channelId === 'string' &&
-        msg.content &&
-        typeof msg.content === 'string'
-    );
-}
+/**
+ * What clients send; the shared schema has already validated it by the time
+ * the guards below see it
+ */
+export type Message = ClientMessage;
 
-export function validateChimeMessage(message: unknown): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+type MessageOfType<T extends Message['type']> = Extract<Message, { type: T }>;
 
-    if (!message || typeof message !== 'object') {
-        errors.push('Message is not an object');
-        return { valid: false, errors };
-    }
+/**
+ * Type guard for connect messages
+ */
+export function isConnectMessage(message: Message): message is MessageOfType<'connect'> {
+    return message.type === 'connect';
+}
 
-    const msg = message as Record<string, unknown>;
-    if (!msg.channelId) errors.push('Missing channelId');
-    if (!msg.messageId) errors.push('Missing messageId');
-    if (!msg.userId) errors.push('Missing userId');
-    if (!msg.content) errors.push('Missing content');
-    if (!msg.createdAt) errors.push('Missing createdAt');
+/**
+ * Type guard for chat messages
+ */
+export function isChatMessage(message: Message): message is MessageOfType<'message'> {
+    return message.type === 'message';
+}
 
-    return { valid: errors.length === 0, errors };
+/**
+ * Type guard for history requests
+ */
+export function isHistoryMessage(message: Message): message is MessageOfType<'history'> {
+    return message.type === 'history';
 }
 
 /**
- * Parses raw WebSocket data into a Message
+ * Type guard for thread requests
  */
-export function parseMessage(rawData: string): Message {
-    try {
-        const parsed = JSON.parse(rawData);
+export function isThreadMessage(message: Message): message is MessageOfType<'thread'> {
+    return message.type === 'thread';
+}
 
-        if (!isValidMessageStructure(parsed)) {
-            throw new Error('Invalid message structure');
-        }
+/**
+ * Type guard for edit requests
+ */
+export function isEditMessage(message: Message): message is MessageOfType<'edit'> {
+    return message.type === 'edit';
+}
 
-        return parsed as Message;
-    } catch (error) {
-        throw new Error(`Message parsing failed: ${error}`);
-    }
+/**
+ * Type guard for delete requests
+ */
+export function isDeleteMessage(message: Message): message is MessageOfType<'delete'> {
+    return message.type === 'delete';
 }
 
 /**
- * Validates the basic structure of a message object
+ * Type guard for react and unreact requests
  */
-export function isValidMessageStructure(data: unknown): boolean {
-    if (!data || typeof data !== 'object' || !('type' in data)) {
-        return false;
-    }
+export function isReactionMessage(message: Message): message is MessageOfType<'react' | 'unreact'> {
+    return message.type === 'react' || message.type === 'unreact';
+}
 
-    const validTypes = ['message', 'connect', 'connected', 'error'];
-    return validTypes.includes((data as { type: string }).type);
+/**
+ * Type guard for typing notices
+ */
+export function isTypingMessage(message: Message): message is MessageOfType<'typing'> {
+    return message.type === 'typing';
 }
 
 /**
- * Comprehensive message validation
- */
-export function validateMessage(message: Message): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    switch (message.type) {
-    case 'message': {
-        // Check if it's a full ChimeMessage or client input
-        if (isValidChimeMessage(message.message)) {
-            const chimeValidation = validateChimeMessage(message.message);
-            if (!chimeValidation.valid) {
-                errors.push(...chimeValidation.errors);
-            }
-        } else if (isValidClientMessageInput(message.message)) {
-            // Client input is valid - no additional validation needed
-        } else {
-            errors.push('Invalid message: must be either a complete ChimeMessage or valid client input');
-        }
-        break;
-    }
-    case 'connect':
-        if (!isValidConnectConfig(message.config)) {
-            errors.push('Invalid connect configuration');
-        }
-        break;
-    case 'connected':
-        if (!message.userId) errors.push('Missing userId in connected response');
-        if (!Array.isArray(message.channels)) errors.push('Invalid channels array in connected response');
-        break;
-    case 'error':
-        if (!message.message) errors.push('Missing error message');
-        break;
-    default:
-        errors.push('Unknown message type');
-    }
-
-    return { valid: errors.length === 0, errors };
+ * Type guard for presence updates from clients
+ */
+export function isSetPresenceMessage(message: Message): message is MessageOfType<'setPresence'> {
+    return message.type === 'setPresence';
 }
 
 /**
- * Type guard for Message validation
+ * Type guard for presence lookups
  */
-export function isValidMessage(message: unknown): message is Message {
-    if (!isValidMessageStructure(message)) {
-        return false;
-    }
+export function isPresenceQueryMessage(message: Message): message is MessageOfType<'presenceQuery'> {
+    return message.type === 'presenceQuery';
+}
 
-    const validation = validateMessage(message as Message);
-    return validation.valid;
+/**
+ * Type guard for subscribe and unsubscribe requests
+ */
+export function isSubscriptionMessage(message: Message): message is MessageOfType<'subscribe' | 'unsubscribe'> {
+    return message.type === 'subscribe' || message.type === 'unsubscribe';
 }
 
-export function isValidConnectConfig(config: ConnectConfig): boolean {
-    return config && Array.isArray(config.channels) && config.channels.length > 0;
+/**
+ * Type guard for read markers
+ */
+export function isMarkReadMessage(message: Message): message is MessageOfType<'markRead'> {
+    return message.type === 'markRead';
 }
 
 /**
- * Type guard for connect messages
+ * Type guard for delivery acknowledgements
  */
-export function isConnectMessage(message: Message): message is { type: 'connect', config: ConnectConfig } {
-    return message.type === 'connect' && 'config' in message && isValidConnectConfig(message.config);
+export function isAckDeliveryMessage(message: Message): message is MessageOfType<'ackDelivery'> {
+    return message.type === 'ackDelivery';
 }
 
 /**
- * Type guard for chat messages (handles both full ChimeMessage and client input)
+ * Type guard for application-level heartbeats
  */
-export function isChatMessage(message: Message): message is { type: 'message', message: ChimeMessage | ClientMessageInput } {
-    return message.type === 'message' && 'message' in message && 
-           (isValidChimeMessage(message.message) || isValidClientMessageInput(message.message));
+export function isPingMessage(message: Message): message is MessageOfType<'ping'> {
+    return message.type === 'ping';
 }
@@ -1,17 +1,28 @@
+/**
+ * Tracks which local users listen to each channel. Every connection that
+ * subscribes counts once, so a user stays in a channel until all of their
+ * connections have left it.
+ */
 class ChannelManager {
-    private channels = new Map<string, Set<string>>(); // channelId => userIds
+    private channels = new Map<string, Map<string, number>>(); // channelId => userId => connection count
 
     addUserToChannel(channelId: string, userId: string): void {
         if (!this.channels.has(channelId)) {
-            this.channels.set(channelId, new Set());
+            this.channels.set(channelId, new Map());
         }
-        this.channels.get(channelId)!.add(userId);
+        const users = this.channels.get(channelId)!;
+        users.set(userId, (users.get(userId) ?? 0) + 1);
     }
 
     removeUserFromChannel(channelId: string, userId: string): void {
         const users = this.channels.get(channelId);
-        if (users) {
-            users.delete(userId);
+        if (users && users.has(userId)) {
+            const remaining = users.get(userId)! - 1;
+            if (remaining > 0) {
+                users.set(userId, remaining);
+            } else {
+                users.delete(userId);
+            }
             if (users.size === 0) {
                 this.channels.delete(channelId);
             }
@@ -19,12 +30,16 @@ class ChannelManager {
     }
 
     getUsersInChannel(channelId: string): string[] {
-        return Array.from(this.channels.get(channelId) || []);
+        return Array.from(this.channels.get(channelId)?.keys() || []);
     }
 
     getChannels(): string[] {
         return Array.from(this.channels.keys());
     }
+
+    getChannelsOfUser(userId: string): string[] {
+        return this.getChannels().filter(channelId => this.channels.get(channelId)!.has(userId));
+    }
 }
 
 export default ChannelManager;
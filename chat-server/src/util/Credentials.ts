@@ -13,6 +13,10 @@ interface TomlData {
     };
     chat: {
         port: number;
+        worker_id?: number;
+        backend?: string;
+        heartbeat_interval_ms?: number;
+        heartbeat_timeout_ms?: number;
     };
     redis: {
         host: string;
@@ -29,6 +33,9 @@ interface TomlData {
         host: string;
         port: number;
     };
+    auth: {
+        secret: string;
+    };
 }
 
 const CredentialsSchema = z.object({
@@ -38,6 +45,10 @@ const CredentialsSchema = z.object({
     }),
     chat: z.object({
         port: z.number(),
+        workerId: z.number().int().min(0).max(1023), // Unique per running instance; part of every message ID
+        backend: z.enum(['external', 'memory']), // 'memory' keeps all state in-process, for a single instance
+        heartbeatIntervalMs: z.number().int().positive(), // How often clients are pinged
+        heartbeatTimeoutMs: z.number().int().positive(), // How long a ping may go unanswered before the socket is dropped
     }),
     redis: z.object({
         host: z.string(),
@@ -54,6 +65,9 @@ const CredentialsSchema = z.object({
         host: z.string(),
         port: z.number(),
     }),
+    auth: z.object({
+        secret: z.string().min(32), // Shared with the API, which signs the tokens
+    }),
 });
 
 export type Credentials = z.infer<typeof CredentialsSchema>;
@@ -75,6 +89,10 @@ export function loadCredentials(): Credentials {
             },
             chat: {
                 port: data.chat.port,
+                workerId: data.chat.worker_id ?? 0,
+                backend: data.chat.backend ?? 'external',
+                heartbeatIntervalMs: data.chat.heartbeat_interval_ms ?? 30000,
+                heartbeatTimeoutMs: data.chat.heartbeat_timeout_ms ?? 10000,
             },
             redis: {
                 host: data.redis.host,
@@ -91,6 +109,9 @@ export function loadCredentials(): Credentials {
                 host: data.cassandra.host,
                 port: data.cassandra.port,
             },
+            auth: {
+                secret: data.auth.secret,
+            },
         });
 
         log.info({ function: 'loadCredentials' }, 'Credentials loaded and validated successfully');
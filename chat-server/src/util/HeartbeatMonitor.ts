@@ -0,0 +1,76 @@
+import { WebSocket } from 'ws';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'heartbeatMonitor' });
+
+/**
+ * Pings every tracked socket each interval and terminates those that do not
+ * answer within the timeout. A half-open TCP connection never emits 'close' on
+ * its own; terminating it does, so the usual close handling cleans it up.
+ */
+export class HeartbeatMonitor {
+    private sockets = new Set<WebSocket>();
+    private pending = new Map<WebSocket, NodeJS.Timeout>(); // Sockets awaiting a pong => their deadline
+    private interval: NodeJS.Timeout | null = null;
+
+    constructor(private readonly intervalMs: number, private readonly timeoutMs: number) {}
+
+    track(ws: WebSocket): void {
+        this.sockets.add(ws);
+
+        // Any traffic proves the link is alive, not just a pong
+        const alive = () => this.clearPending(ws);
+        ws.on('pong', alive);
+        ws.on('message', alive);
+        ws.on('close', () => {
+            this.clearPending(ws);
+            this.sockets.delete(ws);
+        });
+    }
+
+    start(): void {
+        if (this.interval) {
+            return;
+        }
+        this.interval = setInterval(() => this.beat(), this.intervalMs);
+        log.info({ function: 'start', intervalMs: this.intervalMs, timeoutMs: this.timeoutMs }, 'Heartbeat started');
+    }
+
+    stop(): void {
+        if (this.interval) {
+            clearInterval(this.interval);
+            this.interval = null;
+        }
+        for (const ws of Array.from(this.pending.keys())) {
+            this.clearPending(ws);
+        }
+    }
+
+    private beat(): void {
+        for (const ws of this.sockets) {
+            if (ws.readyState !== WebSocket.OPEN || this.pending.has(ws)) {
+                continue;
+            }
+
+            this.pending.set(ws, setTimeout(() => {
+                this.pending.delete(ws);
+                log.warn({ function: 'beat', timeoutMs: this.timeoutMs }, 'No pong received - terminating connection');
+                ws.terminate();
+            }, this.timeoutMs));
+
+            try {
+                ws.ping();
+            } catch (error) {
+                log.error({ function: 'beat', error }, 'Failed to ping connection');
+            }
+        }
+    }
+
+    private clearPending(ws: WebSocket): void {
+        const deadline = this.pending.get(ws);
+        if (deadline) {
+            clearTimeout(deadline);
+            this.pending.delete(ws);
+        }
+    }
+}
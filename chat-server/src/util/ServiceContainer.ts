@@ -3,16 +3,40 @@ import { MessageBroadcastService } from '@/services/messageBroadcaseService';
 import { UserConnectionManager } from '@/util/UserConnectionManager';
 import ChannelManager from '@/util/ChannelManager';
 import { MessageSubscriberService } from '@/services/messageSubscriberService';
+import { AuthService } from '@/services/authService';
+import { ModerationService } from '@/services/moderationService';
+import { ReactionService } from '@/services/reactionService';
+import { PresenceService } from '@/services/presenceService';
+import { InboxService } from '@/services/inboxService';
+import { DeliveryQueueService } from '@/services/deliveryQueueService';
+import { IdempotencyService } from '@/services/idempotencyService';
+import { Adapters, createExternalAdapters } from '@/adapters';
+import { ChannelAccess } from '@/adapters/channelAccess';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'serviceContainer' });
 
+/**
+ * Settings otherwise read from credentials.toml when first needed
+ */
+export interface ServiceSettings {
+    authSecret?: string;
+    workerId?: number;
+}
+
 export interface IServiceContainer {
     messageService: MessageService;
     broadcastService: MessageBroadcastService;
     userManager: UserConnectionManager;
     channelManager: ChannelManager;
     subscriberService: MessageSubscriberService;
+    authService: AuthService;
+    moderationService: ModerationService;
+    reactionService: ReactionService;
+    presenceService: PresenceService;
+    channelAccessService: ChannelAccess;
+    inboxService: InboxService;
+    deliveryQueueService: DeliveryQueueService;
 }
 
 export class ServiceContainer implements IServiceContainer {
@@ -21,21 +45,38 @@ export class ServiceContainer implements IServiceContainer {
     public readonly userManager: UserConnectionManager;
     public readonly channelManager: ChannelManager;
     public readonly subscriberService: MessageSubscriberService;
+    public readonly authService: AuthService;
+    public readonly moderationService: ModerationService;
+    public readonly reactionService: ReactionService;
+    public readonly presenceService: PresenceService;
+    public readonly channelAccessService: ChannelAccess;
+    public readonly inboxService: InboxService;
+    public readonly deliveryQueueService: DeliveryQueueService;
+    private readonly adapters: Adapters;
+
+    constructor(adapters: Adapters = createExternalAdapters(), settings: ServiceSettings = {}) {
+        log.debug({ function: 'constructor' }, 'Creating ServiceContainer');
 
-    constructor(test: boolean = false) {
-        log.debug({ function: 'constructor', test }, 'Creating ServiceContainer');
+        this.adapters = adapters;
 
-        // Create individual services
-        this.messageService = new MessageService(test);
-        this.broadcastService = new MessageBroadcastService(test);
+        // Create individual services on the shared adapters
+        this.messageService = new MessageService(adapters.messageStore, new IdempotencyService(adapters.keyValueStore), settings.workerId);
+        this.broadcastService = new MessageBroadcastService(adapters.pubSub);
         this.userManager = new UserConnectionManager();
         this.channelManager = new ChannelManager();
+        this.authService = new AuthService(settings.authSecret);
+        this.moderationService = new ModerationService(adapters.channelAccess);
+        this.reactionService = new ReactionService(adapters.reactionStore);
+        this.presenceService = new PresenceService(adapters.keyValueStore, userId => this.channelManager.getChannelsOfUser(userId));
+        this.channelAccessService = adapters.channelAccess;
+        this.inboxService = new InboxService(adapters.keyValueStore);
+        this.deliveryQueueService = new DeliveryQueueService(adapters.keyValueStore);
         
         // MessageSubscriberService needs the managers as dependencies
         this.subscriberService = new MessageSubscriberService(
             this.channelManager,
             this.userManager,
-            test
+            adapters.pubSub
         );
 
         log.info({ function: 'constructor' }, 'ServiceContainer created successfully');
@@ -45,9 +86,9 @@ export class ServiceContainer implements IServiceContainer {
         log.info({ function: 'connect' }, 'Connecting all services');
 
         try {
-            await this.messageService.connect();
-            await this.broadcastService.init();
+            await this.adapters.connect();
             await this.subscriberService.connect();
+            await this.presenceService.connect();
             
             log.info({ function: 'connect' }, 'All services connected successfully');
         } catch (error) {
@@ -60,9 +101,9 @@ export class ServiceContainer implements IServiceContainer {
         log.info({ function: 'disconnect' }, 'Disconnecting all services');
 
         try {
+            await this.presenceService.disconnect();
             await this.subscriberService.disconnect();
-            await this.broadcastService.disconnect();
-            await this.messageService.disconnect();
+            await this.adapters.disconnect();
             
             log.info({ function: 'disconnect' }, 'All services disconnected successfully');
         } catch (error) {
@@ -1,16 +1,19 @@
 import { WebSocket } from 'ws';
+import { Feature, LEGACY_FEATURES, allowsMessageType } from '@chime/protocol';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'userConnectionManager' });
 
 export class UserConnectionManager {
     private userConnections = new Map<string, Set<WebSocket>>();
+    private connectionFeatures = new WeakMap<WebSocket, ReadonlySet<Feature>>(); // As negotiated in the handshake
 
-    addUserConnection(userId: string, ws: WebSocket): void {
+    addUserConnection(userId: string, ws: WebSocket, features: ReadonlySet<Feature> = new Set(LEGACY_FEATURES)): void {
         if (!this.userConnections.has(userId)) {
             this.userConnections.set(userId, new Set());
         }
         this.userConnections.get(userId)!.add(ws);
+        this.connectionFeatures.set(ws, features);
         log.debug({ function: 'addUserConnection', userId, totalConnections: this.userConnections.get(userId)!.size }, 'Added user connection');
     }
 
@@ -37,7 +40,11 @@ export class UserConnectionManager {
         return this.userConnections.has(userId) && this.userConnections.get(userId)!.size > 0;
     }
 
-    sendToUser(userId: string, message: string): boolean {
+    /**
+     * Send to every connection of the user; given the message's type, those
+     * that did not negotiate its feature are skipped
+     */
+    sendToUser(userId: string, message: string, type?: string): boolean {
         const connections = this.userConnections.get(userId);
         if (!connections || connections.size === 0) {
             log.warn({ function: 'sendToUser', userId }, 'No connections found for user');
@@ -46,6 +53,10 @@ export class UserConnectionManager {
 
         let sentCount = 0;
         connections.forEach(ws => {
+            const features = this.connectionFeatures.get(ws);
+            if (type && features && !allowsMessageType(features, type)) {
+                return;
+            }
             if (ws.readyState === WebSocket.OPEN) {
                 try {
                     ws.send(message);
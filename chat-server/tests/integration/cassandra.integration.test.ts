@@ -1,5 +1,9 @@
 import { connectToCassandra, disconnectFromCassandra, getCassandraClient } from '@/database/cassandra';
 import { MessageService } from '@/services/messageService';
+import { IdempotencyService } from '@/services/idempotencyService';
+import { CassandraMessageStore } from '@/adapters/cassandraMessageStore';
+import { RedisKeyValueStore } from '@/adapters/redisKeyValueStore';
+import { bucketOf } from '@chime/protocol';
 
 // Note: This test relies on credentials/credentials.toml file having:
 // [cassandra]
@@ -49,42 +53,52 @@ describe('Cassandra Database Integration', () => {
 
     describe('MessageService Integration', () => {
         let messageService: MessageService;
+        let keyValueStore: RedisKeyValueStore;
         const testChannelId = `test-channel-${Date.now()}`;
         const testUserId = 'test-user-123';
+        const testBuckets = new Set<number>();
 
         beforeEach(async () => {
-            messageService = new MessageService(true); // Use test Redis instance
-            await messageService.connect(); // Connect the MessageService (which connects MessageIDService)
+            keyValueStore = new RedisKeyValueStore(true); // Use test Redis instance
+            await keyValueStore.connect();
+            messageService = new MessageService(new CassandraMessageStore(), new IdempotencyService(keyValueStore));
         });
 
         afterEach(async () => {
-            // Disconnect MessageService
-            await messageService.disconnect();
+            // Disconnect Redis
+            await keyValueStore.disconnect();
             
             // Clean up test data
             const client = getCassandraClient();
-            await client.execute('DELETE FROM messages WHERE channel_id = ?', [testChannelId]);
-            await client.execute('DELETE FROM message_counters WHERE channel_id = ?', [testChannelId]);
+            for (const bucket of testBuckets) {
+                await client.execute('DELETE FROM messages_by_bucket WHERE channel_id = ? AND bucket = ?', [testChannelId, bucket], { prepare: true });
+            }
+            await client.execute('DELETE FROM channel_buckets WHERE channel_id = ?', [testChannelId]);
         });
 
         test('should save a message', async () => {
             const content = 'Test message content';
 
-            // Let the real getNextMessageId run
+            // Let the real MessageIDService generate the ID
             const savedMessage = await messageService.saveMessage(testChannelId, testUserId, content);
+            testBuckets.add(bucketOf(savedMessage.messageId));
 
             expect(savedMessage).toBeDefined();
             expect(savedMessage.channelId).toBe(testChannelId);
             expect(savedMessage.userId).toBe(testUserId);
             expect(savedMessage.content).toBe(content);
-            expect(savedMessage.messageId).toBe(savedMessage.messageId);
+            expect(savedMessage.messageId).toMatch(/^\d+$/);
             expect(savedMessage.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/); // ISO string format
             expect(savedMessage.editedAt).toBeNull();
             expect(savedMessage.metadata).toEqual({});
 
             // Also verify it was written to the database
             const client = getCassandraClient();
-            const result = await client.execute('SELECT * FROM messages WHERE channel_id = ? AND message_id = ?', [testChannelId, savedMessage.messageId], { prepare: true });
+            const result = await client.execute(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+                [testChannelId, bucketOf(savedMessage.messageId), savedMessage.messageId],
+                { prepare: true }
+            );
             expect(result.rows.length).toBe(1);
             expect(result.rows[0].content).toBe(content);
         });
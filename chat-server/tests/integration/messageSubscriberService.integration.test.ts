@@ -1,4 +1,5 @@
 import { MessageSubscriberService } from '@/services/messageSubscriberService';
+import { RedisPubSub } from '@/adapters/redisPubSub';
 import { ChimeMessage } from '@/types/message';
 import ChannelManager from '@/util/ChannelManager';
 import { UserConnectionManager } from '@/util/UserConnectionManager';
@@ -24,6 +25,7 @@ interface MockWebSocket {
 
 describe('MessageSubscriberService Integration Tests', () => {
     let subscriberService: MessageSubscriberService;
+    let pubSub: RedisPubSub;
     let channelManager: ChannelManager;
     let userConnectionManager: UserConnectionManager;
     let mockWs1: MockWebSocket;
@@ -37,7 +39,8 @@ describe('MessageSubscriberService Integration Tests', () => {
         // Initialize services with test=true to use test Redis instance
         channelManager = new ChannelManager();
         userConnectionManager = new UserConnectionManager();
-        subscriberService = new MessageSubscriberService(channelManager, userConnectionManager, true);
+        pubSub = new RedisPubSub(true);
+        subscriberService = new MessageSubscriberService(channelManager, userConnectionManager, pubSub);
 
         // Create mock WebSocket connections
         mockWs1 = {
@@ -63,12 +66,14 @@ describe('MessageSubscriberService Integration Tests', () => {
         channelManager.addUserToChannel(testChannelId, testUserId2);
 
         // Connect service
+        await pubSub.connect();
         await subscriberService.connect();
     }, 10000);
 
     afterAll(async () => {
         // Clean up connections
         await subscriberService.disconnect();
+        await pubSub.disconnect();
     });
 
     beforeEach(() => {
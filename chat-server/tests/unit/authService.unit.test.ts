@@ -0,0 +1,85 @@
+import jwt from 'jsonwebtoken';
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/util/Credentials', () => ({
+    loadCredentials: jest.fn().mockReturnValue({
+        auth: { secret: 'credentials-secret-credentials-secret' }
+    })
+}));
+
+import { AuthService, AuthError, signToken } from '@/services/authService';
+import { loadCredentials } from '@/util/Credentials';
+
+const SECRET = 'test-secret-test-secret-test-secret';
+
+describe('AuthService Unit Tests', () => {
+    let authService: AuthService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        authService = new AuthService(SECRET);
+    });
+
+    describe('verifyToken', () => {
+        test('should return the user ID of a valid access token', () => {
+            const token = signToken('user-123', SECRET);
+
+            expect(authService.verifyToken(token)).toBe('user-123');
+        });
+
+        test('should reject tokens signed with another secret', () => {
+            const token = signToken('user-123', 'another-secret-another-secret-another');
+
+            expect(() => authService.verifyToken(token)).toThrow(AuthError);
+            expect(() => authService.verifyToken(token)).toThrow('Invalid token');
+        });
+
+        test('should reject expired tokens', () => {
+            const token = signToken('user-123', SECRET, -10);
+
+            expect(() => authService.verifyToken(token)).toThrow('Token expired');
+        });
+
+        test('should reject tokens that are not access tokens', () => {
+            const token = jwt.sign({ sub: 'user-123', type: 'refresh' }, SECRET, { algorithm: 'HS256' });
+
+            expect(() => authService.verifyToken(token)).toThrow('Invalid token');
+        });
+
+        test('should reject tokens without a subject', () => {
+            const token = jwt.sign({ type: 'access' }, SECRET, { algorithm: 'HS256' });
+
+            expect(() => authService.verifyToken(token)).toThrow('Invalid token');
+        });
+
+        test('should reject unsigned tokens', () => {
+            const token = jwt.sign({ sub: 'user-123', type: 'access' }, '', { algorithm: 'none' });
+
+            expect(() => authService.verifyToken(token)).toThrow('Invalid token');
+        });
+
+        test('should reject malformed tokens', () => {
+            expect(() => authService.verifyToken('not-a-token')).toThrow('Invalid token');
+        });
+    });
+
+    describe('secret loading', () => {
+        test('should fall back to the secret from credentials', () => {
+            const service = new AuthService();
+            const token = signToken('user-456', 'credentials-secret-credentials-secret');
+
+            expect(service.verifyToken(token)).toBe('user-456');
+            expect(loadCredentials).toHaveBeenCalledTimes(1);
+        });
+    });
+});
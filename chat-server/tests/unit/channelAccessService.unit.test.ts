@@ -0,0 +1,169 @@
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import jwt from 'jsonwebtoken';
+import { ChannelAccessService, ACCESS_CACHE_TTL_MS, ACCESS_FETCH_TIMEOUT_MS } from '@/services/channelAccessService';
+
+const SECRET = 'test-secret';
+const BASE_URL = 'http://api.test/api';
+
+function respond(allowed: boolean, status: number = 200) {
+    return Promise.resolve({
+        ok: status >= 200 && status < 300,
+        status,
+        json: () => Promise.resolve({ allowed }),
+    });
+}
+
+describe('ChannelAccessService Unit Tests', () => {
+    let fetchMock: jest.Mock;
+    let service: ChannelAccessService;
+
+    beforeEach(() => {
+        fetchMock = jest.fn();
+        global.fetch = fetchMock as unknown as typeof fetch;
+        service = new ChannelAccessService({ baseUrl: BASE_URL, secret: SECRET });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should ask the API with a service token', async () => {
+        fetchMock.mockReturnValue(respond(true));
+
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(true);
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe(`${BASE_URL}/internal/channels/general/members/user-1`);
+        const token = init.headers.Authorization.replace('Bearer ', '');
+        expect(jwt.verify(token, SECRET)).toMatchObject({ sub: 'chat-server', type: 'service' });
+    });
+
+    test('should split channels into allowed and denied', async () => {
+        fetchMock.mockImplementation((url: string) => respond(!url.includes('secret-channel')));
+
+        await expect(service.filterAllowed('user-1', ['general', 'secret-channel', 'random']))
+            .resolves.toEqual({ allowed: ['general', 'random'], denied: ['secret-channel'] });
+    });
+
+    test('should cache answers until they expire', async () => {
+        jest.useFakeTimers();
+        fetchMock.mockReturnValue(respond(true));
+
+        await service.canAccess('general', 'user-1');
+        await service.canAccess('general', 'user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(ACCESS_CACHE_TTL_MS + 1);
+        await service.canAccess('general', 'user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should evict the oldest answers once the cache is full', async () => {
+        fetchMock.mockReturnValue(respond(true));
+        service = new ChannelAccessService({ baseUrl: BASE_URL, secret: SECRET }, 2);
+
+        await service.canAccess('general', 'user-1');
+        await service.canAccess('random', 'user-1');
+        await service.canAccess('support', 'user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+
+        await service.canAccess('support', 'user-1');
+        await service.canAccess('random', 'user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+
+        await service.canAccess('general', 'user-1');
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    test('should ask again once a revoked member\'s answer expires', async () => {
+        jest.useFakeTimers();
+        fetchMock.mockReturnValueOnce(respond(true)).mockReturnValueOnce(respond(false));
+
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(true);
+        jest.advanceTimersByTime(ACCESS_CACHE_TTL_MS + 1);
+
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(false);
+    });
+
+    test('should deny when the API does not answer in time', async () => {
+        jest.useFakeTimers();
+        fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+        }));
+
+        const answer = service.canAccess('general', 'user-1');
+        await jest.advanceTimersByTimeAsync(ACCESS_FETCH_TIMEOUT_MS);
+
+        await expect(answer).resolves.toBe(false);
+    });
+
+    test('should deny when the API fails and ask again next time', async () => {
+        fetchMock.mockReturnValueOnce(respond(true, 500));
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(false);
+
+        fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(false);
+
+        fetchMock.mockReturnValueOnce(respond(true));
+        await expect(service.canAccess('general', 'user-1')).resolves.toBe(true);
+    });
+
+    describe('canModerate', () => {
+        const respondModerator = (moderator: boolean) => Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () => Promise.resolve({ moderator }),
+        });
+
+        test('should ask the API per channel', async () => {
+            fetchMock.mockImplementation((url: string) => respondModerator(url.includes('/channels/general/')));
+
+            await expect(service.canModerate('general', 'user-1')).resolves.toBe(true);
+            await expect(service.canModerate('random', 'user-1')).resolves.toBe(false);
+            expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/internal/channels/general/moderators/user-1`);
+        });
+
+        test('should cache moderation apart from membership', async () => {
+            fetchMock.mockReturnValueOnce(respond(true)).mockReturnValueOnce(respondModerator(false));
+
+            await expect(service.canAccess('general', 'user-1')).resolves.toBe(true);
+            await expect(service.canModerate('general', 'user-1')).resolves.toBe(false);
+            await expect(service.canModerate('general', 'user-1')).resolves.toBe(false);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        test('should deny when the API fails', async () => {
+            fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+            await expect(service.canModerate('general', 'user-1')).resolves.toBe(false);
+        });
+    });
+
+    describe('getDirectChannels', () => {
+        test('should list the user\'s direct channels', async () => {
+            fetchMock.mockReturnValue(Promise.resolve({
+                ok: true,
+                status: 200,
+                json: () => Promise.resolve({ userId: 'user-1', channels: ['dm-1', 'dm-2'] }),
+            }));
+
+            await expect(service.getDirectChannels('user-1')).resolves.toEqual(['dm-1', 'dm-2']);
+            expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/internal/users/user-1/direct-channels`);
+        });
+
+        test('should return no channels when the API fails', async () => {
+            fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+            await expect(service.getDirectChannels('user-1')).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,53 @@
+import ChannelManager from '@/util/ChannelManager';
+
+describe('ChannelManager Unit Tests', () => {
+    let manager: ChannelManager;
+
+    beforeEach(() => {
+        manager = new ChannelManager();
+    });
+
+    test('should list users added to a channel', () => {
+        manager.addUserToChannel('general', 'user-1');
+        manager.addUserToChannel('general', 'user-2');
+
+        expect(manager.getUsersInChannel('general')).toEqual(['user-1', 'user-2']);
+        expect(manager.getChannels()).toEqual(['general']);
+    });
+
+    test('should keep a user in a channel until every connection leaves it', () => {
+        // Two tabs of the same user
+        manager.addUserToChannel('general', 'user-1');
+        manager.addUserToChannel('general', 'user-1');
+
+        manager.removeUserFromChannel('general', 'user-1');
+        expect(manager.getUsersInChannel('general')).toEqual(['user-1']);
+
+        manager.removeUserFromChannel('general', 'user-1');
+        expect(manager.getUsersInChannel('general')).toEqual([]);
+    });
+
+    test('should forget channels nobody listens to', () => {
+        manager.addUserToChannel('general', 'user-1');
+        manager.removeUserFromChannel('general', 'user-1');
+
+        expect(manager.getChannels()).toEqual([]);
+    });
+
+    test('should ignore removing a user who is not in the channel', () => {
+        manager.addUserToChannel('general', 'user-1');
+        manager.removeUserFromChannel('general', 'user-2');
+        manager.removeUserFromChannel('random', 'user-1');
+
+        expect(manager.getUsersInChannel('general')).toEqual(['user-1']);
+    });
+
+    test('should list the channels a user is in', () => {
+        manager.addUserToChannel('general', 'user-1');
+        manager.addUserToChannel('random', 'user-1');
+        manager.addUserToChannel('random', 'user-2');
+
+        expect(manager.getChannelsOfUser('user-1')).toEqual(['general', 'random']);
+        expect(manager.getChannelsOfUser('user-3')).toEqual([]);
+    });
+});
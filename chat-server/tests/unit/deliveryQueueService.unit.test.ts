@@ -0,0 +1,147 @@
+// Mock dependencies before importing
+const sets = new Map<string, Set<string>>();
+const hashes = new Map<string, Record<string, string>>();
+const streams = new Map<string, { id: string, message: Record<string, string> }[]>();
+let nextEntryId = 0;
+
+const set = (key: string) => sets.get(key) ?? new Set<string>();
+const hash = (key: string) => hashes.get(key) ?? {};
+const stream = (key: string) => streams.get(key) ?? [];
+
+const mockStore = {
+    sAdd: jest.fn(async (key: string, member: string) => {
+        sets.set(key, new Set([...set(key), member]));
+        return 1;
+    }),
+    sRem: jest.fn(async (key: string, member: string) => {
+        const updated = new Set(set(key));
+        updated.delete(member);
+        sets.set(key, updated);
+        return 1;
+    }),
+    sMembers: jest.fn(async (key: string) => Array.from(set(key))),
+    hGet: jest.fn(async (key: string, field: string) => hash(key)[field] ?? null),
+    hGetAll: jest.fn(async (key: string) => hash(key)),
+    hSet: jest.fn(async (key: string, field: string, value: string) => {
+        hashes.set(key, { ...hash(key), [field]: value });
+        return 1;
+    }),
+    xAdd: jest.fn(async (key: string, _id: string, message: Record<string, string>) => {
+        const id = `${++nextEntryId}-0`;
+        streams.set(key, [...stream(key), { id, message }]);
+        return id;
+    }),
+    xRange: jest.fn(async (key: string) => stream(key)),
+    xDel: jest.fn(async (key: string, ids: string[]) => {
+        streams.set(key, stream(key).filter(entry => !ids.includes(entry.id)));
+        return ids.length;
+    }),
+    expire: jest.fn().mockResolvedValue(1)
+};
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { DeliveryQueueService, DELIVERY_QUEUE_MAX_LENGTH, DELIVERY_QUEUE_TTL_SECONDS } from '@/services/deliveryQueueService';
+import { ChimeMessage } from '@/types/message';
+
+function sent(channelId: string, messageId: string, userId: string): ChimeMessage {
+    return { channelId, messageId, userId, content: 'hello', createdAt: new Date().toISOString(), editedAt: null, metadata: {} };
+}
+
+describe('DeliveryQueueService Unit Tests', () => {
+    let service: DeliveryQueueService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        sets.clear();
+        hashes.clear();
+        streams.clear();
+        service = new DeliveryQueueService(mockStore as unknown as KeyValueStore);
+    });
+
+    test('should queue messages for every follower but the author', async () => {
+        await service.follow('alice', ['general']);
+        await service.follow('bob', ['general']);
+
+        await expect(service.enqueue(sent('general', '1', 'alice'))).resolves.toBe(1);
+        await expect(service.enqueue(sent('random', '1', 'alice'))).resolves.toBe(0);
+
+        expect(await service.getPending('bob', ['general'])).toEqual([{ channelId: 'general', messageId: '1' }]);
+        expect(await service.getPending('alice', ['general'])).toEqual([]);
+    });
+
+    test('should bound and expire each queue', async () => {
+        await service.follow('bob', ['general']);
+        await service.enqueue(sent('general', '1', 'alice'));
+
+        expect(mockStore.xAdd).toHaveBeenCalledWith('delivery:bob:queue', '*', { channelId: 'general', messageId: '1' }, {
+            TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: DELIVERY_QUEUE_MAX_LENGTH }
+        });
+        expect(mockStore.expire).toHaveBeenCalledWith('delivery:bob:queue', DELIVERY_QUEUE_TTL_SECONDS);
+    });
+
+    test('should replay only what was not acknowledged and drop the rest', async () => {
+        await service.follow('bob', ['general']);
+        for (const messageId of ['8', '9', '10']) {
+            await service.enqueue(sent('general', messageId, 'alice'));
+        }
+
+        await service.acknowledge('bob', 'general', '9');
+
+        expect(await service.getPending('bob', ['general'])).toEqual([{ channelId: 'general', messageId: '10' }]);
+        expect(stream('delivery:bob:queue').map(entry => entry.message.messageId)).toEqual(['10']);
+    });
+
+    test('should never move an acknowledgement back', async () => {
+        await service.acknowledge('bob', 'general', '10');
+        await service.acknowledge('bob', 'general', '9');
+
+        expect(hash('delivery:bob:acked').general).toBe('10');
+    });
+
+    test('should keep deliveries for channels the connection did not join', async () => {
+        await service.follow('bob', ['general', 'random']);
+        await service.enqueue(sent('general', '1', 'alice'));
+        await service.enqueue(sent('random', '1', 'alice'));
+
+        expect(await service.getPending('bob', ['general'])).toEqual([{ channelId: 'general', messageId: '1' }]);
+        expect(await service.getPending('bob', ['random'])).toEqual([{ channelId: 'random', messageId: '1' }]);
+    });
+
+    test('should stop queueing for users who unfollow', async () => {
+        await service.follow('bob', ['general']);
+        await service.unfollow('bob', ['general']);
+
+        await expect(service.enqueue(sent('general', '1', 'alice'))).resolves.toBe(0);
+    });
+
+    test('should issue every follower\'s writes before waiting on any', async () => {
+        for (const follower of ['bob', 'carol', 'dave']) {
+            await service.follow(follower, ['general']);
+        }
+        let release!: () => void;
+        const released = new Promise<void>(resolve => {
+            release = resolve;
+        });
+        mockStore.xAdd.mockImplementation(() => released.then(() => '1-0'));
+
+        const enqueued = service.enqueue(sent('general', '1', 'alice'));
+        await new Promise(resolve => setImmediate(resolve));
+
+        // Nothing has answered yet, so the writes can share one round trip
+        expect(mockStore.xAdd).toHaveBeenCalledTimes(3);
+        expect(mockStore.expire).toHaveBeenCalledTimes(3);
+        release();
+        await expect(enqueued).resolves.toBe(3);
+    });
+});
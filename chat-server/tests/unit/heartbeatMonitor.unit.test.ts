@@ -0,0 +1,101 @@
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { HeartbeatMonitor } from '@/util/HeartbeatMonitor';
+
+class MockSocket extends EventEmitter {
+    readyState: number = WebSocket.OPEN;
+    ping = jest.fn();
+    terminate = jest.fn(() => {
+        this.readyState = WebSocket.CLOSED;
+        this.emit('close', 1006, Buffer.from(''));
+    });
+}
+
+describe('HeartbeatMonitor Unit Tests', () => {
+    let monitor: HeartbeatMonitor;
+    let ws: MockSocket;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        monitor = new HeartbeatMonitor(1000, 500);
+        ws = new MockSocket();
+        monitor.track(ws as unknown as WebSocket);
+        monitor.start();
+    });
+
+    afterEach(() => {
+        monitor.stop();
+        jest.useRealTimers();
+    });
+
+    test('should ping tracked sockets every interval', () => {
+        jest.advanceTimersByTime(1000);
+        expect(ws.ping).toHaveBeenCalledTimes(1);
+
+        ws.emit('pong');
+        jest.advanceTimersByTime(1000);
+        expect(ws.ping).toHaveBeenCalledTimes(2);
+    });
+
+    test('should terminate sockets that miss the pong', () => {
+        jest.advanceTimersByTime(1499);
+        expect(ws.terminate).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        expect(ws.terminate).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep sockets that answer in time', () => {
+        ws.ping.mockImplementation(() => setTimeout(() => ws.emit('pong'), 200));
+        jest.advanceTimersByTime(5000);
+
+        expect(ws.ping).toHaveBeenCalledTimes(5);
+        expect(ws.terminate).not.toHaveBeenCalled();
+    });
+
+    test('should count any message as a sign of life', () => {
+        jest.advanceTimersByTime(1200);
+        ws.emit('message', Buffer.from('{"type":"ping"}'));
+        jest.advanceTimersByTime(400);
+
+        expect(ws.terminate).not.toHaveBeenCalled();
+    });
+
+    test('should not ping again while a pong is outstanding', () => {
+        monitor.stop();
+        monitor = new HeartbeatMonitor(100, 500);
+        monitor.track(ws as unknown as WebSocket);
+        monitor.start();
+
+        jest.advanceTimersByTime(400);
+        expect(ws.ping).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop pinging sockets once they close', () => {
+        ws.readyState = WebSocket.CLOSED;
+        ws.emit('close', 1000, Buffer.from(''));
+        jest.advanceTimersByTime(5000);
+
+        expect(ws.ping).not.toHaveBeenCalled();
+    });
+
+    test('should cancel pending deadlines when stopped', () => {
+        jest.advanceTimersByTime(1000);
+        monitor.stop();
+        jest.advanceTimersByTime(5000);
+
+        expect(ws.terminate).not.toHaveBeenCalled();
+        expect(ws.ping).toHaveBeenCalledTimes(1);
+    });
+});
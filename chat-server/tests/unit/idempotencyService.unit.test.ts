@@ -0,0 +1,75 @@
+// Mock dependencies before importing
+const strings = new Map<string, string>();
+
+type SetOptions = { expiration?: unknown, condition?: 'NX' | 'XX' };
+
+const mockStore = {
+    get: jest.fn(async (key: string) => strings.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string, options: SetOptions = {}) => {
+        if (options.condition === 'NX' && strings.has(key)) return null;
+        if (options.condition === 'XX' && !strings.has(key)) return null;
+        strings.set(key, value);
+        return 'OK';
+    }),
+    del: jest.fn(async (key: string) => (strings.delete(key) ? 1 : 0))
+};
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { IdempotencyService, IDEMPOTENCY_WINDOW_SECONDS } from '@/services/idempotencyService';
+
+describe('IdempotencyService Unit Tests', () => {
+    let service: IdempotencyService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        strings.clear();
+        service = new IdempotencyService(mockStore as unknown as KeyValueStore);
+    });
+
+    test('should claim an unused key for the window', async () => {
+        await expect(service.claim('general', 'alice', 'nonce-1')).resolves.toEqual({ status: 'claimed' });
+
+        expect(mockStore.set).toHaveBeenCalledWith('idempotency:general:alice:nonce-1', '', {
+            expiration: { type: 'EX', value: IDEMPOTENCY_WINDOW_SECONDS },
+            condition: 'NX'
+        });
+    });
+
+    test('should report a save still in progress', async () => {
+        await service.claim('general', 'alice', 'nonce-1');
+
+        await expect(service.claim('general', 'alice', 'nonce-1')).resolves.toEqual({ status: 'inFlight' });
+    });
+
+    test('should return the message a completed key was saved as', async () => {
+        await service.claim('general', 'alice', 'nonce-1');
+        await service.complete('general', 'alice', 'nonce-1', '42');
+
+        await expect(service.claim('general', 'alice', 'nonce-1')).resolves.toEqual({ status: 'saved', messageId: '42' });
+    });
+
+    test('should keep keys apart per channel and user', async () => {
+        await service.claim('general', 'alice', 'nonce-1');
+
+        await expect(service.claim('random', 'alice', 'nonce-1')).resolves.toEqual({ status: 'claimed' });
+        await expect(service.claim('general', 'bob', 'nonce-1')).resolves.toEqual({ status: 'claimed' });
+    });
+
+    test('should let a released key be claimed again', async () => {
+        await service.claim('general', 'alice', 'nonce-1');
+        await service.release('general', 'alice', 'nonce-1');
+
+        await expect(service.claim('general', 'alice', 'nonce-1')).resolves.toEqual({ status: 'claimed' });
+    });
+});
@@ -0,0 +1,129 @@
+// Mock dependencies before importing
+const sortedSets = new Map<string, string[]>();
+const hashes = new Map<string, Record<string, string>>();
+
+const hash = (key: string) => hashes.get(key) ?? {};
+const members = (key: string) => sortedSets.get(key) ?? [];
+
+// Sorted sets here only hold score 0 members, which Redis orders by value
+const mockStore = {
+    zAdd: jest.fn(async (key: string, { value }: { score: number; value: string }) => {
+        sortedSets.set(key, Array.from(new Set([...members(key), value])).sort());
+        return 1;
+    }),
+    zRemRangeByRank: jest.fn(async (key: string, start: number, stop: number) => {
+        const kept = members(key).filter((_, rank) => rank < start || rank > members(key).length + stop);
+        sortedSets.set(key, kept);
+        return members(key).length - kept.length;
+    }),
+    zRange: jest.fn(async (key: string) => members(key).slice(-1)),
+    zLexCount: jest.fn(async (key: string, min: string) =>
+        members(key).filter(member => min === '-' || member > min.slice(1)).length
+    ),
+    hGet: jest.fn(async (key: string, field: string) => hash(key)[field] ?? null),
+    hmGet: jest.fn(async (key: string, fields: string[]) => fields.map(field => hash(key)[field] ?? null)),
+    hSet: jest.fn(async (key: string, field: string, value: string) => {
+        hashes.set(key, { ...hash(key), [field]: value });
+        return 1;
+    }),
+    hDel: jest.fn(async (key: string, field: string) => {
+        const updated = { ...hash(key) };
+        delete updated[field];
+        hashes.set(key, updated);
+        return 1;
+    }),
+    hIncrBy: jest.fn(async (key: string, field: string, increment: number) => {
+        const value = Number(hash(key)[field] ?? 0) + increment;
+        hashes.set(key, { ...hash(key), [field]: String(value) });
+        return value;
+    })
+};
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { InboxService, mentionedUsers, MAX_TRACKED_UNREAD } from '@/services/inboxService';
+import { ChimeMessage } from '@/types/message';
+
+function sent(channelId: string, messageId: string, userId: string, content: string = 'hello'): ChimeMessage {
+    return { channelId, messageId, userId, content, createdAt: new Date().toISOString(), editedAt: null, metadata: {} };
+}
+
+describe('InboxService Unit Tests', () => {
+    let service: InboxService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        sortedSets.clear();
+        hashes.clear();
+        service = new InboxService(mockStore as unknown as KeyValueStore);
+    });
+
+    test('should count every message as unread in a channel never read', async () => {
+        await service.recordMessage(sent('general', '1', 'alice'));
+        await service.recordMessage(sent('general', '2', 'alice'));
+        await service.recordMessage(sent('general', '3', 'alice'));
+
+        expect(await service.getInbox('bob', ['general', 'empty'])).toEqual({
+            general: { lastReadId: null, unread: 3, mentions: 0 },
+            empty: { lastReadId: null, unread: 0, mentions: 0 }
+        });
+    });
+
+    test('should treat the author as having read their own message', async () => {
+        await service.recordMessage(sent('general', '4', 'alice'));
+
+        expect((await service.getInbox('alice', ['general'])).general).toEqual({ lastReadId: '4', unread: 0, mentions: 0 });
+    });
+
+    test('should count messages after the read position', async () => {
+        await service.recordMessage(sent('general', '2', 'alice'));
+        await service.markRead('bob', 'general', '2');
+        await service.recordMessage(sent('general', '9', 'alice'));
+        await service.recordMessage(sent('general', '12', 'alice'));
+
+        expect((await service.getInbox('bob', ['general'])).general.unread).toBe(2);
+    });
+
+    test('should stop counting unread messages at the tracking limit', async () => {
+        for (let id = 1; id <= MAX_TRACKED_UNREAD + 5; id++) {
+            await service.recordMessage(sent('general', String(id), 'alice'));
+        }
+
+        expect((await service.getInbox('bob', ['general'])).general.unread).toBe(MAX_TRACKED_UNREAD);
+        expect((await service.markRead('bob', 'general', '1000')).unread).toBe(5);
+    });
+
+    test('should only move the read position forward and never past the newest message', async () => {
+        await service.recordMessage(sent('general', '9', 'alice'));
+        await service.recordMessage(sent('general', '10', 'alice'));
+
+        expect(await service.markRead('bob', 'general', '9')).toEqual({ lastReadId: '9', unread: 1, mentions: 0 });
+        expect((await service.markRead('bob', 'general', '5')).lastReadId).toBe('9');
+        expect((await service.markRead('bob', 'general', '99')).lastReadId).toBe('10');
+    });
+
+    test('should count mentions until the channel is read to the end', async () => {
+        await service.recordMessage(sent('general', '1', 'alice', 'hey <@bob> and <@bob>'));
+        await service.recordMessage(sent('general', '2', 'alice', 'also <@bob>, not <@alice>'));
+
+        expect((await service.getInbox('bob', ['general'])).general.mentions).toBe(2);
+        expect((await service.getInbox('alice', ['general'])).general.mentions).toBe(0);
+
+        expect((await service.markRead('bob', 'general', '1')).mentions).toBe(2);
+        expect(await service.markRead('bob', 'general', '2')).toEqual({ lastReadId: '2', unread: 0, mentions: 0 });
+    });
+
+    test('should find each mentioned user once', () => {
+        expect(mentionedUsers('<@a> hi <@b> <@a> <@ broken> @c')).toEqual(['a', 'b']);
+    });
+});
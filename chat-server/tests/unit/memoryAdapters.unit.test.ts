@@ -0,0 +1,221 @@
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { MemoryKeyValueStore } from '@/adapters/memoryKeyValueStore';
+import { MemoryPubSub } from '@/adapters/memoryPubSub';
+import { MemoryMessageStore } from '@/adapters/memoryMessageStore';
+import { MemoryReactionStore } from '@/adapters/memoryReactionStore';
+import { MemoryChannelAccess } from '@/adapters/memoryChannelAccess';
+import { ChimeMessage } from '@/types/message';
+
+const message = (messageId: string, overrides: Partial<ChimeMessage> = {}): ChimeMessage => ({
+    channelId: 'general',
+    messageId,
+    userId: 'alice',
+    content: `message ${messageId}`,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    editedAt: null,
+    metadata: {},
+    ...overrides
+});
+
+describe('Memory Adapters Unit Tests', () => {
+    describe('MemoryKeyValueStore', () => {
+        let now: number;
+        let store: MemoryKeyValueStore;
+
+        beforeEach(() => {
+            now = 1000;
+            store = new MemoryKeyValueStore(() => now);
+        });
+
+        test('should honour NX and XX conditions on set', async () => {
+            await expect(store.set('key', 'first', { condition: 'XX' })).resolves.toBeNull();
+            await expect(store.set('key', 'first', { condition: 'NX' })).resolves.toBe('OK');
+            await expect(store.set('key', 'second', { condition: 'NX' })).resolves.toBeNull();
+            await expect(store.set('key', 'second', { condition: 'XX' })).resolves.toBe('OK');
+
+            await expect(store.get('key')).resolves.toBe('second');
+        });
+
+        test('should expire keys and keep the TTL when asked', async () => {
+            await store.set('key', 'value', { expiration: { type: 'EX', value: 10 } });
+            now += 5000;
+            await store.set('key', 'updated', { expiration: 'KEEPTTL' });
+            now += 5000;
+
+            await expect(store.get('key')).resolves.toBeNull();
+        });
+
+        test('should drop hashes once their last field goes', async () => {
+            await store.hSet('hash', 'a', '1');
+            await store.hIncrBy('hash', 'b', 2);
+
+            await expect(store.hmGet('hash', ['a', 'b', 'c'])).resolves.toEqual(['1', '2', null]);
+
+            await store.hDel('hash', 'a');
+            await store.hDel('hash', 'b');
+            await expect(store.pExpire('hash', 100)).resolves.toBe(0);
+        });
+
+        test('should reject commands against the wrong kind of value', async () => {
+            await store.set('key', 'value');
+
+            await expect(store.hGet('key', 'field')).rejects.toThrow('WRONGTYPE');
+        });
+
+        test('should range and count sorted set members like Redis', async () => {
+            for (const value of ['03', '01', '02', '04']) {
+                await store.zAdd('zset', { score: 0, value });
+            }
+
+            await expect(store.zRange('zset', -1, -1)).resolves.toEqual(['04']);
+            await expect(store.zLexCount('zset', '(02', '+')).resolves.toBe(2);
+            await expect(store.zLexCount('zset', '[02', '(04')).resolves.toBe(2);
+
+            await store.zRemRangeByRank('zset', 0, -3);
+            await expect(store.zRange('zset', 0, -1)).resolves.toEqual(['03', '04']);
+        });
+
+        test('should append, trim and delete stream entries', async () => {
+            const first = await store.xAdd('stream', '*', { n: '1' });
+            await store.xAdd('stream', '*', { n: '2' });
+            await store.xAdd('stream', '*', { n: '3' }, { TRIM: { strategy: 'MAXLEN', threshold: 2 } });
+
+            const entries = await store.xRange('stream', '-', '+');
+            expect(entries.map(entry => entry.message.n)).toEqual(['2', '3']);
+            expect(entries[0].id > first).toBe(true);
+
+            await store.xDel('stream', [entries[0].id]);
+            await expect(store.xRange('stream', '-', '+')).resolves.toEqual([entries[1]]);
+        });
+    });
+
+    describe('MemoryPubSub', () => {
+        test('should deliver to subscribers on a later tick until they unsubscribe', async () => {
+            const pubSub = new MemoryPubSub();
+            const listener = jest.fn();
+            await pubSub.subscribe('general', listener);
+
+            await pubSub.publish('general', 'hello');
+            expect(listener).not.toHaveBeenCalled();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(listener).toHaveBeenCalledWith('hello', 'general');
+
+            await pubSub.unsubscribe('general');
+            await pubSub.publish('general', 'again');
+            await new Promise(resolve => setImmediate(resolve));
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('MemoryMessageStore', () => {
+        let store: MemoryMessageStore;
+
+        beforeEach(async () => {
+            store = new MemoryMessageStore();
+            for (const messageId of ['3', '1', '10', '2']) {
+                await store.insert(message(messageId));
+            }
+        });
+
+        test('should page newest first before a cursor', async () => {
+            const page = await store.getPage({ channelId: 'general', limit: 2 });
+            expect(page.map(m => m.messageId)).toEqual(['10', '3']);
+
+            const older = await store.getPage({ channelId: 'general', before: '3', limit: 5 });
+            expect(older.map(m => m.messageId)).toEqual(['2', '1']);
+        });
+
+        test('should page oldest first after a cursor', async () => {
+            const page = await store.getPage({ channelId: 'general', after: '1', limit: 2 });
+
+            expect(page.map(m => m.messageId)).toEqual(['2', '3']);
+        });
+
+        test('should edit and tombstone messages in place', async () => {
+            await store.edit('general', '2', 'edited', new Date('2025-01-02T00:00:00.000Z'));
+            await expect(store.get('general', '2')).resolves.toMatchObject({ content: 'edited', editedAt: '2025-01-02T00:00:00.000Z' });
+
+            await store.tombstone('general', '2', new Date('2025-01-03T00:00:00.000Z'), 'bob');
+            await expect(store.get('general', '2')).resolves.toMatchObject({ content: '', deletedAt: '2025-01-03T00:00:00.000Z' });
+        });
+
+        test('should list replies under their parent', async () => {
+            await store.insert(message('11', { metadata: { replyTo: '1' } }));
+            await store.addReply('general', '1', '11');
+
+            const replies = await store.getReplies('general', '1', 10);
+            expect(replies.map(m => m.messageId)).toEqual(['11']);
+            await expect(store.getReplies('general', '2', 10)).resolves.toEqual([]);
+        });
+
+        test('should hand out copies', async () => {
+            const stored = await store.get('general', '1');
+            stored!.content = 'changed';
+
+            await expect(store.get('general', '1')).resolves.toMatchObject({ content: 'message 1' });
+        });
+    });
+
+    describe('MemoryReactionStore', () => {
+        test('should keep one reaction per user and emoji', async () => {
+            const store = new MemoryReactionStore();
+            await store.add('general', '1', '👍', 'alice');
+            await store.add('general', '1', '👍', 'alice');
+            await store.add('general', '1', '👍', 'bob');
+            await store.add('general', '1', '🎉', 'bob');
+            await store.remove('general', '1', '🎉', 'bob');
+
+            await expect(store.getFor('general', ['1', '2'])).resolves.toEqual({ '1': { '👍': ['alice', 'bob'] } });
+        });
+    });
+
+    describe('MemoryChannelAccess', () => {
+        test('should let anyone into channels without members', async () => {
+            const access = new MemoryChannelAccess();
+
+            await expect(access.filterAllowed('alice', ['general', 'random'])).resolves.toEqual({
+                allowed: ['general', 'random'],
+                denied: [],
+            });
+        });
+
+        test('should only let members into channels that have them', async () => {
+            const access = new MemoryChannelAccess();
+            access.allow('private', ['alice']);
+
+            await expect(access.filterAllowed('alice', ['private'])).resolves.toEqual({ allowed: ['private'], denied: [] });
+            await expect(access.filterAllowed('bob', ['general', 'private'])).resolves.toEqual({
+                allowed: ['general'],
+                denied: ['private'],
+            });
+        });
+
+        test('should keep direct channels to their participants', async () => {
+            const access = new MemoryChannelAccess();
+            access.addDirectChannel('dm-1', ['alice', 'bob']);
+
+            await expect(access.getDirectChannels('alice')).resolves.toEqual(['dm-1']);
+            await expect(access.getDirectChannels('carol')).resolves.toEqual([]);
+            await expect(access.filterAllowed('carol', ['dm-1'])).resolves.toEqual({ allowed: [], denied: ['dm-1'] });
+        });
+
+        test('should only let moderators moderate the channels they were given', async () => {
+            const access = new MemoryChannelAccess();
+            access.addModerators('general', ['alice']);
+
+            await expect(access.canModerate('general', 'alice')).resolves.toBe(true);
+            await expect(access.canModerate('random', 'alice')).resolves.toBe(false);
+            await expect(access.canModerate('general', 'bob')).resolves.toBe(false);
+        });
+    });
+});
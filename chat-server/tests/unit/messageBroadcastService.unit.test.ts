@@ -1,22 +1,10 @@
-// Mock the redis client before importing anything
-const mockRedisClient = {
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
-    publish: jest.fn().mockResolvedValue(1),
-    isReady: true,
-    on: jest.fn()
+// Mock dependencies before importing
+const mockPubSub = {
+    publish: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn().mockResolvedValue(undefined),
+    unsubscribe: jest.fn().mockResolvedValue(undefined)
 };
 
-const mockRedisClientInstance = {
-    getClient: jest.fn().mockReturnValue(mockRedisClient),
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined)
-};
-
-jest.mock('@/services/redisClient', () => ({
-    ChimeRedisClient: jest.fn().mockImplementation(() => mockRedisClientInstance)
-}));
-
 jest.mock('@/logger', () => ({
     __esModule: true,
     default: {
@@ -28,7 +16,6 @@ jest.mock('@/logger', () => ({
 }));
 
 import { MessageBroadcastService } from '@/services/messageBroadcaseService';
-import { ChimeRedisClient } from '@/services/redisClient';
 import { ChimeMessage } from '@/types/message';
 import logger from '@/logger';
 
@@ -38,9 +25,8 @@ describe('MessageBroadcastService Unit Tests', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
-        service = new MessageBroadcastService();
-        mockRedisClient.isReady = true;
-        mockRedisClient.publish.mockResolvedValue(1);
+        service = new MessageBroadcastService(mockPubSub);
+        mockPubSub.publish.mockResolvedValue(undefined);
 
         mockMessage = {
             channelId: 'test-channel',
@@ -53,65 +39,23 @@ describe('MessageBroadcastService Unit Tests', () => {
         };
     });
 
-    describe('init', () => {
-        test('should initialize Redis client successfully', async () => {
-            await service.init();
-
-            expect(mockRedisClientInstance.connect).toHaveBeenCalled();
-        });
-
-        test('should handle Redis client initialization errors', async () => {
-            const initError = new Error('Redis initialization failed');
-            mockRedisClientInstance.connect.mockRejectedValueOnce(initError);
-
-            await expect(service.init()).rejects.toThrow('Redis initialization failed');
-        });
-    });
-
     describe('publish', () => {
-        beforeEach(async () => {
-            await service.init();
-        });
-
         test('should broadcast message successfully', async () => {
             await service.publish(mockMessage);
 
-            expect(mockRedisClient.publish).toHaveBeenCalledWith(
+            expect(mockPubSub.publish).toHaveBeenCalledWith(
                 'test-channel',
                 JSON.stringify(mockMessage)
             );
             expect(logger.debug).toHaveBeenCalledWith('target channel: test-channel');
         });
 
-        test('should throw error when not initialized', async () => {
-            // Mock the uninitialized client to return null or not ready
-            const mockUninitializedRedisClientInstance = {
-                getClient: jest.fn().mockReturnValue({ isReady: false }),
-                connect: jest.fn().mockResolvedValue(undefined),
-                disconnect: jest.fn().mockResolvedValue(undefined)
-            };
-            
-            // Replace the mock for this specific test
-            (ChimeRedisClient as jest.Mock).mockImplementationOnce(() => mockUninitializedRedisClientInstance);
-            const testService = new MessageBroadcastService();
-
-            await expect(testService.publish(mockMessage))
-                .rejects.toThrow('Broadcast not initialized before call');
-        });
-
-        test('should throw error when client is not ready', async () => {
-            mockRedisClient.isReady = false;
-
-            await expect(service.publish(mockMessage))
-                .rejects.toThrow('Broadcast not initialized before call');
-        });
-
-        test('should handle Redis publish errors', async () => {
-            const publishError = new Error('Redis publish failed');
-            mockRedisClient.publish.mockRejectedValueOnce(publishError);
+        test('should handle publish errors', async () => {
+            const publishError = new Error('Publish failed');
+            mockPubSub.publish.mockRejectedValueOnce(publishError);
 
             await expect(service.publish(mockMessage))
-                .rejects.toThrow('Failed to broadcast message: Redis publish failed');
+                .rejects.toThrow('Failed to broadcast message: Publish failed');
 
             expect(logger.error).toHaveBeenCalledWith(
                 `Error broadcasting message to channel test-channel: ${publishError}`
@@ -123,7 +67,7 @@ describe('MessageBroadcastService Unit Tests', () => {
 
             await service.publish(channelMessage);
 
-            expect(mockRedisClient.publish).toHaveBeenCalledWith(
+            expect(mockPubSub.publish).toHaveBeenCalledWith(
                 'different-channel',
                 JSON.stringify(channelMessage)
             );
@@ -138,18 +82,24 @@ describe('MessageBroadcastService Unit Tests', () => {
 
             await service.publish(complexMessage);
 
-            expect(mockRedisClient.publish).toHaveBeenCalledWith(
+            expect(mockPubSub.publish).toHaveBeenCalledWith(
                 'test-channel',
                 JSON.stringify(complexMessage)
             );
         });
     });
 
-    describe('disconnect', () => {
-        test('should disconnect Redis client', async () => {
-            await service.disconnect();
+    describe('publishEvent', () => {
+        test('should publish the event envelope to the channel', async () => {
+            const event = { type: 'messageUpdated' as const, message: mockMessage };
+
+            await service.publishEvent('test-channel', event);
 
-            expect(mockRedisClientInstance.disconnect).toHaveBeenCalled();
+            expect(mockPubSub.publish).toHaveBeenCalledWith(
+                'test-channel',
+                JSON.stringify(event)
+            );
         });
     });
+
 });
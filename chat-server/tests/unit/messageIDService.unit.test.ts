@@ -1,22 +1,4 @@
 // Mock dependencies before importing
-const mockRedisClient = {
-    incr: jest.fn().mockResolvedValue(1),
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
-    on: jest.fn(),
-    isReady: true
-};
-
-const mockRedisClientInstance = {
-    getClient: jest.fn().mockReturnValue(mockRedisClient),
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined)
-};
-
-jest.mock('@/services/redisClient', () => ({
-    ChimeRedisClient: jest.fn().mockImplementation(() => mockRedisClientInstance)
-}));
-
 jest.mock('@/logger', () => ({
     __esModule: true,
     default: {
@@ -28,92 +10,121 @@ jest.mock('@/logger', () => ({
     },
 }));
 
-import { MessageIDService } from '@/services/messageIDService';
-import logger from '@/logger';
+jest.mock('@/util/Credentials', () => ({
+    loadCredentials: jest.fn().mockReturnValue({ chat: { workerId: 7 } })
+}));
+
+import { ID_EPOCH_MS, bucketOf, timestampOf } from '@chime/protocol';
+import { MessageIDService, MAX_WORKER_ID, compareMessageIds } from '@/services/messageIDService';
+import { loadCredentials } from '@/util/Credentials';
+
+const WORKER_SHIFT = 12n;
+const TIMESTAMP_SHIFT = 22n;
+
+function workerOf(messageId: string): number {
+    return Number((BigInt(messageId) >> WORKER_SHIFT) & BigInt(MAX_WORKER_ID));
+}
 
 describe('MessageIDService Unit Tests', () => {
-    let service: MessageIDService;
+    const start = Date.UTC(2026, 5, 1);
+    let clock: number;
+    const now = () => clock;
 
     beforeEach(() => {
         jest.clearAllMocks();
-        service = new MessageIDService();
+        clock = start;
     });
 
-    describe('connect', () => {
-        test('should connect to Redis successfully', async () => {
-            await service.connect();
+    describe('nextId', () => {
+        test('should generate unique, increasing IDs within one millisecond', () => {
+            const service = new MessageIDService(1, now);
+
+            const ids = Array.from({ length: 100 }, () => service.nextId());
 
-            expect(mockRedisClientInstance.connect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'connect' }, 'MessageIDService connected to Redis');
+            expect(new Set(ids).size).toBe(100);
+            expect([...ids].sort(compareMessageIds)).toEqual(ids);
+            expect(ids.every(id => timestampOf(id) === start)).toBe(true);
         });
-    });
 
-    describe('disconnect', () => {
-        test('should disconnect from Redis successfully', async () => {
-            await service.disconnect();
+        test('should order IDs by the time they were made', () => {
+            const service = new MessageIDService(1, now);
 
-            expect(mockRedisClientInstance.disconnect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'disconnect' }, 'MessageIDService disconnected from Redis');
+            const first = service.nextId();
+            clock += 1;
+            const second = service.nextId();
+            clock += 60_000;
+            const third = service.nextId();
+
+            expect(compareMessageIds(first, second)).toBeLessThan(0);
+            expect(compareMessageIds(second, third)).toBeLessThan(0);
+            expect(timestampOf(third)).toBe(start + 60_001);
         });
-    });
 
-    describe('getNextMessageId', () => {
-        test('should generate sequential message IDs for same channel', async () => {
-            mockRedisClient.incr.mockResolvedValueOnce(1);
-            mockRedisClient.incr.mockResolvedValueOnce(2);
-            mockRedisClient.incr.mockResolvedValueOnce(3);
+        test('should keep IDs from different workers apart', () => {
+            const a = new MessageIDService(1, now).nextId();
+            const b = new MessageIDService(2, now).nextId();
 
-            const channelId = 'test-channel';
+            expect(a).not.toBe(b);
+            expect(workerOf(a)).toBe(1);
+            expect(workerOf(b)).toBe(2);
+        });
 
-            const id1 = await service.getNextMessageId(channelId);
-            const id2 = await service.getNextMessageId(channelId);
-            const id3 = await service.getNextMessageId(channelId);
+        test('should keep increasing when the clock moves back', () => {
+            const service = new MessageIDService(1, now);
 
-            expect(id1).toBe(1);
-            expect(id2).toBe(2);
-            expect(id3).toBe(3);
+            const before = service.nextId();
+            clock -= 5_000;
+            const after = service.nextId();
 
-            expect(mockRedisClient.incr).toHaveBeenCalledTimes(3);
-            expect(mockRedisClient.incr).toHaveBeenCalledWith('channel:test-channel:message_counter');
+            expect(compareMessageIds(before, after)).toBeLessThan(0);
+            expect(timestampOf(after)).toBe(start);
         });
 
-        test('should generate independent counters for different channels', async () => {
-            mockRedisClient.incr.mockResolvedValueOnce(1);
-            mockRedisClient.incr.mockResolvedValueOnce(1);
+        test('should move to the next millisecond when the sequence runs out', () => {
+            const service = new MessageIDService(1, now);
+
+            const ids = Array.from({ length: 4097 }, () => service.nextId());
 
-            const id1 = await service.getNextMessageId('channel-1');
-            const id2 = await service.getNextMessageId('channel-2');
+            expect(new Set(ids).size).toBe(4097);
+            expect(timestampOf(ids[4095])).toBe(start);
+            expect(timestampOf(ids[4096])).toBe(start + 1);
+        });
 
-            expect(id1).toBe(1);
-            expect(id2).toBe(1);
+        test('should read the worker ID from the credentials when none is given', () => {
+            const messageId = new MessageIDService(undefined, now).nextId();
 
-            expect(mockRedisClient.incr).toHaveBeenCalledWith('channel:channel-1:message_counter');
-            expect(mockRedisClient.incr).toHaveBeenCalledWith('channel:channel-2:message_counter');
+            expect(loadCredentials).toHaveBeenCalled();
+            expect(workerOf(messageId)).toBe(7);
         });
+    });
+
+    test('should reject worker IDs out of range', () => {
+        expect(() => new MessageIDService(-1)).toThrow(`Worker ID must be an integer from 0 to ${MAX_WORKER_ID}`);
+        expect(() => new MessageIDService(MAX_WORKER_ID + 1)).toThrow();
+        expect(() => new MessageIDService(1.5)).toThrow();
+    });
 
-        test('should handle Redis errors gracefully', async () => {
-            const redisError = new Error('Redis connection failed');
-            mockRedisClient.incr.mockRejectedValueOnce(redisError);
+    test('should read the time back out of an ID', () => {
+        const messageId = ((BigInt(start - ID_EPOCH_MS) << TIMESTAMP_SHIFT) | 5n).toString();
 
-            await expect(service.getNextMessageId('test-channel'))
-                .rejects.toThrow('Redis connection failed');
+        expect(timestampOf(messageId)).toBe(start);
+    });
 
-            expect(logger.error).toHaveBeenCalledWith(
-                { function: 'getNextMessageId', channelId: 'test-channel', error: redisError },
-                'Failed to generate message ID'
-            );
-        });
+    test('should bucket IDs by the UTC day they were made', () => {
+        const service = new MessageIDService(1, now);
 
-        test('should log successful ID generation', async () => {
-            mockRedisClient.incr.mockResolvedValueOnce(42);
+        clock = Date.UTC(2026, 5, 1, 23, 59, 59, 999);
+        const lateInDay = service.nextId();
+        clock += 1;
+        const nextDay = service.nextId();
 
-            const messageId = await service.getNextMessageId('test-channel');
+        expect(bucketOf(lateInDay)).toBe(Date.UTC(2026, 5, 1) / 86_400_000);
+        expect(bucketOf(nextDay)).toBe(bucketOf(lateInDay) + 1);
+    });
 
-            expect(messageId).toBe(42);
-            expect(logger.debug).toHaveBeenCalledWith(
-                { function: 'getNextMessageId', channelId: 'test-channel', messageId: 42 },
-                'Generated new message ID'
-            );
-        });
+    test('should order message IDs numerically', () => {
+        expect(compareMessageIds('9', '10')).toBeLessThan(0);
+        expect(compareMessageIds('21', '12')).toBeGreaterThan(0);
+        expect(compareMessageIds('7', '7')).toBe(0);
     });
 });
@@ -0,0 +1,91 @@
+import { MAX_CONTENT_LENGTH, MAX_SUBSCRIBE_CHANNELS, parseClientMessage, parseServerMessage } from '@chime/protocol';
+
+describe('Message Schemas Unit Tests', () => {
+    test('should accept a chat message and drop unknown fields', () => {
+        const result = parseClientMessage({
+            type: 'message',
+            message: { channelId: 'general', content: 'hello', nonce: 'nonce-1', messageId: '' }
+        });
+
+        expect(result).toEqual({
+            success: true,
+            message: { type: 'message', message: { channelId: 'general', content: 'hello', nonce: 'nonce-1' } }
+        });
+    });
+
+    test('should reject content over the length limit with its path', () => {
+        const result = parseClientMessage({
+            type: 'message',
+            message: { channelId: 'general', content: 'a'.repeat(MAX_CONTENT_LENGTH + 1) }
+        });
+
+        expect(result).toEqual({
+            success: false,
+            errors: [`message.content: String must contain at most ${MAX_CONTENT_LENGTH} character(s)`]
+        });
+    });
+
+    test('should reject fields of the wrong type', () => {
+        const result = parseClientMessage({ type: 'markRead', channelId: 42, messageId: '7' });
+
+        expect(result).toEqual({ success: false, errors: ['channelId: Expected string, received number'] });
+    });
+
+    test('should reject unknown message types', () => {
+        const result = parseClientMessage({ type: 'shout', channelId: 'general' });
+
+        expect(result.success).toBe(false);
+    });
+
+    test('should reject server messages sent by a client', () => {
+        const result = parseClientMessage({ type: 'ack', nonce: 'nonce-1', channelId: 'general', messageId: '7' });
+
+        expect(result.success).toBe(false);
+    });
+
+    test('should reject history requests that page both ways', () => {
+        const result = parseClientMessage({ type: 'history', request: { channelId: 'general', before: '9', after: '3' } });
+
+        expect(result).toEqual({ success: false, errors: ['request.after: Cannot page before and after at once'] });
+    });
+
+    test('should only accept message IDs that fit a BIGINT', () => {
+        const deletion = (messageId: string) => parseClientMessage({ type: 'delete', deletion: { channelId: 'general', messageId } });
+
+        expect(deletion('9223372036854775807').success).toBe(true);
+        expect(deletion('9223372036854775808')).toEqual({ success: false, errors: ['deletion.messageId: Message ID is out of range'] });
+        expect(deletion('12345678901234567890').success).toBe(false);
+        expect(deletion('abc')).toEqual({ success: false, errors: ['deletion.messageId: Message ID must be a decimal number'] });
+    });
+
+    test('should reject history cursors that are not message IDs', () => {
+        const result = parseClientMessage({ type: 'history', request: { channelId: 'general', before: '-1' } });
+
+        expect(result).toEqual({ success: false, errors: ['request.before: Message ID must be a decimal number'] });
+    });
+
+    test('should cap how many channels a subscription may change', () => {
+        const channels = Array.from({ length: MAX_SUBSCRIBE_CHANNELS + 1 }, (_, index) => `channel-${index}`);
+
+        expect(parseClientMessage({ type: 'subscribe', channels }).success).toBe(false);
+        expect(parseClientMessage({ type: 'subscribe', channels: channels.slice(1) }).success).toBe(true);
+    });
+
+    test('should accept tombstones without content but not live messages', () => {
+        const message = {
+            channelId: 'general',
+            messageId: '7',
+            userId: 'alice',
+            content: '',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            editedAt: null,
+            metadata: {}
+        };
+
+        expect(parseServerMessage({ type: 'messageDeleted', message: { ...message, deletedAt: '2025-01-02T00:00:00.000Z' } }).success).toBe(true);
+        expect(parseServerMessage({ type: 'messageUpdated', message })).toEqual({
+            success: false,
+            errors: ['message.content: Content is required unless the message was deleted']
+        });
+    });
+});
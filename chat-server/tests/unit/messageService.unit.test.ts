@@ -1,5 +1,6 @@
-import { MessageService } from '@/services/messageService';
-import logger from '@/logger';
+import { MessageService, MAX_HISTORY_LIMIT } from '@/services/messageService';
+import { CassandraMessageStore } from '@/adapters/cassandraMessageStore';
+import { IdempotencyService } from '@/services/idempotencyService';
 
 // Mock dependencies before importing
 const mockExecute = jest.fn();
@@ -8,9 +9,13 @@ const mockClient = {
 };
 
 const mockMessageIDService = {
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
-    getNextMessageId: jest.fn().mockResolvedValue(1)
+    nextId: jest.fn().mockReturnValue('1')
+};
+
+const mockIdempotencyService = {
+    claim: jest.fn().mockResolvedValue({ status: 'claimed' }),
+    complete: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined)
 };
 
 jest.mock('@/database/cassandra', () => ({
@@ -18,6 +23,7 @@ jest.mock('@/database/cassandra', () => ({
 }));
 
 jest.mock('@/services/messageIDService', () => ({
+    ...jest.requireActual('@/services/messageIDService'),
     MessageIDService: jest.fn().mockImplementation(() => mockMessageIDService)
 }));
 
@@ -32,47 +38,37 @@ jest.mock('@/logger', () => ({
     },
 }));
 
+// Day bucket of the small IDs below: 2025-01-01, the ID epoch
+const BUCKET = 20089;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const buckets = (...values: number[]) => ({ rows: values.map(bucket => ({ bucket })) });
+
+// The first ID made on a day after the epoch
+const idOnDay = (day: number) => (BigInt(day * DAY_MS) << 22n).toString();
+
 describe('MessageService Unit Tests', () => {
     let messageService: MessageService;
 
     beforeEach(() => {
-        messageService = new MessageService();
+        messageService = new MessageService(new CassandraMessageStore(), mockIdempotencyService as unknown as IdempotencyService);
         jest.clearAllMocks();
     });
 
-    describe('connect', () => {
-        test('should connect MessageIDService', async () => {
-            await messageService.connect();
-
-            expect(mockMessageIDService.connect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'connect' }, 'MessageService connected');
-        });
-    });
-
-    describe('disconnect', () => {
-        test('should disconnect MessageIDService', async () => {
-            await messageService.disconnect();
-
-            expect(mockMessageIDService.disconnect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'disconnect' }, 'MessageService disconnected');
-        });
-    });
-
     describe('saveMessage', () => {
         test('should save message with correct parameters', async () => {
             const channelId = 'test-channel';
             const userId = 'test-user';
             const content = 'Test message';
-            const messageId = 42;
+            const messageId = '42';
 
-            mockMessageIDService.getNextMessageId.mockResolvedValueOnce(messageId);
+            mockMessageIDService.nextId.mockReturnValueOnce(messageId);
             mockExecute.mockResolvedValueOnce({ rows: [] });
 
             const result = await messageService.saveMessage(channelId, userId, content);
 
             expect(result).toEqual({
                 channelId,
-                messageId: messageId.toString(),
+                messageId,
                 userId,
                 content,
                 createdAt: expect.any(String),
@@ -81,38 +77,389 @@ describe('MessageService Unit Tests', () => {
             });
 
             // Verify MessageIDService was called
-            expect(mockMessageIDService.getNextMessageId).toHaveBeenCalledWith(channelId);
+            expect(mockMessageIDService.nextId).toHaveBeenCalled();
 
-            // Verify database insert
-            expect(mockExecute).toHaveBeenCalledWith(
-                expect.stringContaining('INSERT INTO messages'),
-                [channelId, messageId.toString(), userId, content, expect.any(Date), null, {}],
+            // Verify database insert, listing the message's day first
+            expect(mockExecute).toHaveBeenNthCalledWith(
+                1,
+                'INSERT INTO channel_buckets (channel_id, bucket) VALUES (?, ?)',
+                [channelId, BUCKET],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenNthCalledWith(
+                2,
+                expect.stringContaining('INSERT INTO messages_by_bucket'),
+                [channelId, BUCKET, messageId, userId, content, expect.any(Date), null, {}],
                 { prepare: true }
             );
         });
 
-        test('should handle MessageIDService errors gracefully', async () => {
-            const channelId = 'test-channel';
-            const userId = 'test-user';
-            const content = 'Test message';
+        test('should record replies in metadata and the thread index', async () => {
+            mockMessageIDService.nextId.mockReturnValueOnce('43');
+            mockExecute.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
 
-            mockMessageIDService.getNextMessageId.mockRejectedValueOnce(new Error('Redis connection failed'));
+            const result = await messageService.saveMessage('test-channel', 'test-user', 'Agreed', '42');
 
-            await expect(messageService.saveMessage(channelId, userId, content))
-                .rejects.toThrow('Redis connection failed');
+            expect(result.metadata).toEqual({ replyTo: '42' });
+            expect(mockExecute).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO messages_by_bucket'),
+                ['test-channel', BUCKET, '43', 'test-user', 'Agreed', expect.any(Date), null, { replyTo: '42' }],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'INSERT INTO thread_replies (channel_id, parent_id, reply_id) VALUES (?, ?, ?)',
+                ['test-channel', '42', '43'],
+                { prepare: true }
+            );
         });
 
         test('should handle database errors gracefully', async () => {
             const channelId = 'test-channel';
             const userId = 'test-user';
             const content = 'Test message';
-            const messageId = 42;
-
-            mockMessageIDService.getNextMessageId.mockResolvedValueOnce(messageId);
             mockExecute.mockRejectedValueOnce(new Error('Database connection failed'));
 
             await expect(messageService.saveMessage(channelId, userId, content))
                 .rejects.toThrow('Database connection failed');
         });
     });
+
+    describe('saveMessageOnce', () => {
+        test('should save and remember the message under its key', async () => {
+            mockMessageIDService.nextId.mockReturnValueOnce('42');
+            mockExecute.mockResolvedValueOnce({ rows: [] });
+
+            const result = await messageService.saveMessageOnce('test-channel', 'test-user', 'Hello', 'nonce-1');
+
+            expect(result.duplicate).toBe(false);
+            expect(result.message.messageId).toBe('42');
+            expect(mockIdempotencyService.claim).toHaveBeenCalledWith('test-channel', 'test-user', 'nonce-1');
+            expect(mockIdempotencyService.complete).toHaveBeenCalledWith('test-channel', 'test-user', 'nonce-1', '42');
+        });
+
+        test('should return the original message on a repeat without saving', async () => {
+            mockIdempotencyService.claim.mockResolvedValueOnce({ status: 'saved', messageId: '42' });
+            mockExecute.mockResolvedValueOnce({
+                first: () => ({
+                    channel_id: 'test-channel',
+                    message_id: '42',
+                    user_id: 'test-user',
+                    content: 'Hello',
+                    created_at: new Date('2024-01-01T00:00:00Z'),
+                    edited_at: null,
+                    metadata: {}
+                })
+            });
+
+            const result = await messageService.saveMessageOnce('test-channel', 'test-user', 'Hello', 'nonce-1');
+
+            expect(result.duplicate).toBe(true);
+            expect(result.message.messageId).toBe('42');
+            expect(mockMessageIDService.nextId).not.toHaveBeenCalled();
+        });
+
+        test('should reject a repeat while the first attempt is saving', async () => {
+            mockIdempotencyService.claim.mockResolvedValueOnce({ status: 'inFlight' });
+
+            await expect(messageService.saveMessageOnce('test-channel', 'test-user', 'Hello', 'nonce-1'))
+                .rejects.toThrow('Message is already being saved');
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+
+        test('should release the key when the save fails', async () => {
+            mockMessageIDService.nextId.mockReturnValueOnce('42');
+            mockExecute.mockRejectedValueOnce(new Error('Database connection failed'));
+
+            await expect(messageService.saveMessageOnce('test-channel', 'test-user', 'Hello', 'nonce-1'))
+                .rejects.toThrow('Database connection failed');
+            expect(mockIdempotencyService.release).toHaveBeenCalledWith('test-channel', 'test-user', 'nonce-1');
+            expect(mockIdempotencyService.complete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getMessages', () => {
+        const row = (messageId: string) => ({
+            channel_id: 'test-channel',
+            message_id: messageId,
+            user_id: 'test-user',
+            content: `Message ${messageId}`,
+            created_at: new Date('2024-01-01T00:00:00Z'),
+            edited_at: null,
+            metadata: {}
+        });
+
+        test('should return the latest page oldest first', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('3'), row('2'), row('1')] });
+
+            const page = await messageService.getMessages({ channelId: 'test-channel', limit: 5 });
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ?',
+                ['test-channel'],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? ORDER BY message_id DESC LIMIT ?',
+                ['test-channel', BUCKET, 6],
+                { prepare: true }
+            );
+            expect(page.hasMore).toBe(false);
+            expect(page.messages.map(m => m.messageId)).toEqual(['1', '2', '3']);
+            expect(page.messages[0]).toEqual({
+                channelId: 'test-channel',
+                messageId: '1',
+                userId: 'test-user',
+                content: 'Message 1',
+                createdAt: '2024-01-01T00:00:00.000Z',
+                editedAt: null,
+                deletedAt: null,
+                metadata: {}
+            });
+        });
+
+        test('should page backwards from a before cursor and report hasMore', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('4'), row('3'), row('2')] });
+
+            const page = await messageService.getMessages({ channelId: 'test-channel', before: '5', limit: 2 });
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ? AND bucket <= ?',
+                ['test-channel', BUCKET],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id < ? ORDER BY message_id DESC LIMIT ?',
+                ['test-channel', BUCKET, '5', 3],
+                { prepare: true }
+            );
+            expect(page.hasMore).toBe(true);
+            expect(page.messages.map(m => m.messageId)).toEqual(['3', '4']);
+        });
+
+        test('should page forwards from an after cursor', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET))
+                .mockResolvedValueOnce({ rows: [row('6'), row('7')] });
+
+            const page = await messageService.getMessages({ channelId: 'test-channel', after: '5', limit: 2 });
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT bucket FROM channel_buckets WHERE channel_id = ? AND bucket >= ? ORDER BY bucket ASC',
+                ['test-channel', BUCKET],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id > ? ORDER BY message_id ASC LIMIT ?',
+                ['test-channel', BUCKET, '5', 3],
+                { prepare: true }
+            );
+            expect(page.hasMore).toBe(false);
+            expect(page.messages.map(m => m.messageId)).toEqual(['6', '7']);
+        });
+
+        test('should walk back through day buckets until the page is full', async () => {
+            mockExecute
+                .mockResolvedValueOnce(buckets(BUCKET + 2, BUCKET + 1, BUCKET))
+                .mockResolvedValueOnce({ rows: [row('9')] })
+                .mockResolvedValueOnce({ rows: [row('8'), row('7')] });
+
+            const page = await messageService.getMessages({ channelId: 'test-channel', limit: 2 });
+
+            expect(mockExecute).toHaveBeenCalledTimes(3);
+            expect(mockExecute).toHaveBeenNthCalledWith(2, expect.any(String), ['test-channel', BUCKET + 2, 3], { prepare: true });
+            expect(mockExecute).toHaveBeenNthCalledWith(3, expect.any(String), ['test-channel', BUCKET + 1, 2], { prepare: true });
+            expect(page.hasMore).toBe(true);
+            expect(page.messages.map(m => m.messageId)).toEqual(['8', '9']);
+        });
+
+        test('should cap the page size', async () => {
+            mockExecute.mockResolvedValueOnce(buckets(BUCKET)).mockResolvedValueOnce({ rows: [] });
+
+            await messageService.getMessages({ channelId: 'test-channel', limit: 10000 });
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                expect.any(String),
+                ['test-channel', BUCKET, MAX_HISTORY_LIMIT + 1],
+                { prepare: true }
+            );
+        });
+    });
+
+    describe('getMessage', () => {
+        test('should return the message when it exists', async () => {
+            mockExecute.mockResolvedValueOnce({
+                first: () => ({
+                    channel_id: 'test-channel',
+                    message_id: '7',
+                    user_id: 'test-user',
+                    content: 'Hello',
+                    created_at: new Date('2024-01-01T00:00:00Z'),
+                    edited_at: null,
+                    metadata: {}
+                })
+            });
+
+            const message = await messageService.getMessage('test-channel', '7');
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+                ['test-channel', BUCKET, '7'],
+                { prepare: true }
+            );
+            expect(message?.content).toBe('Hello');
+        });
+
+        test('should blank the content of tombstoned messages', async () => {
+            mockExecute.mockResolvedValueOnce({
+                first: () => ({
+                    channel_id: 'test-channel',
+                    message_id: '7',
+                    user_id: 'test-user',
+                    content: 'Hello',
+                    created_at: new Date('2024-01-01T00:00:00Z'),
+                    edited_at: null,
+                    deleted_at: new Date('2024-01-02T00:00:00Z'),
+                    metadata: {}
+                })
+            });
+
+            const message = await messageService.getMessage('test-channel', '7');
+
+            expect(message?.content).toBe('');
+            expect(message?.deletedAt).toBe('2024-01-02T00:00:00.000Z');
+        });
+
+        test('should return null when the message does not exist', async () => {
+            mockExecute.mockResolvedValueOnce({ first: () => null });
+
+            expect(await messageService.getMessage('test-channel', '404')).toBeNull();
+        });
+    });
+
+    describe('getReplies', () => {
+        const reply = (messageId: string, createdAt: string) => ({
+            channel_id: 'test-channel',
+            message_id: messageId,
+            user_id: 'test-user',
+            content: `Reply ${messageId}`,
+            created_at: new Date(createdAt),
+            edited_at: null,
+            metadata: { replyTo: '7' }
+        });
+
+        test('should return the replies oldest first', async () => {
+            mockExecute
+                .mockResolvedValueOnce({ rows: [{ reply_id: '10' }, { reply_id: '9' }] })
+                .mockResolvedValueOnce({
+                    rows: [reply('10', '2024-01-01T00:02:00Z'), reply('9', '2024-01-01T00:01:00Z')]
+                });
+
+            const replies = await messageService.getReplies('test-channel', '7');
+
+            expect(mockExecute).toHaveBeenNthCalledWith(
+                1,
+                'SELECT reply_id FROM thread_replies WHERE channel_id = ? AND parent_id = ? LIMIT ?',
+                ['test-channel', '7', MAX_HISTORY_LIMIT],
+                { prepare: true }
+            );
+            expect(mockExecute).toHaveBeenNthCalledWith(
+                2,
+                'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ? AND message_id IN ?',
+                ['test-channel', BUCKET, ['10', '9']],
+                { prepare: true }
+            );
+            expect(replies.map(m => m.messageId)).toEqual(['9', '10']);
+        });
+
+        test('should read replies from each day they were sent', async () => {
+            const [earlier, later] = [idOnDay(30), idOnDay(31)];
+            mockExecute
+                .mockResolvedValueOnce({ rows: [{ reply_id: later }, { reply_id: earlier }] })
+                .mockResolvedValueOnce({ rows: [reply(later, '2025-02-01T00:00:00Z')] })
+                .mockResolvedValueOnce({ rows: [reply(earlier, '2025-01-31T00:00:00Z')] });
+
+            const replies = await messageService.getReplies('test-channel', '7');
+
+            expect(mockExecute).toHaveBeenCalledWith(expect.any(String), ['test-channel', BUCKET + 31, [later]], { prepare: true });
+            expect(mockExecute).toHaveBeenCalledWith(expect.any(String), ['test-channel', BUCKET + 30, [earlier]], { prepare: true });
+            expect(replies.map(m => m.messageId)).toEqual([earlier, later]);
+        });
+
+        test('should skip the message lookup for messages without replies', async () => {
+            mockExecute.mockResolvedValueOnce({ rows: [] });
+
+            expect(await messageService.getReplies('test-channel', '7')).toEqual([]);
+            expect(mockExecute).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('editMessage', () => {
+        const original = {
+            channelId: 'test-channel',
+            messageId: '7',
+            userId: 'test-user',
+            content: 'Hello',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            editedAt: null,
+            metadata: {}
+        };
+
+        test('should update the content and stamp editedAt', async () => {
+            mockExecute.mockResolvedValueOnce({});
+
+            const edited = await messageService.editMessage(original, 'Hello, edited');
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'UPDATE messages_by_bucket SET content = ?, edited_at = ? WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+                ['Hello, edited', expect.any(Date), 'test-channel', BUCKET, '7'],
+                { prepare: true }
+            );
+            expect(edited.content).toBe('Hello, edited');
+            expect(edited.editedAt).not.toBeNull();
+            expect(edited.createdAt).toBe(original.createdAt);
+        });
+
+        test('should rethrow database errors', async () => {
+            mockExecute.mockRejectedValueOnce(new Error('Cassandra down'));
+
+            await expect(messageService.editMessage(original, 'Hello, edited')).rejects.toThrow('Cassandra down');
+        });
+    });
+
+    describe('deleteMessage', () => {
+        const original = {
+            channelId: 'test-channel',
+            messageId: '7',
+            userId: 'test-user',
+            content: 'Hello',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            editedAt: null,
+            metadata: {}
+        };
+
+        test('should tombstone the row and keep its ID', async () => {
+            mockExecute.mockResolvedValueOnce({});
+
+            const tombstone = await messageService.deleteMessage(original, 'mod-user');
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'UPDATE messages_by_bucket SET content = ?, deleted_at = ?, deleted_by = ? WHERE channel_id = ? AND bucket = ? AND message_id = ?',
+                ['', expect.any(Date), 'mod-user', 'test-channel', BUCKET, '7'],
+                { prepare: true }
+            );
+            expect(tombstone.messageId).toBe('7');
+            expect(tombstone.content).toBe('');
+            expect(tombstone.deletedAt).not.toBeNull();
+        });
+
+        test('should rethrow database errors', async () => {
+            mockExecute.mockRejectedValueOnce(new Error('Cassandra down'));
+
+            await expect(messageService.deleteMessage(original, 'test-user')).rejects.toThrow('Cassandra down');
+        });
+    });
 });
@@ -1,23 +1,10 @@
 // Mock dependencies before importing
-const mockRedisClient = {
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
+const mockPubSub = {
+    publish: jest.fn().mockResolvedValue(undefined),
     subscribe: jest.fn().mockResolvedValue(undefined),
-    unsubscribe: jest.fn().mockResolvedValue(undefined),
-    on: jest.fn(),
-    isReady: true
+    unsubscribe: jest.fn().mockResolvedValue(undefined)
 };
 
-const mockRedisClientInstance = {
-    getClient: jest.fn().mockReturnValue(mockRedisClient),
-    connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined)
-};
-
-jest.mock('@/services/redisClient', () => ({
-    ChimeRedisClient: jest.fn().mockImplementation(() => mockRedisClientInstance)
-}));
-
 jest.mock('@/logger', () => ({
     __esModule: true,
     default: {
@@ -45,7 +32,7 @@ describe('MessageSubscriberService Unit Tests', () => {
         jest.clearAllMocks();
         channelManager = new ChannelManager();
         userConnectionManager = new UserConnectionManager();
-        service = new MessageSubscriberService(channelManager, userConnectionManager);
+        service = new MessageSubscriberService(channelManager, userConnectionManager, mockPubSub);
 
         mockMessage = {
             channelId: 'test-channel',
@@ -59,34 +46,27 @@ describe('MessageSubscriberService Unit Tests', () => {
     });
 
     describe('connect', () => {
-        test('should connect to Redis successfully', async () => {
+        test('should start accepting subscriptions', async () => {
             await service.connect();
 
-            expect(mockRedisClientInstance.connect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'connect' }, 'MessageSubscriberService connected to Redis');
-        });
-
-        test('should handle Redis connection errors', async () => {
-            const connectionError = new Error('Redis connection failed');
-            mockRedisClientInstance.connect.mockRejectedValueOnce(connectionError);
-
-            await expect(service.connect()).rejects.toThrow('Redis connection failed');
+            expect(logger.info).toHaveBeenCalledWith({ function: 'connect' }, 'MessageSubscriberService connected');
         });
     });
 
     describe('disconnect', () => {
-        test('should disconnect from Redis when connected', async () => {
+        test('should leave its channels when connected', async () => {
             await service.connect();
+            await service.subscribeTo('test-channel');
             await service.disconnect();
 
-            expect(mockRedisClientInstance.disconnect).toHaveBeenCalled();
-            expect(logger.info).toHaveBeenCalledWith({ function: 'disconnect' }, 'MessageSubscriberService disconnected from Redis');
+            expect(mockPubSub.unsubscribe).toHaveBeenCalledWith('test-channel');
+            expect(logger.info).toHaveBeenCalledWith({ function: 'disconnect' }, 'MessageSubscriberService disconnected');
         });
 
-        test('should not disconnect when not connected', async () => {
+        test('should do nothing when not connected', async () => {
             await service.disconnect();
 
-            expect(mockRedisClientInstance.disconnect).not.toHaveBeenCalled();
+            expect(mockPubSub.unsubscribe).not.toHaveBeenCalled();
         });
     });
 
@@ -95,8 +75,8 @@ describe('MessageSubscriberService Unit Tests', () => {
             await service.connect();
             await service.subscribeTo('test-channel');
 
-            expect(mockRedisClient.subscribe).toHaveBeenCalledWith('test-channel', expect.any(Function));
-            expect(logger.debug).toHaveBeenCalledWith({ function: 'subscribeTo', channelId: 'test-channel' }, 'Subscribed to channel');
+            expect(mockPubSub.subscribe).toHaveBeenCalledWith('test-channel', expect.any(Function));
+            expect(logger.info).toHaveBeenCalledWith({ function: 'subscribeTo', channelId: 'test-channel', totalSubscriptions: 1 }, 'Subscribed to channel');
         });
 
         test('should throw error when not connected', async () => {
@@ -108,10 +88,18 @@ describe('MessageSubscriberService Unit Tests', () => {
     describe('unsubscribeFrom', () => {
         test('should unsubscribe from channel when connected', async () => {
             await service.connect();
+            await service.subscribeTo('test-channel');
             await service.unsubscribeFrom('test-channel');
 
-            expect(mockRedisClient.unsubscribe).toHaveBeenCalledWith('test-channel');
-            expect(logger.debug).toHaveBeenCalledWith({ function: 'unsubscribeFrom', channelId: 'test-channel' }, 'Unsubscribed from channel');
+            expect(mockPubSub.unsubscribe).toHaveBeenCalledWith('test-channel');
+            expect(logger.info).toHaveBeenCalledWith({ function: 'unsubscribeFrom', channelId: 'test-channel', remainingSubscriptions: 0 }, 'Unsubscribed from channel');
+        });
+
+        test('should skip channels it is not subscribed to', async () => {
+            await service.connect();
+            await service.unsubscribeFrom('test-channel');
+
+            expect(mockPubSub.unsubscribe).not.toHaveBeenCalled();
         });
 
         test('should throw error when not connected', async () => {
@@ -147,7 +135,7 @@ describe('MessageSubscriberService Unit Tests', () => {
             await service.subscribeTo('test-channel');
 
             // Simulate receiving a message from Redis via subscribe callback
-            const subscribeCallback = mockRedisClient.subscribe.mock.calls[0][1];
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
             subscribeCallback(JSON.stringify(mockMessage), 'test-channel');
 
             expect(handler).toHaveBeenCalledWith(mockMessage);
@@ -163,7 +151,7 @@ describe('MessageSubscriberService Unit Tests', () => {
             await service.subscribeTo('test-channel');
 
             // Simulate receiving a message from Redis via subscribe callback
-            const subscribeCallback = mockRedisClient.subscribe.mock.calls[0][1];
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
             subscribeCallback(JSON.stringify(mockMessage), 'test-channel');
 
             expect(sendToUserSpy).toHaveBeenCalledWith('user-1', mockMessage);
@@ -175,7 +163,7 @@ describe('MessageSubscriberService Unit Tests', () => {
             await service.subscribeTo('test-channel');
 
             // Simulate receiving malformed message from Redis via subscribe callback
-            const subscribeCallback = mockRedisClient.subscribe.mock.calls[0][1];
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
             subscribeCallback('invalid json', 'test-channel');
 
             expect(logger.error).toHaveBeenCalledWith(
@@ -194,7 +182,7 @@ describe('MessageSubscriberService Unit Tests', () => {
             await service.subscribeTo('test-channel');
 
             // Simulate receiving a message from Redis via subscribe callback
-            const subscribeCallback = mockRedisClient.subscribe.mock.calls[0][1];
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
             subscribeCallback(JSON.stringify(mockMessage), 'test-channel');
 
             expect(logger.error).toHaveBeenCalledWith(
@@ -204,6 +192,44 @@ describe('MessageSubscriberService Unit Tests', () => {
         });
     });
 
+    describe('event handling', () => {
+        test('should forward typed events to every user in the channel', async () => {
+            channelManager.addUserToChannel('test-channel', 'user-1');
+            channelManager.addUserToChannel('test-channel', 'user-2');
+            const sendToUserSpy = jest.spyOn(userConnectionManager, 'sendToUser').mockReturnValue(true);
+            const handler = jest.fn();
+
+            await service.connect();
+            service.onChannelMessage('test-channel', handler);
+            await service.subscribeTo('test-channel');
+
+            const event = { type: 'messageUpdated', message: { ...mockMessage, editedAt: '2024-01-02T00:00:00.000Z' } };
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
+            subscribeCallback(JSON.stringify(event), 'test-channel');
+
+            expect(sendToUserSpy).toHaveBeenCalledWith('user-1', JSON.stringify(event), event.type);
+            expect(sendToUserSpy).toHaveBeenCalledWith('user-2', JSON.stringify(event), event.type);
+            // Custom handlers only see new messages
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        test('should not echo typing notices back to the typist', async () => {
+            channelManager.addUserToChannel('test-channel', 'user-1');
+            channelManager.addUserToChannel('test-channel', 'user-2');
+            const sendToUserSpy = jest.spyOn(userConnectionManager, 'sendToUser').mockReturnValue(true);
+
+            await service.connect();
+            await service.subscribeTo('test-channel');
+
+            const event = { type: 'userTyping', channelId: 'test-channel', userId: 'user-1', expiresInMs: 5000 };
+            const subscribeCallback = mockPubSub.subscribe.mock.calls[0][1];
+            subscribeCallback(JSON.stringify(event), 'test-channel');
+
+            expect(sendToUserSpy).toHaveBeenCalledTimes(1);
+            expect(sendToUserSpy).toHaveBeenCalledWith('user-2', JSON.stringify(event), event.type);
+        });
+    });
+
     describe('sendToUser', () => {
         test('should send message to user via UserConnectionManager', () => {
             const sendToUserSpy = jest.spyOn(userConnectionManager, 'sendToUser').mockReturnValue(true);
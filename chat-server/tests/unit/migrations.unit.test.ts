@@ -0,0 +1,136 @@
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Client } from 'cassandra-driver';
+import { loadMigrations, parseStatements, runMigrations, Migration } from '@/database/migrations';
+
+describe('Cassandra Migrations Unit Tests', () => {
+    describe('parseStatements', () => {
+        test('should split statements and drop comments', () => {
+            const cql = [
+                '-- first table',
+                'CREATE TABLE IF NOT EXISTS a (',
+                '  id TEXT PRIMARY KEY',
+                ');',
+                '// second table',
+                'CREATE TABLE IF NOT EXISTS b (id TEXT PRIMARY KEY);',
+                ''
+            ].join('\n');
+
+            expect(parseStatements(cql)).toEqual([
+                'CREATE TABLE IF NOT EXISTS a (\n  id TEXT PRIMARY KEY\n)',
+                'CREATE TABLE IF NOT EXISTS b (id TEXT PRIMARY KEY)'
+            ]);
+        });
+    });
+
+    describe('loadMigrations', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        test('should load migrations in version order', () => {
+            writeFileSync(path.join(dir, '010_add_pins.cql'), 'CREATE TABLE IF NOT EXISTS pins (id TEXT PRIMARY KEY);');
+            writeFileSync(path.join(dir, '002_add_drafts.cql'), 'CREATE TABLE IF NOT EXISTS drafts (id TEXT PRIMARY KEY);');
+
+            expect(loadMigrations(dir).map(migration => [migration.version, migration.name])).toEqual([
+                [2, 'add_drafts'],
+                [10, 'add_pins']
+            ]);
+        });
+
+        test('should reject badly named and duplicate migrations', () => {
+            writeFileSync(path.join(dir, 'add_pins.cql'), '');
+            expect(() => loadMigrations(dir)).toThrow('Migration file name must look like 001_description.cql: add_pins.cql');
+
+            rmSync(path.join(dir, 'add_pins.cql'));
+            writeFileSync(path.join(dir, '002_add_pins.cql'), '');
+            writeFileSync(path.join(dir, '02_add_drafts.cql'), '');
+            expect(() => loadMigrations(dir)).toThrow('Duplicate migration version 2');
+        });
+
+        test('should load the shared migrations', () => {
+            const [initial] = loadMigrations();
+
+            expect(initial.version).toBe(1);
+            expect(initial.statements.some(statement => statement.includes('CREATE TABLE IF NOT EXISTS messages'))).toBe(true);
+        });
+    });
+
+    describe('runMigrations', () => {
+        const migrations: Migration[] = [
+            { version: 1, name: 'initial_schema', statements: ['CREATE TABLE one', 'CREATE TABLE two'] },
+            { version: 2, name: 'add_pins', statements: ['CREATE TABLE pins'] }
+        ];
+
+        function clientWithApplied(versions: number[]) {
+            const execute = jest.fn(async (query: string) => ({
+                rows: query.startsWith('SELECT version') ? versions.map(version => ({ version })) : []
+            }));
+            return { client: { execute } as unknown as Client, execute };
+        }
+
+        test('should apply pending migrations in order and record them', async () => {
+            const { client, execute } = clientWithApplied([1]);
+
+            await expect(runMigrations(client, migrations, {})).resolves.toEqual([2]);
+
+            const queries = execute.mock.calls.map(([query]) => query);
+            expect(queries).not.toContain('CREATE TABLE one');
+            expect(queries.slice(-2)).toEqual([
+                'CREATE TABLE pins',
+                'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?) IF NOT EXISTS'
+            ]);
+        });
+
+        test('should do nothing when the schema is up to date', async () => {
+            const { client, execute } = clientWithApplied([1, 2]);
+
+            await expect(runMigrations(client, migrations, {})).resolves.toEqual([]);
+            expect(execute).toHaveBeenCalledTimes(2); // Tracking table and applied versions
+        });
+
+        test('should run the data step of a migration before recording it', async () => {
+            const { client, execute } = clientWithApplied([1]);
+            const copyPins = jest.fn(async () => {
+                await client.execute('INSERT INTO pins SELECT');
+            });
+
+            await runMigrations(client, migrations, { 2: copyPins });
+
+            expect(copyPins).toHaveBeenCalledWith(client);
+            const queries = execute.mock.calls.map(([query]) => query);
+            expect(queries.slice(-3, -1)).toEqual(['CREATE TABLE pins', 'INSERT INTO pins SELECT']);
+        });
+
+        test('should stop at a failed migration without recording it', async () => {
+            const { client, execute } = clientWithApplied([]);
+            execute.mockImplementation(async (query: string) => {
+                if (query === 'CREATE TABLE two') throw new Error('Schema disagreement');
+                return { rows: [] };
+            });
+
+            await expect(runMigrations(client, migrations, {})).rejects.toThrow('Schema disagreement');
+
+            const queries = execute.mock.calls.map(([query]) => query);
+            expect(queries.some(query => query.startsWith('INSERT INTO schema_migrations'))).toBe(false);
+            expect(queries).not.toContain('CREATE TABLE pins');
+        });
+    });
+});
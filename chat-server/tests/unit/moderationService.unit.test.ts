@@ -0,0 +1,56 @@
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { ModerationService } from '@/services/moderationService';
+import { MemoryChannelAccess } from '@/adapters/memoryChannelAccess';
+
+describe('ModerationService Unit Tests', () => {
+    let channelAccess: MemoryChannelAccess;
+    let moderationService: ModerationService;
+
+    beforeEach(() => {
+        channelAccess = new MemoryChannelAccess();
+        channelAccess.addModerators('general', ['mod-1']);
+        moderationService = new ModerationService(channelAccess);
+    });
+
+    describe('canDelete', () => {
+        test('should let authors delete their own messages', async () => {
+            await expect(moderationService.canDelete('general', 'author-1', 'author-1')).resolves.toBe(true);
+        });
+
+        test('should let moderators delete anyone\'s messages', async () => {
+            await expect(moderationService.canDelete('general', 'mod-1', 'author-1')).resolves.toBe(true);
+        });
+
+        test('should refuse everyone else', async () => {
+            await expect(moderationService.canDelete('general', 'user-2', 'author-1')).resolves.toBe(false);
+        });
+
+        test('should keep moderators to the channels they moderate', async () => {
+            await expect(moderationService.canDelete('random', 'mod-1', 'author-1')).resolves.toBe(false);
+        });
+
+        test('should not ask about authors deleting their own messages', async () => {
+            const canModerate = jest.spyOn(channelAccess, 'canModerate');
+
+            await moderationService.canDelete('general', 'author-1', 'author-1');
+            expect(canModerate).not.toHaveBeenCalled();
+        });
+    });
+
+    test('should ask the channel access adapter per channel', async () => {
+        const canModerate = jest.spyOn(channelAccess, 'canModerate');
+
+        await expect(moderationService.isModerator('general', 'mod-1')).resolves.toBe(true);
+        expect(canModerate).toHaveBeenCalledWith('general', 'mod-1');
+    });
+});
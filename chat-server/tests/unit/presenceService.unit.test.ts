@@ -0,0 +1,174 @@
+// Mock dependencies before importing
+const hashes = new Map<string, Record<string, string>>();
+
+const mockStore = {
+    hSet: jest.fn(async (key: string, field: string, value: string) => {
+        hashes.set(key, { ...(hashes.get(key) ?? {}), [field]: value });
+        return 1;
+    }),
+    hDel: jest.fn(async (key: string, field: string) => {
+        const hash = { ...(hashes.get(key) ?? {}) };
+        delete hash[field];
+        hashes.set(key, hash);
+        return 1;
+    }),
+    hGetAll: jest.fn(async (key: string) => ({ ...(hashes.get(key) ?? {}) })),
+    pExpire: jest.fn().mockResolvedValue(1)
+};
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        warn: jest.fn(),
+    },
+}));
+
+import { KeyValueStore } from '@/adapters/keyValueStore';
+import { MemoryKeyValueStore } from '@/adapters/memoryKeyValueStore';
+import { PresenceService, PRESENCE_TTL_MS } from '@/services/presenceService';
+
+describe('PresenceService Unit Tests', () => {
+    let service: PresenceService;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        hashes.clear();
+        service = new PresenceService(mockStore as unknown as KeyValueStore);
+        await service.connect();
+    });
+
+    afterEach(async () => {
+        await service.disconnect();
+    });
+
+    test('should report a connected user as online', async () => {
+        const change = await service.setStatus('user-1', 'conn-1', 'online');
+
+        expect(change).toEqual({ userId: 'user-1', previous: 'offline', status: 'online' });
+        expect(mockStore.pExpire).toHaveBeenCalledWith('presence:user-1', PRESENCE_TTL_MS);
+        expect(await service.getStatus('user-1')).toBe('online');
+    });
+
+    test('should return null when the overall status does not change', async () => {
+        await service.setStatus('user-1', 'conn-1', 'online');
+
+        expect(await service.setStatus('user-1', 'conn-2', 'online')).toBeNull();
+    });
+
+    test('should keep a user online while any connection is active', async () => {
+        await service.setStatus('user-1', 'conn-1', 'online');
+        await service.setStatus('user-1', 'conn-2', 'online');
+
+        expect(await service.setStatus('user-1', 'conn-1', 'idle')).toBeNull();
+        expect(await service.setStatus('user-1', 'conn-2', 'idle'))
+            .toEqual({ userId: 'user-1', previous: 'online', status: 'idle' });
+    });
+
+    test('should go offline when the last connection closes', async () => {
+        await service.setStatus('user-1', 'conn-1', 'online');
+        await service.setStatus('user-1', 'conn-2', 'online');
+
+        expect(await service.clearStatus('user-1', 'conn-1')).toBeNull();
+        expect(await service.clearStatus('user-1', 'conn-2'))
+            .toEqual({ userId: 'user-1', previous: 'online', status: 'offline' });
+    });
+
+    test('should count entries from other instances', async () => {
+        hashes.set('presence:user-2', { 'other-instance': `idle:${Date.now() + PRESENCE_TTL_MS}` });
+
+        expect(await service.getStatus('user-2')).toBe('idle');
+        expect(await service.setStatus('user-2', 'conn-1', 'online'))
+            .toEqual({ userId: 'user-2', previous: 'idle', status: 'online' });
+    });
+
+    test('should ignore entries whose instance stopped refreshing them', async () => {
+        hashes.set('presence:user-2', { 'dead-instance': `online:${Date.now() - 1}` });
+
+        expect(await service.getStatus('user-2')).toBe('offline');
+    });
+
+    test('should look up several users at once', async () => {
+        await service.setStatus('user-1', 'conn-1', 'online');
+
+        expect(await service.getStatuses(['user-1', 'user-2', 'user-1']))
+            .toEqual({ 'user-1': 'online', 'user-2': 'offline' });
+    });
+
+    test('should extend local entries on refresh', async () => {
+        await service.setStatus('user-1', 'conn-1', 'idle');
+        mockStore.hSet.mockClear();
+
+        await service.refresh();
+
+        expect(mockStore.hSet).toHaveBeenCalledWith('presence:user-1', expect.any(String), expect.stringMatching(/^idle:\d+$/));
+    });
+
+    test('should remove its entries on disconnect', async () => {
+        await service.setStatus('user-1', 'conn-1', 'online');
+
+        await service.disconnect();
+
+        expect(hashes.get('presence:user-1')).toEqual({});
+    });
+
+    describe('sweep', () => {
+        // Two instances sharing one store; `dead` never refreshes its entries
+        let store: MemoryKeyValueStore;
+        let dead: PresenceService;
+        let alive: PresenceService;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            store = new MemoryKeyValueStore();
+            dead = new PresenceService(store, () => ['general', 'random']);
+            alive = new PresenceService(store, () => ['general']);
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        test('should report users whose instance died once their entries lapse', async () => {
+            await dead.setStatus('user-1', 'conn-1', 'online');
+
+            await expect(alive.sweep()).resolves.toEqual([]);
+
+            jest.advanceTimersByTime(PRESENCE_TTL_MS + 1);
+            await expect(alive.sweep()).resolves.toEqual([
+                { userId: 'user-1', previous: 'online', status: 'offline', channels: ['general', 'random'] }
+            ]);
+        });
+
+        test('should report each lapse once', async () => {
+            await dead.setStatus('user-1', 'conn-1', 'idle');
+            jest.advanceTimersByTime(PRESENCE_TTL_MS + 1);
+
+            await expect(alive.sweep()).resolves.toHaveLength(1);
+            await expect(dead.sweep()).resolves.toEqual([]);
+        });
+
+        test('should leave users another instance still refreshes', async () => {
+            await dead.setStatus('user-1', 'conn-1', 'online');
+            await alive.setStatus('user-1', 'conn-2', 'online');
+
+            jest.advanceTimersByTime(PRESENCE_TTL_MS / 2);
+            await alive.refresh();
+            jest.advanceTimersByTime(PRESENCE_TTL_MS / 2 + 1);
+
+            await expect(alive.getStatus('user-1')).resolves.toBe('online');
+            await expect(alive.sweep()).resolves.toEqual([]);
+        });
+
+        test('should leave users whose last connection was closed', async () => {
+            await alive.setStatus('user-1', 'conn-1', 'online');
+            await alive.clearStatus('user-1', 'conn-1');
+            jest.advanceTimersByTime(PRESENCE_TTL_MS + 1);
+
+            await expect(alive.sweep()).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+const mockExecute = jest.fn();
+
+jest.mock('@/database/cassandra', () => ({
+    getCassandraClient: () => ({ execute: mockExecute })
+}));
+
+jest.mock('@/logger', () => ({
+    __esModule: true,
+    default: {
+        child: jest.fn().mockReturnThis(),
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { ReactionService } from '@/services/reactionService';
+import { CassandraReactionStore } from '@/adapters/cassandraReactionStore';
+import { ChimeMessage } from '@/types/message';
+
+describe('ReactionService Unit Tests', () => {
+    let reactionService: ReactionService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        reactionService = new ReactionService(new CassandraReactionStore());
+    });
+
+    describe('addReaction', () => {
+        test('should store one row per user and emoji', async () => {
+            mockExecute.mockResolvedValueOnce({});
+
+            await reactionService.addReaction('general', '7', '👍', 'user-1');
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'INSERT INTO message_reactions (channel_id, message_id, emoji, user_id, reacted_at) VALUES (?, ?, ?, ?, ?)',
+                ['general', '7', '👍', 'user-1', expect.any(Date)],
+                { prepare: true }
+            );
+        });
+
+        test('should rethrow database errors', async () => {
+            mockExecute.mockRejectedValueOnce(new Error('Cassandra down'));
+
+            await expect(reactionService.addReaction('general', '7', '👍', 'user-1')).rejects.toThrow('Cassandra down');
+        });
+    });
+
+    describe('removeReaction', () => {
+        test('should delete the user\'s row for that emoji', async () => {
+            mockExecute.mockResolvedValueOnce({});
+
+            await reactionService.removeReaction('general', '7', '👍', 'user-1');
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'DELETE FROM message_reactions WHERE channel_id = ? AND message_id = ? AND emoji = ? AND user_id = ?',
+                ['general', '7', '👍', 'user-1'],
+                { prepare: true }
+            );
+        });
+    });
+
+    describe('getReactionsFor', () => {
+        test('should group users by message and emoji', async () => {
+            mockExecute.mockResolvedValueOnce({
+                rows: [
+                    { message_id: '7', emoji: '👍', user_id: 'user-1' },
+                    { message_id: '7', emoji: '👍', user_id: 'user-2' },
+                    { message_id: '7', emoji: '🎉', user_id: 'user-1' },
+                    { message_id: '8', emoji: '👀', user_id: 'user-3' }
+                ]
+            });
+
+            const reactions = await reactionService.getReactionsFor('general', ['7', '8', '9']);
+
+            expect(mockExecute).toHaveBeenCalledWith(
+                'SELECT message_id, emoji, user_id FROM message_reactions WHERE channel_id = ? AND message_id IN ?',
+                ['general', ['7', '8', '9']],
+                { prepare: true }
+            );
+            expect(reactions).toEqual({
+                '7': { '👍': ['user-1', 'user-2'], '🎉': ['user-1'] },
+                '8': { '👀': ['user-3'] }
+            });
+        });
+
+        test('should not query for an empty list', async () => {
+            expect(await reactionService.getReactionsFor('general', [])).toEqual({});
+            expect(mockExecute).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('attachReactions', () => {
+        test('should fill in reactions, defaulting to none', async () => {
+            const message = (messageId: string): ChimeMessage => ({
+                channelId: 'general',
+                messageId,
+                userId: 'user-1',
+                content: 'Hello',
+                createdAt: '2024-01-01T00:00:00.000Z',
+                editedAt: null,
+                metadata: {}
+            });
+            mockExecute.mockResolvedValueOnce({ rows: [{ message_id: '7', emoji: '👍', user_id: 'user-2' }] });
+
+            const messages = await reactionService.attachReactions('general', [message('7'), message('8')]);
+
+            expect(messages[0].reactions).toEqual({ '👍': ['user-2'] });
+            expect(messages[1].reactions).toEqual({});
+        });
+    });
+});
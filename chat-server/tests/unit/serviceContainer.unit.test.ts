@@ -1,13 +1,23 @@
 // Mock all the services before importing
-const mockMessageService = {
+const mockAdapters = {
+    keyValueStore: { get: jest.fn() },
+    pubSub: { publish: jest.fn() },
+    messageStore: { insert: jest.fn() },
+    reactionStore: { add: jest.fn() },
+    channelAccess: { filterAllowed: jest.fn(), getDirectChannels: jest.fn(), canModerate: jest.fn() },
     connect: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
+    disconnect: jest.fn().mockResolvedValue(undefined)
+};
+
+const mockMessageService = {
     saveMessage: jest.fn()
 };
 
+const mockIdempotencyService = {
+    claim: jest.fn()
+};
+
 const mockBroadcastService = {
-    init: jest.fn().mockResolvedValue(undefined),
-    disconnect: jest.fn().mockResolvedValue(undefined),
     publish: jest.fn()
 };
 
@@ -30,10 +40,23 @@ const mockSubscriberService = {
     unsubscribeFrom: jest.fn()
 };
 
+const mockPresenceService = {
+    connect: jest.fn().mockResolvedValue(undefined),
+    disconnect: jest.fn().mockResolvedValue(undefined)
+};
+
+jest.mock('@/adapters', () => ({
+    createExternalAdapters: jest.fn().mockImplementation(() => mockAdapters)
+}));
+
 jest.mock('@/services/messageService', () => ({
     MessageService: jest.fn().mockImplementation(() => mockMessageService)
 }));
 
+jest.mock('@/services/idempotencyService', () => ({
+    IdempotencyService: jest.fn().mockImplementation(() => mockIdempotencyService)
+}));
+
 jest.mock('@/services/messageBroadcaseService', () => ({
     MessageBroadcastService: jest.fn().mockImplementation(() => mockBroadcastService)
 }));
@@ -50,6 +73,22 @@ jest.mock('@/util/ChannelManager', () => {
     };
 });
 
+jest.mock('@/services/reactionService', () => ({
+    ReactionService: jest.fn().mockImplementation(() => ({}))
+}));
+
+jest.mock('@/services/presenceService', () => ({
+    PresenceService: jest.fn().mockImplementation(() => mockPresenceService)
+}));
+
+jest.mock('@/services/inboxService', () => ({
+    InboxService: jest.fn().mockImplementation(() => ({}))
+}));
+
+jest.mock('@/services/deliveryQueueService', () => ({
+    DeliveryQueueService: jest.fn().mockImplementation(() => ({}))
+}));
+
 jest.mock('@/services/messageSubscriberService', () => ({
     MessageSubscriberService: jest.fn().mockImplementation(() => mockSubscriberService)
 }));
@@ -65,8 +104,15 @@ jest.mock('@/logger', () => ({
 }));
 
 import { ServiceContainer } from '@/util/ServiceContainer';
+import { Adapters, createExternalAdapters } from '@/adapters';
 import { MessageService } from '@/services/messageService';
+import { signToken } from '@/services/authService';
+import { IdempotencyService } from '@/services/idempotencyService';
 import { MessageBroadcastService } from '@/services/messageBroadcaseService';
+import { ReactionService } from '@/services/reactionService';
+import { PresenceService } from '@/services/presenceService';
+import { InboxService } from '@/services/inboxService';
+import { DeliveryQueueService } from '@/services/deliveryQueueService';
 import { UserConnectionManager } from '@/util/UserConnectionManager';
 import ChannelManager from '@/util/ChannelManager';
 import { MessageSubscriberService } from '@/services/messageSubscriberService';
@@ -77,19 +123,25 @@ describe('ServiceContainer Unit Tests', () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
-        serviceContainer = new ServiceContainer();
+        serviceContainer = new ServiceContainer(mockAdapters as unknown as Adapters);
     });
 
     describe('constructor', () => {
-        test('should create all services', () => {
-            expect(MessageService).toHaveBeenCalledWith(false);
-            expect(MessageBroadcastService).toHaveBeenCalledWith(false);
+        test('should create all services on the adapters', () => {
+            expect(IdempotencyService).toHaveBeenCalledWith(mockAdapters.keyValueStore);
+            expect(MessageService).toHaveBeenCalledWith(mockAdapters.messageStore, mockIdempotencyService, undefined);
+            expect(MessageBroadcastService).toHaveBeenCalledWith(mockAdapters.pubSub);
+            expect(ReactionService).toHaveBeenCalledWith(mockAdapters.reactionStore);
+            expect(PresenceService).toHaveBeenCalledWith(mockAdapters.keyValueStore, expect.any(Function));
+            expect(InboxService).toHaveBeenCalledWith(mockAdapters.keyValueStore);
+            expect(DeliveryQueueService).toHaveBeenCalledWith(mockAdapters.keyValueStore);
+            expect(serviceContainer.channelAccessService).toBe(mockAdapters.channelAccess);
             expect(UserConnectionManager).toHaveBeenCalled();
             expect(ChannelManager).toHaveBeenCalled();
             expect(MessageSubscriberService).toHaveBeenCalledWith(
                 mockChannelManager,
                 mockUserManager,
-                false
+                mockAdapters.pubSub
             );
             expect(logger.info).toHaveBeenCalledWith(
                 { function: 'constructor' },
@@ -97,17 +149,30 @@ describe('ServiceContainer Unit Tests', () => {
             );
         });
 
-        test('should create test services when test flag is true', () => {
+        test('should default to the external adapters', () => {
             jest.clearAllMocks();
-            new ServiceContainer(true);
+            new ServiceContainer();
 
-            expect(MessageService).toHaveBeenCalledWith(true);
-            expect(MessageBroadcastService).toHaveBeenCalledWith(true);
-            expect(MessageSubscriberService).toHaveBeenCalledWith(
-                mockChannelManager,
-                mockUserManager,
-                true
-            );
+            expect(createExternalAdapters).toHaveBeenCalled();
+            expect(MessageBroadcastService).toHaveBeenCalledWith(mockAdapters.pubSub);
+        });
+
+        test('should hand settings to the services instead of reading credentials', () => {
+            jest.clearAllMocks();
+            const container = new ServiceContainer(mockAdapters as unknown as Adapters, {
+                authSecret: 'settings-secret',
+                workerId: 3
+            });
+
+            expect(MessageService).toHaveBeenCalledWith(mockAdapters.messageStore, mockIdempotencyService, 3);
+            expect(container.authService.verifyToken(signToken('user-1', 'settings-secret'))).toBe('user-1');
+        });
+
+        test('should work out moderators through the channel access adapter', async () => {
+            mockAdapters.channelAccess.canModerate.mockResolvedValue(true);
+
+            await expect(serviceContainer.moderationService.isModerator('general', 'mod-1')).resolves.toBe(true);
+            expect(mockAdapters.channelAccess.canModerate).toHaveBeenCalledWith('general', 'mod-1');
         });
 
         test('should expose all services as public readonly properties', () => {
@@ -123,18 +188,18 @@ describe('ServiceContainer Unit Tests', () => {
         test('should connect all services successfully', async () => {
             await serviceContainer.connect();
 
-            expect(mockMessageService.connect).toHaveBeenCalled();
-            expect(mockBroadcastService.init).toHaveBeenCalled();
+            expect(mockAdapters.connect).toHaveBeenCalled();
             expect(mockSubscriberService.connect).toHaveBeenCalled();
+            expect(mockPresenceService.connect).toHaveBeenCalled();
             expect(logger.info).toHaveBeenCalledWith(
                 { function: 'connect' },
                 'All services connected successfully'
             );
         });
 
-        test('should handle service connection errors', async () => {
+        test('should handle adapter connection errors', async () => {
             const connectionError = new Error('Service connection failed');
-            mockMessageService.connect.mockRejectedValueOnce(connectionError);
+            mockAdapters.connect.mockRejectedValueOnce(connectionError);
 
             await expect(serviceContainer.connect()).rejects.toThrow('Service connection failed');
             expect(logger.error).toHaveBeenCalledWith(
@@ -143,11 +208,12 @@ describe('ServiceContainer Unit Tests', () => {
             );
         });
 
-        test('should handle broadcast service initialization errors', async () => {
-            const initError = new Error('Broadcast init failed');
-            mockBroadcastService.init.mockRejectedValueOnce(initError);
+        test('should connect the adapters before the services', async () => {
+            mockAdapters.connect.mockRejectedValueOnce(new Error('Redis unavailable'));
 
-            await expect(serviceContainer.connect()).rejects.toThrow('Broadcast init failed');
+            await expect(serviceContainer.connect()).rejects.toThrow('Redis unavailable');
+            expect(mockSubscriberService.connect).not.toHaveBeenCalled();
+            expect(mockPresenceService.connect).not.toHaveBeenCalled();
         });
 
         test('should handle subscriber service connection errors', async () => {
@@ -162,9 +228,9 @@ describe('ServiceContainer Unit Tests', () => {
         test('should disconnect all services successfully', async () => {
             await serviceContainer.disconnect();
 
+            expect(mockPresenceService.disconnect).toHaveBeenCalled();
             expect(mockSubscriberService.disconnect).toHaveBeenCalled();
-            expect(mockBroadcastService.disconnect).toHaveBeenCalled();
-            expect(mockMessageService.disconnect).toHaveBeenCalled();
+            expect(mockAdapters.disconnect).toHaveBeenCalled();
             expect(logger.info).toHaveBeenCalledWith(
                 { function: 'disconnect' },
                 'All services disconnected successfully'
@@ -173,7 +239,7 @@ describe('ServiceContainer Unit Tests', () => {
 
         test('should handle service disconnection errors', async () => {
             const disconnectionError = new Error('Service disconnection failed');
-            mockMessageService.disconnect.mockRejectedValueOnce(disconnectionError);
+            mockAdapters.disconnect.mockRejectedValueOnce(disconnectionError);
 
             await expect(serviceContainer.disconnect()).rejects.toThrow('Service disconnection failed');
             expect(logger.error).toHaveBeenCalledWith(
@@ -185,22 +251,22 @@ describe('ServiceContainer Unit Tests', () => {
         test('should disconnect services in correct order', async () => {
             const disconnectOrder: string[] = [];
             
-            mockSubscriberService.disconnect.mockImplementation(() => {
-                disconnectOrder.push('subscriber');
+            mockPresenceService.disconnect.mockImplementation(() => {
+                disconnectOrder.push('presence');
                 return Promise.resolve();
             });
-            mockBroadcastService.disconnect.mockImplementation(() => {
-                disconnectOrder.push('broadcast');
+            mockSubscriberService.disconnect.mockImplementation(() => {
+                disconnectOrder.push('subscriber');
                 return Promise.resolve();
             });
-            mockMessageService.disconnect.mockImplementation(() => {
-                disconnectOrder.push('message');
+            mockAdapters.disconnect.mockImplementation(() => {
+                disconnectOrder.push('adapters');
                 return Promise.resolve();
             });
 
             await serviceContainer.disconnect();
 
-            expect(disconnectOrder).toEqual(['subscriber', 'broadcast', 'message']);
+            expect(disconnectOrder).toEqual(['presence', 'subscriber', 'adapters']);
         });
     });
 
@@ -209,7 +275,7 @@ describe('ServiceContainer Unit Tests', () => {
             expect(MessageSubscriberService).toHaveBeenCalledWith(
                 mockChannelManager,
                 mockUserManager,
-                false
+                mockAdapters.pubSub
             );
         });
 
@@ -186,5 +186,25 @@ describe('UserConnectionManager Unit Tests', () => {
 
             expect(result).toBe(false);
         });
+
+        test('should skip connections without the message type\'s feature', () => {
+            manager.addUserConnection('user1', mockWs1 as unknown as WebSocket, new Set(['edits']));
+            manager.addUserConnection('user1', mockWs2 as unknown as WebSocket, new Set());
+
+            manager.sendToUser('user1', 'edited', 'messageUpdated');
+            manager.sendToUser('user1', 'hello', 'message');
+
+            expect(mockWs1.send).toHaveBeenCalledWith('edited');
+            expect(mockWs2.send).not.toHaveBeenCalledWith('edited');
+            expect(mockWs2.send).toHaveBeenCalledWith('hello');
+        });
+
+        test('should send everything to connections that did not negotiate', () => {
+            manager.addUserConnection('user1', mockWs1 as unknown as WebSocket);
+
+            manager.sendToUser('user1', 'typing', 'userTyping');
+
+            expect(mockWs1.send).toHaveBeenCalledWith('typing');
+        });
     });
 });
@@ -1,14 +1,81 @@
 import React from 'react';
 import User from '@/models/User';
 import Image from 'next/image';
+import ReplyButton from './ReplyButton';
+import ReactionBar from './ReactionBar';
+import { Reactions } from '@/types/Message';
+
+/**
+ * Preview of the message being replied to
+ */
+export interface CardQuote {
+  author?: string;
+  text: string;
+}
 
 interface CardProps {
+  id?: string;
   user: User;
   text: string;
+  edited?: boolean;
+  deleted?: boolean;
+  quote?: CardQuote;
+  reactions?: Reactions;
+  currentUserId?: string;
+  replyCount?: number;
+  onQuoteClick?: () => void;
+  onReply?: () => void;
+  onOpenThread?: () => void;
+  onReact?: (emoji: string, reacted: boolean) => void;
+  // Only passed for the current user's own messages
+  onEdit?: (text: string) => void;
+  onDelete?: () => void;
+  // Set while the current user's message has not been saved yet
+  sendStatus?: 'pending' | 'failed';
+  onRetry?: () => void;
+  onDiscard?: () => void;
 }
 
-export default function Card({ user, text }: CardProps) {
+export default function Card({
+  id,
+  user,
+  text,
+  edited,
+  deleted,
+  quote,
+  reactions,
+  currentUserId,
+  replyCount = 0,
+  onQuoteClick,
+  onReply,
+  onOpenThread,
+  onReact,
+  onEdit,
+  onDelete,
+  sendStatus,
+  onRetry,
+  onDiscard,
+}: CardProps) {
   const [imageError, setImageError] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(text);
+
+  const startEditing = () => {
+    setDraft(text);
+    setIsEditing(true);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (draft.trim() && draft !== text) {
+        onEdit?.(draft);
+      }
+      setIsEditing(false);
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
 
   const profilePictureSrc =
     user.profilePicture && !imageError
@@ -17,7 +84,10 @@ export default function Card({ user, text }: CardProps) {
 
   return (
     <div
-      className="h-max-h w-auto p-4 flex hover:bg-box-highlight flex-row border-t bg-background border-border-highlight last:border-b"
+      id={id}
+      className={`h-max-h w-auto p-4 flex hover:bg-box-highlight flex-row border-t bg-background border-border-highlight last:border-b ${
+        sendStatus === 'pending' ? 'opacity-60' : ''
+      }`}
       role="message-container"
     >
       <div className="flex gap-4 self-stretch">
@@ -32,12 +102,85 @@ export default function Card({ user, text }: CardProps) {
           />
         </div>
         <div className="flex flex-col grow">
-          <div className="text-sm text-foreground font-bold text-gray-700">
+          {quote && (
+            <button
+              className="mb-1 pl-2 border-l-2 border-gray-500 text-left text-sm text-gray-400 hover:text-white truncate"
+              onClick={onQuoteClick}
+            >
+              {quote.author && (
+                <span className="font-bold mr-1">{quote.author}</span>
+              )}
+              {quote.text}
+            </button>
+          )}
+          <div className="flex justify-between text-sm text-foreground font-bold text-gray-700">
             {user.handle}
+            {!deleted && !isEditing && (
+              <div className="flex gap-2 font-normal text-gray-400">
+                {onReply && <ReplyButton onClick={onReply} />}
+                {onEdit && (
+                  <button className="hover:text-white" onClick={startEditing}>
+                    Edit
+                  </button>
+                )}
+                {onDelete && (
+                  <button className="hover:text-white" onClick={onDelete}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
           </div>
-          <span className="font-normal text-[16px] leading-[1.5] text-foreground">
-            {text}
-          </span>
+          {deleted ? (
+            <span className="italic text-[16px] leading-[1.5] text-gray-400">
+              Message deleted
+            </span>
+          ) : isEditing ? (
+            <textarea
+              className="w-full resize-none bg-box-background border border-box-highlight rounded-lg p-2 text-[16px] text-[#ffffff] focus:outline-none focus:border-[#757575]"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              autoFocus
+            />
+          ) : (
+            <span className="font-normal text-[16px] leading-[1.5] text-foreground">
+              {text}
+              {edited && (
+                <span className="ml-1 text-xs text-gray-400">(edited)</span>
+              )}
+            </span>
+          )}
+          {sendStatus === 'failed' && (
+            <div className="flex gap-2 mt-1 text-sm text-red-400">
+              Failed to send
+              {onRetry && (
+                <button className="hover:text-white" onClick={onRetry}>
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button className="hover:text-white" onClick={onDiscard}>
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+          {!deleted && !sendStatus && (
+            <ReactionBar
+              reactions={reactions ?? {}}
+              currentUserId={currentUserId}
+              onToggle={onReact}
+            />
+          )}
+          {replyCount > 0 && onOpenThread && (
+            <button
+              className="self-start mt-1 text-sm text-blue-400 hover:underline"
+              onClick={onOpenThread}
+            >
+              {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+            </button>
+          )}
         </div>
       </div>
     </div>
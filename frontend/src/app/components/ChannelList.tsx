@@ -1,11 +1,13 @@
 import React, { FC, useEffect, useState } from 'react';
 import Server from '@/models/Server';
 import { channelService, Channel } from '@/services/api-service';
+import { useChat } from '@/contexts/ChatContext';
+import UnreadBadge from './UnreadBadge';
 
 interface ChannelListProps {
   server: Server;
-  selectedChannel: string | null;
-  onChannelSelect: (channel: string) => void;
+  selectedChannel: Channel | null;
+  onChannelSelect: (channel: Channel) => void;
 }
 
 const ChannelList: FC<ChannelListProps> = ({
@@ -13,39 +15,40 @@ const ChannelList: FC<ChannelListProps> = ({
   selectedChannel,
   onChannelSelect,
 }) => {
-  const [channels, setChannels] = useState<string[]>(server.channels);
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const { inbox } = useChat();
 
-  // Load channels from API when server changes
+  // Load channels from API when server changes; the chat server only lets
+  // us into channels by their ID, so there is nothing to fall back to
   useEffect(() => {
     const loadChannels = async () => {
       try {
-        // Use the actual server ID instead of deriving it from name
         if (!server.id) {
-          console.warn('Server has no ID, falling back to local channels');
-          setChannels(server.channels);
+          console.warn('Server has no ID, cannot load its channels');
+          setChannels([]);
           return;
         }
 
         const response = await channelService.getChannelsByServer(server.id);
 
         if (response.data) {
-          const channelNames = response.data.map(
-            (channel: Channel) => channel.name
-          );
-          setChannels(channelNames);
+          setChannels(response.data);
+          if (!selectedChannel && response.data.length > 0) {
+            onChannelSelect(response.data[0]);
+          }
         } else if (response.error) {
           console.error('Failed to load channels:', response.error);
-          // Fallback to server's local channels
-          setChannels(server.channels);
+          setChannels([]);
         }
       } catch (error) {
         console.error('Failed to load channels:', error);
-        // Fallback to server's local channels
-        setChannels(server.channels);
+        setChannels([]);
       }
     };
 
     loadChannels();
+    // Only reload when the server changes, not on every selection
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [server]);
 
   return (
@@ -57,19 +60,28 @@ const ChannelList: FC<ChannelListProps> = ({
         </div>
       </div>
       <div className="p-4">
-        {channels.map((channel, index) => (
-          <div
-            key={index}
-            className={`px-2 py-1 select-none mb-1 rounded cursor-pointer transition-colors ${
-              channel === selectedChannel
-                ? 'bg-box-highlight text-white'
-                : 'text-gray-300 hover:bg-box-highlight hover:text-white'
-            }`}
-            onClick={() => onChannelSelect(channel)}
-          >
-            # {channel}
-          </div>
-        ))}
+        {channels.map(channel => {
+          const unread = inbox[channel.id]?.unread ?? 0;
+          return (
+            <div
+              key={channel.id}
+              className={`flex items-center justify-between px-2 py-1 select-none mb-1 rounded cursor-pointer transition-colors ${
+                channel.id === selectedChannel?.id
+                  ? 'bg-box-highlight text-white'
+                  : unread > 0
+                    ? 'text-white font-semibold hover:bg-box-highlight'
+                    : 'text-gray-300 hover:bg-box-highlight hover:text-white'
+              }`}
+              onClick={() => onChannelSelect(channel)}
+            >
+              <span># {channel.name}</span>
+              <UnreadBadge
+                unread={unread}
+                mentions={inbox[channel.id]?.mentions ?? 0}
+              />
+            </div>
+          );
+        })}
       </div>
     </div>
   );
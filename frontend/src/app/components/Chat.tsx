@@ -1,30 +1,64 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import ChatHistory from './ChatHistory';
-import Server from '@/models/Server';
+import ChatHistory, { authorOf } from './ChatHistory';
+import User from '@/models/User';
 import UserList from './UserList';
-import { useChat } from '@/contexts/ChatContext';
+import ThreadView from './ThreadView';
+import { useChat, threadKey } from '@/contexts/ChatContext';
+import { useUser } from '@/contexts/UserContext';
+import { MAX_CONTENT_LENGTH } from '@chime/protocol';
 import { ChimeMessage } from '@/types/Message';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'chatComponent' });
 
+// Typing notices last a few seconds server-side, so refresh a little sooner
+const TYPING_THROTTLE_MS = 3000;
+
 interface ChatServerProps {
-  server: Server;
+  members: User[];
   channel: string;
+  // Shown instead of `# channel`, e.g. the other participants of a DM
+  title?: string;
 }
 
-const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
+const Chat: React.FC<ChatServerProps> = ({ members, channel, title }) => {
   const [history, setHistory] = useState<ChimeMessage[]>([]);
   const [text, setText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<ChimeMessage | null>(null);
+  const [openThreadKey, setOpenThreadKey] = useState<string | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const lastTypingSentRef = useRef(0);
   const {
     messages,
+    history: historyState,
+    threads,
     sendMessage: chatSendMessage,
+    retryMessage,
+    discardMessage,
+    outgoing,
+    editMessage,
+    deleteMessage,
+    setReaction,
+    loadHistory,
+    loadThread,
+    joinChannels,
+    confirmedChannels,
+    inbox,
+    markRead,
+    sendTyping,
+    getTypingText,
     isConnected,
+    connectionStatus,
     error,
   } = useChat();
+  const { currentUser } = useUser();
+  const channelHistoryState = historyState[channel];
+  const memberNames = new Map(
+    members.map(member => [member.id, member.handle])
+  );
+  const typingText = getTypingText(channel, memberNames);
 
   const scrollToBottom = () => {
     requestAnimationFrame(() => {
@@ -45,6 +79,52 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
     scrollToBottom();
   }, [history]);
 
+  // Channels added since we connected (e.g. a new server) are joined on open
+  const isChannelConfirmed = confirmedChannels.includes(channel);
+  useEffect(() => {
+    if (isConnected && !isChannelConfirmed) {
+      joinChannels([channel]);
+    }
+  }, [channel, isConnected, isChannelConfirmed, joinChannels]);
+
+  // Backfill the channel the first time it is opened while subscribed
+  useEffect(() => {
+    if (isConnected && isChannelConfirmed && !channelHistoryState) {
+      loadHistory(channel);
+    }
+  }, [
+    channel,
+    isConnected,
+    isChannelConfirmed,
+    channelHistoryState,
+    loadHistory,
+  ]);
+
+  // Seeing the newest message of the open channel reads it
+  const unreadCount = inbox[channel]?.unread ?? 0;
+  const latestMessageId = history[history.length - 1]?.messageId;
+  useEffect(() => {
+    if (isChannelConfirmed && unreadCount > 0 && latestMessageId) {
+      markRead(channel, latestMessageId);
+    }
+  }, [channel, isChannelConfirmed, unreadCount, latestMessageId, markRead]);
+
+  // Replies and threads belong to the channel they were started in
+  useEffect(() => {
+    setReplyingTo(null);
+    setOpenThreadKey(null);
+  }, [channel]);
+
+  const openThread = (channelId: string, messageId: string) => {
+    setOpenThreadKey(threadKey(channelId, messageId));
+    loadThread(channelId, messageId);
+  };
+
+  const loadOlderMessages = () => {
+    const oldest = history[0];
+    loadHistory(channel, oldest?.messageId);
+  };
+
   // Load messages from chat context when they change
   useEffect(() => {
     // Filter ChimeMessages for current channel
@@ -77,29 +157,19 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
       'Chat: User initiated send message'
     );
 
+    // While disconnected the message is queued and shown as pending
     try {
-      if (isConnected) {
-        chatSendMessage(channel, messageText);
-        log.info(
-          {
-            source: 'User_Send_Action',
-            channel,
-            success: true,
-          },
-          'Chat: Message sent via chatSendMessage (should appear via WebSocket echo)'
-        );
-      } else {
-        // Show error when not connected instead of API fallback
-        console.error('Cannot send message: WebSocket not connected');
-        log.error(
-          {
-            source: 'User_Send_Action',
-            channel,
-            error: 'Not connected',
-          },
-          'Chat: Cannot send message - not connected'
-        );
-      }
+      chatSendMessage(channel, messageText, replyingTo?.messageId);
+      setReplyingTo(null);
+      lastTypingSentRef.current = 0;
+      log.info(
+        {
+          source: 'User_Send_Action',
+          channel,
+          success: true,
+        },
+        'Chat: Message sent via chatSendMessage (should appear via WebSocket echo)'
+      );
     } catch (error) {
       console.error('Failed to send message:', error);
       log.error(
@@ -113,8 +183,34 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
     }
   };
 
+  const handleEdit = (message: ChimeMessage, content: string) => {
+    editMessage(message.channelId, message.messageId, content);
+  };
+
+  const handleReact = (
+    message: ChimeMessage,
+    emoji: string,
+    reacted: boolean
+  ) => {
+    setReaction(message.channelId, message.messageId, emoji, reacted);
+  };
+
+  const handleDelete = (message: ChimeMessage) => {
+    deleteMessage(message.channelId, message.messageId);
+  };
+
   const onChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setText(e.target.value);
+
+    const now = Date.now();
+    if (
+      isConnected &&
+      e.target.value.trim() &&
+      now - lastTypingSentRef.current >= TYPING_THROTTLE_MS
+    ) {
+      lastTypingSentRef.current = now;
+      sendTyping(channel);
+    }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -126,17 +222,23 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
   };
 
   const channelHistory = history;
+  const reconnect = connectionStatus?.reconnect;
+  const connectionLabel = isConnected
+    ? 'Live'
+    : reconnect?.delayMs != null
+      ? `Reconnecting (attempt ${reconnect.attempt} of ${reconnect.maxAttempts})`
+      : error || reconnect
+        ? 'Disconnected'
+        : 'Offline';
 
   return (
     <div className="flex flex-col h-full w-full border-l border-border-highlight">
       {/* Header */}
       <div className="h-[3em] flex-shrink-0 bg-box-background border-b border-border-highlight flex justify-between items-center px-4">
-        <div className="select-none font-semibold"># {channel}</div>
-        <div className="text-sm text-gray-400">
-          {isConnected && 'Live'}
-          {error && 'Disconnected'}
-          {!isConnected && !error && 'Offline'}
+        <div className="select-none font-semibold">
+          {title ?? `# ${channel}`}
         </div>
+        <div className="text-sm text-gray-400">{connectionLabel}</div>
       </div>
 
       {/* Main content area */}
@@ -148,19 +250,59 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
             ref={chatContainerRef}
             className="flex-grow overflow-y-auto bg-background min-h-0 p-2"
           >
-            <ChatHistory history={channelHistory} />
+            {channelHistoryState?.hasMore && history.length > 0 && (
+              <div className="flex justify-center py-2">
+                <button
+                  className="text-sm text-gray-400 hover:text-white disabled:opacity-50"
+                  onClick={loadOlderMessages}
+                  disabled={channelHistoryState.loading}
+                >
+                  {channelHistoryState.loading
+                    ? 'Loading...'
+                    : 'Load older messages'}
+                </button>
+              </div>
+            )}
+            <ChatHistory
+              history={channelHistory}
+              currentUserId={currentUser?.id}
+              names={memberNames}
+              onReply={setReplyingTo}
+              onOpenThread={openThread}
+              onReact={handleReact}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              outgoing={outgoing.filter(entry => entry.channelId === channel)}
+              onRetry={retryMessage}
+              onDiscard={discardMessage}
+            />
           </div>
 
           {/* Message input */}
           <div className="w-full p-2 flex-shrink-0 bg-background border-t border-border-highlight">
+            {replyingTo && (
+              <div className="flex justify-between mb-1 text-sm text-gray-400">
+                <span className="truncate">
+                  Replying to {authorOf(memberNames, replyingTo.userId).handle}:{' '}
+                  {replyingTo.content.substring(0, 50)}
+                </span>
+                <button
+                  className="hover:text-white"
+                  onClick={() => setReplyingTo(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
             <textarea
               className="w-full h-20 resize-none bg-box-background border border-box-highlight rounded-lg p-2 text-[16px] text-[#ffffff] focus:outline-none focus:border-[#757575]"
               value={text}
-              placeholder={`Message #${channel}...`}
+              maxLength={MAX_CONTENT_LENGTH}
+              placeholder={`Message ${title ?? `#${channel}`}...`}
               onKeyDown={handleKeyPress}
               onChange={onChange}
-              disabled={!isConnected}
             />
+            <div className="h-5 text-sm text-gray-400 italic">{typingText}</div>
             {error && (
               <div className="text-red-400 text-sm mt-1">
                 WebSocket error: {error}
@@ -168,16 +310,30 @@ const Chat: React.FC<ChatServerProps> = ({ server, channel }) => {
             )}
             {!isConnected && !error && (
               <div className="text-yellow-400 text-sm mt-1">
-                Connecting to chat server...
+                Connecting to chat server... Messages you send will go out once
+                connected.
               </div>
             )}
           </div>
         </div>
 
-        {/* User list */}
-        <div className="w-[15%] flex-shrink-0 bg-background border-l border-border-highlight">
-          <UserList server={server} showHeader={false} />
-        </div>
+        {/* Thread view replaces the user list while open */}
+        {openThreadKey ? (
+          <div className="w-[30%] flex-shrink-0 bg-background border-l border-border-highlight">
+            <ThreadView
+              thread={threads[openThreadKey]}
+              currentUserId={currentUser?.id}
+              names={memberNames}
+              onReact={handleReact}
+              onReply={setReplyingTo}
+              onClose={() => setOpenThreadKey(null)}
+            />
+          </div>
+        ) : (
+          <div className="w-[15%] flex-shrink-0 bg-background border-l border-border-highlight">
+            <UserList users={members} showHeader={false} />
+          </div>
+        )}
       </div>
     </div>
   );
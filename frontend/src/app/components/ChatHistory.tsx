@@ -1,25 +1,157 @@
 'use client';
 
 import React from 'react';
-import Card from './Card';
-import { v4 as uuidv4 } from 'uuid';
+import Card, { CardQuote } from './Card';
 import User from '@/models/User';
 import { ChimeMessage } from '@/types/Message';
+import { OutgoingMessageState } from '@/contexts/ChatContext';
 
 type MessageProps = {
   history?: ChimeMessage[];
+  currentUserId?: string;
+  // Display names by user ID, e.g. the channel's members
+  names?: ReadonlyMap<string, string>;
+  onReply?: (message: ChimeMessage) => void;
+  onOpenThread?: (channelId: string, messageId: string) => void;
+  onReact?: (message: ChimeMessage, emoji: string, reacted: boolean) => void;
+  onEdit?: (message: ChimeMessage, content: string) => void;
+  onDelete?: (message: ChimeMessage) => void;
+  // Own messages not yet in history, shown after it
+  outgoing?: OutgoingMessageState[];
+  onRetry?: (nonce: string) => void;
+  onDiscard?: (nonce: string) => void;
 };
 
-const ChatHistory: React.FC<MessageProps> = ({ history = [] }) => {
+export function messageAnchorId(message: ChimeMessage): string {
+  return `message-${message.channelId}-${message.messageId}`;
+}
+
+/**
+ * The author of a message as shown in its header, named by their display
+ * name if known and by their ID otherwise
+ */
+export function authorOf(
+  names: ReadonlyMap<string, string>,
+  userId: string
+): User {
+  return new User(names.get(userId) ?? userId, userId);
+}
+
+function parentOf(message: ChimeMessage): string | undefined {
+  const replyTo = message.metadata?.replyTo;
+  return typeof replyTo === 'string' ? replyTo : undefined;
+}
+
+function toQuote(
+  parent: ChimeMessage | undefined,
+  names: ReadonlyMap<string, string>
+): CardQuote {
+  if (!parent) {
+    return { text: 'Replying to an earlier message' };
+  }
+  if (parent.deletedAt) {
+    return { text: 'Message deleted' };
+  }
+  return {
+    author: authorOf(names, parent.userId).handle,
+    text: parent.content,
+  };
+}
+
+const ChatHistory: React.FC<MessageProps> = ({
+  history = [],
+  currentUserId,
+  names = new Map(),
+  onReply,
+  onOpenThread,
+  onReact,
+  onEdit,
+  onDelete,
+  outgoing = [],
+  onRetry,
+  onDiscard,
+}) => {
+  const byId = new Map(history.map(msg => [msg.messageId, msg]));
+  const replyCounts = new Map<string, number>();
+  history.forEach(msg => {
+    const parentId = parentOf(msg);
+    if (parentId) {
+      replyCounts.set(parentId, (replyCounts.get(parentId) ?? 0) + 1);
+    }
+  });
+
+  // Jump to the parent when it is loaded, otherwise open its thread
+  const handleQuoteClick = (msg: ChimeMessage, parentId: string) => {
+    const parent = byId.get(parentId);
+    const element = parent && document.getElementById(messageAnchorId(parent));
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      onOpenThread?.(msg.channelId, parentId);
+    }
+  };
+
   return (
     <div className="flex flex-col overflow-y-auto justify-end">
-      {history.map((msg: ChimeMessage) => (
-        <Card
-          key={uuidv4()}
-          text={msg.content}
-          user={new User(msg.userId, msg.userId)}
-        />
-      ))}
+      {history.map((msg: ChimeMessage) => {
+        const parentId = parentOf(msg);
+
+        return (
+          <Card
+            key={msg.messageId}
+            id={messageAnchorId(msg)}
+            text={msg.content}
+            user={authorOf(names, msg.userId)}
+            edited={!!msg.editedAt}
+            deleted={!!msg.deletedAt}
+            quote={parentId ? toQuote(byId.get(parentId), names) : undefined}
+            onQuoteClick={
+              parentId ? () => handleQuoteClick(msg, parentId) : undefined
+            }
+            reactions={msg.reactions}
+            currentUserId={currentUserId}
+            onReact={
+              onReact
+                ? (emoji, reacted) => onReact(msg, emoji, reacted)
+                : undefined
+            }
+            replyCount={replyCounts.get(msg.messageId)}
+            onReply={onReply ? () => onReply(msg) : undefined}
+            onOpenThread={
+              onOpenThread
+                ? () => onOpenThread(msg.channelId, msg.messageId)
+                : undefined
+            }
+            onEdit={
+              onEdit && msg.userId === currentUserId
+                ? content => onEdit(msg, content)
+                : undefined
+            }
+            onDelete={
+              onDelete && msg.userId === currentUserId
+                ? () => onDelete(msg)
+                : undefined
+            }
+          />
+        );
+      })}
+      {outgoing
+        .filter(entry => !entry.messageId || !byId.has(entry.messageId))
+        .map(entry => (
+          <Card
+            key={entry.nonce}
+            text={entry.content}
+            user={authorOf(names, currentUserId ?? '')}
+            quote={
+              entry.replyTo
+                ? toQuote(byId.get(entry.replyTo), names)
+                : undefined
+            }
+            sendStatus={entry.status === 'failed' ? 'failed' : 'pending'}
+            onRetry={onRetry ? () => onRetry(entry.nonce) : undefined}
+            onDiscard={onDiscard ? () => onDiscard(entry.nonce) : undefined}
+          />
+        ))}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+import React, { FC, useState } from 'react';
+import User from '@/models/User';
+import { DirectChannel } from '@/services/api-service';
+import { useChat } from '@/contexts/ChatContext';
+import UnreadBadge from './UnreadBadge';
+
+/**
+ * Name a conversation after everyone in it but the current user
+ */
+export function directChannelTitle(
+  channel: DirectChannel,
+  usersById: Map<string, User>,
+  currentUserId?: string
+): string {
+  const others = channel.participants.filter(id => id !== currentUserId);
+  return others.map(id => usersById.get(id)?.handle ?? id).join(', ');
+}
+
+interface DirectMessageListProps {
+  directChannels: DirectChannel[];
+  usersById: Map<string, User>;
+  currentUserId?: string;
+  selectedChannel: string | null;
+  onSelect: (channel: DirectChannel) => void;
+  // Rejects with the reason if the conversation could not be opened
+  onOpen: (userIds: string[]) => Promise<void>;
+}
+
+const DirectMessageList: FC<DirectMessageListProps> = ({
+  directChannels,
+  usersById,
+  currentUserId,
+  selectedChannel,
+  onSelect,
+  onOpen,
+}) => {
+  const [isPicking, setIsPicking] = useState(false);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [openError, setOpenError] = useState('');
+  const { inbox } = useChat();
+
+  const candidates = Array.from(usersById.values()).filter(
+    user => user.id !== currentUserId
+  );
+
+  const togglePicked = (userId: string) => {
+    setPicked(prev =>
+      prev.includes(userId)
+        ? prev.filter(id => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const handleStart = async () => {
+    try {
+      await onOpen(picked);
+    } catch (e: unknown) {
+      setOpenError(
+        `Error opening conversation: ${e instanceof Error ? e.message : 'Unknown error'}`
+      );
+      return;
+    }
+    setOpenError('');
+    setPicked([]);
+    setIsPicking(false);
+  };
+
+  const togglePicking = () => {
+    setOpenError('');
+    setIsPicking(prev => !prev);
+  };
+
+  return (
+    <div className="w-full h-full bg-background">
+      <div className="h-[3em] flex flex-row justify-between items-center border-b border-border-highlight bg-box-background px-4">
+        <div className="select-none font-semibold">Direct Messages</div>
+        <button
+          className="text-gray-300 hover:text-white text-xl"
+          title="New message"
+          onClick={togglePicking}
+        >
+          {isPicking ? '×' : '+'}
+        </button>
+      </div>
+
+      {isPicking && (
+        <div className="p-4 border-b border-border-highlight">
+          {candidates.map(user => (
+            <label
+              key={user.id}
+              className="flex items-center gap-2 px-2 py-1 text-gray-300 select-none cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={picked.includes(user.id)}
+                onChange={() => togglePicked(user.id)}
+              />
+              {user.handle}
+            </label>
+          ))}
+          <button
+            className="mt-2 w-full px-2 py-1 rounded bg-box-highlight text-white disabled:opacity-50"
+            disabled={picked.length === 0}
+            onClick={handleStart}
+          >
+            Start conversation
+          </button>
+          {openError && (
+            <p className="mt-1 text-sm text-red-500">{openError}</p>
+          )}
+        </div>
+      )}
+
+      <div className="p-4">
+        {directChannels.map(channel => (
+          <div
+            key={channel.id}
+            className={`flex items-center justify-between gap-2 px-2 py-1 select-none mb-1 rounded cursor-pointer transition-colors ${
+              channel.id === selectedChannel
+                ? 'bg-box-highlight text-white'
+                : 'text-gray-300 hover:bg-box-highlight hover:text-white'
+            }`}
+            onClick={() => onSelect(channel)}
+          >
+            <span className="truncate">
+              {directChannelTitle(channel, usersById, currentUserId)}
+            </span>
+            <UnreadBadge
+              unread={inbox[channel.id]?.unread ?? 0}
+              mentions={inbox[channel.id]?.mentions ?? 0}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DirectMessageList;
@@ -3,45 +3,97 @@
 import React, { useState, useEffect } from 'react';
 
 import Server from '@/models/Server';
+import User from '@/models/User';
+import { apiService, Channel, DirectChannel } from '@/services/api-service';
+import { useUser } from '@/contexts/UserContext';
 import ServerList from './ServerList';
 import Chat from './Chat';
 import ChannelList from './ChannelList';
+import DirectMessageList, { directChannelTitle } from './DirectMessageList';
 
 export default function Home() {
   const [selectedServer, setSelectedServer] = useState<Server | null>(null);
-  const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
+  const [selectedChannel, setSelectedChannel] = useState<Channel | null>(null);
   const [servers, setServers] = useState<Server[]>([]);
+  const [usersById, setUsersById] = useState<Map<string, User>>(new Map());
+  const [directChannels, setDirectChannels] = useState<DirectChannel[]>([]);
+  const [selectedDirect, setSelectedDirect] = useState<DirectChannel | null>(
+    null
+  );
+  const [showDirect, setShowDirect] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const { currentUser } = useUser();
 
   const handleServerSelect = (server: Server) => {
+    setShowDirect(false);
     setSelectedServer(server);
     console.log("Selected server: ", server);
     console.log("Channels in server: ", server.channels);
-    // Reset channel selection when switching servers
-    setSelectedChannel(server.channels[0] || null);
+    // Reset channel selection when switching servers; the channel list
+    // selects the first channel once it has loaded them
+    setSelectedChannel(null);
   };
 
-  const handleChannelSelect = (channel: string) => {
+  const handleChannelSelect = (channel: Channel) => {
     setSelectedChannel(channel);
   };
 
+  const handleDirectMessagesSelect = () => {
+    setShowDirect(true);
+  };
+
+  const handleOpenDirect = async (userIds: string[]) => {
+    const result = await apiService.directMessages.openDirectChannel(userIds);
+    if (result.error || !result.data) {
+      // Shown by the list, which keeps the picker open to try again
+      throw new Error(result.error || 'Failed to open conversation');
+    }
+
+    const opened = result.data;
+    setDirectChannels(prev =>
+      prev.some(channel => channel.id === opened.id) ? prev : [opened, ...prev]
+    );
+    setSelectedDirect(opened);
+  };
+
   useEffect(() => {
     const fetchServers = async () => {
       try {
-        const response = await fetch('/api/getServers');
-        if (!response.ok) {
-          throw new Error('Failed to fetch servers');
+        const [serversResult, usersResult, directResult] = await Promise.all([
+          apiService.servers.getAllServers(),
+          apiService.users.getAllUsers(),
+          apiService.directMessages.getDirectChannels(),
+        ]);
+        if (serversResult.error || !serversResult.data) {
+          throw new Error(serversResult.error || 'Failed to fetch servers');
         }
-        const data = await response.json();
-        const servers = data.servers as Server[];
+
+        // Servers list their members by ID
+        const usersById = new Map(
+          (usersResult.data ?? []).map(user => [user.id, user])
+        );
+        setUsersById(usersById);
+        // DMs are optional; the servers still work without them
+        setDirectChannels(directResult.data ?? []);
+        const servers = serversResult.data.map(data => {
+          const server = new Server(
+            data.name,
+            data.ip,
+            data.port,
+            data.iconUrl,
+            data.id
+          );
+          server.updateChannels(data.channels ?? []);
+          server.updateUsers(
+            (data.users ?? []).map(id => usersById.get(id) ?? new User(id, id))
+          );
+          return server;
+        });
         console.log(`Fetched servers: ${JSON.stringify(servers)}`);
         setServers(servers);
-        if (data.servers.length > 0) {
+        if (servers.length > 0) {
           setSelectedServer(servers[0]);
-          if (servers[0].channels.length > 0) {
-            setSelectedChannel(servers[0].channels[0]);
-          }
         }
         setLoading(false);
       } catch (e: unknown) {
@@ -68,11 +120,24 @@ export default function Home() {
   return (
     <div className="flex flex-row w-screen h-screen">
       <div className="w-max-w flex-shrink-0">
-        <ServerList servers={servers} onServerSelect={handleServerSelect} />
+        <ServerList
+          servers={servers}
+          onServerSelect={handleServerSelect}
+          onDirectMessagesSelect={handleDirectMessagesSelect}
+        />
       </div>
 
       <div className="w-[15%] flex-shrink-0 min-h-screen">
-        {selectedServer ? (
+        {showDirect ? (
+          <DirectMessageList
+            directChannels={directChannels}
+            usersById={usersById}
+            currentUserId={currentUser?.id}
+            selectedChannel={selectedDirect?.id ?? null}
+            onSelect={setSelectedDirect}
+            onOpen={handleOpenDirect}
+          />
+        ) : selectedServer ? (
           <>
             <ChannelList
               server={selectedServer}
@@ -86,12 +151,30 @@ export default function Home() {
       </div>
 
       <div className="flex-grow min-h-screen max-h-screen">
-        {selectedServer && selectedChannel ? (
+        {showDirect ? (
+          selectedDirect ? (
+            <Chat
+              key={selectedDirect.id}
+              members={selectedDirect.participants.map(
+                id => usersById.get(id) ?? new User(id, id)
+              )}
+              channel={selectedDirect.id}
+              title={directChannelTitle(
+                selectedDirect,
+                usersById,
+                currentUser?.id
+              )}
+            />
+          ) : (
+            <div>Select a conversation or start a new one</div>
+          )
+        ) : selectedServer && selectedChannel ? (
           <>
             <Chat
               key={selectedServer.id}
-              server={selectedServer}
-              channel={selectedChannel}
+              members={selectedServer.users}
+              channel={selectedChannel.id}
+              title={`# ${selectedChannel.name}`}
             />
           </>
         ) : (
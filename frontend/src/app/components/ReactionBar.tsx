@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import { Reactions } from '@/types/Message';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '👀'];
+
+interface ReactionBarProps {
+  reactions: Reactions;
+  currentUserId?: string;
+  onToggle?: (emoji: string, reacted: boolean) => void;
+}
+
+/**
+ * Reaction chips with counts; hovering a chip lists who reacted
+ */
+const ReactionBar = ({
+  reactions,
+  currentUserId,
+  onToggle,
+}: ReactionBarProps) => {
+  const [isPicking, setIsPicking] = React.useState(false);
+  const entries = Object.entries(reactions).filter(
+    ([, users]) => users.length > 0
+  );
+
+  const hasReacted = (emoji: string) =>
+    !!currentUserId && !!reactions[emoji]?.includes(currentUserId);
+
+  const pick = (emoji: string) => {
+    setIsPicking(false);
+    onToggle?.(emoji, !hasReacted(emoji));
+  };
+
+  if (entries.length === 0 && !onToggle) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {entries.map(([emoji, users]) => (
+        <button
+          key={emoji}
+          title={users.join(', ')}
+          className={`px-2 py-0.5 rounded-full border text-sm ${
+            hasReacted(emoji)
+              ? 'border-blue-400 bg-blue-900/40'
+              : 'border-border-highlight bg-box-background'
+          }`}
+          onClick={() => onToggle?.(emoji, !hasReacted(emoji))}
+          disabled={!onToggle}
+        >
+          {emoji} {users.length}
+        </button>
+      ))}
+      {onToggle && (
+        <div className="relative">
+          <button
+            className="px-2 py-0.5 rounded-full text-sm text-gray-400 hover:text-white"
+            aria-label="Add reaction"
+            onClick={() => setIsPicking(!isPicking)}
+          >
+            +
+          </button>
+          {isPicking && (
+            <div className="absolute z-10 bottom-full mb-1 flex gap-1 p-1 rounded-lg border border-border-highlight bg-box-background">
+              {QUICK_REACTIONS.map(emoji => (
+                <button
+                  key={emoji}
+                  className="px-1 hover:bg-box-highlight rounded"
+                  onClick={() => pick(emoji)}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReactionBar;
@@ -3,6 +3,8 @@
 import React, { useState } from 'react';
 import Server from '@/models/Server';
 import Image from 'next/image';
+import { useChat } from '@/contexts/ChatContext';
+import UnreadBadge, { sumInbox } from './UnreadBadge';
 
 interface ServerIconProps {
   instance: Server;
@@ -19,6 +21,8 @@ const ServerIcon: React.FC<ServerIconProps> = ({
 }) => {
   const [color, setColor] = useState(DEFAULT);
   const [imageError, setImageError] = useState(false);
+  const { inbox } = useChat();
+  const { unread, mentions } = sumInbox(inbox, instance.channels);
 
   const onMouseDown = () => {
     setColor(CLICKED);
@@ -30,7 +34,7 @@ const ServerIcon: React.FC<ServerIconProps> = ({
   };
 
   return (
-    <div className="p-2 w-[4em] h-[4em]">
+    <div className="relative p-2 w-[4em] h-[4em]">
       {instance && (
         <div
           onMouseOver={() => {
@@ -60,6 +64,11 @@ const ServerIcon: React.FC<ServerIconProps> = ({
           )}
         </div>
       )}
+      <UnreadBadge
+        unread={unread}
+        mentions={mentions}
+        className="absolute top-1 right-1"
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import Server from '@/models/Server';
 import ServerIcon from './ServerIcon';
 import AddServerButton from './AddServerButton';
+import DirectMessagesButton from './DirectMessagesButton';
 import AddServerForm from './AddServerForm';
 import Modal from './Modal';
 import { ServerInfo } from '@/models/ServerInfo';
@@ -13,11 +14,13 @@ import { v4 as uuidv4 } from 'uuid';
 interface ServerListProps {
   servers: Server[];
   onServerSelect: (server: Server) => void;
+  onDirectMessagesSelect: () => void;
 }
 
 const ServerList: React.FC<ServerListProps> = ({
   servers: initialServers,
   onServerSelect,
+  onDirectMessagesSelect,
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [servers, setServers] = useState(initialServers);
@@ -71,6 +74,7 @@ const ServerList: React.FC<ServerListProps> = ({
   return (
     <>
       <div className="flex flex-col items-center w-max-w h-screen bg-black border-r border-border-highlight overflow-hidden">
+        <DirectMessagesButton onClick={onDirectMessagesSelect} />
         {servers.map((server: Server) => (
           <ServerIcon
             key={uuidv4()}
@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import Card from './Card';
+import { authorOf } from './ChatHistory';
+import { ChimeMessage } from '@/types/Message';
+import { ThreadState } from '@/contexts/ChatContext';
+
+interface ThreadViewProps {
+  thread?: ThreadState;
+  currentUserId?: string;
+  // Display names by user ID, e.g. the channel's members
+  names?: ReadonlyMap<string, string>;
+  onReact?: (message: ChimeMessage, emoji: string, reacted: boolean) => void;
+  onReply: (parent: ChimeMessage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists a message and every reply to it
+ */
+const ThreadView: React.FC<ThreadViewProps> = ({
+  thread,
+  currentUserId,
+  names = new Map(),
+  onReact,
+  onReply,
+  onClose,
+}) => {
+  const parent = thread?.parent;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="h-[3em] flex-shrink-0 flex justify-between items-center px-4 border-b border-border-highlight">
+        <div className="select-none font-semibold">Thread</div>
+        <button className="text-gray-400 hover:text-white" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto min-h-0">
+        {parent && (
+          <Card
+            text={parent.content}
+            user={authorOf(names, parent.userId)}
+            edited={!!parent.editedAt}
+            deleted={!!parent.deletedAt}
+            reactions={parent.reactions}
+            currentUserId={currentUserId}
+            onReact={
+              onReact
+                ? (emoji, reacted) => onReact(parent, emoji, reacted)
+                : undefined
+            }
+            onReply={() => onReply(parent)}
+          />
+        )}
+        {thread?.replies.map(reply => (
+          <Card
+            key={reply.messageId}
+            text={reply.content}
+            user={authorOf(names, reply.userId)}
+            edited={!!reply.editedAt}
+            deleted={!!reply.deletedAt}
+            reactions={reply.reactions}
+            currentUserId={currentUserId}
+            onReact={
+              onReact
+                ? (emoji, reacted) => onReact(reply, emoji, reacted)
+                : undefined
+            }
+          />
+        ))}
+        {thread?.loading && (
+          <div className="p-4 text-sm text-gray-400">Loading thread...</div>
+        )}
+        {thread && !thread.loading && thread.replies.length === 0 && (
+          <div className="p-4 text-sm text-gray-400">No replies yet</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThreadView;
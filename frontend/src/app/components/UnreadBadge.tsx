@@ -0,0 +1,49 @@
+import React from 'react';
+import { InboxEntry } from '@/types/Message';
+
+/**
+ * Unread and mention counts summed over some channels, e.g. a server's
+ */
+export function sumInbox(
+  inbox: Record<string, InboxEntry>,
+  channels: string[]
+): { unread: number; mentions: number } {
+  return channels.reduce(
+    (total, channel) => ({
+      unread: total.unread + (inbox[channel]?.unread ?? 0),
+      mentions: total.mentions + (inbox[channel]?.mentions ?? 0),
+    }),
+    { unread: 0, mentions: 0 }
+  );
+}
+
+interface UnreadBadgeProps {
+  unread: number;
+  mentions: number;
+  className?: string;
+}
+
+/**
+ * Mentions win over plain unread counts; nothing renders when all is read
+ */
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({
+  unread,
+  mentions,
+  className = '',
+}) => {
+  if (unread === 0 && mentions === 0) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`min-w-[1.25rem] px-1 rounded-full text-xs font-semibold text-center text-white select-none ${
+        mentions > 0 ? 'bg-red-500' : 'bg-gray-500'
+      } ${className}`}
+    >
+      {mentions > 0 ? `@${mentions}` : unread > 99 ? '99+' : unread}
+    </span>
+  );
+};
+
+export default UnreadBadge;
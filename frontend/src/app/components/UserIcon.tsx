@@ -1,15 +1,26 @@
 import React, { useState } from 'react';
 import User from '@/models/User';
 import Image from 'next/image';
+import { PresenceStatus } from '@/types/Message';
 
 interface UserIconProps {
   instance: User;
+  status?: PresenceStatus;
 }
 
 const DEFAULT = 'bg-box-background';
 const HOVER = 'bg-border-highlight';
 
-const UserIcon: React.FC<UserIconProps> = ({ instance }) => {
+const STATUS_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  idle: 'bg-yellow-500',
+  offline: 'bg-gray-500',
+};
+
+const UserIcon: React.FC<UserIconProps> = ({
+  instance,
+  status = 'offline',
+}) => {
   const [isHovered, setIsHovered] = useState(false);
   const [imageError, setImageError] = useState(false);
 
@@ -21,25 +32,32 @@ const UserIcon: React.FC<UserIconProps> = ({ instance }) => {
           onMouseEnter={() => setIsHovered(true)}
           onMouseLeave={() => setIsHovered(false)}
         >
-          <div className="flex-shrink-0 flex-grow-0 rounded-full w-[2em] h-[2em] relative overflow-hidden">
-            {instance.profilePicture && !imageError ? (
-              <Image
-                src={instance.profilePicture}
-                alt={`${instance.handle}'s profile`}
-                fill
-                sizes="2em"
-                className="object-cover"
-                onError={() => setImageError(true)}
-              />
-            ) : (
-              <Image
-                src="/images/default-pfp.svg"
-                alt={`${instance.handle}'s avatar`}
-                fill
-                sizes="2em"
-                className="object-cover"
-              />
-            )}
+          <div className="flex-shrink-0 flex-grow-0 w-[2em] h-[2em] relative">
+            <div className="rounded-full w-full h-full relative overflow-hidden">
+              {instance.profilePicture && !imageError ? (
+                <Image
+                  src={instance.profilePicture}
+                  alt={`${instance.handle}'s profile`}
+                  fill
+                  sizes="2em"
+                  className="object-cover"
+                  onError={() => setImageError(true)}
+                />
+              ) : (
+                <Image
+                  src="/images/default-pfp.svg"
+                  alt={`${instance.handle}'s avatar`}
+                  fill
+                  sizes="2em"
+                  className="object-cover"
+                />
+              )}
+            </div>
+            <span
+              className={`absolute bottom-0 right-0 w-[0.7em] h-[0.7em] rounded-full border-2 border-box-background ${STATUS_COLORS[status]}`}
+              title={status}
+              aria-label={status}
+            />
           </div>
           <div className="h-full w-full select-none cursor-pointer">
             <p className="text-white"> {instance.handle} </p>
@@ -1,23 +1,34 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import UserIcon from './UserIcon';
-import Server from '@/models/Server';
+import User from '@/models/User';
+import { useChat } from '@/contexts/ChatContext';
 
 interface UserListProps {
-  server: Server;
+  users: User[];
   showHeader?: boolean;
 }
 
-const UserList: React.FC<UserListProps> = ({ server, showHeader = true }) => {
+const UserList: React.FC<UserListProps> = ({ users, showHeader = true }) => {
+  const { presence, watchPresence, isConnected } = useChat();
+  const memberIds = users.map(user => user.id).join(',');
+
+  // Members that share a channel with us get live updates afterwards
+  useEffect(() => {
+    if (isConnected && memberIds) {
+      watchPresence(memberIds.split(','));
+    }
+  }, [isConnected, memberIds, watchPresence]);
+
   return (
     <div className="w-full h-auto bg-background overflow-y-auto">
       {showHeader && (
         <div className="h-[3em] flex-shrink-0 bg-box-background border-b border-border-highlight"></div>
       )}
       <div className="flex flex-col h-full gap-1 p-2">
-        {server.users.map((user, index) => (
-          <UserIcon key={index} instance={user} />
+        {users.map(user => (
+          <UserIcon key={user.id} instance={user} status={presence[user.id]} />
         ))}
       </div>
     </div>
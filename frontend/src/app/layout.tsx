@@ -5,6 +5,7 @@ import './globals.css';
 import { UserProvider } from '../contexts/UserContext';
 import { ChatProvider } from '../contexts/ChatContext';
 import { ConnectionInitializer } from '../components/ConnectionInitializer';
+import { AuthGate } from '../components/AuthGate';
 
 const inter = Inter({
   subsets: ['latin'],
@@ -37,11 +38,13 @@ export default function RootLayout({
       <body
         className={`${inter.variable} ${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ConnectionInitializer>
-          <UserProvider>
-            <ChatProvider>{children}</ChatProvider>
-          </UserProvider>
-        </ConnectionInitializer>
+        <UserProvider>
+          <AuthGate>
+            <ConnectionInitializer>
+              <ChatProvider>{children}</ChatProvider>
+            </ConnectionInitializer>
+          </AuthGate>
+        </UserProvider>
       </body>
     </html>
   );
@@ -0,0 +1,29 @@
+'use client';
+
+import { useUser } from '@/contexts/UserContext';
+import { LoginForm } from './LoginForm';
+
+/**
+ * Renders its children only once a user is logged in, since the chat
+ * connection and API calls need the user's access token
+ */
+export function AuthGate({ children }: { children: React.ReactNode }) {
+  const { currentUser, isRestoring } = useUser();
+
+  if (isRestoring) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="text-center p-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Restoring session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return <LoginForm />;
+  }
+
+  return <>{children}</>;
+}
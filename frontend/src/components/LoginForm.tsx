@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useUser } from '@/contexts/UserContext';
+
+type Mode = 'login' | 'signup';
+
+export function LoginForm() {
+  const { login, signup } = useUser();
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const failure =
+      mode === 'login'
+        ? await login(username, password)
+        : await signup({ username, password });
+
+    // On success the gate swaps this form out, so only failures touch state
+    if (failure) {
+      setError(failure);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-4 p-8 bg-white rounded-lg shadow-lg w-80"
+      >
+        <h2 className="text-xl font-semibold text-gray-800">
+          {mode === 'login' ? 'Log in to Chime' : 'Create an account'}
+        </h2>
+
+        <input
+          type="text"
+          placeholder="Username"
+          autoComplete="username"
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          className="border border-gray-300 rounded px-3 py-2 text-black"
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className="border border-gray-300 rounded px-3 py-2 text-black"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="bg-blue-600 text-white rounded px-3 py-2 disabled:opacity-50"
+        >
+          {mode === 'login' ? 'Log in' : 'Sign up'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'login' ? 'signup' : 'login');
+            setError(null);
+          }}
+          className="text-sm text-blue-600"
+        >
+          {mode === 'login'
+            ? 'Need an account? Sign up'
+            : 'Already have an account? Log in'}
+        </button>
+      </form>
+    </div>
+  );
+}
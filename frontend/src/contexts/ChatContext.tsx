@@ -2,18 +2,268 @@
 
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
   ReactNode,
 } from 'react';
-import { ChimeMessage } from '@/types/Message';
+import {
+  ChimeMessage,
+  InboxEntry,
+  PresenceStatus,
+  isNewerMessageId,
+} from '@/types/Message';
 import { ConnectionStatus } from '@/services/ChimeClient';
-import { globalConnectionManager } from '@/services/GlobalConnectionManager';
+import {
+  globalConnectionManager,
+  HistoryPage,
+  MessageAck,
+  ReactionsUpdate,
+  SendFailure,
+  ThreadPage,
+  TypingNotice,
+} from '@/services/GlobalConnectionManager';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'chatContext' });
 
+interface ChannelHistoryState {
+  loading: boolean;
+  hasMore: boolean;
+}
+
+export interface ThreadState {
+  loading: boolean;
+  parent: ChimeMessage | null;
+  replies: ChimeMessage[];
+}
+
+export type SendStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * A message this user sent, tracked by nonce until the server's copy of it
+ * shows up in messages
+ */
+export interface OutgoingMessageState {
+  nonce: string;
+  channelId: string;
+  content: string;
+  replyTo?: string;
+  status: SendStatus;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Drops sent messages whose saved copy has arrived; returns the same array
+ * when nothing changed
+ */
+function settleOutgoing(
+  outgoing: OutgoingMessageState[],
+  messages: ChimeMessage[]
+): OutgoingMessageState[] {
+  const arrived = new Set(
+    messages.map(message => `${message.channelId}:${message.messageId}`)
+  );
+  const remaining = outgoing.filter(
+    entry =>
+      !entry.messageId || !arrived.has(`${entry.channelId}:${entry.messageId}`)
+  );
+  return remaining.length === outgoing.length ? outgoing : remaining;
+}
+
+/**
+ * Threads are keyed by their parent message
+ */
+export function threadKey(channelId: string, messageId: string): string {
+  return `${channelId}:${messageId}`;
+}
+
+/**
+ * Applies a change to every loaded thread the message belongs to, either as
+ * a reply or as the parent
+ */
+function updateThreads(
+  threads: Record<string, ThreadState>,
+  message: ChimeMessage,
+  update: (thread: ThreadState) => ThreadState
+): Record<string, ThreadState> {
+  const replyTo = message.metadata?.replyTo;
+  const keys = [threadKey(message.channelId, message.messageId)];
+  if (typeof replyTo === 'string') {
+    keys.push(threadKey(message.channelId, replyTo));
+  }
+
+  const loaded = keys.filter(key => threads[key]);
+  if (loaded.length === 0) {
+    return threads;
+  }
+
+  const next = { ...threads };
+  loaded.forEach(key => {
+    next[key] = update(next[key]);
+  });
+  return next;
+}
+
+/**
+ * Merges incoming messages into the list, dropping ones we already hold
+ * (history pages can overlap with live messages) and keeping time order
+ */
+function mergeMessages(
+  existing: ChimeMessage[],
+  incoming: ChimeMessage[]
+): ChimeMessage[] {
+  const key = (msg: ChimeMessage) => `${msg.channelId}:${msg.messageId}`;
+  const seen = new Set(existing.map(key));
+  const fresh = incoming.filter(msg => !seen.has(key(msg)));
+
+  if (fresh.length === 0) {
+    return existing;
+  }
+
+  return [...existing, ...fresh].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
+
+/**
+ * Swaps in a newer version of a message we already hold, e.g. after an edit
+ * or a deletion (tombstones stay in place and render greyed out)
+ */
+function replaceMessage(
+  existing: ChimeMessage[],
+  updated: ChimeMessage
+): ChimeMessage[] {
+  // Edits and deletions don't carry reactions, so keep the ones we know
+  return existing.map(msg =>
+    msg.channelId === updated.channelId && msg.messageId === updated.messageId
+      ? { ...updated, reactions: updated.reactions ?? msg.reactions }
+      : msg
+  );
+}
+
+function applyReactions(
+  messages: ChimeMessage[],
+  update: ReactionsUpdate
+): ChimeMessage[] {
+  return messages.map(msg =>
+    msg.channelId === update.channelId && msg.messageId === update.messageId
+      ? { ...msg, reactions: update.reactions }
+      : msg
+  );
+}
+
+function replaceInThread(
+  message: ChimeMessage
+): (thread: ThreadState) => ThreadState {
+  return thread => ({
+    ...thread,
+    parent:
+      thread.parent?.messageId === message.messageId ? message : thread.parent,
+    replies: replaceMessage(thread.replies, message),
+  });
+}
+
+/**
+ * Human-readable summary of who is typing, or null when nobody is. Typists
+ * are named by their display names; anyone not in `names` is "Someone".
+ */
+export function describeTyping(
+  userIds: string[],
+  names: ReadonlyMap<string, string> = new Map()
+): string | null {
+  const [first, second, third] = userIds.map(
+    userId => names.get(userId) ?? 'Someone'
+  );
+  switch (userIds.length) {
+    case 0:
+      return null;
+    case 1:
+      return `${first} is typing…`;
+    case 2:
+      return `${first} and ${second} are typing…`;
+    case 3:
+      return `${first}, ${second} and ${third} are typing…`;
+    default:
+      return 'Several people are typing…';
+  }
+}
+
+function withoutTypist(
+  typing: Record<string, string[]>,
+  channelId: string,
+  userId: string
+): Record<string, string[]> {
+  if (!typing[channelId]?.includes(userId)) {
+    return typing;
+  }
+  return {
+    ...typing,
+    [channelId]: typing[channelId].filter(id => id !== userId),
+  };
+}
+
+/**
+ * Stops waiting on history pages that will never arrive; errors don't say
+ * which request failed, so every channel still loading gives up
+ */
+function settleHistory(
+  history: Record<string, ChannelHistoryState>
+): Record<string, ChannelHistoryState> {
+  if (!Object.values(history).some(channel => channel.loading)) {
+    return history;
+  }
+  const settled: Record<string, ChannelHistoryState> = {};
+  Object.entries(history).forEach(([channelId, channel]) => {
+    settled[channelId] = { ...channel, loading: false };
+  });
+  return settled;
+}
+
+/**
+ * Counts a live message until the server sends fresh numbers: our own
+ * messages mark the channel read, anyone else's add to its unread count
+ */
+export function countIncoming(
+  inbox: Record<string, InboxEntry>,
+  message: ChimeMessage,
+  currentUserId: string | null
+): Record<string, InboxEntry> {
+  const entry = inbox[message.channelId] ?? {
+    lastReadId: null,
+    unread: 0,
+    mentions: 0,
+  };
+  if (!isNewerMessageId(message.messageId, entry.lastReadId)) {
+    return inbox;
+  }
+
+  if (message.userId === currentUserId) {
+    return {
+      ...inbox,
+      [message.channelId]: {
+        ...entry,
+        lastReadId: message.messageId,
+        unread: 0,
+      },
+    };
+  }
+
+  const mentioned =
+    currentUserId !== null && message.content.includes(`<@${currentUserId}>`);
+  return {
+    ...inbox,
+    [message.channelId]: {
+      ...entry,
+      unread: entry.unread + 1,
+      mentions: entry.mentions + (mentioned ? 1 : 0),
+    },
+  };
+}
+
 interface ChatContextState {
   // Connection state
   connectionStatus: ConnectionStatus | null;
@@ -23,8 +273,48 @@ interface ChatContextState {
   // Messages - storing ChimeMessage objects (the actual chat messages)
   messages: ChimeMessage[];
 
+  // History per channel (loading flag and whether older pages exist)
+  history: Record<string, ChannelHistoryState>;
+
+  // Loaded threads, keyed by threadKey(channelId, parentMessageId)
+  threads: Record<string, ThreadState>;
+
+  // Users currently typing, per channel
+  typingUsers: Record<string, string[]>;
+
+  // Last known status of users we have asked about or share a channel with
+  presence: Record<string, PresenceStatus>;
+
+  // Read position and unread/mention counts per channel
+  inbox: Record<string, InboxEntry>;
+
+  // Own messages that are still pending, or failed and awaiting a retry
+  outgoing: OutgoingMessageState[];
+
   // Actions
-  sendMessage: (channelId: string, content: string) => void;
+  sendMessage: (channelId: string, content: string, replyTo?: string) => void;
+  retryMessage: (nonce: string) => void;
+  discardMessage: (nonce: string) => void;
+  editMessage: (channelId: string, messageId: string, content: string) => void;
+  deleteMessage: (channelId: string, messageId: string) => void;
+  setReaction: (
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ) => void;
+  loadHistory: (channelId: string, before?: string) => void;
+  loadThread: (channelId: string, messageId: string) => void;
+  joinChannels: (channelIds: string[]) => void;
+  leaveChannels: (channelIds: string[]) => void;
+  sendTyping: (channelId: string) => void;
+  // `names` maps user IDs to display names, e.g. the channel's members
+  getTypingText: (
+    channelId: string,
+    names?: ReadonlyMap<string, string>
+  ) => string | null;
+  watchPresence: (userIds: string[]) => void;
+  markRead: (channelId: string, messageId: string) => void;
 
   // Status
   isInitialized: boolean;
@@ -41,6 +331,18 @@ export function ChatProvider({ children }: ChatProviderProps) {
   const [connectionStatus, setConnectionStatus] =
     useState<ConnectionStatus | null>(null);
   const [messages, setMessages] = useState<ChimeMessage[]>([]);
+  const [history, setHistory] = useState<Record<string, ChannelHistoryState>>(
+    {}
+  );
+  const [threads, setThreads] = useState<Record<string, ThreadState>>({});
+  const [typingUsers, setTypingUsers] = useState<Record<string, string[]>>({});
+  const [presence, setPresence] = useState<Record<string, PresenceStatus>>({});
+  const [inbox, setInbox] = useState<Record<string, InboxEntry>>({});
+  const [outgoing, setOutgoing] = useState<OutgoingMessageState[]>([]);
+  // Expiry timers for typing notices, keyed by channelId:userId
+  const typingTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -52,6 +354,14 @@ export function ChatProvider({ children }: ChatProviderProps) {
 
   useEffect(() => {
     let mounted = true;
+    const timers = typingTimers.current;
+
+    const stopTyping = (channelId: string, userId: string) => {
+      const key = `${channelId}:${userId}`;
+      clearTimeout(timers.get(key));
+      timers.delete(key);
+      setTypingUsers(prev => withoutTypist(prev, channelId, userId));
+    };
 
     // Subscribe to connection events
     const cleanupHandlers = [
@@ -69,7 +379,190 @@ export function ChatProvider({ children }: ChatProviderProps) {
           );
 
           // Store ChimeMessage directly
-          setMessages(prev => [...prev, message]);
+          setMessages(prev => mergeMessages(prev, [message]));
+          setInbox(prev =>
+            countIncoming(prev, message, globalConnectionManager.getUserId())
+          );
+          // Sending a message ends that user's typing
+          stopTyping(message.channelId, message.userId);
+          setThreads(prev =>
+            updateThreads(prev, message, thread =>
+              thread.parent?.messageId === message.messageId
+                ? thread
+                : {
+                    ...thread,
+                    replies: mergeMessages(thread.replies, [message]),
+                  }
+            )
+          );
+        }
+      ),
+
+      globalConnectionManager.on('message-acked', (ack: MessageAck) => {
+        if (!mounted) return;
+        setOutgoing(prev =>
+          prev.map(entry =>
+            entry.nonce === ack.nonce
+              ? { ...entry, status: 'sent', messageId: ack.messageId }
+              : entry
+          )
+        );
+      }),
+
+      globalConnectionManager.on('message-failed', (failure: SendFailure) => {
+        if (!mounted) return;
+        log.warn(
+          { nonce: failure.nonce, error: failure.error },
+          'ChatContext: Message failed to send'
+        );
+        setOutgoing(prev =>
+          prev.map(entry =>
+            entry.nonce === failure.nonce
+              ? { ...entry, status: 'failed', error: failure.error }
+              : entry
+          )
+        );
+      }),
+
+      globalConnectionManager.on(
+        'messages-missed',
+        (missed: ChimeMessage[]) => {
+          if (!mounted) return;
+          log.info(
+            { count: missed.length },
+            'ChatContext: Adding messages missed while offline'
+          );
+
+          // The inbox sent on connect already counts these as unread
+          setMessages(prev => mergeMessages(prev, missed));
+        }
+      ),
+
+      globalConnectionManager.on('history-received', (page: HistoryPage) => {
+        if (!mounted) return;
+        log.info(
+          {
+            channelId: page.channelId,
+            count: page.messages.length,
+            hasMore: page.hasMore,
+          },
+          'ChatContext: Backfilling channel history'
+        );
+
+        setMessages(prev => mergeMessages(prev, page.messages));
+        setHistory(prev => ({
+          ...prev,
+          [page.channelId]: { loading: false, hasMore: page.hasMore },
+        }));
+      }),
+
+      globalConnectionManager.on('thread-received', (page: ThreadPage) => {
+        if (!mounted) return;
+        log.info(
+          {
+            channelId: page.channelId,
+            messageId: page.parent.messageId,
+            count: page.replies.length,
+          },
+          'ChatContext: Thread loaded'
+        );
+
+        setThreads(prev => ({
+          ...prev,
+          [threadKey(page.channelId, page.parent.messageId)]: {
+            loading: false,
+            parent: page.parent,
+            replies: page.replies,
+          },
+        }));
+      }),
+
+      globalConnectionManager.on('message-updated', (message: ChimeMessage) => {
+        if (!mounted) return;
+        log.info(
+          {
+            messageId: message.messageId,
+            channelId: message.channelId,
+          },
+          'ChatContext: Replacing edited message'
+        );
+
+        setMessages(prev => replaceMessage(prev, message));
+        setThreads(prev =>
+          updateThreads(prev, message, replaceInThread(message))
+        );
+      }),
+
+      globalConnectionManager.on('message-deleted', (message: ChimeMessage) => {
+        if (!mounted) return;
+        log.info(
+          {
+            messageId: message.messageId,
+            channelId: message.channelId,
+          },
+          'ChatContext: Tombstoning deleted message'
+        );
+
+        setMessages(prev => replaceMessage(prev, message));
+        setThreads(prev =>
+          updateThreads(prev, message, replaceInThread(message))
+        );
+      }),
+
+      globalConnectionManager.on(
+        'reactions-updated',
+        (update: ReactionsUpdate) => {
+          if (!mounted) return;
+
+          setMessages(prev => applyReactions(prev, update));
+          setThreads(prev => {
+            const next: Record<string, ThreadState> = {};
+            Object.entries(prev).forEach(([key, thread]) => {
+              next[key] = {
+                ...thread,
+                parent:
+                  thread.parent && applyReactions([thread.parent], update)[0],
+                replies: applyReactions(thread.replies, update),
+              };
+            });
+            return next;
+          });
+        }
+      ),
+
+      globalConnectionManager.on('user-typing', (notice: TypingNotice) => {
+        if (!mounted) return;
+        const { channelId, userId, expiresInMs } = notice;
+        const key = `${channelId}:${userId}`;
+
+        // Each notice restarts the user's expiry; it lapses unless refreshed
+        clearTimeout(timers.get(key));
+        timers.set(
+          key,
+          setTimeout(() => {
+            if (mounted) stopTyping(channelId, userId);
+          }, expiresInMs)
+        );
+        setTypingUsers(prev =>
+          prev[channelId]?.includes(userId)
+            ? prev
+            : { ...prev, [channelId]: [...(prev[channelId] ?? []), userId] }
+        );
+      }),
+
+      globalConnectionManager.on(
+        'presence-updated',
+        (statuses: Record<string, PresenceStatus>) => {
+          if (!mounted) return;
+          setPresence(prev => ({ ...prev, ...statuses }));
+        }
+      ),
+
+      globalConnectionManager.on(
+        'inbox-updated',
+        (entries: Record<string, InboxEntry>) => {
+          if (!mounted) return;
+          setInbox(prev => ({ ...prev, ...entries }));
         }
       ),
 
@@ -80,12 +573,17 @@ export function ChatProvider({ children }: ChatProviderProps) {
           log.debug({ status }, 'Connection status changed');
           setConnectionStatus(status);
           setError(null); // Clear errors on successful connection
+          // Requests sent before a disconnect go unanswered
+          if (!status?.isConnected) {
+            setHistory(settleHistory);
+          }
         }
       ),
 
       globalConnectionManager.on('error', (errorMsg: string) => {
         if (!mounted) return;
         handleError(errorMsg);
+        setHistory(settleHistory);
       }),
     ];
 
@@ -113,20 +611,43 @@ export function ChatProvider({ children }: ChatProviderProps) {
     setMessages(initialMessages);
     setIsInitialized(true);
 
+    // A hidden window counts as idle; the server tracks connects itself
+    const reportActivity = () => {
+      globalConnectionManager.setPresence(
+        document.visibilityState === 'hidden' ? 'idle' : 'online'
+      );
+    };
+    document.addEventListener('visibilitychange', reportActivity);
+    cleanupHandlers.push(() =>
+      document.removeEventListener('visibilitychange', reportActivity)
+    );
+
     log.info('Chat context subscribed to connection events');
 
     // Cleanup on unmount
     return () => {
       mounted = false;
       cleanupHandlers.forEach(cleanup => cleanup());
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
     };
   }, []);
 
-  const sendMessage = (channelId: string, content: string) => {
+  // Once the saved copy of a sent message arrives it replaces the entry
+  useEffect(() => {
+    setOutgoing(prev => settleOutgoing(prev, messages));
+  }, [messages, outgoing]);
+
+  const sendMessage = (
+    channelId: string,
+    content: string,
+    replyTo?: string
+  ) => {
     log.info(
       {
         source: 'User_Input',
         channelId,
+        replyTo,
         content: content.substring(0, 50) + (content.length > 50 ? '...' : ''),
         currentMessageCount: messages.length,
       },
@@ -134,11 +655,20 @@ export function ChatProvider({ children }: ChatProviderProps) {
     );
 
     try {
-      globalConnectionManager.sendMessage(channelId, content);
+      const nonce = globalConnectionManager.sendMessage(
+        channelId,
+        content,
+        replyTo
+      );
+      setOutgoing(prev => [
+        ...prev,
+        { nonce, channelId, content, replyTo, status: 'pending' },
+      ]);
       log.info(
         {
           source: 'User_Input',
           channelId,
+          nonce,
           success: true,
         },
         'ChatContext: Message sent to GlobalConnectionManager (waiting for WebSocket echo)'
@@ -151,12 +681,220 @@ export function ChatProvider({ children }: ChatProviderProps) {
     }
   };
 
+  // Resending under the same nonce lets the server drop the duplicate if the
+  // first attempt did get through
+  const retryMessage = (nonce: string) => {
+    const entry = outgoing.find(candidate => candidate.nonce === nonce);
+    if (!entry) return;
+    log.info({ nonce, channelId: entry.channelId }, 'ChatContext: Retrying');
+
+    setOutgoing(prev =>
+      prev.map(candidate =>
+        candidate.nonce === nonce
+          ? { ...candidate, status: 'pending', error: undefined }
+          : candidate
+      )
+    );
+    try {
+      globalConnectionManager.sendMessage(
+        entry.channelId,
+        entry.content,
+        entry.replyTo,
+        nonce
+      );
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to send message';
+      log.error({ error: err, nonce }, errorMsg);
+      setOutgoing(prev =>
+        prev.map(candidate =>
+          candidate.nonce === nonce
+            ? { ...candidate, status: 'failed', error: errorMsg }
+            : candidate
+        )
+      );
+    }
+  };
+
+  const discardMessage = (nonce: string) => {
+    setOutgoing(prev => prev.filter(entry => entry.nonce !== nonce));
+  };
+
+  const joinChannels = useCallback((channelIds: string[]) => {
+    log.info({ channelIds }, 'ChatContext: Joining channels');
+
+    try {
+      globalConnectionManager.subscribe(channelIds);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to join channels';
+      log.error({ error: err, channelIds }, errorMsg);
+      setError(errorMsg);
+    }
+  }, []);
+
+  const leaveChannels = (channelIds: string[]) => {
+    log.info({ channelIds }, 'ChatContext: Leaving channels');
+
+    try {
+      globalConnectionManager.unsubscribe(channelIds);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to leave channels';
+      log.error({ error: err, channelIds }, errorMsg);
+      setError(errorMsg);
+    }
+  };
+
+  const loadThread = (channelId: string, messageId: string) => {
+    const key = threadKey(channelId, messageId);
+    log.info({ channelId, messageId }, 'ChatContext: Requesting thread');
+    setThreads(prev => ({
+      ...prev,
+      [key]: {
+        loading: true,
+        parent: prev[key]?.parent ?? null,
+        replies: prev[key]?.replies ?? [],
+      },
+    }));
+
+    try {
+      globalConnectionManager.requestThread({ channelId, messageId });
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to load thread';
+      log.error({ error: err, channelId, messageId }, errorMsg);
+      setError(errorMsg);
+      setThreads(prev => ({
+        ...prev,
+        [key]: { ...prev[key], loading: false },
+      }));
+    }
+  };
+
+  const editMessage = (
+    channelId: string,
+    messageId: string,
+    content: string
+  ) => {
+    log.info({ channelId, messageId }, 'ChatContext: User editing message');
+
+    try {
+      globalConnectionManager.editMessage(channelId, messageId, content);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to edit message';
+      log.error({ error: err, channelId, messageId }, errorMsg);
+      setError(errorMsg);
+    }
+  };
+
+  const deleteMessage = (channelId: string, messageId: string) => {
+    log.info({ channelId, messageId }, 'ChatContext: User deleting message');
+
+    try {
+      globalConnectionManager.deleteMessage(channelId, messageId);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to delete message';
+      log.error({ error: err, channelId, messageId }, errorMsg);
+      setError(errorMsg);
+    }
+  };
+
+  const setReaction = (
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ) => {
+    try {
+      globalConnectionManager.setReaction(channelId, messageId, emoji, reacted);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to send reaction';
+      log.error({ error: err, channelId, messageId }, errorMsg);
+      setError(errorMsg);
+    }
+  };
+
+  const sendTyping = (channelId: string) => {
+    globalConnectionManager.sendTyping(channelId);
+  };
+
+  const getTypingText = (
+    channelId: string,
+    names?: ReadonlyMap<string, string>
+  ) => describeTyping(typingUsers[channelId] ?? [], names);
+
+  // Stable so member lists can ask again only when their members change
+  const watchPresence = useCallback((userIds: string[]) => {
+    if (userIds.length > 0) {
+      globalConnectionManager.queryPresence(userIds);
+    }
+  }, []);
+
+  // Stable so an open channel can mark itself read whenever it changes
+  const markRead = useCallback((channelId: string, messageId: string) => {
+    globalConnectionManager.markRead(channelId, messageId);
+  }, []);
+
+  const loadHistory = (channelId: string, before?: string) => {
+    if (history[channelId]?.loading) {
+      return;
+    }
+
+    log.info({ channelId, before }, 'ChatContext: Requesting channel history');
+    setHistory(prev => ({
+      ...prev,
+      [channelId]: {
+        loading: true,
+        hasMore: prev[channelId]?.hasMore ?? true,
+      },
+    }));
+
+    try {
+      globalConnectionManager.requestHistory({ channelId, before });
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : 'Failed to load history';
+      log.error({ error: err, channelId }, errorMsg);
+      setError(errorMsg);
+      setHistory(prev => ({
+        ...prev,
+        [channelId]: {
+          loading: false,
+          hasMore: prev[channelId]?.hasMore ?? true,
+        },
+      }));
+    }
+  };
+
   const contextValue: ChatContextState = {
     connectionStatus,
     isConnected: connectionStatus?.isConnected || false,
     confirmedChannels: connectionStatus?.confirmedChannels || [],
     messages,
+    history,
+    threads,
+    typingUsers,
+    presence,
+    inbox,
+    outgoing,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    setReaction,
+    loadHistory,
+    loadThread,
+    joinChannels,
+    leaveChannels,
+    sendTyping,
+    getTypingText,
+    watchPresence,
+    markRead,
     isInitialized,
     error,
   };
@@ -1,23 +1,124 @@
 'use client';
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
 import User from '../models/User';
+import {
+  authService,
+  AuthSession,
+  SignupRequest,
+} from '../services/auth-service';
+import { chatService } from '../services/chat-service';
+import { shutdownConnection } from '../init/connection-init';
+import logger from '@/logger';
+
+const log = logger.child({ module: 'userContext' });
+
+// Access tokens live 15 minutes; refresh well before they expire
+const SESSION_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
 
 interface UserContextType {
   currentUser: User | null;
   setCurrentUser: (user: User | null) => void;
+  isRestoring: boolean;
+  login: (username: string, password: string) => Promise<string | null>;
+  signup: (request: SignupRequest) => Promise<string | null>;
+  logout: () => Promise<void>;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 export function UserProvider({ children }: { children: ReactNode }) {
-  // For now, create a default user
-  const [currentUser, setCurrentUser] = useState<User | null>(
-    new User('You', 'temp-user-id', '/pfp.png')
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  const applySession = useCallback((session: AuthSession | undefined) => {
+    chatService.setAuthToken(session?.accessToken ?? null);
+    setCurrentUser(session?.user ?? null);
+  }, []);
+
+  // Resume a previous session from the stored refresh token
+  useEffect(() => {
+    if (!authService.hasStoredSession()) {
+      setIsRestoring(false);
+      return;
+    }
+
+    let mounted = true;
+    authService.refresh().then(result => {
+      if (!mounted) return;
+      if (result.error) {
+        log.warn({ error: result.error }, 'Could not restore session');
+      }
+      applySession(result.data);
+      setIsRestoring(false);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [applySession]);
+
+  // Keep the access token fresh while logged in
+  useEffect(() => {
+    if (!currentUser) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      const result = await authService.refresh();
+      if (result.data) {
+        chatService.setAuthToken(result.data.accessToken);
+      } else if (result.status === 401) {
+        log.warn({ error: result.error }, 'Session expired');
+        applySession(undefined);
+      }
+    }, SESSION_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [currentUser, applySession]);
+
+  const login = useCallback(
+    async (username: string, password: string) => {
+      const result = await authService.login(username, password);
+      applySession(result.data);
+      return result.error ?? null;
+    },
+    [applySession]
   );
 
+  const signup = useCallback(
+    async (request: SignupRequest) => {
+      const result = await authService.signup(request);
+      applySession(result.data);
+      return result.error ?? null;
+    },
+    [applySession]
+  );
+
+  const logout = useCallback(async () => {
+    await shutdownConnection();
+    await authService.logout();
+    applySession(undefined);
+  }, [applySession]);
+
   return (
-    <UserContext.Provider value={{ currentUser, setCurrentUser }}>
+    <UserContext.Provider
+      value={{
+        currentUser,
+        setCurrentUser,
+        isRestoring,
+        login,
+        signup,
+        logout,
+      }}
+    >
       {children}
     </UserContext.Provider>
   );
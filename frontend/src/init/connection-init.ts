@@ -12,6 +12,8 @@ export function initializeConnection(): Promise<void> {
 }
 
 export function shutdownConnection(): Promise<void> {
+  // Allow a fresh connection, e.g. after logging in again
+  initPromise = null;
   return globalConnectionManager.shutdown();
 }
 
@@ -1,18 +1,80 @@
 import logger from '@/logger';
 import {
-  Message,
+  FEATURES,
+  Feature,
+  LEGACY_FEATURES,
+  LEGACY_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  allowsMessageType,
+  isFeature,
+} from '@chime/protocol';
+import { v4 as uuidv4 } from 'uuid';
+import {
   ChimeMessage,
+  ClientMessage,
+  ClientMessageInput,
+  HistoryRequest,
+  InboxEntry,
+  PresenceStatus,
+  Reactions,
+  ThreadRequest,
+  ServerMessage,
+  isNewerMessageId,
   parseMessage,
-  validateMessage,
 } from '@/types/Message';
 import {
   WebSocketTransport,
   ConnectionState,
   WebSocketTransportHandlers,
 } from './websocket/WebsocketTransport';
+import { SubscriptionHandler } from './websocket/SubscriptionHandler';
 
 const log = logger.child({ module: 'chimeClient' });
 
+// Messages fetched per history page when catching up after a reconnect
+const CATCH_UP_PAGE_SIZE = 100;
+// How long a sent chat message may go unacknowledged before it has failed
+const SEND_TIMEOUT_MS = 10000;
+// How often we ping a server that supports heartbeats, and how long it may
+// stay silent afterwards before the connection counts as dead
+const HEARTBEAT_INTERVAL_MS = 25000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+
+/**
+ * The newest message ID in each channel among the messages
+ */
+function latestPerChannel(messages: ChimeMessage[]): Map<string, string> {
+  const latest = new Map<string, string>();
+  for (const { channelId, messageId } of messages) {
+    const current = latest.get(channelId);
+    if (!current || isNewerMessageId(messageId, current)) {
+      latest.set(channelId, messageId);
+    }
+  }
+  return latest;
+}
+
+/**
+ * A chat message we sent, or will send once connected, that the server has
+ * not acknowledged yet
+ */
+export interface OutgoingMessage {
+  nonce: string;
+  channelId: string;
+  content: string;
+  replyTo?: string;
+}
+
+/**
+ * Progress of the chat service's reconnection after a dropped connection;
+ * `delayMs` is null once it has given up
+ */
+export interface ReconnectStatus {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number | null;
+}
+
 /**
  * Connection status information
  */
@@ -20,6 +82,7 @@ export interface ConnectionStatus {
   state: ConnectionState;
   isConnected: boolean;
   confirmedChannels: string[];
+  reconnect?: ReconnectStatus;
 }
 
 /**
@@ -27,7 +90,31 @@ export interface ConnectionStatus {
  */
 export interface ChimeClientHandlers {
   onChatMessage?: (message: ChimeMessage) => void;
+  onAck?: (nonce: string, channelId: string, messageId: string) => void;
+  onSendFailed?: (nonce: string, error: string) => void;
+  onMissedMessages?: (messages: ChimeMessage[]) => void;
+  onHistory?: (
+    channelId: string,
+    messages: ChimeMessage[],
+    hasMore: boolean
+  ) => void;
+  onThread?: (parent: ChimeMessage, replies: ChimeMessage[]) => void;
+  onMessageUpdated?: (message: ChimeMessage) => void;
+  onMessageDeleted?: (message: ChimeMessage) => void;
+  onReactionsUpdated?: (
+    channelId: string,
+    messageId: string,
+    reactions: Reactions
+  ) => void;
+  onUserTyping?: (
+    channelId: string,
+    userId: string,
+    expiresInMs: number
+  ) => void;
+  onPresence?: (statuses: Record<string, PresenceStatus>) => void;
+  onInbox?: (inbox: Record<string, InboxEntry>) => void;
   onConnected?: (channels: string[]) => void;
+  onChannelsChanged?: (channels: string[]) => void;
   onError?: (error: string, details?: string) => void;
   onDisconnected?: () => void;
 }
@@ -38,10 +125,26 @@ export interface ChimeClientHandlers {
 export default class ChimeClient {
   private transport: WebSocketTransport;
   private handlers: ChimeClientHandlers = {};
-  private confirmedChannels: string[] = [];
+  private subscriptions: SubscriptionHandler;
+  private requestedChannels: string[] = [];
   private isHandshakeComplete: boolean = false;
+  private userId: string | null = null; // As confirmed by the server
+  // Features the server agreed to in its last connected reply
+  private serverFeatures: ReadonlySet<Feature> = new Set(LEGACY_FEATURES);
+  private channelsBeforeDrop: string[] = []; // Confirmed when the connection last dropped
+  private lastSeen = new Map<string, string>(); // channelId => newest messageId received
+  private catchingUp = new Set<string>(); // Channels whose history pages fill a gap
+  private outbox = new Map<string, OutgoingMessage>(); // nonce => unacknowledged sends, oldest first
+  private sendTimeouts = new Map<string, ReturnType<typeof setTimeout>>(); // nonce => ack deadline
+  private lastHeardAt = 0; // When the server last sent us anything
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private heartbeatDeadline: ReturnType<typeof setTimeout> | null = null;
 
   constructor(serverUrl: string) {
+    this.subscriptions = new SubscriptionHandler(channels =>
+      this.handlers.onChannelsChanged?.(channels)
+    );
+
     const transportHandlers: WebSocketTransportHandlers = {
       onMessage: data => this.handleRawMessage(data),
       onOpen: () => log.debug('Transport connection opened'),
@@ -61,15 +164,20 @@ export default class ChimeClient {
   }
 
   /**
-   * Connect and perform handshake with user's channels
+   * Connect and perform handshake with user's channels, authenticated by the
+   * access token issued by the API
    */
-  async connect(userChannels: string[] = ['general']): Promise<void> {
+  async connect(
+    token: string,
+    userChannels: string[] = ['general']
+  ): Promise<void> {
     try {
       // Connect transport layer
       await this.transport.connect();
 
       // Send handshake
-      this.sendHandshake(userChannels);
+      this.requestedChannels = [...userChannels];
+      this.sendHandshake(userChannels, token);
 
       log.info({ userChannels }, 'Connection initiated, handshake sent');
     } catch (error) {
@@ -82,34 +190,194 @@ export default class ChimeClient {
   }
 
   /**
-   * Send a chat message
+   * Connect again after the connection dropped, rejoining the channels the
+   * server had confirmed and catching up on what each missed since its
+   * newest message we received
+   */
+  async reconnect(token: string): Promise<void> {
+    const channels =
+      this.channelsBeforeDrop.length > 0
+        ? this.channelsBeforeDrop
+        : this.requestedChannels;
+
+    log.info({ channels }, 'Reconnecting');
+    await this.connect(token, channels);
+  }
+
+  /**
+   * Send a chat message, optionally as a reply to another message in the
+   * same channel. While offline it is queued and sent once we reconnect.
+   * Returns the nonce that onAck or onSendFailed will report; pass it back
+   * in to retry the same message.
    */
-  sendChatMessage(channelId: string, content: string): void {
+  sendChatMessage(
+    channelId: string,
+    content: string,
+    replyTo?: string,
+    nonce: string = uuidv4()
+  ): string {
+    const outgoing: OutgoingMessage = { nonce, channelId, content, replyTo };
+    this.outbox.set(nonce, outgoing);
+
+    if (this.isConnected()) {
+      this.transmit(outgoing);
+    } else {
+      log.info({ channelId, nonce }, 'Offline, chat message queued');
+    }
+    return nonce;
+  }
+
+  /**
+   * Join channels mid-session; confirmed via onChannelsChanged
+   */
+  subscribe(channels: string[]): void {
     if (!this.isConnected()) {
       throw new Error('Not connected to server');
     }
 
-    const message: Message = {
-      type: 'message',
-      message: {
-        channelId,
-        messageId: '', // Server will assign
-        userId: '', // Server will assign based on auth
-        content,
-        createdAt: new Date().toISOString(),
-        editedAt: null,
-        metadata: {},
-      },
-    };
+    this.sendMessage({ type: 'subscribe', channels });
+    log.info({ channels }, 'Subscribe requested');
+  }
 
-    this.sendMessage(message);
-    log.info({ channelId, contentLength: content.length }, 'Chat message sent');
+  /**
+   * Leave channels mid-session; confirmed via onChannelsChanged
+   */
+  unsubscribe(channels: string[]): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'unsubscribe', channels });
+    log.info({ channels }, 'Unsubscribe requested');
+  }
+
+  /**
+   * Request a page of a channel's message history; the page arrives via onHistory
+   */
+  requestHistory(request: HistoryRequest): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'history', request });
+    log.debug({ ...request }, 'History requested');
+  }
+
+  /**
+   * Request every reply to a message; they arrive via onThread
+   */
+  requestThread(request: ThreadRequest): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'thread', request });
+    log.debug({ ...request }, 'Thread requested');
+  }
+
+  /**
+   * Replace the content of one of our own messages; the updated message
+   * arrives via onMessageUpdated
+   */
+  editMessage(channelId: string, messageId: string, content: string): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({
+      type: 'edit',
+      edit: { channelId, messageId, content },
+    });
+    log.info({ channelId, messageId }, 'Message edit sent');
+  }
+
+  /**
+   * Delete a message; its tombstone arrives via onMessageDeleted
+   */
+  deleteMessage(channelId: string, messageId: string): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'delete', deletion: { channelId, messageId } });
+    log.info({ channelId, messageId }, 'Message deletion sent');
+  }
+
+  /**
+   * Add or remove the current user's reaction; the message's new reaction
+   * set arrives via onReactionsUpdated
+   */
+  setReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({
+      type: reacted ? 'react' : 'unreact',
+      reaction: { channelId, messageId, emoji },
+    });
+    log.debug({ channelId, messageId, emoji, reacted }, 'Reaction sent');
+  }
+
+  /**
+   * Tell the channel the current user is typing; callers should throttle,
+   * since each notice only lasts a few seconds anyway
+   */
+  sendTyping(channelId: string): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'typing', channelId });
+  }
+
+  /**
+   * Report whether the user is active; the server marks them online on
+   * connect and offline when their last connection closes
+   */
+  setPresence(status: 'online' | 'idle'): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'setPresence', status });
+    log.debug({ status }, 'Presence sent');
+  }
+
+  /**
+   * Ask for the current status of some users; the answer arrives via
+   * onPresence, as do later changes for members of subscribed channels
+   */
+  queryPresence(userIds: string[]): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'presenceQuery', userIds });
+  }
+
+  /**
+   * Tell the server the user has seen a channel up to a message; the new
+   * counts arrive via onInbox
+   */
+  markRead(channelId: string, messageId: string): void {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to server');
+    }
+
+    this.sendMessage({ type: 'markRead', channelId, messageId });
+    log.debug({ channelId, messageId }, 'Read marker sent');
   }
 
   /**
    * Send a generic Message
    */
-  sendMessage(message: Message): void {
+  sendMessage(message: ClientMessage): void {
     // Allow handshake messages when transport is connected but handshake isn't complete
     const canSend =
       message.type === 'connect'
@@ -120,6 +388,15 @@ export default class ChimeClient {
       throw new Error('Not connected to server');
     }
 
+    // Servers without the feature would reject the message outright
+    if (!allowsMessageType(this.serverFeatures, message.type)) {
+      log.warn(
+        { messageType: message.type },
+        'Server does not support this message, not sending it'
+      );
+      return;
+    }
+
     try {
       const data = JSON.stringify(message);
       this.transport.send(data);
@@ -138,6 +415,7 @@ export default class ChimeClient {
   disconnect(): void {
     this.transport.disconnect();
     this.resetState();
+    this.outbox.clear();
   }
 
   /**
@@ -154,24 +432,36 @@ export default class ChimeClient {
     return {
       state: this.transport.getState(),
       isConnected: this.isConnected(),
-      confirmedChannels: [...this.confirmedChannels],
+      confirmedChannels: this.subscriptions.getConfirmedChannels(),
     };
   }
 
+  /**
+   * The user the server authenticated us as, once connected
+   */
+  getUserId(): string | null {
+    return this.userId;
+  }
+
   /**
    * Get confirmed channels
    */
   getChannels(): string[] {
-    return [...this.confirmedChannels];
+    return this.subscriptions.getConfirmedChannels();
   }
 
   /**
    * Send handshake message
    */
-  private sendHandshake(channels: string[]): void {
-    const message: Message = {
+  private sendHandshake(channels: string[], token: string): void {
+    const message: ClientMessage = {
       type: 'connect',
-      config: { channels },
+      config: {
+        channels,
+        token,
+        protocolVersion: PROTOCOL_VERSION,
+        features: [...FEATURES],
+      },
     };
 
     this.sendMessage(message);
@@ -182,6 +472,7 @@ export default class ChimeClient {
    * Handle raw WebSocket message data
    */
   private handleRawMessage(data: string): void {
+    this.lastHeardAt = Date.now();
     try {
       const message = parseMessage(data);
       this.handleMessage(message);
@@ -195,30 +486,67 @@ export default class ChimeClient {
   /**
    * Handle parsed Message objects
    */
-  private handleMessage(message: Message): void {
-    const validation = validateMessage(message);
-    if (!validation.valid) {
-      const errorMsg = `Invalid message: ${validation.errors.join(', ')}`;
-      log.error({ message, errors: validation.errors }, errorMsg);
-      this.handlers.onError?.(errorMsg);
-      return;
-    }
-
+  private handleMessage(message: ServerMessage): void {
     log.debug({ messageType: message.type }, 'Processing message');
 
     switch (message.type) {
       case 'message':
         this.handleChatMessage(message);
         break;
+      case 'missedMessages':
+        this.handleMissedMessages(message);
+        break;
+      case 'ack':
+        this.handleAck(message);
+        break;
       case 'connected':
         this.handleConnectionResponse(message);
         break;
+      case 'subscribed':
+        this.subscriptions.handleSubscribed(message.channels);
+        if (message.inbox) {
+          this.handlers.onInbox?.(message.inbox);
+        }
+        break;
+      case 'unsubscribed':
+        this.subscriptions.handleUnsubscribed(message.channels);
+        break;
+      case 'historyResponse':
+        this.handleHistoryResponse(message);
+        break;
+      case 'threadResponse':
+        this.handleThreadResponse(message);
+        break;
+      case 'messageUpdated':
+        this.handleMessageUpdated(message);
+        break;
+      case 'messageDeleted':
+        this.handleMessageDeleted(message);
+        break;
+      case 'reactionsUpdated':
+        this.handleReactionsUpdated(message);
+        break;
+      case 'userTyping':
+        this.handleUserTyping(message);
+        break;
+      case 'presence':
+        this.handlers.onPresence?.({ [message.userId]: message.status });
+        break;
+      case 'presenceState':
+        this.handlers.onPresence?.(message.statuses);
+        break;
+      case 'readState': {
+        const { channelId, lastReadId, unread, mentions } = message;
+        this.handlers.onInbox?.({
+          [channelId]: { lastReadId, unread, mentions },
+        });
+        break;
+      }
+      case 'pong':
+        break; // Only shows the link is alive, already noted on receipt
       case 'error':
         this.handleErrorResponse(message);
         break;
-      case 'connect':
-        log.debug('Received connect message (client-to-server only)');
-        break;
     }
   }
 
@@ -226,7 +554,7 @@ export default class ChimeClient {
    * Handle incoming chat messages
    */
   private handleChatMessage(
-    message: Extract<Message, { type: 'message' }>
+    message: Extract<ServerMessage, { type: 'message' }>
   ): void {
     log.info(
       {
@@ -237,50 +565,378 @@ export default class ChimeClient {
       'Chat message received'
     );
 
+    this.noteSeen([message.message]);
     this.handlers.onChatMessage?.(message.message);
+    this.acknowledge([message.message]);
+  }
+
+  /**
+   * Handle messages the server queued for us while we were away
+   */
+  private handleMissedMessages(
+    message: Extract<ServerMessage, { type: 'missedMessages' }>
+  ): void {
+    log.info({ count: message.messages.length }, 'Missed messages received');
+
+    this.noteSeen(message.messages);
+    this.handlers.onMissedMessages?.(message.messages);
+    this.acknowledge(message.messages);
+  }
+
+  /**
+   * Acknowledge delivered messages so the server stops queueing them for
+   * us. An ack covers its channel up to that message, so only the newest
+   * message per channel is sent.
+   */
+  private acknowledge(messages: ChimeMessage[]): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    latestPerChannel(messages).forEach((messageId, channelId) => {
+      this.sendMessage({ type: 'ackDelivery', channelId, messageId });
+    });
+  }
+
+  /**
+   * Remember the newest message received in each channel, where catching
+   * up starts after a reconnect
+   */
+  private noteSeen(messages: ChimeMessage[]): void {
+    latestPerChannel(messages).forEach((messageId, channelId) => {
+      const current = this.lastSeen.get(channelId);
+      if (!current || isNewerMessageId(messageId, current)) {
+        this.lastSeen.set(channelId, messageId);
+      }
+    });
+  }
+
+  /**
+   * Ask for everything after the newest message we have in each channel.
+   * Channels we never received anything in have nothing to catch up on;
+   * their history loads when opened.
+   */
+  private catchUp(channels: string[]): void {
+    for (const channelId of channels) {
+      const after = this.lastSeen.get(channelId);
+      if (!after) {
+        continue;
+      }
+
+      this.catchingUp.add(channelId);
+      this.sendMessage({
+        type: 'history',
+        request: { channelId, after, limit: CATCH_UP_PAGE_SIZE },
+      });
+      log.debug({ channelId, after }, 'Catching up on channel');
+    }
+  }
+
+  /**
+   * Handle a page of message history from server
+   */
+  private handleHistoryResponse(
+    message: Extract<ServerMessage, { type: 'historyResponse' }>
+  ): void {
+    log.info(
+      {
+        channelId: message.channelId,
+        count: message.messages.length,
+        hasMore: message.hasMore,
+      },
+      'History page received'
+    );
+
+    this.noteSeen(message.messages);
+
+    // Catch-up pages are news to the user rather than older history
+    if (this.catchingUp.delete(message.channelId)) {
+      if (message.messages.length > 0) {
+        this.handlers.onMissedMessages?.(message.messages);
+        this.acknowledge(message.messages);
+      }
+      if (message.hasMore) {
+        this.catchUp([message.channelId]);
+      }
+      return;
+    }
+
+    this.handlers.onHistory?.(
+      message.channelId,
+      message.messages,
+      message.hasMore
+    );
+  }
+
+  /**
+   * Handle the replies to a message from server
+   */
+  private handleThreadResponse(
+    message: Extract<ServerMessage, { type: 'threadResponse' }>
+  ): void {
+    log.info(
+      {
+        channelId: message.channelId,
+        messageId: message.parent.messageId,
+        count: message.replies.length,
+      },
+      'Thread received'
+    );
+
+    this.handlers.onThread?.(message.parent, message.replies);
+  }
+
+  /**
+   * Handle an edited message
+   */
+  private handleMessageUpdated(
+    message: Extract<ServerMessage, { type: 'messageUpdated' }>
+  ): void {
+    log.info(
+      {
+        channelId: message.message.channelId,
+        messageId: message.message.messageId,
+      },
+      'Message update received'
+    );
+
+    this.handlers.onMessageUpdated?.(message.message);
+  }
+
+  /**
+   * Handle a deleted message's tombstone
+   */
+  private handleMessageDeleted(
+    message: Extract<ServerMessage, { type: 'messageDeleted' }>
+  ): void {
+    log.info(
+      {
+        channelId: message.message.channelId,
+        messageId: message.message.messageId,
+      },
+      'Message deletion received'
+    );
+
+    this.handlers.onMessageDeleted?.(message.message);
+  }
+
+  /**
+   * Handle a message's new reaction set
+   */
+  private handleReactionsUpdated(
+    message: Extract<ServerMessage, { type: 'reactionsUpdated' }>
+  ): void {
+    log.debug(
+      { channelId: message.channelId, messageId: message.messageId },
+      'Reactions update received'
+    );
+
+    this.handlers.onReactionsUpdated?.(
+      message.channelId,
+      message.messageId,
+      message.reactions
+    );
+  }
+
+  /**
+   * Handle another channel member's typing notice
+   */
+  private handleUserTyping(
+    message: Extract<ServerMessage, { type: 'userTyping' }>
+  ): void {
+    this.handlers.onUserTyping?.(
+      message.channelId,
+      message.userId,
+      message.expiresInMs
+    );
   }
 
   /**
    * Handle connection confirmation from server
    */
   private handleConnectionResponse(
-    message: Extract<Message, { type: 'connected' }>
+    message: Extract<ServerMessage, { type: 'connected' }>
   ): void {
-    this.confirmedChannels = [...message.channels];
     this.isHandshakeComplete = true;
+    this.userId = message.userId;
+    this.serverFeatures = new Set(
+      message.features?.filter(isFeature) ?? LEGACY_FEATURES
+    );
+    this.subscriptions.handleChannelConfirmation(
+      this.requestedChannels,
+      message.channels
+    );
 
     log.info(
       {
         userId: message.userId,
         channels: message.channels,
+        protocolVersion: message.protocolVersion ?? LEGACY_PROTOCOL_VERSION,
+        features: Array.from(this.serverFeatures),
       },
       'Handshake completed, connection confirmed'
     );
 
+    this.startHeartbeat();
     this.handlers.onConnected?.(message.channels);
+    if (message.inbox) {
+      this.handlers.onInbox?.(message.inbox);
+    }
+    this.catchUp(message.channels);
+    this.flushOutbox();
   }
 
   /**
    * Handle error messages from server
    */
   private handleErrorResponse(
-    message: Extract<Message, { type: 'error' }>
+    message: Extract<ServerMessage, { type: 'error' }>
   ): void {
     log.error(
       {
         error: message.message,
         details: message.details,
+        code: message.code,
+        nonce: message.nonce,
       },
       'Server error received'
     );
 
+    // A rejected send belongs to that message, not the connection
+    if (message.nonce) {
+      this.failSend(message.nonce, message.message);
+      return;
+    }
+
     this.handlers.onError?.(message.message, message.details);
   }
 
+  /**
+   * Handle the server confirming it saved one of our chat messages
+   */
+  private handleAck(message: Extract<ServerMessage, { type: 'ack' }>): void {
+    clearTimeout(this.sendTimeouts.get(message.nonce));
+    this.sendTimeouts.delete(message.nonce);
+    this.outbox.delete(message.nonce);
+
+    log.debug(
+      { nonce: message.nonce, messageId: message.messageId },
+      'Chat message acknowledged'
+    );
+    this.handlers.onAck?.(message.nonce, message.channelId, message.messageId);
+  }
+
+  /**
+   * Write a chat message to the socket and start waiting for its ack
+   */
+  private transmit(outgoing: OutgoingMessage): void {
+    const { nonce, channelId, content, replyTo } = outgoing;
+
+    // The server assigns the ID and author, and stores replyTo in metadata
+    const chatMessage: ClientMessageInput = { channelId, content, nonce };
+    if (replyTo) {
+      chatMessage.replyTo = replyTo;
+    }
+
+    try {
+      this.sendMessage({ type: 'message', message: chatMessage });
+    } catch (error) {
+      this.failSend(
+        nonce,
+        error instanceof Error ? error.message : 'Send failed'
+      );
+      return;
+    }
+
+    clearTimeout(this.sendTimeouts.get(nonce));
+    this.sendTimeouts.set(
+      nonce,
+      setTimeout(
+        () => this.failSend(nonce, 'No response from server'),
+        SEND_TIMEOUT_MS
+      )
+    );
+    log.info(
+      { channelId, contentLength: content.length, replyTo, nonce },
+      'Chat message sent'
+    );
+  }
+
+  /**
+   * Give up on a send; the caller may retry it with the same nonce
+   */
+  private failSend(nonce: string, error: string): void {
+    clearTimeout(this.sendTimeouts.get(nonce));
+    this.sendTimeouts.delete(nonce);
+    if (!this.outbox.delete(nonce)) {
+      return;
+    }
+
+    log.warn({ nonce, error }, 'Chat message failed');
+    this.handlers.onSendFailed?.(nonce, error);
+  }
+
+  /**
+   * Send everything queued while offline, and whatever was in flight when
+   * the connection dropped, in the order it was written
+   */
+  private flushOutbox(): void {
+    if (this.outbox.size > 0) {
+      log.info({ count: this.outbox.size }, 'Sending queued chat messages');
+    }
+    Array.from(this.outbox.values()).forEach(outgoing =>
+      this.transmit(outgoing)
+    );
+  }
+
+  /**
+   * Ping the server periodically and drop the connection if it stops
+   * answering, since a half-open socket may never report that it closed
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    if (!this.serverFeatures.has('heartbeat')) {
+      return;
+    }
+
+    this.lastHeardAt = Date.now();
+    this.heartbeat = setInterval(() => {
+      const sentAt = Date.now();
+      try {
+        this.transport.send(JSON.stringify({ type: 'ping' }));
+      } catch (error) {
+        log.debug({ error }, 'Failed to send heartbeat');
+      }
+
+      clearTimeout(this.heartbeatDeadline ?? undefined);
+      this.heartbeatDeadline = setTimeout(() => {
+        if (this.lastHeardAt < sentAt) {
+          log.warn(
+            { silentForMs: Date.now() - this.lastHeardAt },
+            'Server stopped answering heartbeats, dropping connection'
+          );
+          this.transport.drop();
+        }
+      }, HEARTBEAT_TIMEOUT_MS);
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.heartbeatDeadline) {
+      clearTimeout(this.heartbeatDeadline);
+      this.heartbeatDeadline = null;
+    }
+  }
+
   /**
    * Handle transport disconnection
    */
   private handleDisconnection(): void {
+    this.channelsBeforeDrop = this.subscriptions.getConfirmedChannels();
     this.resetState();
     this.handlers.onDisconnected?.();
     log.info('Disconnected from server');
@@ -290,8 +946,14 @@ export default class ChimeClient {
    * Reset client state
    */
   private resetState(): void {
-    this.confirmedChannels = [];
+    this.subscriptions.reset();
     this.isHandshakeComplete = false;
+    this.userId = null;
+    this.catchingUp.clear();
+    this.stopHeartbeat();
+    // Unacknowledged sends stay in the outbox and go out again on reconnect
+    this.sendTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.sendTimeouts.clear();
   }
 }
 
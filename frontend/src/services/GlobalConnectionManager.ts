@@ -1,21 +1,75 @@
 import { EventEmitter } from '../util/EventEmitter';
 import { chatService, ChatServiceHandlers } from './chat-service';
 import { ConnectionStatus } from './ChimeClient';
-import { ChimeMessage, Message } from '../types/Message';
+import {
+  ChimeMessage,
+  HistoryRequest,
+  InboxEntry,
+  PresenceStatus,
+  Reactions,
+  ServerMessage,
+  ThreadRequest,
+} from '../types/Message';
 import logger from '@/logger';
 
 const log = logger.child({ module: 'globalConnectionManager' });
 
+export interface HistoryPage {
+  channelId: string;
+  messages: ChimeMessage[];
+  hasMore: boolean;
+}
+
+export interface ThreadPage {
+  channelId: string;
+  parent: ChimeMessage;
+  replies: ChimeMessage[];
+}
+
+export interface ReactionsUpdate {
+  channelId: string;
+  messageId: string;
+  reactions: Reactions;
+}
+
+export interface MessageAck {
+  nonce: string;
+  channelId: string;
+  messageId: string;
+}
+
+export interface SendFailure {
+  nonce: string;
+  error: string;
+}
+
+export interface TypingNotice {
+  channelId: string;
+  userId: string;
+  expiresInMs: number;
+}
+
 export interface ConnectionEvents {
-  'connection-status-changed': ConnectionStatus | null;
+  'connection-status-changed': ConnectionStatus | null; // Includes reconnection progress
   'message-received': ChimeMessage;
+  'message-acked': MessageAck;
+  'message-failed': SendFailure;
+  'messages-missed': ChimeMessage[];
+  'history-received': HistoryPage;
+  'thread-received': ThreadPage;
+  'message-updated': ChimeMessage;
+  'message-deleted': ChimeMessage;
+  'reactions-updated': ReactionsUpdate;
+  'user-typing': TypingNotice;
+  'presence-updated': Record<string, PresenceStatus>;
+  'inbox-updated': Record<string, InboxEntry>;
   error: string;
 }
 
 class GlobalConnectionManager extends EventEmitter {
   private static instance: GlobalConnectionManager | null = null;
   private isInitialized = false;
-  private messages: Message[] = []; // Store full Message objects
+  private messages: ServerMessage[] = []; // Store full Message objects
 
   private constructor() {
     super();
@@ -51,7 +105,7 @@ class GlobalConnectionManager extends EventEmitter {
         );
 
         // Store the full Message object
-        const fullMessage: Message = {
+        const fullMessage: ServerMessage = {
           type: 'message',
           message: message,
         };
@@ -70,6 +124,121 @@ class GlobalConnectionManager extends EventEmitter {
         this.emit('message-received', message); // Still emit ChimeMessage for compatibility
       },
 
+      onAck: (nonce, channelId, messageId) => {
+        this.emit('message-acked', { nonce, channelId, messageId });
+      },
+
+      onSendFailed: (nonce, error) => {
+        this.emit('message-failed', { nonce, error });
+      },
+
+      onMissedMessages: messages => {
+        log.info(
+          { source: 'ChatService_Handler', count: messages.length },
+          'GlobalConnectionManager: Received missed messages from ChatService'
+        );
+
+        this.messages.push(
+          ...messages.map(message => ({ type: 'message' as const, message }))
+        );
+        this.emit('messages-missed', messages);
+      },
+
+      onHistory: (channelId, messages, hasMore) => {
+        log.info(
+          {
+            source: 'ChatService_Handler',
+            channelId,
+            count: messages.length,
+            hasMore,
+          },
+          'GlobalConnectionManager: Received history page from ChatService'
+        );
+
+        const page: HistoryPage = { channelId, messages, hasMore };
+        this.emit('history-received', page);
+      },
+
+      onThread: (parent, replies) => {
+        log.info(
+          {
+            source: 'ChatService_Handler',
+            channelId: parent.channelId,
+            messageId: parent.messageId,
+            count: replies.length,
+          },
+          'GlobalConnectionManager: Received thread from ChatService'
+        );
+
+        const page: ThreadPage = {
+          channelId: parent.channelId,
+          parent,
+          replies,
+        };
+        this.emit('thread-received', page);
+      },
+
+      onMessageUpdated: message => {
+        log.info(
+          {
+            source: 'ChatService_Handler',
+            channelId: message.channelId,
+            messageId: message.messageId,
+          },
+          'GlobalConnectionManager: Received message update from ChatService'
+        );
+
+        this.replaceStoredMessage(message);
+        this.emit('message-updated', message);
+      },
+
+      onMessageDeleted: message => {
+        log.info(
+          {
+            source: 'ChatService_Handler',
+            channelId: message.channelId,
+            messageId: message.messageId,
+          },
+          'GlobalConnectionManager: Received message deletion from ChatService'
+        );
+
+        this.replaceStoredMessage(message);
+        this.emit('message-deleted', message);
+      },
+
+      onReactionsUpdated: (channelId, messageId, reactions) => {
+        log.debug(
+          { source: 'ChatService_Handler', channelId, messageId },
+          'GlobalConnectionManager: Received reactions from ChatService'
+        );
+
+        const stored = this.messages.find(
+          msg =>
+            msg.type === 'message' &&
+            msg.message.channelId === channelId &&
+            msg.message.messageId === messageId
+        );
+        if (stored?.type === 'message') {
+          this.replaceStoredMessage({ ...stored.message, reactions });
+        }
+
+        const update: ReactionsUpdate = { channelId, messageId, reactions };
+        this.emit('reactions-updated', update);
+      },
+
+      onUserTyping: (channelId, userId, expiresInMs) => {
+        const notice: TypingNotice = { channelId, userId, expiresInMs };
+        this.emit('user-typing', notice);
+      },
+
+      onPresence: statuses => {
+        this.emit('presence-updated', statuses);
+      },
+
+      onInbox: inbox => {
+        this.emit('inbox-updated', inbox);
+      },
+
       onError: error => {
         this.emit('error', error);
       },
@@ -78,6 +247,19 @@ class GlobalConnectionManager extends EventEmitter {
     chatService.setHandlers(handlers);
   }
 
+  /**
+   * Keep the stored copy current so late subscribers see edits and deletions
+   */
+  private replaceStoredMessage(message: ChimeMessage): void {
+    this.messages = this.messages.map(stored =>
+      stored.type === 'message' &&
+      stored.message.channelId === message.channelId &&
+      stored.message.messageId === message.messageId
+        ? { type: 'message', message }
+        : stored
+    );
+  }
+
   async initialize(): Promise<void> {
     if (this.isInitialized) {
       return;
@@ -107,7 +289,12 @@ class GlobalConnectionManager extends EventEmitter {
     this.removeAllListeners();
   }
 
-  sendMessage(channelId: string, content: string): void {
+  sendMessage(
+    channelId: string,
+    content: string,
+    replyTo?: string,
+    nonce?: string
+  ): string {
     if (!this.isInitialized) {
       throw new Error('Connection not initialized');
     }
@@ -116,34 +303,160 @@ class GlobalConnectionManager extends EventEmitter {
       {
         source: 'Send_Request',
         channelId,
+        replyTo,
         content: content.substring(0, 50) + (content.length > 50 ? '...' : ''),
       },
       'GlobalConnectionManager: Sending message via ChatService'
     );
 
-    chatService.sendMessage(channelId, content);
+    const sentNonce = chatService.sendMessage(
+      channelId,
+      content,
+      replyTo,
+      nonce
+    );
 
     log.info(
       {
         source: 'Send_Request',
         channelId,
+        nonce: sentNonce,
         success: true,
       },
       'GlobalConnectionManager: Message sent to ChatService'
     );
+
+    return sentNonce;
+  }
+
+  requestHistory(request: HistoryRequest): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    log.info(
+      { source: 'History_Request', ...request },
+      'GlobalConnectionManager: Requesting history via ChatService'
+    );
+
+    chatService.requestHistory(request);
+  }
+
+  requestThread(request: ThreadRequest): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    log.info(
+      { source: 'Thread_Request', ...request },
+      'GlobalConnectionManager: Requesting thread via ChatService'
+    );
+
+    chatService.requestThread(request);
+  }
+
+  editMessage(channelId: string, messageId: string, content: string): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    log.info(
+      { source: 'Edit_Request', channelId, messageId },
+      'GlobalConnectionManager: Editing message via ChatService'
+    );
+
+    chatService.editMessage(channelId, messageId, content);
+  }
+
+  deleteMessage(channelId: string, messageId: string): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    log.info(
+      { source: 'Delete_Request', channelId, messageId },
+      'GlobalConnectionManager: Deleting message via ChatService'
+    );
+
+    chatService.deleteMessage(channelId, messageId);
+  }
+
+  subscribe(channels: string[]): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    chatService.subscribe(channels);
+  }
+
+  unsubscribe(channels: string[]): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    chatService.unsubscribe(channels);
+  }
+
+  setReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ): void {
+    if (!this.isInitialized) {
+      throw new Error('Connection not initialized');
+    }
+
+    chatService.setReaction(channelId, messageId, emoji, reacted);
+  }
+
+  sendTyping(channelId: string): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    chatService.sendTyping(channelId);
+  }
+
+  setPresence(status: 'online' | 'idle'): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    chatService.setPresence(status);
+  }
+
+  queryPresence(userIds: string[]): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    chatService.queryPresence(userIds);
+  }
+
+  markRead(channelId: string, messageId: string): void {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    chatService.markRead(channelId, messageId);
   }
 
   getConnectionStatus(): ConnectionStatus | null {
     return chatService.getConnectionStatus();
   }
 
-  getMessages(): Message[] {
+  getMessages(): ServerMessage[] {
     return [...this.messages]; // Return Message objects instead of ChimeMessage
   }
 
   isConnected(): boolean {
     return chatService.isConnected();
   }
+
+  getUserId(): string | null {
+    return chatService.getUserId();
+  }
 }
 
 export const globalConnectionManager = GlobalConnectionManager.getInstance();
@@ -12,12 +12,20 @@ export interface ApiResponse<T> {
 
 class ApiClient {
   private baseUrl: string;
+  private accessToken: string | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
     log.debug({ function: 'constructor', baseUrl }, 'API client initialized');
   }
 
+  /**
+   * Set the access token sent as a bearer token with every request
+   */
+  setAccessToken(token: string | null): void {
+    this.accessToken = token;
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -34,15 +42,19 @@ class ApiClient {
       const response = await fetch(url, {
         headers: {
           'Content-Type': 'application/json',
+          ...(this.accessToken
+            ? { Authorization: `Bearer ${this.accessToken}` }
+            : {}),
           ...options.headers,
         },
         ...options,
       });
 
-      const data = await response.json();
+      // 204 No Content has no body to parse
+      const data = response.status === 204 ? undefined : await response.json();
 
       if (!response.ok) {
-        const error = data.message || `HTTP ${response.status}`;
+        const error = data?.error || data?.message || `HTTP ${response.status}`;
         log.warn(
           {
             function: 'request',
@@ -1,11 +1,22 @@
 export { apiClient } from './api-client';
+export { authService, AuthService } from './auth-service';
 export { userService, UserService } from './user-service';
 export { serverService, ServerService } from './server-service';
 export { channelService, ChannelService } from './channel-service';
 export { messageService, MessageService } from './message-service';
+export {
+  directMessageService,
+  DirectMessageService,
+} from './direct-message-service';
 
 export type { ApiResponse } from './api-client';
-export type { CreateUserRequest, UpdateUserRequest } from './user-service';
+export type {
+  AuthUser,
+  AuthResponse,
+  AuthSession,
+  SignupRequest,
+} from './auth-service';
+export type { UpdateUserRequest } from './user-service';
 export type {
   CreateServerRequest,
   UpdateServerRequest,
@@ -18,14 +29,18 @@ export type {
 } from './channel-service';
 export type {
   Message,
+  MessagesQuery,
   SendMessageRequest,
   MessagesResponse,
 } from './message-service';
+export type { DirectChannel } from './direct-message-service';
 
+import { authService } from './auth-service';
 import { userService } from './user-service';
 import { serverService } from './server-service';
 import { channelService } from './channel-service';
 import { messageService } from './message-service';
+import { directMessageService } from './direct-message-service';
 
 // Main API service class that combines all services
 export class ApiService {
@@ -33,7 +48,9 @@ export class ApiService {
     public users = userService,
     public servers = serverService,
     public channels = channelService,
-    public messages = messageService
+    public messages = messageService,
+    public auth = authService,
+    public directMessages = directMessageService
   ) {}
 }
 
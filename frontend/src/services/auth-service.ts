@@ -0,0 +1,174 @@
+import logger from '@/logger';
+import { apiClient, ApiResponse } from './api-client';
+import User from '@/models/User';
+
+const log = logger.child({ module: 'authService' });
+
+const REFRESH_TOKEN_KEY = 'chime.refreshToken';
+
+/**
+ * User as returned by the API's auth endpoints
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+  display_name?: string;
+  avatar_url?: string;
+}
+
+export interface AuthResponse {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SignupRequest {
+  username: string;
+  password: string;
+  display_name?: string;
+  avatar_url?: string;
+}
+
+/**
+ * A logged-in session: the user plus the short-lived access token
+ */
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+}
+
+export function toUser(authUser: AuthUser): User {
+  return new User(
+    authUser.display_name || authUser.username,
+    authUser.id,
+    authUser.avatar_url
+  );
+}
+
+export class AuthService {
+  // Refresh tokens are single-use, so concurrent refreshes share one request
+  private pendingRefresh: Promise<ApiResponse<AuthSession>> | null = null;
+
+  async signup(request: SignupRequest): Promise<ApiResponse<AuthSession>> {
+    log.debug({ function: 'signup', username: request.username }, 'Signing up');
+    return this.startSession(
+      'signup',
+      await apiClient.post<AuthResponse>('/auth/signup', request)
+    );
+  }
+
+  async login(
+    username: string,
+    password: string
+  ): Promise<ApiResponse<AuthSession>> {
+    log.debug({ function: 'login', username }, 'Logging in');
+    return this.startSession(
+      'login',
+      await apiClient.post<AuthResponse>('/auth/login', { username, password })
+    );
+  }
+
+  /**
+   * Trade the stored refresh token for a new session, e.g. on page load or
+   * before the access token expires. Callers refreshing at the same time get
+   * the same session.
+   */
+  refresh(): Promise<ApiResponse<AuthSession>> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshSession().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async refreshSession(): Promise<ApiResponse<AuthSession>> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return { error: 'Not logged in', status: 401 };
+    }
+
+    log.debug({ function: 'refresh' }, 'Refreshing session');
+    const result = await this.startSession(
+      'refresh',
+      await apiClient.post<AuthResponse>('/auth/refresh', { refreshToken })
+    );
+
+    // A rejected refresh token will never work again
+    if (result.status === 401) {
+      this.clearSession();
+    }
+    return result;
+  }
+
+  async logout(): Promise<void> {
+    const refreshToken = this.getRefreshToken();
+    this.clearSession();
+
+    if (refreshToken) {
+      const result = await apiClient.post<void>('/auth/logout', {
+        refreshToken,
+      });
+      if (result.error) {
+        log.warn(
+          { function: 'logout', error: result.error },
+          'Failed to revoke refresh token'
+        );
+      }
+    }
+
+    log.info({ function: 'logout' }, 'Logged out');
+  }
+
+  hasStoredSession(): boolean {
+    return this.getRefreshToken() !== null;
+  }
+
+  private startSession(
+    operation: string,
+    result: ApiResponse<AuthResponse>
+  ): ApiResponse<AuthSession> {
+    if (result.error || !result.data) {
+      log.error(
+        { function: operation, error: result.error },
+        'Authentication failed'
+      );
+      return {
+        error: result.error || 'Authentication failed',
+        status: result.status,
+      };
+    }
+
+    const { user, accessToken, refreshToken } = result.data;
+    this.storeRefreshToken(refreshToken);
+    apiClient.setAccessToken(accessToken);
+
+    log.info({ function: operation, userId: user.id }, 'Authenticated');
+    return {
+      data: { user: toUser(user), accessToken },
+      status: result.status,
+    };
+  }
+
+  private clearSession(): void {
+    apiClient.setAccessToken(null);
+    if (typeof window !== 'undefined') {
+      window.localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+  }
+
+  private getRefreshToken(): string | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    return window.localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  private storeRefreshToken(token: string): void {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(REFRESH_TOKEN_KEY, token);
+    }
+  }
+}
+
+export const authService = new AuthService();
@@ -2,17 +2,68 @@ import logger from '@/logger';
 import ChimeChatClient, {
   ChimeClientHandlers,
   ConnectionStatus,
+  ReconnectStatus,
 } from './ChimeClient';
-import { ChimeMessage } from '@/types/Message';
+import {
+  ChimeMessage,
+  HistoryRequest,
+  InboxEntry,
+  PresenceStatus,
+  Reactions,
+  ThreadRequest,
+} from '@/types/Message';
 import { apiService } from './api-service';
+import { authService } from './auth-service';
 
 const log = logger.child({ module: 'chatService' });
 
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * How long to wait before a reconnection attempt: exponential backoff
+ * capped at 30s, half of it random so clients dropped together don't all
+ * come back at once
+ */
+export function reconnectDelay(
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1),
+    RECONNECT_MAX_DELAY_MS
+  );
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
 /**
  * Chat service event handlers
  */
 export interface ChatServiceHandlers {
   onMessage?: (message: ChimeMessage) => void;
+  onAck?: (nonce: string, channelId: string, messageId: string) => void;
+  onSendFailed?: (nonce: string, error: string) => void;
+  onMissedMessages?: (messages: ChimeMessage[]) => void;
+  onHistory?: (
+    channelId: string,
+    messages: ChimeMessage[],
+    hasMore: boolean
+  ) => void;
+  onThread?: (parent: ChimeMessage, replies: ChimeMessage[]) => void;
+  onMessageUpdated?: (message: ChimeMessage) => void;
+  onMessageDeleted?: (message: ChimeMessage) => void;
+  onReactionsUpdated?: (
+    channelId: string,
+    messageId: string,
+    reactions: Reactions
+  ) => void;
+  onUserTyping?: (
+    channelId: string,
+    userId: string,
+    expiresInMs: number
+  ) => void;
+  onPresence?: (statuses: Record<string, PresenceStatus>) => void;
+  onInbox?: (inbox: Record<string, InboxEntry>) => void;
   onConnectionStatusChanged?: (status: ConnectionStatus) => void;
   onError?: (error: string, details?: string) => void;
 }
@@ -24,10 +75,12 @@ export interface ChatServiceHandlers {
 export class ChatService {
   private client: ChimeChatClient | null = null;
   private handlers: ChatServiceHandlers = {};
+  private authToken: string | null = null;
   private isInitialized: boolean = false;
   private reconnectAttempts: number = 0;
-  private readonly maxReconnectAttempts: number = 5;
+  private readonly maxReconnectAttempts: number = 10;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectStatus: ReconnectStatus | null = null;
 
   /**
    * Initialize the chat service - call this on application startup
@@ -41,6 +94,10 @@ export class ChatService {
     try {
       log.info('Initializing chat service');
 
+      if (!this.authToken) {
+        throw new Error('Not authenticated');
+      }
+
       // Get WebSocket configuration
       const wsUrl = await this.getWebSocketUrl();
 
@@ -52,7 +109,7 @@ export class ChatService {
       this.setupClientHandlers();
 
       // Connect with all channels
-      await this.client.connect(userChannels);
+      await this.client.connect(this.authToken, userChannels);
 
       this.isInitialized = true;
       this.reconnectAttempts = 0;
@@ -73,6 +130,13 @@ export class ChatService {
     }
   }
 
+  /**
+   * Set the access token presented in the WebSocket handshake
+   */
+  setAuthToken(token: string | null): void {
+    this.authToken = token;
+  }
+
   /**
    * Set event handlers for the service
    */
@@ -81,15 +145,21 @@ export class ChatService {
   }
 
   /**
-   * Send a chat message
+   * Send a chat message, optionally as a reply. Returns its nonce; while
+   * disconnected the message waits in the client until the next connect.
    */
-  sendMessage(channelId: string, content: string): void {
+  sendMessage(
+    channelId: string,
+    content: string,
+    replyTo?: string,
+    nonce?: string
+  ): string {
     if (!this.client || !this.isInitialized) {
       throw new Error('Chat service not initialized');
     }
 
     try {
-      this.client.sendChatMessage(channelId, content);
+      return this.client.sendChatMessage(channelId, content, replyTo, nonce);
     } catch (error) {
       const errorMsg =
         error instanceof Error ? error.message : 'Failed to send message';
@@ -99,11 +169,210 @@ export class ChatService {
     }
   }
 
+  /**
+   * Join channels after the handshake, e.g. those of a newly joined server;
+   * the confirmed set arrives through the connection status
+   */
+  subscribe(channels: string[]): void {
+    this.changeSubscriptions('subscribe', channels);
+  }
+
+  /**
+   * Leave channels after the handshake
+   */
+  unsubscribe(channels: string[]): void {
+    this.changeSubscriptions('unsubscribe', channels);
+  }
+
+  private changeSubscriptions(
+    action: 'subscribe' | 'unsubscribe',
+    channels: string[]
+  ): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client[action](channels);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : `Failed to ${action}`;
+      log.error({ error, channels }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Request a page of message history for a channel
+   */
+  requestHistory(request: HistoryRequest): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client.requestHistory(request);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : 'Failed to request history';
+      log.error({ error, channelId: request.channelId }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Request every reply to a message
+   */
+  requestThread(request: ThreadRequest): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client.requestThread(request);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : 'Failed to request thread';
+      log.error({ error, ...request }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit one of the current user's messages
+   */
+  editMessage(channelId: string, messageId: string, content: string): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client.editMessage(channelId, messageId, content);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : 'Failed to edit message';
+      log.error({ error, channelId, messageId }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a message the current user wrote or moderates
+   */
+  deleteMessage(channelId: string, messageId: string): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client.deleteMessage(channelId, messageId);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : 'Failed to delete message';
+      log.error({ error, channelId, messageId }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Add (reacted = true) or remove the current user's reaction to a message
+   */
+  setReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ): void {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('Chat service not initialized');
+    }
+
+    try {
+      this.client.setReaction(channelId, messageId, emoji, reacted);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : 'Failed to send reaction';
+      log.error({ error, channelId, messageId }, errorMsg);
+      this.handlers.onError?.(errorMsg);
+      throw error;
+    }
+  }
+
+  /**
+   * Best-effort typing notice; a lost one just means the indicator lapses
+   */
+  sendTyping(channelId: string): void {
+    if (!this.client || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.client.sendTyping(channelId);
+    } catch (error) {
+      log.warn({ error, channelId }, 'Failed to send typing notice');
+    }
+  }
+
+  /**
+   * Best-effort; the server still tracks connects and disconnects itself
+   */
+  setPresence(status: 'online' | 'idle'): void {
+    if (!this.client || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.client.setPresence(status);
+    } catch (error) {
+      log.warn({ error, status }, 'Failed to send presence');
+    }
+  }
+
+  queryPresence(userIds: string[]): void {
+    if (!this.client || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.client.queryPresence(userIds);
+    } catch (error) {
+      log.warn({ error, count: userIds.length }, 'Failed to query presence');
+    }
+  }
+
+  /**
+   * Best-effort; an unsent marker is retried the next time the channel is
+   * viewed with unread messages
+   */
+  markRead(channelId: string, messageId: string): void {
+    if (!this.client || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      this.client.markRead(channelId, messageId);
+    } catch (error) {
+      log.warn({ error, channelId, messageId }, 'Failed to mark read');
+    }
+  }
+
   /**
    * Get current connection status
    */
   getConnectionStatus(): ConnectionStatus | null {
-    return this.client?.getConnectionStatus() || null;
+    if (!this.client) {
+      return null;
+    }
+
+    const status = this.client.getConnectionStatus();
+    return this.reconnectStatus
+      ? { ...status, reconnect: this.reconnectStatus }
+      : status;
   }
 
   /**
@@ -120,6 +389,10 @@ export class ChatService {
     return this.client?.getChannels() || [];
   }
 
+  getUserId(): string | null {
+    return this.client?.getUserId() ?? null;
+  }
+
   /**
    * Shutdown the chat service
    */
@@ -133,6 +406,7 @@ export class ChatService {
     this.client = null;
     this.isInitialized = false;
     this.reconnectAttempts = 0;
+    this.reconnectStatus = null;
 
     log.info('Chat service shutdown');
   }
@@ -183,20 +457,15 @@ export class ChatService {
       const servers = serversResponse.data || [];
       const allChannels: string[] = [];
 
-      // Collect channels from all servers
+      // Collect channels from all servers; the chat server only accepts
+      // channels by their ID
       for (const server of servers) {
-        if (server.channels && Array.isArray(server.channels)) {
-          allChannels.push(...server.channels);
-        }
-
-        // Also try to get channels from API if server has an ID
         if (server.id) {
           try {
             const channelsResponse =
               await apiService.channels.getChannelsByServer(server.id);
             if (channelsResponse.data) {
-              const channelNames = channelsResponse.data.map(ch => ch.name);
-              allChannels.push(...channelNames);
+              allChannels.push(...channelsResponse.data.map(ch => ch.id));
             }
           } catch (error) {
             log.warn(
@@ -249,9 +518,93 @@ export class ChatService {
         this.handlers.onMessage?.(message);
       },
 
+      onAck: (nonce, channelId, messageId) => {
+        log.debug({ nonce, channelId, messageId }, 'Message acknowledged');
+        this.handlers.onAck?.(nonce, channelId, messageId);
+      },
+
+      onSendFailed: (nonce, error) => {
+        log.warn({ nonce, error }, 'Message failed to send');
+        this.handlers.onSendFailed?.(nonce, error);
+      },
+
+      onMissedMessages: messages => {
+        log.debug({ count: messages.length }, 'Missed messages received');
+        this.handlers.onMissedMessages?.(messages);
+      },
+
+      onHistory: (channelId, messages, hasMore) => {
+        log.debug(
+          {
+            channelId,
+            count: messages.length,
+            hasMore,
+          },
+          'History page received'
+        );
+        this.handlers.onHistory?.(channelId, messages, hasMore);
+      },
+
+      onThread: (parent, replies) => {
+        log.debug(
+          {
+            channelId: parent.channelId,
+            messageId: parent.messageId,
+            count: replies.length,
+          },
+          'Thread received'
+        );
+        this.handlers.onThread?.(parent, replies);
+      },
+
+      onMessageUpdated: message => {
+        log.debug(
+          {
+            channelId: message.channelId,
+            messageId: message.messageId,
+          },
+          'Message update received'
+        );
+        this.handlers.onMessageUpdated?.(message);
+      },
+
+      onMessageDeleted: message => {
+        log.debug(
+          {
+            channelId: message.channelId,
+            messageId: message.messageId,
+          },
+          'Message deletion received'
+        );
+        this.handlers.onMessageDeleted?.(message);
+      },
+
+      onReactionsUpdated: (channelId, messageId, reactions) => {
+        log.debug({ channelId, messageId }, 'Reactions update received');
+        this.handlers.onReactionsUpdated?.(channelId, messageId, reactions);
+      },
+
+      onUserTyping: (channelId, userId, expiresInMs) => {
+        this.handlers.onUserTyping?.(channelId, userId, expiresInMs);
+      },
+
+      onPresence: statuses => {
+        this.handlers.onPresence?.(statuses);
+      },
+
+      onInbox: inbox => {
+        this.handlers.onInbox?.(inbox);
+      },
+
       onConnected: channels => {
         log.info({ channels }, 'Connected to chat server');
         this.reconnectAttempts = 0;
+        this.reconnectStatus = null;
+        this.notifyStatusChange();
+      },
+
+      onChannelsChanged: channels => {
+        log.info({ channels }, 'Confirmed channels changed');
         this.notifyStatusChange();
       },
 
@@ -287,9 +640,15 @@ export class ChatService {
   }
 
   /**
-   * Attempt to reconnect with exponential backoff
+   * Schedule a reconnection attempt with backoff, unless one is already
+   * scheduled or we are still connected. Each failed attempt schedules the
+   * next until we give up.
    */
   private attemptReconnection(): void {
+    if (this.reconnectTimeout || this.isConnected()) {
+      return;
+    }
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       log.error(
         {
@@ -297,14 +656,17 @@ export class ChatService {
         },
         'Max reconnection attempts reached'
       );
+      this.reconnectStatus = {
+        attempt: this.reconnectAttempts,
+        maxAttempts: this.maxReconnectAttempts,
+        delayMs: null,
+      };
+      this.notifyStatusChange();
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = Math.min(
-      1000 * Math.pow(2, this.reconnectAttempts - 1),
-      30000
-    );
+    const delay = reconnectDelay(this.reconnectAttempts);
 
     log.info(
       {
@@ -314,22 +676,48 @@ export class ChatService {
       'Attempting reconnection'
     );
 
+    this.reconnectStatus = {
+      attempt: this.reconnectAttempts,
+      maxAttempts: this.maxReconnectAttempts,
+      delayMs: delay,
+    };
+    this.notifyStatusChange();
+
     this.reconnectTimeout = setTimeout(async () => {
+      this.reconnectTimeout = null;
       try {
-        // Clean up existing client and reset state for reconnection
-        this.client?.disconnect();
-        this.client = null;
-        this.isInitialized = false;
-
-        await this.initialize();
+        // Access tokens are short-lived, so the one we connected with may
+        // have expired while we were away
+        await this.refreshAuthToken();
+
+        // Reuse the client so it rejoins its channels and catches up on them
+        if (this.client && this.authToken) {
+          await this.client.reconnect(this.authToken);
+          this.isInitialized = true;
+        } else {
+          this.isInitialized = false;
+          await this.initialize();
+        }
       } catch (error) {
         log.error(
           { error, attempt: this.reconnectAttempts },
           'Reconnection failed'
         );
+        this.attemptReconnection();
       }
     }, delay);
   }
+
+  /**
+   * Replace the cached access token with a fresh one from the session
+   */
+  private async refreshAuthToken(): Promise<void> {
+    const session = await authService.refresh();
+    if (session.error || !session.data) {
+      throw new Error(session.error || 'Failed to refresh session');
+    }
+    this.authToken = session.data.accessToken;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,65 @@
+import logger from '@/logger';
+import { apiClient, ApiResponse } from './api-client';
+
+const log = logger.child({ module: 'directMessageService' });
+
+/**
+ * A direct conversation between users, outside any server. Its ID is also
+ * its chat channel ID.
+ */
+export interface DirectChannel {
+  id: string;
+  participants: string[];
+  created_at: string;
+}
+
+export class DirectMessageService {
+  async getDirectChannels(): Promise<ApiResponse<DirectChannel[]>> {
+    log.debug({ function: 'getDirectChannels' }, 'Fetching direct channels');
+    const result = await apiClient.get<DirectChannel[]>('/dms');
+
+    if (result.error) {
+      log.error(
+        { function: 'getDirectChannels', error: result.error },
+        'Failed to fetch direct channels'
+      );
+    } else {
+      log.info(
+        { function: 'getDirectChannels', count: result.data?.length },
+        'Successfully fetched direct channels'
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Open a DM with one user or a group DM with several; the current user is
+   * always included, and an existing conversation is returned as-is
+   */
+  async openDirectChannel(
+    userIds: string[]
+  ): Promise<ApiResponse<DirectChannel>> {
+    log.debug(
+      { function: 'openDirectChannel', userIds },
+      'Opening direct channel'
+    );
+    const result = await apiClient.post<DirectChannel>('/dms', { userIds });
+
+    if (result.error) {
+      log.error(
+        { function: 'openDirectChannel', userIds, error: result.error },
+        'Failed to open direct channel'
+      );
+    } else {
+      log.info(
+        { function: 'openDirectChannel', channelId: result.data?.id },
+        'Successfully opened direct channel'
+      );
+    }
+
+    return result;
+  }
+}
+
+export const directMessageService = new DirectMessageService();
@@ -23,6 +23,12 @@ export interface MessagesResponse {
   channelName?: string; // Channel name at response level
 }
 
+export interface MessagesQuery {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
 export interface SendMessageRequest {
   text: string;
   channelId: string;
@@ -31,14 +37,22 @@ export interface SendMessageRequest {
 
 export class MessageService {
   async getMessagesByChannel(
-    channelId: string
+    channelId: string,
+    options: MessagesQuery = {}
   ): Promise<ApiResponse<MessagesResponse>> {
     log.debug(
-      { function: 'getMessagesByChannel', channelId },
+      { function: 'getMessagesByChannel', channelId, ...options },
       'Fetching messages by channel'
     );
+
+    const params = new URLSearchParams();
+    if (options.before) params.set('before', options.before);
+    if (options.after) params.set('after', options.after);
+    if (options.limit) params.set('limit', options.limit.toString());
+    const queryString = params.toString();
+
     const result = await apiClient.get<MessagesResponse>(
-      `/messages/${channelId}`
+      `/messages/${encodeURIComponent(channelId)}${queryString ? `?${queryString}` : ''}`
     );
 
     if (result.error) {
@@ -1,14 +1,10 @@
 import logger from '@/logger';
 import { apiClient, ApiResponse } from './api-client';
 import User from '@/models/User';
+import { AuthUser, toUser } from './auth-service';
 
 const log = logger.child({ module: 'userService' });
 
-export interface CreateUserRequest {
-  handle: string;
-  profilePicture?: string;
-}
-
 export interface UpdateUserRequest {
   handle?: string;
   profilePicture?: string;
@@ -17,70 +13,41 @@ export interface UpdateUserRequest {
 export class UserService {
   async getAllUsers(): Promise<ApiResponse<User[]>> {
     log.debug({ function: 'getAllUsers' }, 'Fetching all users');
-    const result = await apiClient.get<User[]>('/users');
+    const result = await apiClient.get<AuthUser[]>('/users');
 
     if (result.error) {
       log.error(
         { function: 'getAllUsers', error: result.error },
         'Failed to fetch all users'
       );
-    } else {
-      log.info(
-        { function: 'getAllUsers', count: result.data?.length },
-        'Successfully fetched all users'
-      );
+      return { error: result.error, status: result.status };
     }
 
-    return result;
+    log.info(
+      { function: 'getAllUsers', count: result.data?.length },
+      'Successfully fetched all users'
+    );
+    return { data: (result.data ?? []).map(toUser), status: result.status };
   }
 
   async getUserById(id: string): Promise<ApiResponse<User>> {
     log.debug({ function: 'getUserById', userId: id }, 'Fetching user by ID');
-    const result = await apiClient.get<User>(`/users/${id}`);
+    const result = await apiClient.get<AuthUser>(`/users/${id}`);
 
-    if (result.error) {
+    if (result.error || !result.data) {
       log.error(
         { function: 'getUserById', userId: id, error: result.error },
         'Failed to fetch user by ID'
       );
-    } else {
-      log.info(
-        {
-          function: 'getUserById',
-          userId: id,
-          userHandle: result.data?.handle,
-        },
-        'Successfully fetched user by ID'
-      );
+      return { error: result.error, status: result.status };
     }
 
-    return result;
-  }
-
-  async createUser(userData: CreateUserRequest): Promise<ApiResponse<User>> {
-    log.debug(
-      { function: 'createUser', handle: userData.handle },
-      'Creating new user'
+    const user = toUser(result.data);
+    log.info(
+      { function: 'getUserById', userId: id, userHandle: user.handle },
+      'Successfully fetched user by ID'
     );
-    const result = await apiClient.post<User>('/users', userData);
-
-    if (result.error) {
-      log.error(
-        { function: 'createUser', userData, error: result.error },
-        'Failed to create user'
-      );
-    } else {
-      log.info(
-        {
-          function: 'createUser',
-          userId: result.data?.id,
-          handle: result.data?.handle,
-        },
-        'Successfully created user'
-      );
-    }
-
-    return result;
+    return { data: user, status: result.status };
   }
 
   async updateUser(
@@ -43,7 +43,10 @@ export class ChimeClient {
   /**
    * Connect to the WebSocket server with initial channel subscriptions
    */
-  async connect(userChannels: string[] = ['general']): Promise<void> {
+  async connect(
+    token: string,
+    userChannels: string[] = ['general']
+  ): Promise<void> {
     log.debug(
       {
         userChannels,
@@ -99,7 +102,7 @@ export class ChimeClient {
         'ChimeClient: Sending handshake message'
       );
 
-      this.messageSender.sendHandshake(userChannels);
+      this.messageSender.sendHandshake(userChannels, token);
 
       log.info(
         {
@@ -1,6 +1,6 @@
 import logger from '@/logger';
 import {
-  Message,
+  ServerMessage,
   ChimeMessage,
   parseMessage,
   validateMessage,
@@ -33,7 +33,7 @@ export class MessageHandler {
     }
   }
 
-  private validateAndRoute(message: Message): void {
+  private validateAndRoute(message: ServerMessage): void {
     const validation = validateMessage(message);
 
     if (!validation.valid) {
@@ -55,7 +55,7 @@ export class MessageHandler {
     this.routeMessage(message);
   }
 
-  private routeMessage(message: Message): void {
+  private routeMessage(message: ServerMessage): void {
     log.debug({ messageType: message.type }, 'Routing validated message');
 
     switch (message.type) {
@@ -68,16 +68,11 @@ export class MessageHandler {
       case 'error':
         this.handleErrorResponse(message);
         break;
-      case 'connect':
-        log.debug(
-          'Received connect message (ignoring - client-to-server only)'
-        );
-        break;
     }
   }
 
   private handleChatMessage(
-    message: Extract<Message, { type: 'message' }>
+    message: Extract<ServerMessage, { type: 'message' }>
   ): void {
     log.info(
       {
@@ -92,7 +87,7 @@ export class MessageHandler {
   }
 
   private handleConnectedResponse(
-    message: Extract<Message, { type: 'connected' }>
+    message: Extract<ServerMessage, { type: 'connected' }>
   ): void {
     log.info(
       {
@@ -106,7 +101,7 @@ export class MessageHandler {
   }
 
   private handleErrorResponse(
-    message: Extract<Message, { type: 'error' }>
+    message: Extract<ServerMessage, { type: 'error' }>
   ): void {
     log.error(
       {
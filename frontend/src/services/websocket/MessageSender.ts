@@ -138,10 +138,10 @@ export class MessageSender {
   /**
    * Send handshake with channel subscriptions
    */
-  sendHandshake(userChannels: string[]): void {
+  sendHandshake(userChannels: string[], token: string): void {
     const message: Message = {
       type: 'connect',
-      config: { channels: userChannels },
+      config: { channels: userChannels, token },
     };
 
     this.sendMessage(message);
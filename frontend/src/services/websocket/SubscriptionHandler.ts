@@ -75,6 +75,29 @@ export class SubscriptionHandler {
     }
   }
 
+  /**
+   * Handle the server confirming channels joined after the handshake
+   */
+  handleSubscribed(channels: string[]): void {
+    const added = channels.filter(ch => !this.confirmedChannels.includes(ch));
+    log.info({ channels, addedCount: added.length }, 'Channels subscribed');
+
+    this.confirmedChannels = [...this.confirmedChannels, ...added];
+    this.onChannelsConfirmed(this.getConfirmedChannels());
+  }
+
+  /**
+   * Handle the server confirming channels left after the handshake
+   */
+  handleUnsubscribed(channels: string[]): void {
+    log.info({ channels }, 'Channels unsubscribed');
+
+    this.confirmedChannels = this.confirmedChannels.filter(
+      ch => !channels.includes(ch)
+    );
+    this.onChannelsConfirmed(this.getConfirmedChannels());
+  }
+
   /**
    * Get currently confirmed channels from server
    */
@@ -96,6 +96,27 @@ export class WebSocketTransport {
     log.info('Disconnected from WebSocket');
   }
 
+  /**
+   * Abandon a connection that has stopped responding. Closing a half-open
+   * socket can take minutes to report back, so onClose fires right away.
+   */
+  drop(): void {
+    if (!this.ws) {
+      return;
+    }
+
+    const ws = this.ws;
+    const wasConnected = this.state === ConnectionState.CONNECTED;
+    ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+    ws.close();
+    this.cleanup();
+    log.warn('Dropped unresponsive WebSocket connection');
+
+    if (wasConnected) {
+      this.handlers.onClose();
+    }
+  }
+
   /**
    * Get current connection state
    */
@@ -1,4 +1,4 @@
-import { render, screen } from '@/test/test-utils';
+import { render, screen, fireEvent } from '@/test/test-utils';
 import Card from '@/app/components/Card';
 import User from '@/models/User';
 
@@ -32,4 +32,82 @@ describe('Card', () => {
 
     expect(cardElement).toHaveClass('hover:bg-box-highlight');
   });
+
+  it('marks edited messages', () => {
+    render(<Card user={mockUser} text={mockText} edited />);
+    expect(screen.getByText('(edited)')).toBeInTheDocument();
+  });
+
+  it('only offers editing when an edit handler is given', () => {
+    const { rerender } = render(<Card user={mockUser} text={mockText} />);
+    expect(screen.queryByText('Edit')).not.toBeInTheDocument();
+
+    rerender(<Card user={mockUser} text={mockText} onEdit={jest.fn()} />);
+    expect(screen.getByText('Edit')).toBeInTheDocument();
+  });
+
+  it('greys out deleted messages without their actions', () => {
+    render(
+      <Card
+        user={mockUser}
+        text=""
+        deleted
+        onEdit={jest.fn()}
+        onDelete={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Message deleted')).toBeInTheDocument();
+    expect(screen.queryByText('Edit')).not.toBeInTheDocument();
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+  });
+
+  it('shows the quoted parent and jumps to it on click', () => {
+    const onQuoteClick = jest.fn();
+    render(
+      <Card
+        user={mockUser}
+        text={mockText}
+        quote={{ author: 'parent-user', text: 'Original message' }}
+        onQuoteClick={onQuoteClick}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Original message'));
+    expect(onQuoteClick).toHaveBeenCalled();
+  });
+
+  it('links to the thread when a message has replies', () => {
+    const onOpenThread = jest.fn();
+    render(
+      <Card
+        user={mockUser}
+        text={mockText}
+        replyCount={2}
+        onOpenThread={onOpenThread}
+      />
+    );
+
+    fireEvent.click(screen.getByText('2 replies'));
+    expect(onOpenThread).toHaveBeenCalled();
+  });
+
+  it("shows reaction counts and toggles the current user's reaction", () => {
+    const onReact = jest.fn();
+    render(
+      <Card
+        user={mockUser}
+        text={mockText}
+        reactions={{ '👍': ['test-id', 'other-id'] }}
+        currentUserId="test-id"
+        onReact={onReact}
+      />
+    );
+
+    const chip = screen.getByText('👍 2');
+    expect(chip).toHaveAttribute('title', 'test-id, other-id');
+
+    fireEvent.click(chip);
+    expect(onReact).toHaveBeenCalledWith('👍', false);
+  });
 });
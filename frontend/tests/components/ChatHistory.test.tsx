@@ -35,4 +35,32 @@ describe('ChatHistory', () => {
     expect(screen.getByText('user1')).toBeInTheDocument();
     expect(screen.getByText('user2')).toBeInTheDocument();
   });
+
+  it('names authors and quoted authors by their display names', () => {
+    const names = new Map([['id1', 'Alice']]);
+    const history = [
+      {
+        channelId: 'general',
+        messageId: '1',
+        userId: 'id1',
+        content: 'Hello world',
+        createdAt: '2026-01-01T00:00:00.000Z',
+      },
+      {
+        channelId: 'general',
+        messageId: '2',
+        userId: 'id2',
+        content: 'Hi Alice',
+        createdAt: '2026-01-01T00:00:01.000Z',
+        metadata: { replyTo: '1' },
+      },
+    ];
+
+    render(<ChatHistory history={history} names={names} />);
+
+    // Alice's own header and the quote of her message in the reply
+    expect(screen.getAllByText('Alice')).toHaveLength(2);
+    // Authors without a known name are shown by ID
+    expect(screen.getByText('id2')).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,62 @@
+import { render, screen } from '@/test/test-utils';
+import userEvent from '@testing-library/user-event';
+import DirectMessageList from '@/app/components/DirectMessageList';
+import User from '@/models/User';
+
+jest.mock('@/contexts/ChatContext', () => ({
+  useChat: () => ({ inbox: {} }),
+}));
+
+describe('DirectMessageList', () => {
+  const usersById = new Map([
+    ['id1', new User('alice', 'id1')],
+    ['id2', new User('bob', 'id2')],
+  ]);
+
+  const renderList = (onOpen: (userIds: string[]) => Promise<void>) =>
+    render(
+      <DirectMessageList
+        directChannels={[]}
+        usersById={usersById}
+        currentUserId="id1"
+        selectedChannel={null}
+        onSelect={jest.fn()}
+        onOpen={onOpen}
+      />
+    );
+
+  it('shows why a conversation could not be opened', async () => {
+    const user = userEvent.setup();
+    const onOpen = jest.fn().mockRejectedValue(new Error('User not found'));
+    renderList(onOpen);
+
+    await user.click(screen.getByTitle('New message'));
+    await user.click(screen.getByLabelText('bob'));
+    await user.click(
+      screen.getByRole('button', { name: 'Start conversation' })
+    );
+
+    expect(onOpen).toHaveBeenCalledWith(['id2']);
+    expect(
+      await screen.findByText('Error opening conversation: User not found')
+    ).toBeInTheDocument();
+    // The picker stays open to try again
+    expect(screen.getByLabelText('bob')).toBeChecked();
+  });
+
+  it('closes the picker once the conversation is open', async () => {
+    const user = userEvent.setup();
+    renderList(jest.fn().mockResolvedValue(undefined));
+
+    await user.click(screen.getByTitle('New message'));
+    await user.click(screen.getByLabelText('bob'));
+    await user.click(
+      screen.getByRole('button', { name: 'Start conversation' })
+    );
+
+    expect(screen.queryByLabelText('bob')).not.toBeInTheDocument();
+    expect(
+      screen.queryByText(/Error opening conversation/)
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,134 @@
+import { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { ChatProvider, describeTyping, useChat } from '@/contexts/ChatContext';
+import { globalConnectionManager } from '@/services/GlobalConnectionManager';
+import { ConnectionState } from '@/services/websocket/WebsocketTransport';
+
+jest.mock('@/logger', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  };
+  return {
+    __esModule: true,
+    default: mockLogger,
+  };
+});
+
+// A real emitter, so the provider's subscriptions can be driven directly
+jest.mock('@/services/GlobalConnectionManager', () => {
+  const { EventEmitter } = jest.requireActual('@/util/EventEmitter');
+  const manager = Object.assign(new EventEmitter(), {
+    getConnectionStatus: jest.fn().mockReturnValue(null),
+    getMessages: jest.fn().mockReturnValue([]),
+    getUserId: jest.fn().mockReturnValue('user-1'),
+    requestHistory: jest.fn(),
+    setPresence: jest.fn(),
+  });
+  return { globalConnectionManager: manager };
+});
+
+describe('ChatProvider history', () => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <ChatProvider>{children}</ChatProvider>
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const requestHistory = () => {
+    const { result } = renderHook(() => useChat(), { wrapper });
+    act(() => result.current.loadHistory('general'));
+    expect(result.current.history.general.loading).toBe(true);
+    return result;
+  };
+
+  it('should stop loading once the page arrives', () => {
+    const result = requestHistory();
+
+    act(() =>
+      globalConnectionManager.emit('history-received', {
+        channelId: 'general',
+        messages: [],
+        hasMore: false,
+      })
+    );
+
+    expect(result.current.history.general).toEqual({
+      loading: false,
+      hasMore: false,
+    });
+  });
+
+  it('should stop loading when the server answers with an error', () => {
+    const result = requestHistory();
+
+    act(() =>
+      globalConnectionManager.emit('error', 'Not subscribed to channel')
+    );
+
+    expect(result.current.history.general).toEqual({
+      loading: false,
+      hasMore: true,
+    });
+    expect(result.current.error).toBe('Not subscribed to channel');
+  });
+
+  it('should stop loading when the connection drops', () => {
+    const result = requestHistory();
+
+    act(() =>
+      globalConnectionManager.emit('connection-status-changed', {
+        state: ConnectionState.DISCONNECTED,
+        isConnected: false,
+        confirmedChannels: [],
+      })
+    );
+
+    expect(result.current.history.general.loading).toBe(false);
+
+    // Loading again sends a fresh request
+    act(() => result.current.loadHistory('general'));
+    expect(globalConnectionManager.requestHistory).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('describeTyping', () => {
+  const names = new Map([
+    ['user-1', 'Alice'],
+    ['user-2', 'Bob'],
+    ['user-3', 'Carol'],
+  ]);
+
+  it('should say nothing when nobody is typing', () => {
+    expect(describeTyping([], names)).toBeNull();
+  });
+
+  it('should name typists by their display names', () => {
+    expect(describeTyping(['user-1'], names)).toBe('Alice is typing…');
+    expect(describeTyping(['user-1', 'user-2'], names)).toBe(
+      'Alice and Bob are typing…'
+    );
+    expect(describeTyping(['user-1', 'user-2', 'user-3'], names)).toBe(
+      'Alice, Bob and Carol are typing…'
+    );
+  });
+
+  it('should call typists without a known name "Someone"', () => {
+    expect(describeTyping(['stranger'], names)).toBe('Someone is typing…');
+    expect(describeTyping(['user-1', 'stranger'], names)).toBe(
+      'Alice and Someone are typing…'
+    );
+    expect(describeTyping(['user-1'])).toBe('Someone is typing…');
+  });
+
+  it('should stop naming typists beyond three', () => {
+    expect(
+      describeTyping(['user-1', 'user-2', 'user-3', 'user-4'], names)
+    ).toBe('Several people are typing…');
+  });
+});
@@ -56,7 +56,26 @@ describe('useSimpleChat', () => {
           metadata: {},
         },
       ] as ChimeMessage[],
+      history: {},
+      threads: {},
+      typingUsers: {},
+      presence: {},
+      inbox: {},
+      outgoing: [],
       sendMessage: jest.fn(),
+      retryMessage: jest.fn(),
+      discardMessage: jest.fn(),
+      editMessage: jest.fn(),
+      deleteMessage: jest.fn(),
+      setReaction: jest.fn(),
+      loadHistory: jest.fn(),
+      loadThread: jest.fn(),
+      joinChannels: jest.fn(),
+      leaveChannels: jest.fn(),
+      sendTyping: jest.fn(),
+      getTypingText: jest.fn().mockReturnValue(null),
+      watchPresence: jest.fn(),
+      markRead: jest.fn(),
     };
 
     (useChat as jest.Mock).mockReturnValue(mockChatContext);
@@ -120,6 +120,7 @@ describe('Chat Integration Tests', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    chatService.setAuthToken('test-token');
 
     // Mock successful config and API responses
     (global.fetch as jest.Mock).mockResolvedValue({
@@ -191,6 +192,7 @@ describe('Chat Integration Tests', () => {
       type: 'connect',
       config: {
         channels: ['general', 'random', 'api-channel', 'dev'],
+        token: 'test-token',
       },
     });
 
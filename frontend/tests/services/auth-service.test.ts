@@ -0,0 +1,68 @@
+import { authService } from '@/services/auth-service';
+import { apiClient } from '@/services/api-client';
+
+jest.mock('@/logger', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  };
+  return {
+    __esModule: true,
+    default: mockLogger,
+  };
+});
+
+jest.mock('@/services/api-client', () => ({
+  apiClient: {
+    post: jest.fn(),
+    setAccessToken: jest.fn(),
+  },
+}));
+
+describe('AuthService', () => {
+  const session = {
+    user: { id: 'user-1', username: 'alice' },
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token-2',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.localStorage.setItem('chime.refreshToken', 'refresh-token-1');
+  });
+
+  it('should share one refresh between callers refreshing at once', async () => {
+    (apiClient.post as jest.Mock).mockResolvedValue({
+      data: session,
+      status: 200,
+    });
+
+    const [first, second] = await Promise.all([
+      authService.refresh(),
+      authService.refresh(),
+    ]);
+
+    // The refresh token is spent on first use, so a second request would fail
+    expect(apiClient.post).toHaveBeenCalledTimes(1);
+    expect(first.data?.accessToken).toBe('access-token');
+    expect(second).toBe(first);
+    expect(window.localStorage.getItem('chime.refreshToken')).toBe(
+      'refresh-token-2'
+    );
+  });
+
+  it('should refresh again once the previous refresh finished', async () => {
+    (apiClient.post as jest.Mock).mockResolvedValue({
+      data: session,
+      status: 200,
+    });
+
+    await authService.refresh();
+    await authService.refresh();
+
+    expect(apiClient.post).toHaveBeenCalledTimes(2);
+  });
+});
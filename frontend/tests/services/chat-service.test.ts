@@ -1,6 +1,7 @@
-import { chatService } from '@/services/chat-service';
+import { chatService, reconnectDelay } from '@/services/chat-service';
 import ChimeChatClient from '@/services/ChimeClient';
 import { apiService } from '@/services/api-service';
+import { authService } from '@/services/auth-service';
 
 // Mock the logger
 jest.mock('@/logger', () => {
@@ -38,6 +39,13 @@ jest.mock('@/services/api-service', () => ({
   },
 }));
 
+// Mock the session the access token is refreshed from
+jest.mock('@/services/auth-service', () => ({
+  authService: {
+    refresh: jest.fn(),
+  },
+}));
+
 // Mock fetch for config endpoint
 global.fetch = jest.fn();
 
@@ -51,10 +59,14 @@ describe('ChatService', () => {
     (chatService as any).client = null;
     (chatService as any).isInitialized = false;
     (chatService as any).reconnectAttempts = 0;
+    (chatService as any).reconnectTimeout = null;
+    (chatService as any).reconnectStatus = null;
+    chatService.setAuthToken('test-token');
 
     // Create mock client
     mockClient = {
       connect: jest.fn(),
+      reconnect: jest.fn(),
       sendChatMessage: jest.fn(),
       sendMessage: jest.fn(),
       disconnect: jest.fn(),
@@ -74,6 +86,15 @@ describe('ChatService', () => {
   });
 
   describe('initialization', () => {
+    it('should refuse to initialize without an access token', async () => {
+      chatService.setAuthToken(null);
+
+      await expect(chatService.initialize()).rejects.toThrow(
+        'Not authenticated'
+      );
+      expect(ChimeChatClient).not.toHaveBeenCalled();
+    });
+
     beforeEach(() => {
       // Mock successful config fetch
       (global.fetch as jest.Mock).mockResolvedValue({
@@ -91,28 +112,30 @@ describe('ChatService', () => {
       });
 
       // Mock successful channel fetch
-      (apiService.channels.getChannelsByServer as jest.Mock).mockResolvedValue({
-        data: [{ name: 'api-channel1' }, { name: 'api-channel2' }],
-      });
+      (apiService.channels.getChannelsByServer as jest.Mock).mockImplementation(
+        async (serverId: string) => ({
+          data: [
+            { id: `${serverId}-channel1`, name: 'general' },
+            { id: `${serverId}-channel2`, name: 'random' },
+          ],
+        })
+      );
 
       mockClient.connect.mockResolvedValue();
     });
 
-    it('should initialize successfully with user channels', async () => {
+    it('should initialize successfully with the IDs of user channels', async () => {
       await chatService.initialize();
 
       expect(ChimeChatClient).toHaveBeenCalledWith('ws://localhost:3141/ws');
       expect(mockClient.setHandlers).toHaveBeenCalled();
-      expect(mockClient.connect).toHaveBeenCalledWith(
-        expect.arrayContaining([
-          'general',
-          'random',
-          'dev',
-          'announcements',
-          'api-channel1',
-          'api-channel2',
-        ])
-      );
+      // Names and the servers' own channel lists do not grant access
+      expect(mockClient.connect).toHaveBeenCalledWith('test-token', [
+        'server1-channel1',
+        'server1-channel2',
+        'server2-channel1',
+        'server2-channel2',
+      ]);
       expect(chatService.isConnected()).toBe(false); // Mock returns false by default
     });
 
@@ -135,7 +158,9 @@ describe('ChatService', () => {
 
       await chatService.initialize();
 
-      expect(mockClient.connect).toHaveBeenCalledWith(['general']);
+      expect(mockClient.connect).toHaveBeenCalledWith('test-token', [
+        'general',
+      ]);
     });
 
     it('should not reinitialize if already initialized', async () => {
@@ -157,23 +182,13 @@ describe('ChatService', () => {
     });
 
     it('should deduplicate channels from multiple sources', async () => {
-      (apiService.servers.getAllServers as jest.Mock).mockResolvedValue({
-        data: [
-          { id: 'server1', channels: ['general', 'random'] },
-          { id: 'server2', channels: ['general', 'dev'] }, // Duplicate 'general'
-        ],
-        error: null,
-      });
-
       (apiService.channels.getChannelsByServer as jest.Mock).mockResolvedValue({
-        data: [{ name: 'general' }, { name: 'api-only' }], // Another duplicate 'general'
+        data: [{ id: 'shared', name: 'general' }], // Same channel for both servers
       });
 
       await chatService.initialize();
 
-      expect(mockClient.connect).toHaveBeenCalledWith(
-        expect.arrayContaining(['general', 'random', 'dev', 'api-only'])
-      );
+      expect(mockClient.connect).toHaveBeenCalledWith('test-token', ['shared']);
     });
   });
 
@@ -198,7 +213,37 @@ describe('ChatService', () => {
 
       expect(mockClient.sendChatMessage).toHaveBeenCalledWith(
         'general',
-        'Hello world'
+        'Hello world',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should return the nonce the client sent the message with', () => {
+      mockClient.sendChatMessage.mockReturnValue('nonce-1');
+
+      expect(chatService.sendMessage('general', 'Hello world')).toBe('nonce-1');
+    });
+
+    it('should retry under the same nonce', () => {
+      chatService.sendMessage('general', 'Hello world', undefined, 'nonce-1');
+
+      expect(mockClient.sendChatMessage).toHaveBeenCalledWith(
+        'general',
+        'Hello world',
+        undefined,
+        'nonce-1'
+      );
+    });
+
+    it('should send replies with their parent message ID', () => {
+      chatService.sendMessage('general', 'Agreed', '42');
+
+      expect(mockClient.sendChatMessage).toHaveBeenCalledWith(
+        'general',
+        'Agreed',
+        '42',
+        undefined
       );
     });
 
@@ -403,6 +448,10 @@ describe('ChatService', () => {
         error: null,
       });
       mockClient.connect.mockResolvedValue();
+      (authService.refresh as jest.Mock).mockResolvedValue({
+        data: { accessToken: 'fresh-token' },
+        status: 200,
+      });
 
       await chatService.initialize();
     });
@@ -411,63 +460,89 @@ describe('ChatService', () => {
       jest.useRealTimers();
     });
 
-    it('should attempt reconnection on connection errors', async () => {
+    it('should reconnect the same client on connection errors', async () => {
       const clientHandlers = mockClient.setHandlers.mock.calls[0][0];
-
-      // Ensure mock API calls are set up for reconnection
-      (global.fetch as jest.Mock).mockResolvedValue({
-        ok: true,
-        json: async () => ({ websocket: { url: 'ws://localhost:3141/ws' } }),
-      });
-      (apiService.servers.getAllServers as jest.Mock).mockResolvedValue({
-        data: [],
-        error: null,
-      });
-
-      // Reset connect mock for reconnection
-      mockClient.connect.mockClear();
-      mockClient.connect.mockResolvedValue();
+      mockClient.reconnect.mockResolvedValue();
 
       // Trigger connection error
-      clientHandlers.onError('Connection failed');
+      clientHandlers.onError!('Connection failed');
 
       // Verify reconnection timeout was set
       expect((chatService as any).reconnectTimeout).toBeTruthy();
 
-      // Use runAllTimers to run all pending timers
-      jest.runAllTimers();
+      await jest.runAllTimersAsync();
 
-      // Wait for microtasks to complete
-      await Promise.resolve();
-
-      expect(ChimeChatClient).toHaveBeenCalledTimes(2); // Original + reconnection
+      expect(mockClient.reconnect).toHaveBeenCalledWith('fresh-token');
+      expect(ChimeChatClient).toHaveBeenCalledTimes(1);
     });
 
-    it('should use exponential backoff for reconnections', async () => {
+    it('should reconnect with a fresh token once the first has expired', async () => {
       const clientHandlers = mockClient.setHandlers.mock.calls[0][0];
+      // The token we connected with has expired since
+      expect(mockClient.connect).toHaveBeenCalledWith(
+        'test-token',
+        expect.any(Array)
+      );
+      mockClient.reconnect.mockImplementation(async token => {
+        if (token === 'test-token') {
+          throw new Error('Invalid token');
+        }
+      });
 
-      // Mock failed reconnections
-      mockClient.connect.mockRejectedValue(new Error('Still failing'));
+      clientHandlers.onDisconnected!();
+      await jest.advanceTimersByTimeAsync(30000);
 
-      // Trigger multiple failures
-      clientHandlers.onDisconnected();
+      expect(authService.refresh).toHaveBeenCalledTimes(1);
+      expect(mockClient.reconnect).toHaveBeenCalledTimes(1);
+      expect(mockClient.reconnect).toHaveBeenCalledWith('fresh-token');
+    });
+
+    it('should refresh the token again before every attempt', async () => {
+      const clientHandlers = mockClient.setHandlers.mock.calls[0][0];
+      (authService.refresh as jest.Mock)
+        .mockResolvedValueOnce({ error: 'Network error', status: 0 })
+        .mockResolvedValueOnce({
+          data: { accessToken: 'second-token' },
+          status: 200,
+        });
+      mockClient.reconnect.mockResolvedValue();
+
+      clientHandlers.onDisconnected!();
+      // The first attempt waits at most a second
+      await jest.advanceTimersByTimeAsync(1000);
+      // It could not get a token, so it never tried the socket
+      expect(authService.refresh).toHaveBeenCalledTimes(1);
+      expect(mockClient.reconnect).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(authService.refresh).toHaveBeenCalledTimes(2);
+      expect(mockClient.reconnect).toHaveBeenCalledWith('second-token');
+    });
 
-      // First attempt at 1000ms
-      jest.advanceTimersByTime(1000);
-      await Promise.resolve();
-      await Promise.resolve();
+    it('should keep retrying until attempts run out', async () => {
+      const clientHandlers = mockClient.setHandlers.mock.calls[0][0];
+      mockClient.reconnect.mockRejectedValue(new Error('Still failing'));
+
+      clientHandlers.onDisconnected!();
 
-      // Second attempt at 2000ms
-      jest.advanceTimersByTime(2000);
-      await Promise.resolve();
-      await Promise.resolve();
+      // Each delay is at most the 30s cap
+      for (let attempt = 0; attempt < 12; attempt++) {
+        await jest.advanceTimersByTimeAsync(30000);
+      }
 
-      // Third attempt at 4000ms
-      jest.advanceTimersByTime(4000);
-      await Promise.resolve();
-      await Promise.resolve();
+      expect(mockClient.reconnect).toHaveBeenCalledTimes(10);
+      expect((chatService as any).reconnectStatus).toEqual({
+        attempt: 10,
+        maxAttempts: 10,
+        delayMs: null,
+      });
+    });
 
-      expect(ChimeChatClient).toHaveBeenCalledTimes(4); // Original + 3 reconnection attempts
+    it('should back off exponentially with jitter', () => {
+      expect(reconnectDelay(1, () => 0)).toBe(500);
+      expect(reconnectDelay(1, () => 1)).toBe(1000);
+      expect(reconnectDelay(3, () => 0.5)).toBe(3000);
+      expect(reconnectDelay(20, () => 1)).toBe(30000);
     });
   });
 });
@@ -0,0 +1,224 @@
+import ChimeClient, { ChimeClientHandlers } from '@/services/ChimeClient';
+import { chatService } from '@/services/chat-service';
+import { WebSocketTransportHandlers } from '@/services/websocket/WebsocketTransport';
+
+// Mock the logger
+jest.mock('@/logger', () => {
+  const mockLogger = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+    child: jest.fn().mockReturnValue({
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    }),
+  };
+  return {
+    __esModule: true,
+    default: mockLogger,
+  };
+});
+
+// Mock API service; without servers the chat service joins 'general'
+jest.mock('@/services/api-service', () => ({
+  apiService: {
+    servers: {
+      getAllServers: jest
+        .fn()
+        .mockResolvedValue({ data: null, error: 'API error' }),
+    },
+    channels: {
+      getChannelsByServer: jest.fn(),
+    },
+  },
+}));
+
+// Reconnects refresh the access token first
+jest.mock('@/services/auth-service', () => ({
+  authService: {
+    refresh: jest
+      .fn()
+      .mockResolvedValue({ data: { accessToken: 'test-token' }, status: 200 }),
+  },
+}));
+
+// Mock the transport, keeping hold of the handlers the client gives it
+const mockTransport = {
+  connect: jest.fn(),
+  send: jest.fn(),
+  disconnect: jest.fn(),
+  drop: jest.fn(),
+  getState: jest.fn(),
+  isConnected: jest.fn(),
+};
+let mockTransportHandlers: WebSocketTransportHandlers;
+
+jest.mock('@/services/websocket/WebsocketTransport', () => ({
+  ...jest.requireActual('@/services/websocket/WebsocketTransport'),
+  WebSocketTransport: jest
+    .fn()
+    .mockImplementation(
+      (_url: string, handlers: WebSocketTransportHandlers) => {
+        mockTransportHandlers = handlers;
+        return mockTransport;
+      }
+    ),
+}));
+
+// As in ChimeClient
+const HEARTBEAT_INTERVAL_MS = 25000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+
+const receive = (message: object) =>
+  mockTransportHandlers.onMessage(JSON.stringify(message));
+
+const connected = (features: string[] = ['heartbeat']) =>
+  receive({
+    type: 'connected',
+    userId: 'user-1',
+    channels: ['general'],
+    protocolVersion: 2,
+    features,
+  });
+
+const sent = () =>
+  mockTransport.send.mock.calls.map(([data]) => JSON.parse(data as string));
+
+const pings = () => sent().filter(message => message.type === 'ping');
+
+describe('ChimeClient heartbeat', () => {
+  let client: ChimeClient;
+  let handlers: jest.Mocked<ChimeClientHandlers>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+
+    let open = true;
+    mockTransport.connect.mockImplementation(async () => {
+      open = true;
+    });
+    mockTransport.isConnected.mockImplementation(() => open);
+    // A dropped socket reports its close right away
+    mockTransport.drop.mockImplementation(() => {
+      open = false;
+      mockTransportHandlers.onClose();
+    });
+
+    handlers = { onDisconnected: jest.fn() };
+    client = new ChimeClient('ws://localhost:3143');
+    client.setHandlers(handlers);
+    await client.connect('test-token', ['general']);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('should ping servers that support heartbeats every interval', () => {
+    connected();
+
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    expect(pings()).toHaveLength(1);
+
+    receive({ type: 'pong' });
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    expect(pings()).toHaveLength(2);
+  });
+
+  it('should not ping servers without the heartbeat feature', () => {
+    connected(['acks']);
+
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+
+    expect(pings()).toHaveLength(0);
+    expect(mockTransport.drop).not.toHaveBeenCalled();
+  });
+
+  it('should keep the connection while the server answers', () => {
+    connected();
+
+    for (let i = 0; i < 3; i++) {
+      jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+      receive({ type: 'pong' });
+    }
+    jest.advanceTimersByTime(HEARTBEAT_TIMEOUT_MS);
+
+    expect(mockTransport.drop).not.toHaveBeenCalled();
+  });
+
+  it('should drop the connection when a pong is missed', () => {
+    connected();
+
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS + HEARTBEAT_TIMEOUT_MS - 1);
+    expect(mockTransport.drop).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(mockTransport.drop).toHaveBeenCalledTimes(1);
+    expect(handlers.onDisconnected).toHaveBeenCalledTimes(1);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should stop pinging once disconnected', () => {
+    connected();
+    client.disconnect();
+
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+
+    expect(pings()).toHaveLength(0);
+  });
+});
+
+describe('ChatService reconnect after a missed heartbeat', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+
+    chatService.shutdown();
+    chatService.setAuthToken('test-token');
+
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({ websocket: { url: 'ws://localhost:3143' } }),
+    });
+
+    let open = false;
+    mockTransport.connect.mockImplementation(async () => {
+      open = true;
+    });
+    mockTransport.isConnected.mockImplementation(() => open);
+    mockTransport.drop.mockImplementation(() => {
+      open = false;
+      mockTransportHandlers.onClose();
+    });
+  });
+
+  afterEach(() => {
+    chatService.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('should reconnect and rejoin its channels', async () => {
+    await chatService.initialize();
+    connected();
+    expect(mockTransport.connect).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(
+      HEARTBEAT_INTERVAL_MS + HEARTBEAT_TIMEOUT_MS
+    );
+    expect(mockTransport.drop).toHaveBeenCalledTimes(1);
+
+    // The first retry waits at most the base backoff of one second
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockTransport.connect).toHaveBeenCalledTimes(2);
+    const handshakes = sent().filter(message => message.type === 'connect');
+    expect(handshakes).toHaveLength(2);
+    expect(handshakes[1].config.channels).toEqual(['general']);
+  });
+});
@@ -96,13 +96,13 @@ describe('ChimeClient', () => {
       mockTransport.connect.mockResolvedValue();
       mockTransport.isConnected.mockReturnValue(true);
 
-      await client.connect(userChannels);
+      await client.connect('test-token', userChannels);
 
       expect(mockTransport.connect).toHaveBeenCalled();
       expect(mockTransport.send).toHaveBeenCalledWith(
         JSON.stringify({
           type: 'connect',
-          config: { channels: userChannels },
+          config: { channels: userChannels, token: 'test-token' },
         })
       );
     });
@@ -111,12 +111,12 @@ describe('ChimeClient', () => {
       mockTransport.connect.mockResolvedValue();
       mockTransport.isConnected.mockReturnValue(true);
 
-      await client.connect();
+      await client.connect('test-token');
 
       expect(mockTransport.send).toHaveBeenCalledWith(
         JSON.stringify({
           type: 'connect',
-          config: { channels: ['general'] },
+          config: { channels: ['general'], token: 'test-token' },
         })
       );
     });
@@ -125,7 +125,9 @@ describe('ChimeClient', () => {
       const error = new Error('Connection failed');
       mockTransport.connect.mockRejectedValue(error);
 
-      await expect(client.connect()).rejects.toThrow('Connection failed');
+      await expect(client.connect('test-token')).rejects.toThrow(
+        'Connection failed'
+      );
       expect(mockHandlers.onError).toHaveBeenCalledWith('Connection failed');
     });
   });
@@ -164,7 +166,7 @@ describe('ChimeClient', () => {
     it('should send generic messages', () => {
       const message: Message = {
         type: 'connect',
-        config: { channels: ['test'] },
+        config: { channels: ['test'], token: 'test-token' },
       };
 
       client.sendMessage(message);
@@ -179,7 +181,10 @@ describe('ChimeClient', () => {
         'Not connected to server'
       );
       expect(() =>
-        client.sendMessage({ type: 'connect', config: { channels: [] } })
+        client.sendMessage({
+          type: 'connect',
+          config: { channels: [], token: 'test-token' },
+        })
       ).toThrow('Not connected to server');
     });
 
@@ -280,7 +285,7 @@ describe('ChimeClient', () => {
     it('should ignore connect messages (client-to-server only)', () => {
       const connectMessage: Message = {
         type: 'connect',
-        config: { channels: ['test'] },
+        config: { channels: ['test'], token: 'test-token' },
       };
 
       transportHandlers.onMessage(JSON.stringify(connectMessage));
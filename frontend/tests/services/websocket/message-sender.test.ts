@@ -54,7 +54,7 @@ describe('MessageSender', () => {
         it('should serialize and send message through connection manager', () => {
             const message: Message = {
                 type: 'connect',
-                config: { channels: ['general'] }
+                config: { channels: ['general'], token: 'test-token' }
             };
 
             messageSender.sendMessage(message);
@@ -147,34 +147,34 @@ describe('MessageSender', () => {
         it('should send handshake with user channels', () => {
             const userChannels = ['general', 'random', 'dev'];
 
-            messageSender.sendHandshake(userChannels);
+            messageSender.sendHandshake(userChannels, 'test-token');
 
             expect(mockConnectionManager.send).toHaveBeenCalledWith(
                 JSON.stringify({
                     type: 'connect',
-                    config: { channels: userChannels }
+                    config: { channels: userChannels, token: 'test-token' }
                 })
             );
         });
 
         it('should handle empty channels array', () => {
-            messageSender.sendHandshake([]);
+            messageSender.sendHandshake([], 'test-token');
 
             expect(mockConnectionManager.send).toHaveBeenCalledWith(
                 JSON.stringify({
                     type: 'connect',
-                    config: { channels: [] }
+                    config: { channels: [], token: 'test-token' }
                 })
             );
         });
 
         it('should handle single channel', () => {
-            messageSender.sendHandshake(['general']);
+            messageSender.sendHandshake(['general'], 'test-token');
 
             expect(mockConnectionManager.send).toHaveBeenCalledWith(
                 JSON.stringify({
                     type: 'connect',
-                    config: { channels: ['general'] }
+                    config: { channels: ['general'], token: 'test-token' }
                 })
             );
         });
@@ -210,7 +210,7 @@ describe('MessageSender', () => {
             expect(() => {
                 messageSender.sendMessage({
                     type: 'connect',
-                    config: { channels: ['general'] }
+                    config: { channels: ['general'], token: 'test-token' }
                 });
             }).toThrow('Connection failed');
         });
@@ -250,7 +250,7 @@ describe('MessageSender', () => {
             mockSubscriptionHandler.getConfirmedChannels.mockReturnValue(['general', 'random']);
 
             // Send handshake
-            messageSender.sendHandshake(['general', 'random', 'dev']);
+            messageSender.sendHandshake(['general', 'random', 'dev'], 'test-token');
 
             // Send chat message
             messageSender.sendChatMessage('general', 'Hello');
@@ -0,0 +1,103 @@
+/**
+ * Version of the wire protocol spoken by this package. It only goes up for
+ * changes older peers cannot cope with; additions that are safe to ignore
+ * are announced as features instead.
+ */
+export const PROTOCOL_VERSION = 2;
+
+// Clients older than this are turned away during the handshake
+export const MIN_PROTOCOL_VERSION = 1;
+
+// What clients that predate versioning are assumed to speak
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional parts of the protocol. Clients list the ones they understand in
+ * `connect`, and the server only sends a connection the messages of
+ * features both sides agreed on.
+ */
+export const FEATURES = [
+    'edits',
+    'reactions',
+    'typing',
+    'presence',
+    'readState',
+    'offlineDelivery',
+    'acks',
+    'heartbeat'
+] as const;
+
+export type Feature = typeof FEATURES[number];
+
+/**
+ * Features clients that predate versioning are assumed to have. Frozen at
+ * what the server sent everyone before the handshake carried a feature
+ * list; features added later must be asked for.
+ */
+export const LEGACY_FEATURES: readonly Feature[] = [
+    'edits',
+    'reactions',
+    'typing',
+    'presence',
+    'readState',
+    'offlineDelivery',
+    'acks'
+];
+
+/**
+ * Message types, in either direction, that belong to a feature. Neither
+ * side sends them to a peer without it; anything not listed is part of the
+ * core protocol.
+ */
+export const FEATURE_OF_MESSAGE_TYPE: Readonly<Partial<Record<string, Feature>>> = {
+    edit: 'edits',
+    delete: 'edits',
+    messageUpdated: 'edits',
+    messageDeleted: 'edits',
+    react: 'reactions',
+    unreact: 'reactions',
+    reactionsUpdated: 'reactions',
+    typing: 'typing',
+    userTyping: 'typing',
+    setPresence: 'presence',
+    presenceQuery: 'presence',
+    presence: 'presence',
+    presenceState: 'presence',
+    markRead: 'readState',
+    readState: 'readState',
+    ackDelivery: 'offlineDelivery',
+    missedMessages: 'offlineDelivery',
+    ack: 'acks',
+    ping: 'heartbeat',
+    pong: 'heartbeat'
+};
+
+/**
+ * What the server tells a client about itself in `connected`
+ */
+export interface ServerHello {
+    protocolVersion: number;
+    features: Feature[]; // The requested features the server supports
+}
+
+export function isFeature(value: unknown): value is Feature {
+    return typeof value === 'string' && (FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * The features a connection gets: those the client asked for that this side
+ * supports, or the legacy set when it did not say
+ */
+export function negotiateFeatures(requested: readonly string[] | undefined, supported: readonly Feature[] = FEATURES): Feature[] {
+    const wanted = requested ?? LEGACY_FEATURES;
+    return supported.filter(feature => wanted.includes(feature));
+}
+
+/**
+ * Whether a peer with the given features should be sent a message of this
+ * type
+ */
+export function allowsMessageType(features: ReadonlySet<Feature>, type: string): boolean {
+    const feature = FEATURE_OF_MESSAGE_TYPE[type];
+    return !feature || features.has(feature);
+}
@@ -0,0 +1,31 @@
+/**
+ * Message IDs are 64-bit numbers, sent and stored as decimal strings:
+ * milliseconds since ID_EPOCH_MS, then a 10-bit worker ID, then a 12-bit
+ * sequence number. The chat server makes them; the API reads the time and
+ * storage bucket back out of them, so both must agree on this layout.
+ */
+export const ID_EPOCH_MS = Date.UTC(2025, 0, 1);
+
+export const WORKER_ID_BITS = 10n;
+export const SEQUENCE_BITS = 12n;
+
+// Cassandra stores message IDs as BIGINT, so none may exceed its maximum
+export const MAX_MESSAGE_ID = 2n ** 63n - 1n;
+
+/**
+ * When a message ID was generated, in milliseconds since the Unix epoch
+ */
+export function timestampOf(messageId: string): number {
+    return Number(BigInt(messageId) >> (WORKER_ID_BITS + SEQUENCE_BITS)) + ID_EPOCH_MS;
+}
+
+// Messages are stored in one partition per channel and day
+export const BUCKET_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The storage bucket holding a message: days since the Unix epoch, UTC,
+ * when its ID was generated
+ */
+export function bucketOf(messageId: string): number {
+    return Math.floor(timestampOf(messageId) / BUCKET_MS);
+}
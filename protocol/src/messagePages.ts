@@ -0,0 +1,60 @@
+import { bucketOf } from './messageIds';
+
+/**
+ * A run of a channel's messages next to a cursor: newest first, or oldest
+ * first after `after`. At most `limit` messages are returned.
+ */
+export interface MessagePageQuery {
+    channelId: string;
+    before?: string;
+    after?: string;
+    limit: number;
+}
+
+/**
+ * Runs one prepared CQL statement and returns its rows. The chat server and
+ * the API each pass their own Cassandra client in.
+ */
+export type ExecuteCql<Row> = (query: string, params: unknown[]) => Promise<Row[]>;
+
+/**
+ * Reads a page of `messages_by_bucket` rows, walking the channel's day
+ * buckets (as listed in `channel_buckets`) from the cursor outward until the
+ * page is full. Buckets beyond the cursor are skipped, and rows come back in
+ * the page's order.
+ */
+export async function readMessagePage<Row extends { [column: string]: unknown }>(
+    execute: ExecuteCql<Row>,
+    { channelId, before, after, limit }: MessagePageQuery
+): Promise<Row[]> {
+    let bucketQuery = 'SELECT bucket FROM channel_buckets WHERE channel_id = ?';
+    const bucketParams: unknown[] = [channelId];
+    let query = 'SELECT * FROM messages_by_bucket WHERE channel_id = ? AND bucket = ?';
+    const cursor: unknown[] = [];
+
+    if (after !== undefined) {
+        bucketQuery += ' AND bucket >= ? ORDER BY bucket ASC';
+        bucketParams.push(bucketOf(after));
+        query += ' AND message_id > ? ORDER BY message_id ASC';
+        cursor.push(after);
+    } else {
+        if (before !== undefined) {
+            bucketQuery += ' AND bucket <= ?';
+            bucketParams.push(bucketOf(before));
+            query += ' AND message_id < ?';
+            cursor.push(before);
+        }
+        query += ' ORDER BY message_id DESC';
+    }
+
+    query += ' LIMIT ?';
+
+    const rows: Row[] = [];
+    for (const { bucket } of await execute(bucketQuery, bucketParams)) {
+        rows.push(...await execute(query, [channelId, bucket, ...cursor, limit - rows.length]));
+        if (rows.length >= limit) {
+            break;
+        }
+    }
+    return rows;
+}
@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import { MAX_MESSAGE_ID } from './messageIds';
+
+export const MAX_ID_LENGTH = 128;
+export const MAX_CONTENT_LENGTH = 4000;
+export const MAX_EMOJI_LENGTH = 32;
+export const MAX_NONCE_LENGTH = 64;
+export const MAX_PRESENCE_QUERY = 500;
+export const MAX_SUBSCRIBE_CHANNELS = 100;
+export const MAX_ERROR_LENGTH = 1000;
+export const MAX_TOKEN_LENGTH = 8192;
+export const MAX_FEATURES = 64;
+
+const id = z.string().min(1).max(MAX_ID_LENGTH);
+
+/**
+ * A message ID in its decimal form. Anything else would fail to parse as the
+ * BIGINT it is stored as, so it is refused here rather than by the database.
+ */
+const DECIMAL_ID = /^\d{1,19}$/;
+export const MessageIdSchema = z.string()
+    .regex(DECIMAL_ID, 'Message ID must be a decimal number')
+    // zod still runs refinements after a failed check, and BigInt throws on non-digits
+    .refine(value => !DECIMAL_ID.test(value) || BigInt(value) <= MAX_MESSAGE_ID, 'Message ID is out of range');
+const messageId = MessageIdSchema;
+const content = z.string().min(1).max(MAX_CONTENT_LENGTH);
+const timestamp = z.string().min(1).max(64);
+const count = z.number().int().nonnegative();
+const channelList = z.array(id).min(1).max(MAX_SUBSCRIBE_CHANNELS);
+
+export const ConnectConfigSchema = z.object({
+    channels: channelList, // Channels user wants to subscribe to
+    token: z.string().min(1).max(MAX_TOKEN_LENGTH), // Access token issued by the API, identifies the user
+    protocolVersion: z.number().int().positive().optional(), // Missing for clients that predate versioning
+    features: z.array(z.string()).max(MAX_FEATURES).optional() // Features the client understands; unknown ones are ignored
+});
+
+/**
+ * User IDs that reacted to a message, keyed by emoji
+ */
+export const ReactionsSchema = z.record(z.string().min(1).max(MAX_EMOJI_LENGTH), z.array(id));
+
+export const ChimeMessageSchema = z.object({
+    channelId: id,
+    channelName: z.string().optional(),
+    messageId,
+    userId: id,
+    content: z.string().max(MAX_CONTENT_LENGTH),
+    createdAt: timestamp,
+    editedAt: timestamp.nullable(),
+    deletedAt: timestamp.nullable().optional(), // Set on tombstones, whose content is blanked
+    metadata: z.record(z.unknown()),
+    reactions: ReactionsSchema.optional() // Filled in on history and thread responses
+}).refine(message => message.content.length > 0 || !!message.deletedAt, {
+    message: 'Content is required unless the message was deleted',
+    path: ['content']
+});
+
+/**
+ * What clients send to post a message; the server fills in the rest
+ */
+export const ClientMessageInputSchema = z.object({
+    channelId: id,
+    content,
+    replyTo: messageId.optional(), // ID of a message in the same channel
+    nonce: z.string().min(1).max(MAX_NONCE_LENGTH).optional() // Chosen by the client and echoed in the ack or error for this send
+});
+
+/**
+ * Idle is reported by clients (e.g. a backgrounded tab); offline means no
+ * chat-server instance holds a live entry for the user
+ */
+export const PresenceStatusSchema = z.enum(['online', 'idle', 'offline']);
+
+export const PRESENCE_STATUSES = PresenceStatusSchema.options;
+
+/**
+ * A user's read position in one channel. `unread` counts messages after
+ * `lastReadId` (null if the user never read the channel); `mentions` counts
+ * the unread ones that mention the user.
+ */
+export const InboxEntrySchema = z.object({
+    lastReadId: id.nullable(),
+    unread: count,
+    mentions: count
+});
+
+const inbox = z.record(InboxEntrySchema);
+
+/**
+ * Cursor-based history query. `before` and `after` are message IDs and are
+ * mutually exclusive; with neither set the most recent page is returned.
+ */
+export const HistoryRequestSchema = z.object({
+    channelId: id,
+    before: messageId.optional(),
+    after: messageId.optional(),
+    limit: z.number().int().positive().optional()
+}).refine(request => request.before === undefined || request.after === undefined, {
+    message: 'Cannot page before and after at once',
+    path: ['after']
+});
+
+/**
+ * Asks for every reply to a message
+ */
+export const ThreadRequestSchema = z.object({
+    channelId: id,
+    messageId
+});
+
+/**
+ * Replacement content for an existing message; only its author may send one
+ */
+export const MessageEditSchema = z.object({
+    channelId: id,
+    messageId,
+    content
+});
+
+/**
+ * A message to delete; its author or a moderator may send one
+ */
+export const MessageDeletionSchema = z.object({
+    channelId: id,
+    messageId
+});
+
+/**
+ * Adds or removes the sender's reaction to a message
+ */
+export const ReactionRequestSchema = z.object({
+    channelId: id,
+    messageId,
+    emoji: z.string().min(1).max(MAX_EMOJI_LENGTH)
+});
+
+/**
+ * Machine-readable reasons on error messages, for errors clients act on
+ * rather than just display. `channel_forbidden` errors list the refused
+ * channels, comma-separated, in `details`.
+ */
+export const ErrorCodeSchema = z.enum(['channel_forbidden', 'unsupported_protocol']);
+
+/**
+ * Everything a client may send the server
+ */
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('connect'), config: ConnectConfigSchema }),
+    z.object({ type: z.literal('message'), message: ClientMessageInputSchema }),
+    z.object({ type: z.literal('edit'), edit: MessageEditSchema }),
+    z.object({ type: z.literal('delete'), deletion: MessageDeletionSchema }),
+    z.object({ type: z.literal('react'), reaction: ReactionRequestSchema }),
+    z.object({ type: z.literal('unreact'), reaction: ReactionRequestSchema }),
+    z.object({ type: z.literal('typing'), channelId: id }),
+    z.object({ type: z.literal('setPresence'), status: z.enum(['online', 'idle']) }),
+    z.object({ type: z.literal('presenceQuery'), userIds: z.array(id).max(MAX_PRESENCE_QUERY) }),
+    z.object({ type: z.literal('subscribe'), channels: channelList }),
+    z.object({ type: z.literal('unsubscribe'), channels: channelList }),
+    z.object({ type: z.literal('markRead'), channelId: id, messageId }),
+    z.object({ type: z.literal('ackDelivery'), channelId: id, messageId }),
+    z.object({ type: z.literal('history'), request: HistoryRequestSchema }),
+    z.object({ type: z.literal('thread'), request: ThreadRequestSchema }),
+    z.object({ type: z.literal('ping') }) // Answered with a pong, so clients can tell a live link from a stale one
+]);
+
+/**
+ * Everything the server may send a client
+ */
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('connected'),
+        userId: id,
+        channels: z.array(id),
+        inbox: inbox.optional(),
+        // Missing from servers that predate versioning
+        protocolVersion: z.number().int().positive().optional(),
+        features: z.array(z.string()).optional()
+    }),
+    z.object({ type: z.literal('subscribed'), channels: z.array(id), inbox: inbox.optional() }),
+    z.object({ type: z.literal('unsubscribed'), channels: z.array(id) }),
+    z.object({ type: z.literal('message'), message: ChimeMessageSchema }),
+    z.object({ type: z.literal('messageUpdated'), message: ChimeMessageSchema }),
+    z.object({ type: z.literal('messageDeleted'), message: ChimeMessageSchema }),
+    z.object({ type: z.literal('reactionsUpdated'), channelId: id, messageId: id, reactions: ReactionsSchema }),
+    z.object({ type: z.literal('userTyping'), channelId: id, userId: id, expiresInMs: count }),
+    z.object({ type: z.literal('presence'), channelId: id, userId: id, status: PresenceStatusSchema }),
+    z.object({ type: z.literal('presenceState'), statuses: z.record(PresenceStatusSchema) }),
+    z.object({ type: z.literal('readState'), channelId: id, lastReadId: id.nullable(), unread: count, mentions: count }),
+    z.object({ type: z.literal('missedMessages'), messages: z.array(ChimeMessageSchema) }),
+    z.object({ type: z.literal('ack'), nonce: z.string().min(1).max(MAX_NONCE_LENGTH), channelId: id, messageId: id }),
+    z.object({ type: z.literal('historyResponse'), channelId: id, messages: z.array(ChimeMessageSchema), hasMore: z.boolean() }),
+    z.object({ type: z.literal('threadResponse'), channelId: id, parent: ChimeMessageSchema, replies: z.array(ChimeMessageSchema) }),
+    z.object({ type: z.literal('pong') }),
+    z.object({
+        type: z.literal('error'),
+        message: z.string().min(1).max(MAX_ERROR_LENGTH),
+        details: z.string().optional(),
+        code: ErrorCodeSchema.optional(),
+        nonce: z.string().optional() // Set when the error answers a chat message
+    })
+]);
+
+export type ConnectConfig = z.infer<typeof ConnectConfigSchema>;
+export type Reactions = z.infer<typeof ReactionsSchema>;
+export type ChimeMessage = z.infer<typeof ChimeMessageSchema>;
+export type ClientMessageInput = z.infer<typeof ClientMessageInputSchema>;
+export type PresenceStatus = z.infer<typeof PresenceStatusSchema>;
+export type InboxEntry = z.infer<typeof InboxEntrySchema>;
+export type HistoryRequest = z.infer<typeof HistoryRequestSchema>;
+export type ThreadRequest = z.infer<typeof ThreadRequestSchema>;
+export type MessageEdit = z.infer<typeof MessageEditSchema>;
+export type MessageDeletion = z.infer<typeof MessageDeletionSchema>;
+export type ReactionRequest = z.infer<typeof ReactionRequestSchema>;
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+export type ParseResult<T> =
+    | { success: true, message: T }
+    | { success: false, errors: string[] };
+
+/**
+ * One line per problem, led by where it is, e.g.
+ * `message.content: String must contain at most 4000 character(s)`
+ */
+function describeIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+function parseWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): ParseResult<T> {
+    const result = schema.safeParse(data);
+    return result.success
+        ? { success: true, message: result.data }
+        : { success: false, errors: describeIssues(result.error) };
+}
+
+/**
+ * Validate a decoded message from a client; unknown fields are dropped
+ */
+export function parseClientMessage(data: unknown): ParseResult<ClientMessage> {
+    return parseWith(ClientMessageSchema, data);
+}
+
+/**
+ * Validate a decoded message from the server; unknown fields are dropped
+ */
+export function parseServerMessage(data: unknown): ParseResult<ServerMessage> {
+    return parseWith(ServerMessageSchema, data);
+}